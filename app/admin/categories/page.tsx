@@ -0,0 +1,339 @@
+'use client';
+
+// Usage: /admin/categories
+// Manage tribute categories. Global categories apply to every guild; a guild
+// can add its own or override a global one by reusing its key. Descriptions
+// are shown to the AI when it classifies a tribute photo.
+
+import { useState, useEffect, useCallback } from 'react';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+interface TributeCategory {
+  id: number;
+  guildId: string | null;
+  key: string;
+  label: string;
+  description: string;
+  defaultPoints: number;
+  sortOrder: number;
+  isActive: boolean;
+}
+
+interface NewCategoryForm {
+  guildId: string;
+  label: string;
+  description: string;
+  defaultPoints: string;
+  sortOrder: string;
+}
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+const EMPTY_FORM: NewCategoryForm = {
+  guildId: '',
+  label: '',
+  description: '',
+  defaultPoints: '1',
+  sortOrder: '100',
+};
+
+// ─── Shared style tokens ──────────────────────────────────────────────────────
+
+const INPUT_CLASS =
+  'rounded-md bg-gray-800 border border-gray-700 text-gray-100 px-3 py-2 text-sm placeholder-gray-500 focus:outline-none focus:border-amber-500 focus:ring-1 focus:ring-amber-500 transition-colors';
+
+const LABEL_CLASS = 'block text-xs font-medium text-gray-400 mb-1.5';
+
+// ─── Sub-components ───────────────────────────────────────────────────────────
+
+function CategoryRow({
+  category,
+  onUpdate,
+  onDelete,
+}: {
+  category: TributeCategory;
+  onUpdate: (id: number, updates: Partial<TributeCategory>) => Promise<void>;
+  onDelete: (category: TributeCategory) => Promise<void>;
+}) {
+  const [editing, setEditing] = useState(false);
+  const [label, setLabel] = useState(category.label);
+  const [description, setDescription] = useState(category.description);
+  const [points, setPoints] = useState(String(category.defaultPoints));
+
+  async function handleSave() {
+    await onUpdate(category.id, {
+      label: label.trim(),
+      description: description.trim(),
+      defaultPoints: Number(points) || 0,
+    });
+    setEditing(false);
+  }
+
+  return (
+    <tr className={`border-b border-gray-800/60 align-top ${category.isActive ? '' : 'opacity-50'}`}>
+      <td className="py-3 pr-4">
+        <span className="font-mono text-xs text-gray-400">{category.key}</span>
+        <div className="text-xs text-gray-600 mt-0.5">{category.guildId ? `Guild ${category.guildId}` : 'Global'}</div>
+      </td>
+      <td className="py-3 pr-4">
+        {editing ? (
+          <div className="space-y-2">
+            <input value={label} onChange={(e) => setLabel(e.target.value)} aria-label="Label" className={`${INPUT_CLASS} w-full`} />
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              aria-label="Description"
+              rows={2}
+              className={`${INPUT_CLASS} w-full`}
+            />
+          </div>
+        ) : (
+          <>
+            <div className="text-gray-200">{category.label}</div>
+            <div className="text-xs text-gray-500 mt-0.5">{category.description || '—'}</div>
+          </>
+        )}
+      </td>
+      <td className="py-3 pr-4 font-mono text-gray-300">
+        {editing ? (
+          <input
+            type="number"
+            min={0}
+            value={points}
+            onChange={(e) => setPoints(e.target.value)}
+            aria-label="Default points"
+            className={`${INPUT_CLASS} w-20`}
+          />
+        ) : (
+          category.defaultPoints
+        )}
+      </td>
+      <td className="py-3 text-right whitespace-nowrap space-x-3">
+        {editing ? (
+          <>
+            <button type="button" onClick={handleSave} className="text-xs text-amber-400 hover:text-amber-300">Save</button>
+            <button type="button" onClick={() => setEditing(false)} className="text-xs text-gray-400 hover:text-gray-200">Cancel</button>
+          </>
+        ) : (
+          <>
+            <button type="button" onClick={() => setEditing(true)} className="text-xs text-amber-400 hover:text-amber-300">Edit</button>
+            <button
+              type="button"
+              onClick={() => onUpdate(category.id, { isActive: !category.isActive })}
+              className="text-xs text-gray-400 hover:text-gray-200"
+            >
+              {category.isActive ? 'Disable' : 'Enable'}
+            </button>
+            {!(category.guildId === null && category.key === 'OTHER') && (
+              <button type="button" onClick={() => onDelete(category)} className="text-xs text-red-400 hover:text-red-300">Delete</button>
+            )}
+          </>
+        )}
+      </td>
+    </tr>
+  );
+}
+
+// ─── Page ─────────────────────────────────────────────────────────────────────
+
+export default function CategoriesPage() {
+  const [categories, setCategories] = useState<TributeCategory[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState<NewCategoryForm>(EMPTY_FORM);
+  const [creating, setCreating] = useState(false);
+
+  const fetchCategories = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/admin/categories');
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.error ?? `Request failed (${res.status})`);
+      }
+      const data: TributeCategory[] = await res.json();
+      setCategories(Array.isArray(data) ? data : []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load categories.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchCategories();
+  }, [fetchCategories]);
+
+  async function handleCreate(e: React.FormEvent) {
+    e.preventDefault();
+    if (!form.label.trim()) return;
+    setCreating(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/admin/categories', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          guildId: form.guildId.trim() || null,
+          label: form.label.trim(),
+          description: form.description.trim(),
+          defaultPoints: Number(form.defaultPoints) || 0,
+          sortOrder: Number(form.sortOrder) || 100,
+        }),
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.error ?? `Create failed (${res.status})`);
+      }
+      setForm(EMPTY_FORM);
+      await fetchCategories();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create category.');
+    } finally {
+      setCreating(false);
+    }
+  }
+
+  async function handleUpdate(id: number, updates: Partial<TributeCategory>) {
+    setError(null);
+    try {
+      const res = await fetch('/api/admin/categories', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id, ...updates }),
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.error ?? `Update failed (${res.status})`);
+      }
+      await fetchCategories();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update category.');
+    }
+  }
+
+  async function handleDelete(category: TributeCategory) {
+    if (!confirm(`Delete category "${category.label}"? Existing tributes keep the ${category.key} key.`)) return;
+    setError(null);
+    try {
+      const res = await fetch(`/api/admin/categories?id=${category.id}`, { method: 'DELETE' });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.error ?? `Delete failed (${res.status})`);
+      }
+      await fetchCategories();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete category.');
+    }
+  }
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="mb-8">
+        <h2 className="text-2xl font-bold text-gray-100">Categories</h2>
+        <p className="mt-1 text-sm text-gray-500">
+          Tribute categories the AI can pick from. Default points apply unless a guild&apos;s scoring rules
+          set a different value.
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-6 rounded-md bg-red-900/40 border border-red-700 px-4 py-3 text-sm text-red-300">
+          {error}
+        </div>
+      )}
+
+      {/* New category */}
+      <section className="mb-6 rounded-lg border border-gray-800 bg-gray-900 p-4" aria-label="Add category">
+        <form onSubmit={handleCreate} className="grid grid-cols-1 gap-3 md:grid-cols-6 items-end">
+          <div className="md:col-span-2">
+            <label htmlFor="cat-label" className={LABEL_CLASS}>Label</label>
+            <input
+              id="cat-label"
+              value={form.label}
+              onChange={(e) => setForm({ ...form, label: e.target.value })}
+              placeholder="e.g. Rum neat"
+              className={`${INPUT_CLASS} w-full`}
+            />
+          </div>
+          <div>
+            <label htmlFor="cat-points" className={LABEL_CLASS}>Points</label>
+            <input
+              id="cat-points"
+              type="number"
+              min={0}
+              value={form.defaultPoints}
+              onChange={(e) => setForm({ ...form, defaultPoints: e.target.value })}
+              className={`${INPUT_CLASS} w-full`}
+            />
+          </div>
+          <div>
+            <label htmlFor="cat-order" className={LABEL_CLASS}>Sort order</label>
+            <input
+              id="cat-order"
+              type="number"
+              value={form.sortOrder}
+              onChange={(e) => setForm({ ...form, sortOrder: e.target.value })}
+              className={`${INPUT_CLASS} w-full`}
+            />
+          </div>
+          <div className="md:col-span-2">
+            <label htmlFor="cat-guild" className={LABEL_CLASS}>Guild ID (blank = global)</label>
+            <input
+              id="cat-guild"
+              value={form.guildId}
+              onChange={(e) => setForm({ ...form, guildId: e.target.value })}
+              placeholder="Global"
+              className={`${INPUT_CLASS} w-full`}
+            />
+          </div>
+          <div className="md:col-span-5">
+            <label htmlFor="cat-description" className={LABEL_CLASS}>Description (for the AI)</label>
+            <input
+              id="cat-description"
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+              placeholder="What belongs in this category"
+              className={`${INPUT_CLASS} w-full`}
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={creating || !form.label.trim()}
+            className="rounded-md bg-amber-600 hover:bg-amber-500 disabled:opacity-50 disabled:cursor-not-allowed px-4 py-2 text-sm font-semibold text-white transition-colors"
+          >
+            {creating ? 'Adding…' : 'Add category'}
+          </button>
+        </form>
+      </section>
+
+      {/* Category list */}
+      <section className="rounded-lg border border-gray-800 bg-gray-900 p-4" aria-label="Categories">
+        {loading ? (
+          <div className="h-24 animate-pulse rounded bg-gray-800" />
+        ) : categories.length === 0 ? (
+          <p className="py-8 text-center text-sm text-gray-500">No categories stored yet.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs uppercase tracking-wider text-gray-500 border-b border-gray-800">
+                <th className="py-2 pr-4 font-medium">Key</th>
+                <th className="py-2 pr-4 font-medium">Label</th>
+                <th className="py-2 pr-4 font-medium">Points</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {categories.map((c) => (
+                <CategoryRow key={c.id} category={c} onUpdate={handleUpdate} onDelete={handleDelete} />
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -18,6 +18,14 @@ const NAV_LINKS = [
   { href: '/admin/workflows', label: 'Workflows' },
   { href: '/admin/channels', label: 'Channels' },
   { href: '/admin/events', label: 'Scheduled Events' },
+  { href: '/admin/scoring', label: 'Scoring' },
+  { href: '/admin/categories', label: 'Categories' },
+  { href: '/admin/drinks', label: 'Drinks' },
+  { href: '/admin/tributes', label: 'Tributes' },
+  { href: '/admin/disputes', label: 'Disputes' },
+  { href: '/admin/seasons', label: 'Seasons' },
+  { href: '/admin/teams', label: 'Teams' },
+  { href: '/admin/guilds', label: 'Guild Settings' },
   { href: '/admin/conversations', label: 'Conversations' },
   { href: '/admin/knowledge', label: 'Knowledge' },
   { href: '/admin/memories', label: 'User Memories' },
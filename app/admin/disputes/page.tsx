@@ -0,0 +1,351 @@
+'use client';
+
+// Usage: /admin/disputes
+// Queue of tribute disputes raised with ⚖️ reactions or /tribute dispute.
+// Approving a dispute corrects the tribute's category, drink name and score
+// (recorded in the tribute's history); rejecting leaves the tribute unchanged.
+
+import { useState, useEffect, useCallback } from 'react';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+type DisputeStatus = 'pending' | 'approved' | 'rejected';
+
+interface Dispute {
+  id: number;
+  tributeId: number;
+  guildId: string;
+  userId: string;
+  source: 'reaction' | 'command';
+  reason: string | null;
+  proposedCategory: string | null;
+  proposedDrinkName: string | null;
+  status: DisputeStatus;
+  resolvedBy: string | null;
+  resolutionNote: string | null;
+  createdAt: string;
+  resolvedAt: string | null;
+  tribute: {
+    username: string;
+    imageUrl: string | null;
+    category: string;
+    drinkName: string | null;
+    score: number;
+    isFriday: boolean;
+    createdAt: string;
+  };
+}
+
+interface TributeCategory {
+  id: number;
+  guildId: string | null;
+  key: string;
+  label: string;
+  isActive: boolean;
+}
+
+interface Resolution {
+  action: 'approve' | 'reject';
+  category?: string;
+  drinkName?: string;
+  score?: string;
+  note?: string;
+}
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+const STATUS_TABS: { value: DisputeStatus; label: string }[] = [
+  { value: 'pending', label: 'Pending' },
+  { value: 'approved', label: 'Approved' },
+  { value: 'rejected', label: 'Rejected' },
+];
+
+const STATUS_BADGE: Record<DisputeStatus, string> = {
+  pending: 'bg-amber-900/40 text-amber-300 border-amber-700',
+  approved: 'bg-green-900/40 text-green-300 border-green-700',
+  rejected: 'bg-gray-800 text-gray-400 border-gray-700',
+};
+
+// ─── Shared style tokens ──────────────────────────────────────────────────────
+
+const INPUT_CLASS =
+  'rounded-md bg-gray-800 border border-gray-700 text-gray-100 px-3 py-2 text-sm placeholder-gray-500 focus:outline-none focus:border-amber-500 focus:ring-1 focus:ring-amber-500 transition-colors';
+
+const LABEL_CLASS = 'block text-xs font-medium text-gray-400 mb-1.5';
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function categoriesForGuild(categories: TributeCategory[], guildId: string): TributeCategory[] {
+  const byKey = new Map<string, TributeCategory>();
+  for (const c of categories) if (c.guildId === null) byKey.set(c.key, c);
+  for (const c of categories) if (c.guildId === guildId) byKey.set(c.key, c);
+  return Array.from(byKey.values()).filter((c) => c.isActive);
+}
+
+// ─── Sub-components ───────────────────────────────────────────────────────────
+
+function DisputeCard({
+  dispute,
+  categories,
+  onResolve,
+}: {
+  dispute: Dispute;
+  categories: TributeCategory[];
+  onResolve: (id: number, resolution: Resolution) => Promise<void>;
+}) {
+  const [category, setCategory] = useState(dispute.proposedCategory ?? dispute.tribute.category);
+  const [drinkName, setDrinkName] = useState(dispute.proposedDrinkName ?? dispute.tribute.drinkName ?? '');
+  const [score, setScore] = useState('');
+  const [note, setNote] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const labelFor = (key: string | null) =>
+    key ? categories.find((c) => c.key === key)?.label ?? key : '—';
+
+  async function resolve(action: Resolution['action']) {
+    setBusy(true);
+    try {
+      await onResolve(dispute.id, action === 'approve'
+        ? { action, category, drinkName: drinkName.trim(), score: score.trim() || undefined, note: note.trim() }
+        : { action, note: note.trim() });
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="rounded-lg border border-gray-800 bg-gray-900 p-4 flex gap-4">
+      {dispute.tribute.imageUrl ? (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img
+          src={dispute.tribute.imageUrl}
+          alt={`Tribute #${dispute.tributeId}`}
+          className="h-32 w-32 flex-shrink-0 rounded-md object-cover bg-gray-800"
+        />
+      ) : (
+        <div className="h-32 w-32 flex-shrink-0 rounded-md bg-gray-800" />
+      )}
+
+      <div className="flex-1 min-w-0 space-y-3">
+        <div className="flex items-center gap-2 flex-wrap">
+          <span className="font-semibold text-gray-100">Tribute #{dispute.tributeId}</span>
+          <span className="text-sm text-gray-400">by {dispute.tribute.username}</span>
+          <span className={`text-xs rounded border px-1.5 py-0.5 ${STATUS_BADGE[dispute.status]}`}>{dispute.status}</span>
+          <span className="text-xs text-gray-600">
+            via {dispute.source === 'reaction' ? '⚖️ reaction' : '/tribute dispute'} · {new Date(dispute.createdAt).toLocaleString()}
+          </span>
+        </div>
+
+        <dl className="grid grid-cols-2 gap-x-6 gap-y-1 text-sm">
+          <dt className="text-gray-500">Judged</dt>
+          <dd className="text-gray-300">
+            {labelFor(dispute.tribute.category)}
+            {dispute.tribute.drinkName ? ` · ${dispute.tribute.drinkName}` : ''} · {dispute.tribute.score}pts
+            {dispute.tribute.isFriday ? ' (Friday)' : ''}
+          </dd>
+          <dt className="text-gray-500">Claimed</dt>
+          <dd className="text-gray-300">
+            {dispute.proposedCategory || dispute.proposedDrinkName
+              ? [dispute.proposedCategory && labelFor(dispute.proposedCategory), dispute.proposedDrinkName].filter(Boolean).join(' · ')
+              : '—'}
+          </dd>
+          {dispute.reason && (
+            <>
+              <dt className="text-gray-500">Reason</dt>
+              <dd className="text-gray-300">{dispute.reason}</dd>
+            </>
+          )}
+          {dispute.status !== 'pending' && (
+            <>
+              <dt className="text-gray-500">Resolved</dt>
+              <dd className="text-gray-300">
+                {dispute.resolvedBy ?? '—'}
+                {dispute.resolvedAt ? ` · ${new Date(dispute.resolvedAt).toLocaleString()}` : ''}
+                {dispute.resolutionNote ? ` — ${dispute.resolutionNote}` : ''}
+              </dd>
+            </>
+          )}
+        </dl>
+
+        {dispute.status === 'pending' && (
+          <div className="grid grid-cols-1 gap-3 md:grid-cols-5 items-end">
+            <div>
+              <label htmlFor={`category-${dispute.id}`} className={LABEL_CLASS}>Category</label>
+              <select
+                id={`category-${dispute.id}`}
+                value={category}
+                onChange={(e) => setCategory(e.target.value)}
+                className={`${INPUT_CLASS} w-full`}
+              >
+                {!categories.some((c) => c.key === category) && <option value={category}>{category}</option>}
+                {categories.map((c) => (
+                  <option key={c.key} value={c.key}>{c.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor={`drink-${dispute.id}`} className={LABEL_CLASS}>Drink name</label>
+              <input
+                id={`drink-${dispute.id}`}
+                value={drinkName}
+                onChange={(e) => setDrinkName(e.target.value)}
+                className={`${INPUT_CLASS} w-full`}
+              />
+            </div>
+            <div>
+              <label htmlFor={`score-${dispute.id}`} className={LABEL_CLASS}>Score override</label>
+              <input
+                id={`score-${dispute.id}`}
+                type="number"
+                min={0}
+                value={score}
+                onChange={(e) => setScore(e.target.value)}
+                placeholder="From rules"
+                className={`${INPUT_CLASS} w-full`}
+              />
+            </div>
+            <div>
+              <label htmlFor={`note-${dispute.id}`} className={LABEL_CLASS}>Note</label>
+              <input
+                id={`note-${dispute.id}`}
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="Optional"
+                className={`${INPUT_CLASS} w-full`}
+              />
+            </div>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                disabled={busy}
+                onClick={() => resolve('approve')}
+                className="rounded-md bg-amber-600 hover:bg-amber-500 disabled:opacity-50 px-3 py-2 text-sm font-semibold text-white transition-colors"
+              >
+                Approve
+              </button>
+              <button
+                type="button"
+                disabled={busy}
+                onClick={() => resolve('reject')}
+                className="rounded-md border border-gray-700 hover:bg-gray-800 disabled:opacity-50 px-3 py-2 text-sm text-gray-300 transition-colors"
+              >
+                Reject
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// ─── Page ─────────────────────────────────────────────────────────────────────
+
+export default function DisputesPage() {
+  const [status, setStatus] = useState<DisputeStatus>('pending');
+  const [disputes, setDisputes] = useState<Dispute[]>([]);
+  const [categories, setCategories] = useState<TributeCategory[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchDisputes = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [disputesRes, categoriesRes] = await Promise.all([
+        fetch(`/api/admin/disputes?status=${status}`),
+        fetch('/api/admin/categories'),
+      ]);
+      if (!disputesRes.ok) {
+        const body = await disputesRes.json().catch(() => ({}));
+        throw new Error(body.error ?? `Request failed (${disputesRes.status})`);
+      }
+      const data: Dispute[] = await disputesRes.json();
+      setDisputes(Array.isArray(data) ? data : []);
+      if (categoriesRes.ok) {
+        const cats: TributeCategory[] = await categoriesRes.json();
+        setCategories(Array.isArray(cats) ? cats : []);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load disputes.');
+    } finally {
+      setLoading(false);
+    }
+  }, [status]);
+
+  useEffect(() => {
+    fetchDisputes();
+  }, [fetchDisputes]);
+
+  async function handleResolve(id: number, resolution: Resolution) {
+    setError(null);
+    try {
+      const res = await fetch('/api/admin/disputes', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id, ...resolution }),
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.error ?? `Update failed (${res.status})`);
+      }
+      await fetchDisputes();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to resolve dispute.');
+    }
+  }
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="mb-8">
+        <h2 className="text-2xl font-bold text-gray-100">Disputes</h2>
+        <p className="mt-1 text-sm text-gray-500">
+          Users contesting how their tribute was classified. Approving recalculates the score from the
+          guild&apos;s scoring rules unless you enter an override.
+        </p>
+      </div>
+
+      {/* Status tabs */}
+      <div className="mb-6 flex gap-2" role="tablist">
+        {STATUS_TABS.map((tab) => (
+          <button
+            key={tab.value}
+            type="button"
+            role="tab"
+            aria-selected={status === tab.value}
+            onClick={() => setStatus(tab.value)}
+            className={`rounded-md px-3 py-1.5 text-sm transition-colors ${
+              status === tab.value ? 'bg-amber-600 text-white' : 'bg-gray-800 text-gray-400 hover:text-gray-200'
+            }`}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      {error && (
+        <div className="mb-6 rounded-md bg-red-900/40 border border-red-700 px-4 py-3 text-sm text-red-300">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="h-32 animate-pulse rounded-lg bg-gray-900" />
+      ) : disputes.length === 0 ? (
+        <p className="py-12 text-center text-sm text-gray-500">No {status} disputes.</p>
+      ) : (
+        <div className="space-y-4">
+          {disputes.map((d) => (
+            <DisputeCard
+              key={d.id}
+              dispute={d}
+              categories={categoriesForGuild(categories, d.guildId)}
+              onResolve={handleResolve}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
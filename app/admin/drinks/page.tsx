@@ -0,0 +1,364 @@
+'use client';
+
+// Usage: /admin/drinks
+// Manage the drinks catalogue. Drink names from image analysis are matched
+// against canonical names and aliases (with typo tolerance), so "Mai-Tai" and
+// "Trader Vic's Mai Tai" both count as one Mai Tai in the stats.
+
+import { useState, useEffect, useCallback } from 'react';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+interface Drink {
+  id: number;
+  canonicalName: string;
+  aliases: string[];
+  category: string | null;
+  recipe: string | null;
+  tributeCount: number;
+}
+
+interface DrinkForm {
+  canonicalName: string;
+  aliases: string;
+  category: string;
+  recipe: string;
+}
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+const EMPTY_FORM: DrinkForm = {
+  canonicalName: '',
+  aliases: '',
+  category: '',
+  recipe: '',
+};
+
+// ─── Shared style tokens ──────────────────────────────────────────────────────
+
+const INPUT_CLASS =
+  'rounded-md bg-gray-800 border border-gray-700 text-gray-100 px-3 py-2 text-sm placeholder-gray-500 focus:outline-none focus:border-amber-500 focus:ring-1 focus:ring-amber-500 transition-colors';
+
+const LABEL_CLASS = 'block text-xs font-medium text-gray-400 mb-1.5';
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function splitAliases(text: string): string[] {
+  return text.split(',').map((a) => a.trim()).filter(Boolean);
+}
+
+// ─── Sub-components ───────────────────────────────────────────────────────────
+
+function DrinkRow({
+  drink,
+  onUpdate,
+  onDelete,
+}: {
+  drink: Drink;
+  onUpdate: (id: number, updates: Partial<Drink>) => Promise<void>;
+  onDelete: (drink: Drink) => Promise<void>;
+}) {
+  const [editing, setEditing] = useState(false);
+  const [name, setName] = useState(drink.canonicalName);
+  const [aliases, setAliases] = useState(drink.aliases.join(', '));
+  const [category, setCategory] = useState(drink.category ?? '');
+  const [recipe, setRecipe] = useState(drink.recipe ?? '');
+
+  async function handleSave() {
+    await onUpdate(drink.id, {
+      canonicalName: name.trim(),
+      aliases: splitAliases(aliases),
+      category: category.trim().toUpperCase() || null,
+      recipe: recipe.trim() || null,
+    });
+    setEditing(false);
+  }
+
+  return (
+    <tr className="border-b border-gray-800/60 align-top">
+      <td className="py-3 pr-4">
+        {editing ? (
+          <div className="space-y-2">
+            <input value={name} onChange={(e) => setName(e.target.value)} aria-label="Name" className={`${INPUT_CLASS} w-full`} />
+            <textarea
+              value={recipe}
+              onChange={(e) => setRecipe(e.target.value)}
+              aria-label="Recipe"
+              placeholder="Recipe (optional)"
+              rows={2}
+              className={`${INPUT_CLASS} w-full`}
+            />
+          </div>
+        ) : (
+          <>
+            <div className="text-gray-200">{drink.canonicalName}</div>
+            {drink.recipe && <div className="text-xs text-gray-500 mt-0.5 whitespace-pre-line">{drink.recipe}</div>}
+          </>
+        )}
+      </td>
+      <td className="py-3 pr-4">
+        {editing ? (
+          <input
+            value={aliases}
+            onChange={(e) => setAliases(e.target.value)}
+            aria-label="Aliases"
+            placeholder="Comma-separated"
+            className={`${INPUT_CLASS} w-full`}
+          />
+        ) : (
+          <span className="text-xs text-gray-400">{drink.aliases.join(', ') || '—'}</span>
+        )}
+      </td>
+      <td className="py-3 pr-4">
+        {editing ? (
+          <input value={category} onChange={(e) => setCategory(e.target.value)} aria-label="Category" className={`${INPUT_CLASS} w-28`} />
+        ) : (
+          <span className="font-mono text-xs text-gray-400">{drink.category ?? '—'}</span>
+        )}
+      </td>
+      <td className="py-3 pr-4 font-mono text-gray-300">{drink.tributeCount}</td>
+      <td className="py-3 text-right whitespace-nowrap space-x-3">
+        {editing ? (
+          <>
+            <button type="button" onClick={handleSave} className="text-xs text-amber-400 hover:text-amber-300">Save</button>
+            <button type="button" onClick={() => setEditing(false)} className="text-xs text-gray-400 hover:text-gray-200">Cancel</button>
+          </>
+        ) : (
+          <>
+            <button type="button" onClick={() => setEditing(true)} className="text-xs text-amber-400 hover:text-amber-300">Edit</button>
+            <button type="button" onClick={() => onDelete(drink)} className="text-xs text-red-400 hover:text-red-300">Delete</button>
+          </>
+        )}
+      </td>
+    </tr>
+  );
+}
+
+// ─── Page ─────────────────────────────────────────────────────────────────────
+
+export default function DrinksPage() {
+  const [drinks, setDrinks] = useState<Drink[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [form, setForm] = useState<DrinkForm>(EMPTY_FORM);
+  const [creating, setCreating] = useState(false);
+  const [relinking, setRelinking] = useState(false);
+
+  const fetchDrinks = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/admin/drinks');
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.error ?? `Request failed (${res.status})`);
+      }
+      const data: Drink[] = await res.json();
+      setDrinks(Array.isArray(data) ? data : []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load drinks.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchDrinks();
+  }, [fetchDrinks]);
+
+  async function handleCreate(e: React.FormEvent) {
+    e.preventDefault();
+    if (!form.canonicalName.trim()) return;
+    setCreating(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/admin/drinks', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          canonicalName: form.canonicalName.trim(),
+          aliases: splitAliases(form.aliases),
+          category: form.category.trim().toUpperCase() || null,
+          recipe: form.recipe.trim() || null,
+        }),
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.error ?? `Create failed (${res.status})`);
+      }
+      setForm(EMPTY_FORM);
+      await fetchDrinks();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create drink.');
+    } finally {
+      setCreating(false);
+    }
+  }
+
+  async function handleUpdate(id: number, updates: Partial<Drink>) {
+    setError(null);
+    try {
+      const res = await fetch('/api/admin/drinks', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id, ...updates }),
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.error ?? `Update failed (${res.status})`);
+      }
+      await fetchDrinks();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update drink.');
+    }
+  }
+
+  async function handleDelete(drink: Drink) {
+    if (!confirm(`Delete "${drink.canonicalName}"? ${drink.tributeCount} tribute(s) keep the name but lose the link.`)) return;
+    setError(null);
+    try {
+      const res = await fetch(`/api/admin/drinks?id=${drink.id}`, { method: 'DELETE' });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.error ?? `Delete failed (${res.status})`);
+      }
+      await fetchDrinks();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete drink.');
+    }
+  }
+
+  async function handleRelink() {
+    setRelinking(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const res = await fetch('/api/admin/drinks', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'relink' }),
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(body.error ?? `Relink failed (${res.status})`);
+      setNotice(`Linked ${body.linked} tribute(s) to the catalogue.`);
+      await fetchDrinks();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to link tributes.');
+    } finally {
+      setRelinking(false);
+    }
+  }
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="mb-8 flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-100">Drinks</h2>
+          <p className="mt-1 text-sm text-gray-500">
+            Canonical drink names and their aliases. A drink&apos;s category is used when the AI can only say
+            Other.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={handleRelink}
+          disabled={relinking}
+          className="rounded-md border border-gray-700 hover:border-amber-500 disabled:opacity-50 px-3 py-2 text-sm text-gray-300 transition-colors"
+        >
+          {relinking ? 'Linking…' : 'Link unmatched tributes'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-6 rounded-md bg-red-900/40 border border-red-700 px-4 py-3 text-sm text-red-300">
+          {error}
+        </div>
+      )}
+      {notice && (
+        <div className="mb-6 rounded-md bg-green-900/30 border border-green-700 px-4 py-3 text-sm text-green-300">
+          {notice}
+        </div>
+      )}
+
+      {/* New drink */}
+      <section className="mb-6 rounded-lg border border-gray-800 bg-gray-900 p-4" aria-label="Add drink">
+        <form onSubmit={handleCreate} className="grid grid-cols-1 gap-3 md:grid-cols-6 items-end">
+          <div className="md:col-span-2">
+            <label htmlFor="drink-name" className={LABEL_CLASS}>Name</label>
+            <input
+              id="drink-name"
+              value={form.canonicalName}
+              onChange={(e) => setForm({ ...form, canonicalName: e.target.value })}
+              placeholder="e.g. Jungle Bird"
+              className={`${INPUT_CLASS} w-full`}
+            />
+          </div>
+          <div className="md:col-span-3">
+            <label htmlFor="drink-aliases" className={LABEL_CLASS}>Aliases (comma-separated)</label>
+            <input
+              id="drink-aliases"
+              value={form.aliases}
+              onChange={(e) => setForm({ ...form, aliases: e.target.value })}
+              placeholder="e.g. Junglebird"
+              className={`${INPUT_CLASS} w-full`}
+            />
+          </div>
+          <div>
+            <label htmlFor="drink-category" className={LABEL_CLASS}>Category key</label>
+            <input
+              id="drink-category"
+              value={form.category}
+              onChange={(e) => setForm({ ...form, category: e.target.value })}
+              placeholder="TIKI"
+              className={`${INPUT_CLASS} w-full`}
+            />
+          </div>
+          <div className="md:col-span-5">
+            <label htmlFor="drink-recipe" className={LABEL_CLASS}>Recipe (optional)</label>
+            <input
+              id="drink-recipe"
+              value={form.recipe}
+              onChange={(e) => setForm({ ...form, recipe: e.target.value })}
+              className={`${INPUT_CLASS} w-full`}
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={creating || !form.canonicalName.trim()}
+            className="rounded-md bg-amber-600 hover:bg-amber-500 disabled:opacity-50 disabled:cursor-not-allowed px-4 py-2 text-sm font-semibold text-white transition-colors"
+          >
+            {creating ? 'Adding…' : 'Add drink'}
+          </button>
+        </form>
+      </section>
+
+      {/* Drink list */}
+      <section className="rounded-lg border border-gray-800 bg-gray-900 p-4" aria-label="Drinks">
+        {loading ? (
+          <div className="h-24 animate-pulse rounded bg-gray-800" />
+        ) : drinks.length === 0 ? (
+          <p className="py-8 text-center text-sm text-gray-500">No drinks stored yet.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs uppercase tracking-wider text-gray-500 border-b border-gray-800">
+                <th className="py-2 pr-4 font-medium">Drink</th>
+                <th className="py-2 pr-4 font-medium">Aliases</th>
+                <th className="py-2 pr-4 font-medium">Category</th>
+                <th className="py-2 pr-4 font-medium">Tributes</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {drinks.map((d) => (
+                <DrinkRow key={d.id} drink={d} onUpdate={handleUpdate} onDelete={handleDelete} />
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -13,10 +13,15 @@ interface ScheduledEvent {
   threadId: string;
   guildName: string | null;
   channelName: string | null;
-  cronExpression: string;
+  cronExpression: string | null;
+  runAt: string | null;
+  /** The cron schedule in words */
+  schedule: string | null;
+  nextRunAt: string | null;
   eventType: string;
   payload: Record<string, unknown>;
   timezone: string;
+  catchUpPolicy: CatchUpPolicy;
   isActive: boolean;
   lastRunAt: string | null;
   lastRunStatus: 'success' | 'failed' | null;
@@ -25,18 +30,97 @@ interface ScheduledEvent {
   updatedAt: string;
 }
 
+type CatchUpPolicy = 'skip' | 'once' | 'all';
+
+interface EventRun {
+  id: number;
+  scheduledFor: string | null;
+  trigger: 'schedule' | 'catch_up' | 'manual';
+  status: 'success' | 'failed' | 'skipped';
+  error: string | null;
+  startedAt: string;
+  finishedAt: string | null;
+}
+
+interface CronPreview {
+  valid: boolean;
+  error: string | null;
+  description: string | null;
+  nextRuns: string[];
+}
+
+type BlackoutKind = 'dates' | 'yearly' | 'holidays';
+
+interface Blackout {
+  id: number;
+  name: string;
+  guildId: string | null;
+  kind: BlackoutKind;
+  startsOn: string | null;
+  endsOn: string | null;
+  region: string | null;
+  createdBy: string | null;
+  createdAt: string;
+}
+
+interface BlackoutDay {
+  date: string;
+  blackoutId: number;
+  name: string;
+}
+
+interface BlackoutData {
+  blackouts: Blackout[];
+  days: BlackoutDay[];
+  regions: Record<string, string>;
+}
+
+interface BlackoutDraft {
+  name: string;
+  guildId: string;
+  kind: BlackoutKind;
+  /** date input values; only the month and day are kept for yearly blackouts */
+  startsOn: string;
+  endsOn: string;
+  region: string;
+}
+
 interface PayloadDraft {
   message: string;
   prompt: string;
   includeLeaderboard: boolean;
   includeTributeCount: boolean;
+  period: string;
+  topN: string;
+  mentionNonParticipants: boolean;
+  windowHours: string;
+  highlights: boolean;
+  minMessages: string;
+  periodDays: string;
   mentionRole: string;
+  /** Comma-separated user IDs */
+  mentionUsers: string;
+  embed: boolean;
+  embedTitle: string;
+  embedColor: string;
+  embedFooter: string;
+  embedImageUrl: string;
+  /** Image URLs, one per line */
+  attachments: string;
+  rsvp: boolean;
+  rsvpLabel: string;
+  /** Link buttons, one "Label | https://..." per line */
+  linkButtons: string;
 }
 
 interface EditDraft {
   name: string;
+  once: boolean;
   cronExpression: string;
+  /** datetime-local value, in the event's timezone */
+  runAt: string;
   timezone: string;
+  catchUpPolicy: CatchUpPolicy;
   eventType: string;
   description: string;
   payload: PayloadDraft;
@@ -45,9 +129,12 @@ interface EditDraft {
 interface CreateDraft {
   name: string;
   threadId: string;
+  once: boolean;
   cronExpression: string;
+  runAt: string;
   eventType: string;
   timezone: string;
+  catchUpPolicy: CatchUpPolicy;
   description: string;
   guildName: string;
   channelName: string;
@@ -64,6 +151,7 @@ const EVENT_TYPE_LABELS: Record<string, { label: string; color: string }> = {
   ai_prompt:        { label: 'AI Prompt',         color: 'bg-purple-900/40 text-purple-400 border-purple-700/50' },
   status_report:    { label: 'Status Report',     color: 'bg-green-900/40 text-green-400 border-green-700/50' },
   channel_summary:  { label: 'Channel Summary',   color: 'bg-cyan-900/40 text-cyan-400 border-cyan-700/50' },
+  team_standings:   { label: 'Team Standings',    color: 'bg-rose-900/40 text-rose-400 border-rose-700/50' },
 };
 
 const EVENT_TYPES = Object.keys(EVENT_TYPE_LABELS);
@@ -76,6 +164,24 @@ const CRON_PRESETS: { label: string; value: string; description: string }[] = [
   { label: 'Mon 10:00',      value: '0 10 * * 1',   description: 'Every Monday at 10:00' },
 ];
 
+const CATCH_UP_LABELS: Record<CatchUpPolicy, string> = {
+  skip: 'Skip missed runs',
+  once: 'Run once, late',
+  all:  'Run every missed run',
+};
+
+const RUN_STATUS_STYLES: Record<EventRun['status'], { dot: string; text: string }> = {
+  success: { dot: 'bg-green-500', text: 'text-green-400' },
+  failed:  { dot: 'bg-red-500',   text: 'text-red-400' },
+  skipped: { dot: 'bg-gray-500',  text: 'text-gray-400' },
+};
+
+const RUN_TRIGGER_LABELS: Record<EventRun['trigger'], string> = {
+  schedule: 'on schedule',
+  catch_up: 'catch-up',
+  manual:   'manual',
+};
+
 const COMMON_TIMEZONES = [
   'Europe/Stockholm',
   'Europe/London',
@@ -87,6 +193,23 @@ const COMMON_TIMEZONES = [
   'UTC',
 ];
 
+const BLACKOUT_KIND_LABELS: Record<BlackoutKind, string> = {
+  dates:    'Date range',
+  yearly:   'Every year',
+  holidays: 'Public holidays',
+};
+
+const WEEKDAY_HEADERS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const EMPTY_BLACKOUT: BlackoutDraft = {
+  name: '',
+  guildId: '',
+  kind: 'dates',
+  startsOn: '',
+  endsOn: '',
+  region: 'SE',
+};
+
 const INPUT_CLS = 'bg-gray-800 border border-gray-700 text-gray-200 rounded px-3 py-2 text-sm w-full focus:outline-none focus:border-gray-500';
 const SELECT_CLS = `${INPUT_CLS} cursor-pointer`;
 const TEXTAREA_CLS = `${INPUT_CLS} resize-y min-h-[80px]`;
@@ -98,40 +221,57 @@ const EMPTY_PAYLOAD: PayloadDraft = {
   prompt: '',
   includeLeaderboard: false,
   includeTributeCount: false,
+  period: 'week',
+  topN: '',
+  mentionNonParticipants: false,
+  windowHours: '',
+  highlights: false,
+  minMessages: '',
+  periodDays: '',
   mentionRole: '',
+  mentionUsers: '',
+  embed: false,
+  embedTitle: '',
+  embedColor: '',
+  embedFooter: '',
+  embedImageUrl: '',
+  attachments: '',
+  rsvp: false,
+  rsvpLabel: '',
+  linkButtons: '',
 };
 
 // ---------------------------------------------------------------------------
 // Pure helpers
 // ---------------------------------------------------------------------------
 
-/** Simple cron-to-English description */
-function describeCron(cron: string, tz: string): string {
-  const parts = cron.trim().split(/\s+/);
-  if (parts.length !== 5) return cron;
-  const [minute, hour, , , weekday] = parts;
-  const days = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+function shortTimezone(tz: string): string {
+  return tz.replace('Europe/', '').replace('America/', '');
+}
 
-  let desc = '';
-  if (hour !== '*' && minute !== '*') {
-    desc += `${hour.padStart(2, '0')}:${minute.padStart(2, '0')}`;
-  }
+/** datetime-local value for an instant, as wall-clock time in a timezone */
+function toZonedInput(iso: string, tz: string): string {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone: tz,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(new Date(iso));
+  const get = (type: string) => parts.find((p) => p.type === type)?.value ?? '';
+  return `${get('year')}-${get('month')}-${get('day')}T${get('hour')}:${get('minute')}`;
+}
 
-  if (weekday !== '*') {
-    if (weekday.includes('-')) {
-      const [start, end] = weekday.split('-').map(Number);
-      desc += ` ${days[start]}–${days[end]}`;
-    } else if (weekday.includes(',')) {
-      desc += ` ${weekday.split(',').map((d) => days[Number(d)]).join(', ')}`;
-    } else {
-      desc += ` every ${days[Number(weekday)]}`;
-    }
-  } else {
-    desc += ' daily';
-  }
+function describeRunAt(iso: string, tz: string): string {
+  const when = new Date(iso).toLocaleString(undefined, { timeZone: tz, dateStyle: 'medium', timeStyle: 'short' });
+  return `once, ${when} (${shortTimezone(tz)})`;
+}
 
-  const shortTz = tz.replace('Europe/', '').replace('America/', '');
-  return `${desc.trim()} (${shortTz})`;
+/** Schedule fields for the API: a run time for one-off events, else the cron expression */
+function buildSchedule(draft: { once: boolean; cronExpression: string; runAt: string }): Record<string, string> {
+  return draft.once ? { runAt: draft.runAt } : { cronExpression: draft.cronExpression.trim() };
 }
 
 function timeAgo(iso: string): string {
@@ -144,9 +284,26 @@ function timeAgo(iso: string): string {
   return `${Math.floor(hours / 24)}d ago`;
 }
 
+function timeUntil(iso: string): string {
+  const diff = new Date(iso).getTime() - Date.now();
+  const mins = Math.ceil(diff / 60000);
+  if (mins < 1) return 'now';
+  if (mins < 60) return `in ${mins}m`;
+  const hours = Math.floor(mins / 60);
+  if (hours < 24) return `in ${hours}h`;
+  return `in ${Math.floor(hours / 24)}d`;
+}
+
+function runDuration(run: EventRun): string | null {
+  if (!run.finishedAt) return null;
+  const ms = new Date(run.finishedAt).getTime() - new Date(run.startedAt).getTime();
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
 function channelDisplay(event: ScheduledEvent): string {
   if (event.channelName) return `#${event.channelName}`;
   const parts = event.threadId.split(':');
+  if (parts[1] === 'user') return `@${parts[2]}`;
   return parts[2] ? `#${parts[2]}` : event.threadId;
 }
 
@@ -154,17 +311,52 @@ function guildDisplay(event: ScheduledEvent): string {
   if (event.guildName) return event.guildName;
   const parts = event.threadId.split(':');
   if (parts[1] === 'dm') return 'DM';
+  if (parts[1] === 'user') return 'Personal reminder';
   return parts[1] ?? 'Unknown';
 }
 
+function describeBlackout(blackout: Blackout, regions: Record<string, string>): string {
+  if (blackout.kind === 'holidays') {
+    return `public holidays in ${regions[blackout.region ?? ''] ?? blackout.region}`;
+  }
+  const range = blackout.startsOn === blackout.endsOn
+    ? blackout.startsOn
+    : `${blackout.startsOn} – ${blackout.endsOn}`;
+  return blackout.kind === 'yearly' ? `every year, ${range}` : range ?? '';
+}
+
+function monthKey(year: number, month: number, day: number): string {
+  return `${year}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
 function payloadFromEvent(event: ScheduledEvent): PayloadDraft {
   const p = event.payload;
+  const embed = p.embed && typeof p.embed === 'object' ? p.embed as Record<string, unknown> : null;
+  const buttons = Array.isArray(p.buttons) ? p.buttons as Record<string, unknown>[] : [];
+  const rsvp = buttons.find((b) => b.rsvp === true);
   return {
     message:              typeof p.message === 'string' ? p.message : '',
     prompt:               typeof p.prompt  === 'string' ? p.prompt  : '',
     includeLeaderboard:   typeof p.includeLeaderboard === 'boolean' ? p.includeLeaderboard : false,
     includeTributeCount:  typeof p.includeTributeCount === 'boolean' ? p.includeTributeCount : false,
+    period:               typeof p.period === 'string' ? p.period : 'week',
+    topN:                 typeof p.topN === 'number' ? String(p.topN) : '',
+    mentionNonParticipants: p.mentionNonParticipants === true,
+    windowHours:          typeof p.windowHours === 'number' ? String(p.windowHours) : '',
+    highlights:           p.highlights === true,
+    minMessages:          typeof p.minMessages === 'number' ? String(p.minMessages) : '',
+    periodDays:           typeof p.periodDays === 'number' ? String(p.periodDays) : '',
     mentionRole:          typeof p.mentionRole === 'string' ? p.mentionRole : '',
+    mentionUsers:         Array.isArray(p.mentionUsers) ? p.mentionUsers.join(', ') : '',
+    embed:                !!embed,
+    embedTitle:           typeof embed?.title === 'string' ? embed.title : '',
+    embedColor:           typeof embed?.color === 'string' ? embed.color : '',
+    embedFooter:          typeof embed?.footer === 'string' ? embed.footer : '',
+    embedImageUrl:        typeof embed?.imageUrl === 'string' ? embed.imageUrl : '',
+    attachments:          Array.isArray(p.attachments) ? p.attachments.join('\n') : '',
+    rsvp:                 !!rsvp,
+    rsvpLabel:            typeof rsvp?.label === 'string' ? rsvp.label : '',
+    linkButtons:          buttons.filter((b) => typeof b.url === 'string').map((b) => `${b.label} | ${b.url}`).join('\n'),
   };
 }
 
@@ -175,8 +367,45 @@ function buildPayload(eventType: string, draft: PayloadDraft): Record<string, un
   if (eventType === 'status_report') {
     if (draft.includeLeaderboard) payload.includeLeaderboard = true;
     if (draft.includeTributeCount) payload.includeTributeCount = true;
+    if (draft.period !== 'week') payload.period = draft.period;
+    if (Number(draft.topN) > 0) payload.topN = Math.floor(Number(draft.topN));
+    if (draft.mentionNonParticipants) payload.mentionNonParticipants = true;
+  }
+  if (eventType === 'channel_summary') {
+    if (Number(draft.windowHours) > 0) payload.windowHours = Math.floor(Number(draft.windowHours));
+    if (draft.highlights) payload.highlights = true;
+    if (draft.minMessages !== '' && Number(draft.minMessages) >= 0) {
+      payload.minMessages = Math.floor(Number(draft.minMessages));
+    }
+  }
+  if (eventType === 'team_standings' && Number(draft.periodDays) > 0) {
+    payload.periodDays = Math.floor(Number(draft.periodDays));
   }
   if (draft.mentionRole) payload.mentionRole = draft.mentionRole;
+
+  const mentionUsers = draft.mentionUsers.split(',').map((id) => id.trim()).filter(Boolean);
+  if (mentionUsers.length > 0) payload.mentionUsers = mentionUsers;
+
+  if (draft.embed) {
+    const embed: Record<string, string> = {};
+    if (draft.embedTitle.trim()) embed.title = draft.embedTitle.trim();
+    if (draft.embedColor.trim()) embed.color = draft.embedColor.trim();
+    if (draft.embedFooter.trim()) embed.footer = draft.embedFooter.trim();
+    if (draft.embedImageUrl.trim()) embed.imageUrl = draft.embedImageUrl.trim();
+    payload.embed = embed;
+  }
+
+  const attachments = draft.attachments.split('\n').map((url) => url.trim()).filter(Boolean);
+  if (attachments.length > 0) payload.attachments = attachments;
+
+  const buttons: Record<string, unknown>[] = [];
+  if (draft.rsvp) buttons.push(draft.rsvpLabel.trim() ? { label: draft.rsvpLabel.trim(), rsvp: true } : { rsvp: true });
+  for (const line of draft.linkButtons.split('\n')) {
+    const [label, url] = line.split('|').map((part) => part.trim());
+    if (label || url) buttons.push({ label, url });
+  }
+  if (buttons.length > 0) payload.buttons = buttons;
+
   return payload;
 }
 
@@ -193,7 +422,32 @@ function CronHelper({
   timezone: string;
   onChange: (v: string) => void;
 }) {
-  const description = value.trim() ? describeCron(value, timezone) : null;
+  const [preview, setPreview] = useState<CronPreview | null>(null);
+
+  // Validate and preview the expression once typing pauses
+  useEffect(() => {
+    if (!value.trim()) {
+      setPreview(null);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      const params = new URLSearchParams({ cronExpression: value.trim(), timezone, count: '3' });
+      fetch(`/api/admin/events/preview?${params}`)
+        .then(async (res) => {
+          if (!res.ok) throw new Error('Failed to preview schedule');
+          const data: CronPreview = await res.json();
+          if (!cancelled) setPreview(data);
+        })
+        .catch(() => {
+          if (!cancelled) setPreview(null);
+        });
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [value, timezone]);
 
   return (
     <div className="rounded bg-gray-800/60 border border-gray-700/60 p-3 space-y-2">
@@ -215,10 +469,25 @@ function CronHelper({
           </button>
         ))}
       </div>
-      {description && (
-        <p className="text-xs text-gray-400 italic">
-          Runs: <span className="text-gray-300 not-italic">{description}</span>
-        </p>
+      {preview?.valid === false && (
+        <p className="text-xs text-red-400">{preview.error}</p>
+      )}
+      {preview?.valid && (
+        <>
+          <p className="text-xs text-gray-400 italic">
+            Runs: <span className="text-gray-300 not-italic">{preview.description} ({shortTimezone(timezone)})</span>
+          </p>
+          {preview.nextRuns.length > 0 && (
+            <p className="text-xs text-gray-500">
+              Next:{' '}
+              <span className="text-gray-400">
+                {preview.nextRuns
+                  .map((iso) => new Date(iso).toLocaleString(undefined, { timeZone: timezone, dateStyle: 'medium', timeStyle: 'short' }))
+                  .join(' · ')}
+              </span>
+            </p>
+          )}
+        </>
       )}
     </div>
   );
@@ -283,6 +552,92 @@ function PayloadFields({
             />
             Include tribute count
           </label>
+          <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              className="accent-amber-600"
+              checked={payload.mentionNonParticipants}
+              onChange={(e) => set('mentionNonParticipants', e.target.checked)}
+            />
+            Mention regulars who haven&apos;t posted
+          </label>
+          <div className="grid grid-cols-2 gap-3">
+            <div className={FIELD_CLS}>
+              <label className={LABEL_CLS}>Period</label>
+              <select className={SELECT_CLS} value={payload.period} onChange={(e) => set('period', e.target.value)}>
+                <option value="week">This tribute week</option>
+                <option value="friday">This Friday</option>
+                <option value="all_time">All time</option>
+              </select>
+            </div>
+            <div className={FIELD_CLS}>
+              <label className={LABEL_CLS}>Top N</label>
+              <input
+                type="number"
+                min={1}
+                max={25}
+                className={INPUT_CLS}
+                value={payload.topN}
+                onChange={(e) => set('topN', e.target.value)}
+                placeholder="5"
+              />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">With neither box ticked, both the count and the leaderboard are shown.</p>
+        </div>
+      )}
+
+      {eventType === 'channel_summary' && (
+        <div className="space-y-2">
+          <label className={LABEL_CLS}>Channel Summary Options</label>
+          <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              className="accent-amber-600"
+              checked={payload.highlights}
+              onChange={(e) => set('highlights', e.target.checked)}
+            />
+            Include highlights
+          </label>
+          <div className="grid grid-cols-2 gap-3">
+            <div className={FIELD_CLS}>
+              <label className={LABEL_CLS}>Window (hours)</label>
+              <input
+                type="number"
+                min={1}
+                max={168}
+                className={INPUT_CLS}
+                value={payload.windowHours}
+                onChange={(e) => set('windowHours', e.target.value)}
+                placeholder="24"
+              />
+            </div>
+            <div className={FIELD_CLS}>
+              <label className={LABEL_CLS}>Skip if fewer messages than</label>
+              <input
+                type="number"
+                min={0}
+                className={INPUT_CLS}
+                value={payload.minMessages}
+                onChange={(e) => set('minMessages', e.target.value)}
+                placeholder="5"
+              />
+            </div>
+          </div>
+        </div>
+      )}
+
+      {eventType === 'team_standings' && (
+        <div className={FIELD_CLS}>
+          <label className={LABEL_CLS}>Count tributes from the last N days (optional)</label>
+          <input
+            type="number"
+            min={1}
+            className={INPUT_CLS}
+            value={payload.periodDays}
+            onChange={(e) => set('periodDays', e.target.value)}
+            placeholder="Blank = since each member joined"
+          />
         </div>
       )}
 
@@ -296,10 +651,245 @@ function PayloadFields({
           placeholder="e.g. @everyone or role ID"
         />
       </div>
+
+      <div className={FIELD_CLS}>
+        <label className={LABEL_CLS}>Mention Users (optional)</label>
+        <input
+          type="text"
+          className={INPUT_CLS}
+          value={payload.mentionUsers}
+          onChange={(e) => set('mentionUsers', e.target.value)}
+          placeholder="User IDs, comma-separated"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+          <input
+            type="checkbox"
+            className="accent-amber-600"
+            checked={payload.embed}
+            onChange={(e) => set('embed', e.target.checked)}
+          />
+          Post as an embed
+        </label>
+        {payload.embed && (
+          <div className="grid grid-cols-2 gap-3">
+            <div className={FIELD_CLS}>
+              <label className={LABEL_CLS}>Embed Title</label>
+              <input
+                type="text"
+                className={INPUT_CLS}
+                value={payload.embedTitle}
+                onChange={(e) => set('embedTitle', e.target.value)}
+              />
+            </div>
+            <div className={FIELD_CLS}>
+              <label className={LABEL_CLS}>Colour</label>
+              <input
+                type="text"
+                className={`${INPUT_CLS} font-mono`}
+                value={payload.embedColor}
+                onChange={(e) => set('embedColor', e.target.value)}
+                placeholder="#d97706"
+              />
+            </div>
+            <div className={FIELD_CLS}>
+              <label className={LABEL_CLS}>Footer</label>
+              <input
+                type="text"
+                className={INPUT_CLS}
+                value={payload.embedFooter}
+                onChange={(e) => set('embedFooter', e.target.value)}
+              />
+            </div>
+            <div className={FIELD_CLS}>
+              <label className={LABEL_CLS}>Image URL</label>
+              <input
+                type="text"
+                className={INPUT_CLS}
+                value={payload.embedImageUrl}
+                onChange={(e) => set('embedImageUrl', e.target.value)}
+                placeholder="https://..."
+              />
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className={FIELD_CLS}>
+        <label className={LABEL_CLS}>Attach Images (optional)</label>
+        <textarea
+          className={TEXTAREA_CLS}
+          value={payload.attachments}
+          onChange={(e) => set('attachments', e.target.value)}
+          placeholder="One image URL per line"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <label className={LABEL_CLS}>Buttons</label>
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer shrink-0">
+            <input
+              type="checkbox"
+              className="accent-amber-600"
+              checked={payload.rsvp}
+              onChange={(e) => set('rsvp', e.target.checked)}
+            />
+            RSVP button
+          </label>
+          {payload.rsvp && (
+            <input
+              type="text"
+              className={INPUT_CLS}
+              value={payload.rsvpLabel}
+              onChange={(e) => set('rsvpLabel', e.target.value)}
+              placeholder="I'm in!"
+            />
+          )}
+        </div>
+        <textarea
+          className={TEXTAREA_CLS}
+          value={payload.linkButtons}
+          onChange={(e) => set('linkButtons', e.target.value)}
+          placeholder="Link buttons, one per line: Label | https://..."
+        />
+        <p className="text-xs text-gray-500">At most 5 buttons. The RSVP button shows how many are in; clicking again takes it back.</p>
+      </div>
+    </div>
+  );
+}
+
+function ScheduleFields({
+  once,
+  cronExpression,
+  runAt,
+  onChange,
+}: {
+  once: boolean;
+  cronExpression: string;
+  runAt: string;
+  onChange: (changes: { once?: boolean; cronExpression?: string; runAt?: string }) => void;
+}) {
+  return (
+    <>
+      <div className={FIELD_CLS}>
+        <label className={LABEL_CLS}>Runs</label>
+        <select
+          className={SELECT_CLS}
+          value={once ? 'once' : 'recurring'}
+          onChange={(e) => onChange({ once: e.target.value === 'once' })}
+        >
+          <option value="recurring">Recurring (cron)</option>
+          <option value="once">Once</option>
+        </select>
+      </div>
+
+      {once ? (
+        <div className={FIELD_CLS}>
+          <label className={LABEL_CLS}>Run At *</label>
+          <input
+            type="datetime-local"
+            className={INPUT_CLS}
+            value={runAt}
+            onChange={(e) => onChange({ runAt: e.target.value })}
+          />
+        </div>
+      ) : (
+        <div className={FIELD_CLS}>
+          <label className={LABEL_CLS}>Cron Expression *</label>
+          <input
+            type="text"
+            className={`${INPUT_CLS} font-mono`}
+            value={cronExpression}
+            onChange={(e) => onChange({ cronExpression: e.target.value })}
+            placeholder="0 17 * * 5"
+          />
+        </div>
+      )}
+    </>
+  );
+}
+
+function CatchUpField({
+  value,
+  onChange,
+}: {
+  value: CatchUpPolicy;
+  onChange: (v: CatchUpPolicy) => void;
+}) {
+  return (
+    <div className={FIELD_CLS}>
+      <label className={LABEL_CLS}>If missed while offline</label>
+      <select className={SELECT_CLS} value={value} onChange={(e) => onChange(e.target.value as CatchUpPolicy)}>
+        {(Object.keys(CATCH_UP_LABELS) as CatchUpPolicy[]).map((policy) => (
+          <option key={policy} value={policy}>{CATCH_UP_LABELS[policy]}</option>
+        ))}
+      </select>
     </div>
   );
 }
 
+function RunTimeline({ event }: { event: ScheduledEvent }) {
+  const [runs, setRuns] = useState<EventRun[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/admin/events/runs?eventId=${event.id}&limit=50`)
+      .then(async (res) => {
+        if (!res.ok) throw new Error('Failed to load runs');
+        const data: EventRun[] = await res.json();
+        if (!cancelled) setRuns(data);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load runs');
+      });
+    return () => { cancelled = true; };
+  }, [event.id, event.lastRunAt]);
+
+  if (error) return <p className="text-red-400">{error}</p>;
+  if (runs === null) return <div className="h-12 animate-pulse rounded bg-gray-800" />;
+  if (runs.length === 0) return <p className="text-gray-600 italic">No runs recorded yet.</p>;
+
+  return (
+    <ol className="relative border-l border-gray-700 ml-1.5 space-y-2">
+      {runs.map((run) => {
+        const style = RUN_STATUS_STYLES[run.status];
+        const duration = runDuration(run);
+        return (
+          <li key={run.id} className="ml-4">
+            <span className={`absolute -left-[5px] mt-1 h-2.5 w-2.5 rounded-full ${style.dot}`} />
+            <div className="flex flex-wrap items-center gap-x-3 gap-y-0.5">
+              <span className={`font-medium ${style.text}`}>{run.status}</span>
+              <span className="text-gray-300">
+                {new Date(run.scheduledFor ?? run.startedAt).toLocaleString(undefined, {
+                  timeZone: event.timezone, dateStyle: 'medium', timeStyle: 'short',
+                })}
+              </span>
+              <span className="text-gray-500">{RUN_TRIGGER_LABELS[run.trigger]}</span>
+              {run.trigger === 'catch_up' && run.status !== 'skipped' && (
+                <span className="text-amber-400">ran {timeAgo(run.startedAt)}</span>
+              )}
+              {duration && run.status !== 'skipped' && <span className="text-gray-600">{duration}</span>}
+            </div>
+            {run.error && (
+              <pre className={`mt-1 rounded p-1.5 font-mono whitespace-pre-wrap ${
+                run.status === 'failed'
+                  ? 'bg-red-900/20 border border-red-900/50 text-red-300'
+                  : 'bg-gray-800 text-gray-400'
+              }`}>
+                {run.error}
+              </pre>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
+
 // ---------------------------------------------------------------------------
 // Inline edit form
 // ---------------------------------------------------------------------------
@@ -315,8 +905,11 @@ function EditForm({
 }) {
   const [draft, setDraft] = useState<EditDraft>({
     name:           event.name,
-    cronExpression: event.cronExpression,
+    once:           event.runAt !== null,
+    cronExpression: event.cronExpression ?? '',
+    runAt:          event.runAt ? toZonedInput(event.runAt, event.timezone) : '',
     timezone:       event.timezone,
+    catchUpPolicy:  event.catchUpPolicy ?? 'skip',
     eventType:      event.eventType,
     description:    event.description ?? '',
     payload:        payloadFromEvent(event),
@@ -329,14 +922,16 @@ function EditForm({
 
   async function handleSave() {
     if (!draft.name.trim()) { setError('Name is required'); return; }
-    if (!draft.cronExpression.trim()) { setError('Cron expression is required'); return; }
+    if (draft.once && !draft.runAt) { setError('Run time is required'); return; }
+    if (!draft.once && !draft.cronExpression.trim()) { setError('Cron expression is required'); return; }
     setSaving(true);
     setError(null);
     try {
       await onSave({
         name:           draft.name.trim(),
-        cronExpression: draft.cronExpression.trim(),
+        ...buildSchedule(draft),
         timezone:       draft.timezone,
+        catchUpPolicy:  draft.catchUpPolicy,
         eventType:      draft.eventType,
         description:    draft.description.trim() || null,
         payload:        buildPayload(draft.eventType, draft.payload),
@@ -376,16 +971,12 @@ function EditForm({
           </select>
         </div>
 
-        <div className={FIELD_CLS}>
-          <label className={LABEL_CLS}>Cron Expression</label>
-          <input
-            type="text"
-            className={`${INPUT_CLS} font-mono`}
-            value={draft.cronExpression}
-            onChange={(e) => set('cronExpression', e.target.value)}
-            placeholder="0 17 * * 5"
-          />
-        </div>
+        <ScheduleFields
+          once={draft.once}
+          cronExpression={draft.cronExpression}
+          runAt={draft.runAt}
+          onChange={(changes) => setDraft((d) => ({ ...d, ...changes }))}
+        />
 
         <div className={FIELD_CLS}>
           <label className={LABEL_CLS}>Timezone</label>
@@ -395,13 +986,17 @@ function EditForm({
             ))}
           </select>
         </div>
+
+        <CatchUpField value={draft.catchUpPolicy} onChange={(v) => set('catchUpPolicy', v)} />
       </div>
 
-      <CronHelper
-        value={draft.cronExpression}
-        timezone={draft.timezone}
-        onChange={(v) => set('cronExpression', v)}
-      />
+      {!draft.once && (
+        <CronHelper
+          value={draft.cronExpression}
+          timezone={draft.timezone}
+          onChange={(v) => set('cronExpression', v)}
+        />
+      )}
 
       <div className={FIELD_CLS}>
         <label className={LABEL_CLS}>Description (optional)</label>
@@ -456,9 +1051,12 @@ function CreateForm({
   const [draft, setDraft] = useState<CreateDraft>({
     name:           '',
     threadId:       'discord:',
+    once:           false,
     cronExpression: '',
+    runAt:          '',
     eventType:      'custom_message',
     timezone:       'Europe/Stockholm',
+    catchUpPolicy:  'skip',
     description:    '',
     guildName:      '',
     channelName:    '',
@@ -473,7 +1071,8 @@ function CreateForm({
   async function handleSubmit() {
     if (!draft.name.trim())           { setError('Name is required'); return; }
     if (!draft.threadId.trim())       { setError('Thread ID is required'); return; }
-    if (!draft.cronExpression.trim()) { setError('Cron expression is required'); return; }
+    if (draft.once && !draft.runAt)   { setError('Run time is required'); return; }
+    if (!draft.once && !draft.cronExpression.trim()) { setError('Cron expression is required'); return; }
     if (!draft.eventType)             { setError('Event type is required'); return; }
 
     setSaving(true);
@@ -485,9 +1084,10 @@ function CreateForm({
         body: JSON.stringify({
           name:           draft.name.trim(),
           threadId:       draft.threadId.trim(),
-          cronExpression: draft.cronExpression.trim(),
+          ...buildSchedule(draft),
           eventType:      draft.eventType,
           timezone:       draft.timezone,
+          catchUpPolicy:  draft.catchUpPolicy,
           description:    draft.description.trim() || undefined,
           guildName:      draft.guildName.trim() || undefined,
           channelName:    draft.channelName.trim() || undefined,
@@ -558,16 +1158,12 @@ function CreateForm({
             />
           </div>
 
-          <div className={FIELD_CLS}>
-            <label className={LABEL_CLS}>Cron Expression *</label>
-            <input
-              type="text"
-              className={`${INPUT_CLS} font-mono`}
-              value={draft.cronExpression}
-              onChange={(e) => set('cronExpression', e.target.value)}
-              placeholder="0 17 * * 5"
-            />
-          </div>
+          <ScheduleFields
+            once={draft.once}
+            cronExpression={draft.cronExpression}
+            runAt={draft.runAt}
+            onChange={(changes) => setDraft((d) => ({ ...d, ...changes }))}
+          />
 
           <div className={FIELD_CLS}>
             <label className={LABEL_CLS}>Timezone</label>
@@ -581,13 +1177,17 @@ function CreateForm({
               ))}
             </select>
           </div>
+
+          <CatchUpField value={draft.catchUpPolicy} onChange={(v) => set('catchUpPolicy', v)} />
         </div>
 
-        <CronHelper
-          value={draft.cronExpression}
-          timezone={draft.timezone}
-          onChange={(v) => set('cronExpression', v)}
-        />
+        {!draft.once && (
+          <CronHelper
+            value={draft.cronExpression}
+            timezone={draft.timezone}
+            onChange={(v) => set('cronExpression', v)}
+          />
+        )}
 
         {/* Optional metadata */}
         <div className="grid grid-cols-1 gap-3 sm:grid-cols-3">
@@ -743,8 +1343,17 @@ function EventRow({
           </div>
 
           <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-gray-400">
-            <span className="font-mono">{event.cronExpression}</span>
-            <span>{describeCron(event.cronExpression, event.timezone)}</span>
+            {event.runAt ? (
+              <span>{describeRunAt(event.runAt, event.timezone)}</span>
+            ) : event.cronExpression && (
+              <>
+                <span className="font-mono">{event.cronExpression}</span>
+                <span>{event.schedule ?? event.cronExpression} ({shortTimezone(event.timezone)})</span>
+              </>
+            )}
+            {event.nextRunAt && (
+              <span className="text-gray-500">Next run: {timeUntil(event.nextRunAt)}</span>
+            )}
             {event.lastRunAt ? (
               <span className={event.lastRunStatus === 'failed' ? 'text-red-400' : 'text-gray-500'}>
                 Last run: {timeAgo(event.lastRunAt)}
@@ -797,15 +1406,27 @@ function EventRow({
       {/* Details panel */}
       {mode === 'details' && (
         <div className="mt-3 pt-3 border-t border-gray-800 space-y-2 text-xs">
-          <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+          <div className="grid grid-cols-2 gap-2 sm:grid-cols-3">
             <div>
               <span className="text-gray-500 block">Timezone</span>
               <span className="text-gray-300">{event.timezone}</span>
             </div>
+            <div>
+              <span className="text-gray-500 block">If missed</span>
+              <span className="text-gray-300">{CATCH_UP_LABELS[event.catchUpPolicy] ?? event.catchUpPolicy}</span>
+            </div>
             <div>
               <span className="text-gray-500 block">Created</span>
               <span className="text-gray-300">{new Date(event.createdAt).toLocaleDateString()}</span>
             </div>
+            <div>
+              <span className="text-gray-500 block">Next Run</span>
+              <span className="text-gray-300">
+                {event.nextRunAt
+                  ? new Date(event.nextRunAt).toLocaleString(undefined, { timeZone: event.timezone })
+                  : 'None scheduled'}
+              </span>
+            </div>
             <div>
               <span className="text-gray-500 block">Last Run</span>
               <span className={event.lastRunStatus === 'failed' ? 'text-red-400' : 'text-gray-300'}>
@@ -835,6 +1456,11 @@ function EventRow({
               </pre>
             </div>
           )}
+
+          <div>
+            <span className="text-gray-500 block mb-2">Run History</span>
+            <RunTimeline event={event} />
+          </div>
         </div>
       )}
 
@@ -850,6 +1476,259 @@ function EventRow({
   );
 }
 
+// ---------------------------------------------------------------------------
+// Blackouts
+// ---------------------------------------------------------------------------
+
+function BlackoutCalendar({
+  year,
+  month,
+  days,
+  onMonthChange,
+}: {
+  year: number;
+  month: number;
+  days: BlackoutDay[];
+  onMonthChange: (year: number, month: number) => void;
+}) {
+  const byDate = days.reduce<Record<string, string[]>>((acc, day) => {
+    (acc[day.date] ??= []).push(day.name);
+    return acc;
+  }, {});
+
+  const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  // Monday-first grid
+  const leading = (new Date(Date.UTC(year, month, 1)).getUTCDay() + 6) % 7;
+  const now = new Date();
+  const today = monthKey(now.getFullYear(), now.getMonth(), now.getDate());
+  const title = new Date(Date.UTC(year, month, 1)).toLocaleDateString(undefined, {
+    month: 'long', year: 'numeric', timeZone: 'UTC',
+  });
+
+  const shift = (delta: number) => {
+    const next = new Date(Date.UTC(year, month + delta, 1));
+    onMonthChange(next.getUTCFullYear(), next.getUTCMonth());
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <button type="button" onClick={() => shift(-1)} className="rounded px-2 py-1 text-xs text-gray-400 hover:bg-gray-800">
+          ‹ Prev
+        </button>
+        <span className="text-sm font-medium text-gray-200">{title}</span>
+        <button type="button" onClick={() => shift(1)} className="rounded px-2 py-1 text-xs text-gray-400 hover:bg-gray-800">
+          Next ›
+        </button>
+      </div>
+      <div className="grid grid-cols-7 gap-1 text-xs">
+        {WEEKDAY_HEADERS.map((d) => (
+          <div key={d} className="text-center text-gray-500 py-1">{d}</div>
+        ))}
+        {Array.from({ length: leading }, (_, i) => <div key={`blank-${i}`} />)}
+        {Array.from({ length: daysInMonth }, (_, i) => {
+          const date = monthKey(year, month, i + 1);
+          const names = byDate[date];
+          return (
+            <div
+              key={date}
+              title={names?.join('\n')}
+              className={`rounded p-1.5 min-h-[3rem] border ${
+                names
+                  ? 'bg-red-900/30 border-red-800/60 text-red-200'
+                  : 'bg-gray-800/40 border-gray-800 text-gray-400'
+              } ${date === today ? 'ring-1 ring-amber-500' : ''}`}
+            >
+              <div className="font-medium">{i + 1}</div>
+              {names && <div className="truncate text-[10px] text-red-300/80">{names[0]}{names.length > 1 ? ` +${names.length - 1}` : ''}</div>}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+function BlackoutPanel({ guilds }: { guilds: { id: string; name: string }[] }) {
+  const now = new Date();
+  const [view, setView]       = useState({ year: now.getFullYear(), month: now.getMonth() });
+  const [data, setData]       = useState<BlackoutData | null>(null);
+  const [draft, setDraft]     = useState<BlackoutDraft>(EMPTY_BLACKOUT);
+  const [saving, setSaving]   = useState(false);
+  const [error, setError]     = useState<string | null>(null);
+
+  const fetchBlackouts = useCallback(async () => {
+    const from = monthKey(view.year, view.month, 1);
+    const to = monthKey(view.year, view.month, new Date(Date.UTC(view.year, view.month + 1, 0)).getUTCDate());
+    try {
+      const res = await fetch(`/api/admin/events/blackouts?from=${from}&to=${to}`);
+      if (!res.ok) throw new Error('Failed to load blackouts');
+      setData(await res.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    }
+  }, [view]);
+
+  useEffect(() => { fetchBlackouts(); }, [fetchBlackouts]);
+
+  const set = <K extends keyof BlackoutDraft>(key: K, value: BlackoutDraft[K]) =>
+    setDraft((d) => ({ ...d, [key]: value }));
+
+  async function handleCreate() {
+    setSaving(true);
+    setError(null);
+    try {
+      const yearly = draft.kind === 'yearly';
+      const res = await fetch('/api/admin/events/blackouts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: draft.name,
+          guildId: draft.guildId || null,
+          kind: draft.kind,
+          startsOn: yearly ? draft.startsOn.slice(5) : draft.startsOn,
+          endsOn: yearly ? draft.endsOn.slice(5) : draft.endsOn,
+          region: draft.region,
+        }),
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error((body as { error?: string }).error ?? 'Failed to create blackout');
+      }
+      setDraft(EMPTY_BLACKOUT);
+      await fetchBlackouts();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleDelete(blackout: Blackout) {
+    if (!confirm(`Delete blackout "${blackout.name}"?`)) return;
+    const res = await fetch(`/api/admin/events/blackouts?id=${blackout.id}`, { method: 'DELETE' });
+    if (!res.ok) {
+      setError('Failed to delete blackout');
+      return;
+    }
+    await fetchBlackouts();
+  }
+
+  const guildName = (guildId: string | null) =>
+    guildId ? guilds.find((g) => g.id === guildId)?.name ?? guildId : 'All guilds';
+
+  return (
+    <div className="mb-8 rounded-lg border border-gray-700 bg-gray-900 p-5">
+      <h3 className="text-sm font-semibold text-gray-200 mb-1">Blackouts</h3>
+      <p className="text-xs text-gray-500 mb-4">
+        Scheduled events don&apos;t run on blacked-out days (in each event&apos;s timezone); skipped runs show in
+        their run history. Personal reminders are never blacked out.
+      </p>
+
+      {error && (
+        <p className="mb-3 text-xs text-red-400 bg-red-900/20 border border-red-900/50 rounded px-3 py-2">{error}</p>
+      )}
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <BlackoutCalendar
+          year={view.year}
+          month={view.month}
+          days={data?.days ?? []}
+          onMonthChange={(year, month) => setView({ year, month })}
+        />
+
+        <div className="space-y-4">
+          {data && data.blackouts.length === 0 && (
+            <p className="text-xs text-gray-600 italic">No blackouts yet.</p>
+          )}
+          {data && data.blackouts.length > 0 && (
+            <ul className="space-y-1.5">
+              {data.blackouts.map((b) => (
+                <li key={b.id} className="flex items-center gap-3 rounded bg-gray-800/60 px-3 py-2 text-xs">
+                  <span className="font-medium text-gray-200">{b.name}</span>
+                  <span className="text-gray-400">{describeBlackout(b, data.regions)}</span>
+                  <span className="text-gray-500">{guildName(b.guildId)}</span>
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(b)}
+                    className="ml-auto rounded px-2 py-0.5 text-red-300 hover:bg-red-900/40"
+                  >
+                    Delete
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className={FIELD_CLS}>
+              <label className={LABEL_CLS}>Name</label>
+              <input
+                type="text"
+                className={INPUT_CLS}
+                value={draft.name}
+                onChange={(e) => set('name', e.target.value)}
+                placeholder="Summer break"
+              />
+            </div>
+            <div className={FIELD_CLS}>
+              <label className={LABEL_CLS}>Applies to</label>
+              <select className={SELECT_CLS} value={draft.guildId} onChange={(e) => set('guildId', e.target.value)}>
+                <option value="">All guilds</option>
+                {guilds.map((g) => (
+                  <option key={g.id} value={g.id}>{g.name}</option>
+                ))}
+              </select>
+            </div>
+            <div className={FIELD_CLS}>
+              <label className={LABEL_CLS}>Kind</label>
+              <select className={SELECT_CLS} value={draft.kind} onChange={(e) => set('kind', e.target.value as BlackoutKind)}>
+                {(Object.keys(BLACKOUT_KIND_LABELS) as BlackoutKind[]).map((kind) => (
+                  <option key={kind} value={kind}>{BLACKOUT_KIND_LABELS[kind]}</option>
+                ))}
+              </select>
+            </div>
+            {draft.kind === 'holidays' ? (
+              <div className={FIELD_CLS}>
+                <label className={LABEL_CLS}>Region</label>
+                <select className={SELECT_CLS} value={draft.region} onChange={(e) => set('region', e.target.value)}>
+                  {Object.entries(data?.regions ?? {}).map(([code, name]) => (
+                    <option key={code} value={code}>{name}</option>
+                  ))}
+                </select>
+              </div>
+            ) : (
+              <div className="grid grid-cols-2 gap-2">
+                <div className={FIELD_CLS}>
+                  <label className={LABEL_CLS}>From</label>
+                  <input type="date" className={INPUT_CLS} value={draft.startsOn} onChange={(e) => set('startsOn', e.target.value)} />
+                </div>
+                <div className={FIELD_CLS}>
+                  <label className={LABEL_CLS}>To</label>
+                  <input type="date" className={INPUT_CLS} value={draft.endsOn} onChange={(e) => set('endsOn', e.target.value)} />
+                </div>
+              </div>
+            )}
+            <div className="col-span-2 flex items-center gap-3">
+              <button
+                type="button"
+                onClick={handleCreate}
+                disabled={saving}
+                className="rounded bg-amber-700 hover:bg-amber-600 px-4 py-1.5 text-xs font-medium text-white transition-colors disabled:opacity-50"
+              >
+                {saving ? 'Adding...' : 'Add Blackout'}
+              </button>
+              {draft.kind === 'yearly' && (
+                <span className="text-xs text-gray-500">Only the day and month are used; the range may wrap over New Year.</span>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
 // ---------------------------------------------------------------------------
 // Page
 // ---------------------------------------------------------------------------
@@ -859,6 +1738,7 @@ export default function EventsPage() {
   const [loading, setLoading]     = useState(true);
   const [error, setError]         = useState<string | null>(null);
   const [showCreate, setShowCreate] = useState(false);
+  const [showBlackouts, setShowBlackouts] = useState(false);
 
   const fetchEvents = useCallback(async () => {
     try {
@@ -881,6 +1761,13 @@ export default function EventsPage() {
     return acc;
   }, {});
 
+  // Guilds seen in events, for scoping blackouts
+  const guilds = [...new Map(
+    events
+      .filter((e) => !['dm', 'user'].includes(e.threadId.split(':')[1]))
+      .map((e) => [e.threadId.split(':')[1], { id: e.threadId.split(':')[1], name: guildDisplay(e) }])
+  ).values()];
+
   const activeCount = events.filter((e) => e.isActive).length;
   const failedCount = events.filter((e) => e.lastRunStatus === 'failed').length;
 
@@ -894,18 +1781,33 @@ export default function EventsPage() {
             Cron-based events across all channels. Manage reminders, auto-messages, and AI prompts.
           </p>
         </div>
-        <button
-          onClick={() => setShowCreate((v) => !v)}
-          className={`shrink-0 rounded px-4 py-2 text-sm font-medium transition-colors ${
-            showCreate
-              ? 'bg-gray-700 hover:bg-gray-600 text-gray-300'
-              : 'bg-amber-700 hover:bg-amber-600 text-white'
-          }`}
-        >
-          {showCreate ? 'Cancel' : '+ New Event'}
-        </button>
+        <div className="flex shrink-0 gap-2">
+          <button
+            onClick={() => setShowBlackouts((v) => !v)}
+            className={`rounded px-4 py-2 text-sm font-medium transition-colors ${
+              showBlackouts
+                ? 'bg-gray-600 text-gray-100'
+                : 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+            }`}
+          >
+            Blackouts
+          </button>
+          <button
+            onClick={() => setShowCreate((v) => !v)}
+            className={`rounded px-4 py-2 text-sm font-medium transition-colors ${
+              showCreate
+                ? 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+                : 'bg-amber-700 hover:bg-amber-600 text-white'
+            }`}
+          >
+            {showCreate ? 'Cancel' : '+ New Event'}
+          </button>
+        </div>
       </div>
 
+      {/* Blackouts */}
+      {showBlackouts && <BlackoutPanel guilds={guilds} />}
+
       {/* Create form */}
       {showCreate && (
         <CreateForm
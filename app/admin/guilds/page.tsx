@@ -0,0 +1,255 @@
+'use client';
+
+// Usage: /admin/guilds
+// Per-guild settings. The timezone decides which day "today" and "this Friday"
+// are for tributes, the daily leaderboard and the Friday demand. Guilds without
+// a setting use the default timezone.
+
+import { useState, useEffect, useCallback } from 'react';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+interface GuildSettings {
+  guildId: string;
+  timezone: string;
+  updatedBy: string | null;
+  updatedAt: string;
+}
+
+interface GuildSettingsResponse {
+  defaultTimezone: string;
+  guilds: string[];
+  settings: GuildSettings[];
+}
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+const COMMON_TIMEZONES = [
+  'Europe/Stockholm',
+  'Europe/London',
+  'Europe/Berlin',
+  'Europe/Helsinki',
+  'America/New_York',
+  'America/Chicago',
+  'America/Denver',
+  'America/Los_Angeles',
+  'Pacific/Honolulu',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+  'UTC',
+];
+
+// ─── Shared style tokens ──────────────────────────────────────────────────────
+
+const INPUT_CLASS =
+  'rounded-md bg-gray-800 border border-gray-700 text-gray-100 px-3 py-2 text-sm placeholder-gray-500 focus:outline-none focus:border-amber-500 focus:ring-1 focus:ring-amber-500 transition-colors';
+
+const LABEL_CLASS = 'block text-xs font-medium text-gray-400 mb-1.5';
+
+// ─── Sub-components ───────────────────────────────────────────────────────────
+
+function GuildRow({
+  guildId,
+  setting,
+  defaultTimezone,
+  onSave,
+}: {
+  guildId: string;
+  setting: GuildSettings | null;
+  defaultTimezone: string;
+  onSave: (guildId: string, timezone: string) => Promise<boolean>;
+}) {
+  const [timezone, setTimezone] = useState(setting?.timezone ?? '');
+  const [saving, setSaving] = useState(false);
+
+  const dirty = timezone.trim() !== (setting?.timezone ?? '');
+
+  async function handleSave() {
+    setSaving(true);
+    try {
+      await onSave(guildId, timezone.trim());
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <tr className="border-t border-gray-800">
+      <td className="py-3 pr-4 text-sm text-gray-200 font-mono">{guildId}</td>
+      <td className="py-3 pr-4">
+        <label htmlFor={`tz-${guildId}`} className="sr-only">Timezone for {guildId}</label>
+        <input
+          id={`tz-${guildId}`}
+          list="timezone-options"
+          value={timezone}
+          onChange={(e) => setTimezone(e.target.value)}
+          placeholder={`${defaultTimezone} (default)`}
+          className={`${INPUT_CLASS} w-64`}
+        />
+      </td>
+      <td className="py-3 pr-4 text-xs text-gray-500">
+        {setting ? `${setting.updatedBy ?? '—'} · ${new Date(setting.updatedAt).toLocaleString()}` : 'Default'}
+      </td>
+      <td className="py-3 text-right">
+        <button
+          type="button"
+          disabled={!dirty || !timezone.trim() || saving}
+          onClick={handleSave}
+          className="rounded-md bg-amber-600 hover:bg-amber-500 disabled:opacity-40 px-3 py-1.5 text-sm font-semibold text-white transition-colors"
+        >
+          {saving ? 'Saving…' : 'Save'}
+        </button>
+      </td>
+    </tr>
+  );
+}
+
+// ─── Page ─────────────────────────────────────────────────────────────────────
+
+export default function GuildSettingsPage() {
+  const [data, setData] = useState<GuildSettingsResponse | null>(null);
+  const [newGuildId, setNewGuildId] = useState('');
+  const [extraGuilds, setExtraGuilds] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const fetchSettings = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/admin/guild-settings');
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.error ?? `Request failed (${res.status})`);
+      }
+      setData(await res.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load guild settings.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSettings();
+  }, [fetchSettings]);
+
+  async function handleSave(guildId: string, timezone: string): Promise<boolean> {
+    setError(null);
+    setNotice(null);
+    try {
+      const res = await fetch('/api/admin/guild-settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ guildId, timezone }),
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.error ?? `Save failed (${res.status})`);
+      }
+      setNotice(`Guild ${guildId} now uses ${timezone}.`);
+      await fetchSettings();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save timezone.');
+      return false;
+    }
+  }
+
+  function handleAddGuild() {
+    const trimmed = newGuildId.trim();
+    if (!trimmed) return;
+    setExtraGuilds((prev) => (prev.includes(trimmed) ? prev : [...prev, trimmed]));
+    setNewGuildId('');
+  }
+
+  const guildIds = Array.from(
+    new Set([...(data?.guilds ?? []), ...(data?.settings.map((s) => s.guildId) ?? []), ...extraGuilds])
+  ).sort();
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="mb-8">
+        <h2 className="text-2xl font-bold text-gray-100">Guild Settings</h2>
+        <p className="mt-1 text-sm text-gray-500">
+          Each guild&apos;s timezone decides when its day and its Friday begin. Changes apply to new
+          tributes; existing tributes keep the Friday they were recorded under.
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-6 rounded-md bg-red-900/40 border border-red-700 px-4 py-3 text-sm text-red-300">
+          {error}
+        </div>
+      )}
+      {notice && (
+        <div className="mb-6 rounded-md bg-green-900/30 border border-green-700 px-4 py-3 text-sm text-green-300">
+          {notice}
+        </div>
+      )}
+
+      <datalist id="timezone-options">
+        {COMMON_TIMEZONES.map((tz) => (
+          <option key={tz} value={tz} />
+        ))}
+      </datalist>
+
+      {/* Add guild */}
+      <section className="mb-6 rounded-lg border border-gray-800 bg-gray-900 p-4" aria-label="Add guild">
+        <div className="flex flex-wrap gap-3 items-end">
+          <div className="flex-1 min-w-[220px]">
+            <label htmlFor="guild-new" className={LABEL_CLASS}>Configure another guild</label>
+            <input
+              id="guild-new"
+              type="text"
+              value={newGuildId}
+              onChange={(e) => setNewGuildId(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') handleAddGuild(); }}
+              placeholder="Discord guild ID…"
+              className={`${INPUT_CLASS} w-full`}
+            />
+          </div>
+          <button
+            type="button"
+            onClick={handleAddGuild}
+            className="rounded-md border border-gray-700 bg-gray-800 hover:bg-gray-700 px-4 py-2 text-sm font-medium text-gray-300 hover:text-gray-100 transition-colors whitespace-nowrap"
+          >
+            Add
+          </button>
+        </div>
+      </section>
+
+      {loading && !data ? (
+        <div className="h-32 animate-pulse rounded-lg bg-gray-900" />
+      ) : guildIds.length === 0 ? (
+        <p className="py-12 text-center text-sm text-gray-500">No guilds yet.</p>
+      ) : (
+        <div className="rounded-lg border border-gray-800 bg-gray-900 px-4">
+          <table className="w-full">
+            <thead>
+              <tr className="text-left text-xs text-gray-500">
+                <th className="py-2 pr-4 font-medium">Guild</th>
+                <th className="py-2 pr-4 font-medium">Timezone</th>
+                <th className="py-2 pr-4 font-medium">Last changed</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {guildIds.map((id) => (
+                <GuildRow
+                  key={`${id}-${data?.settings.find((s) => s.guildId === id)?.updatedAt ?? ''}`}
+                  guildId={id}
+                  setting={data?.settings.find((s) => s.guildId === id) ?? null}
+                  defaultTimezone={data?.defaultTimezone ?? 'Europe/Stockholm'}
+                  onSave={handleSave}
+                />
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
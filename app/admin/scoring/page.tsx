@@ -0,0 +1,568 @@
+'use client';
+
+// Usage: /admin/scoring
+// Edit per-guild tribute scoring rules: category points, the Friday multiplier
+// and fixed scores for specific drinks. Guilds without custom rules use the defaults.
+// Existing tributes can be rescored under the current rules (preview first, then apply).
+
+import { useState, useEffect, useCallback } from 'react';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+interface ScoringRules {
+  categories: Record<string, number>;
+  multipliers: { friday: number };
+  drinkOverrides: Record<string, number>;
+  labels?: Record<string, string>;
+}
+
+interface StoredRuleset {
+  guildId: string;
+  rules: ScoringRules;
+  updatedBy: string | null;
+  updatedAt: string;
+}
+
+interface ScoringResponse {
+  defaults: ScoringRules;
+  guilds: string[];
+  rulesets: StoredRuleset[];
+}
+
+interface LeaderboardPreviewEntry {
+  guildId: string;
+  userId: string;
+  username: string;
+  oldScore: number;
+  newScore: number;
+  oldRank: number;
+  newRank: number;
+}
+
+interface RecalculationResult {
+  runId: string | null;
+  dryRun: boolean;
+  tributesScanned: number;
+  tributesChanged: number;
+  tributesSkipped: number;
+  leaderboard: LeaderboardPreviewEntry[];
+}
+
+interface OverrideRow {
+  drink: string;
+  points: string;
+}
+
+// ─── Shared style tokens ──────────────────────────────────────────────────────
+
+const INPUT_CLASS =
+  'rounded-md bg-gray-800 border border-gray-700 text-gray-100 px-3 py-2 text-sm placeholder-gray-500 focus:outline-none focus:border-amber-500 focus:ring-1 focus:ring-amber-500 transition-colors';
+
+const LABEL_CLASS = 'block text-xs font-medium text-gray-400 mb-1.5';
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function formatDate(raw: string): string {
+  const d = new Date(raw);
+  if (isNaN(d.getTime())) return '—';
+  return d.toLocaleString('sv-SE', {
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+function formatLegend(rules: ScoringRules): string {
+  let legend = Object.entries(rules.categories)
+    .map(([cat, pts]) => `${rules.labels?.[cat] || cat}=${pts}${pts === 1 ? 'pt' : 'pts'}`)
+    .join(', ');
+  if (rules.multipliers.friday !== 1) {
+    legend += ` (Fridays x${rules.multipliers.friday})`;
+  }
+  return legend;
+}
+
+// ─── Page ─────────────────────────────────────────────────────────────────────
+
+export default function ScoringPage() {
+  const [data, setData] = useState<ScoringResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const [guildId, setGuildId] = useState('');
+  const [newGuildId, setNewGuildId] = useState('');
+
+  // Editor state (strings so inputs can be cleared while typing)
+  const [categories, setCategories] = useState<Record<string, string>>({});
+  // Effective points as loaded, to tell which categories the admin changed
+  const [loadedCategories, setLoadedCategories] = useState<Record<string, number>>({});
+  const [labels, setLabels] = useState<Record<string, string>>({});
+  const [fridayMultiplier, setFridayMultiplier] = useState('1');
+  const [overrides, setOverrides] = useState<OverrideRow[]>([]);
+
+  const [recalc, setRecalc] = useState<RecalculationResult | null>(null);
+  const [recalculating, setRecalculating] = useState(false);
+
+  const fetchRules = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/admin/scoring');
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.error ?? `Request failed (${res.status})`);
+      }
+      const json: ScoringResponse = await res.json();
+      setData(json);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load scoring rules.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  const stored = data?.rulesets.find((r) => r.guildId === guildId) ?? null;
+
+  // Load the selected guild's effective rules (its categories + stored values) into the editor
+  useEffect(() => {
+    if (!data || !guildId) return;
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const res = await fetch(`/api/admin/scoring?guildId=${encodeURIComponent(guildId)}`);
+        if (!res.ok) {
+          const body = await res.json().catch(() => ({}));
+          throw new Error(body.error ?? `Request failed (${res.status})`);
+        }
+        const { rules }: { rules: ScoringRules } = await res.json();
+        if (cancelled) return;
+        setCategories(
+          Object.fromEntries(Object.entries(rules.categories).map(([k, v]) => [k, String(v)]))
+        );
+        setLoadedCategories(rules.categories);
+        setLabels(rules.labels ?? {});
+        setFridayMultiplier(String(rules.multipliers.friday));
+        setOverrides(
+          Object.entries(rules.drinkOverrides).map(([drink, points]) => ({ drink, points: String(points) }))
+        );
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load guild rules.');
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [data, guildId]);
+
+  const guildOptions = Array.from(
+    new Set([...(data?.guilds ?? []), ...(data?.rulesets.map((r) => r.guildId) ?? [])])
+  ).sort();
+
+  function buildRules(): ScoringRules {
+    return {
+      categories: Object.fromEntries(
+        Object.entries(categories).map(([k, v]) => [k, Number(v) || 0])
+      ),
+      multipliers: { friday: Number(fridayMultiplier) || 1 },
+      drinkOverrides: Object.fromEntries(
+        overrides
+          .filter((o) => o.drink.trim() && o.points.trim() !== '')
+          .map((o) => [o.drink.trim().toLowerCase(), Number(o.points) || 0])
+      ),
+      labels,
+    };
+  }
+
+  // Save only the categories this guild already sets or the admin changed;
+  // the rest keep following their category's default points
+  function buildSavedRules(): ScoringRules {
+    const rules = buildRules();
+    return {
+      ...rules,
+      categories: Object.fromEntries(
+        Object.entries(rules.categories).filter(
+          ([k, v]) => stored?.rules.categories[k] !== undefined || v !== loadedCategories[k]
+        )
+      ),
+    };
+  }
+
+  async function handleSave() {
+    if (!guildId) return;
+    setSaving(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const res = await fetch('/api/admin/scoring', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ guildId, rules: buildSavedRules() }),
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.error ?? `Save failed (${res.status})`);
+      }
+      setNotice('Scoring rules saved. New tributes will use these values.');
+      await fetchRules();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save scoring rules.');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleReset() {
+    if (!guildId || !stored) return;
+    if (!confirm(`Reset guild ${guildId} to the default scoring rules?`)) return;
+    setSaving(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const res = await fetch(`/api/admin/scoring?guildId=${encodeURIComponent(guildId)}`, {
+        method: 'DELETE',
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.error ?? `Reset failed (${res.status})`);
+      }
+      setNotice('Guild reset to the default scoring rules.');
+      await fetchRules();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to reset scoring rules.');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleRecalculate(dryRun: boolean) {
+    if (!guildId) return;
+    if (!dryRun && !confirm(`Rewrite existing tribute scores for guild ${guildId} under its current rules?`)) return;
+    setRecalculating(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const res = await fetch('/api/admin/scoring/recalculate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ guildId, dryRun }),
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.error ?? `Recalculation failed (${res.status})`);
+      }
+      const result: RecalculationResult = await res.json();
+      setRecalc(result);
+      if (!dryRun) {
+        let notice = `Rescored ${result.tributesChanged} of ${result.tributesScanned} tributes.`;
+        if (result.tributesSkipped > 0) {
+          notice += ` ${result.tributesSkipped} changed during the run and were left as they are.`;
+        }
+        setNotice(notice);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to recalculate scores.');
+    } finally {
+      setRecalculating(false);
+    }
+  }
+
+  function handleAddGuild() {
+    const trimmed = newGuildId.trim();
+    if (!trimmed) return;
+    setGuildId(trimmed);
+    setNewGuildId('');
+    setRecalc(null);
+  }
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="mb-8">
+        <h2 className="text-2xl font-bold text-gray-100">Scoring</h2>
+        <p className="mt-1 text-sm text-gray-500">
+          Tribute points per category, the Friday multiplier and fixed scores for specific drinks.
+          Saved rules apply to new tributes; recalculate to rescore existing ones.
+        </p>
+      </div>
+
+      {/* Error / notice */}
+      {error && (
+        <div className="mb-6 rounded-md bg-red-900/40 border border-red-700 px-4 py-3 text-sm text-red-300">
+          {error}
+        </div>
+      )}
+      {notice && (
+        <div className="mb-6 rounded-md bg-green-900/30 border border-green-700 px-4 py-3 text-sm text-green-300">
+          {notice}
+        </div>
+      )}
+
+      {/* Guild picker */}
+      <section className="mb-6 rounded-lg border border-gray-800 bg-gray-900 p-4" aria-label="Select guild">
+        <div className="flex flex-wrap gap-3 items-end">
+          <div className="min-w-[240px]">
+            <label htmlFor="scoring-guild" className={LABEL_CLASS}>Guild</label>
+            <select
+              id="scoring-guild"
+              value={guildId}
+              onChange={(e) => { setGuildId(e.target.value); setRecalc(null); }}
+              disabled={loading}
+              className={`${INPUT_CLASS} w-full`}
+            >
+              <option value="">Select a guild…</option>
+              {guildId && !guildOptions.includes(guildId) && (
+                <option value={guildId}>{guildId} (new)</option>
+              )}
+              {guildOptions.map((id) => (
+                <option key={id} value={id}>
+                  {id}{data?.rulesets.some((r) => r.guildId === id) ? ' (custom)' : ''}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex-1 min-w-[220px]">
+            <label htmlFor="scoring-new-guild" className={LABEL_CLASS}>Or enter a guild ID</label>
+            <input
+              id="scoring-new-guild"
+              type="text"
+              value={newGuildId}
+              onChange={(e) => setNewGuildId(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') handleAddGuild(); }}
+              placeholder="Discord guild ID…"
+              className={`${INPUT_CLASS} w-full`}
+            />
+          </div>
+          <button
+            type="button"
+            onClick={handleAddGuild}
+            className="rounded-md border border-gray-700 bg-gray-800 hover:bg-gray-700 px-4 py-2 text-sm font-medium text-gray-300 hover:text-gray-100 transition-colors whitespace-nowrap"
+          >
+            Edit
+          </button>
+        </div>
+      </section>
+
+      {loading && (
+        <div className="rounded-lg border border-gray-800 bg-gray-900 p-6 animate-pulse">
+          <div className="h-4 w-48 rounded bg-gray-700 mb-4" />
+          <div className="h-3 w-full rounded bg-gray-700" />
+        </div>
+      )}
+
+      {!loading && guildId && (
+        <section className="rounded-lg border border-gray-800 bg-gray-900 p-6 space-y-6" aria-label="Scoring rules editor">
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <h3 className="text-base font-semibold text-gray-200">
+                Guild <span className="font-mono">{guildId}</span>
+              </h3>
+              <p className="mt-1 text-xs text-gray-500">
+                {stored
+                  ? `Custom rules — last updated ${formatDate(stored.updatedAt)}${stored.updatedBy ? ` by ${stored.updatedBy}` : ''}`
+                  : 'Using default rules'}
+              </p>
+            </div>
+          </div>
+
+          {/* Category points */}
+          <div>
+            <p className="text-xs font-medium text-gray-500 mb-3 uppercase tracking-wider">Category points</p>
+            <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+              {Object.entries(categories).map(([cat, value]) => (
+                <div key={cat}>
+                  <label htmlFor={`cat-${cat}`} className={LABEL_CLASS}>
+                    {labels[cat] || cat}
+                  </label>
+                  <input
+                    id={`cat-${cat}`}
+                    type="number"
+                    min={0}
+                    value={value}
+                    onChange={(e) => setCategories((prev) => ({ ...prev, [cat]: e.target.value }))}
+                    className={`${INPUT_CLASS} w-full`}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Multipliers */}
+          <div>
+            <p className="text-xs font-medium text-gray-500 mb-3 uppercase tracking-wider">Multipliers</p>
+            <div className="max-w-[200px]">
+              <label htmlFor="mult-friday" className={LABEL_CLASS}>Friday multiplier</label>
+              <input
+                id="mult-friday"
+                type="number"
+                min={0}
+                step={0.5}
+                value={fridayMultiplier}
+                onChange={(e) => setFridayMultiplier(e.target.value)}
+                className={`${INPUT_CLASS} w-full`}
+              />
+            </div>
+          </div>
+
+          {/* Drink overrides */}
+          <div>
+            <p className="text-xs font-medium text-gray-500 mb-3 uppercase tracking-wider">Drink overrides</p>
+            {overrides.length === 0 && (
+              <p className="text-xs text-gray-600 mb-3">No drink overrides. Category points apply to every drink.</p>
+            )}
+            <div className="space-y-2">
+              {overrides.map((row, i) => (
+                <div key={i} className="flex gap-2 items-center">
+                  <input
+                    type="text"
+                    value={row.drink}
+                    onChange={(e) => setOverrides((prev) => prev.map((o, j) => (j === i ? { ...o, drink: e.target.value } : o)))}
+                    placeholder="Drink name (e.g. Mai Tai)"
+                    aria-label="Drink name"
+                    className={`${INPUT_CLASS} flex-1`}
+                  />
+                  <input
+                    type="number"
+                    min={0}
+                    value={row.points}
+                    onChange={(e) => setOverrides((prev) => prev.map((o, j) => (j === i ? { ...o, points: e.target.value } : o)))}
+                    placeholder="Points"
+                    aria-label="Points"
+                    className={`${INPUT_CLASS} w-28`}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setOverrides((prev) => prev.filter((_, j) => j !== i))}
+                    className="rounded-md border border-gray-700 bg-gray-800 hover:bg-red-900/40 hover:border-red-700 px-3 py-2 text-xs text-gray-400 hover:text-red-300 transition-colors"
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              type="button"
+              onClick={() => setOverrides((prev) => [...prev, { drink: '', points: '' }])}
+              className="mt-3 text-xs text-amber-400 hover:text-amber-300 underline underline-offset-2 transition-colors"
+            >
+              + Add drink override
+            </button>
+          </div>
+
+          {/* Preview */}
+          <div className="border-t border-gray-800 pt-4">
+            <p className="text-xs font-medium text-gray-500 mb-2 uppercase tracking-wider">Legend preview</p>
+            <p className="font-mono text-sm text-gray-300">{formatLegend(buildRules())}</p>
+          </div>
+
+          {/* Actions */}
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={saving}
+              className="rounded-md bg-amber-600 hover:bg-amber-500 disabled:opacity-50 disabled:cursor-not-allowed px-4 py-2 text-sm font-semibold text-white transition-colors"
+            >
+              {saving ? 'Saving…' : 'Save rules'}
+            </button>
+            {stored && (
+              <button
+                type="button"
+                onClick={handleReset}
+                disabled={saving}
+                className="rounded-md border border-gray-700 bg-gray-800 hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed px-4 py-2 text-sm font-medium text-gray-300 hover:text-gray-100 transition-colors"
+              >
+                Reset to defaults
+              </button>
+            )}
+          </div>
+        </section>
+      )}
+
+      {!loading && guildId && (
+        <section className="mt-6 rounded-lg border border-gray-800 bg-gray-900 p-6" aria-label="Recalculate existing tributes">
+          <h3 className="text-base font-semibold text-gray-200">Recalculate existing tributes</h3>
+          <p className="mt-1 text-xs text-gray-500">
+            Re-derives the score of every tribute in this guild from its category and drink under the saved rules.
+            Applied runs are recorded in an audit log with the old and new score of each tribute.
+          </p>
+
+          <div className="mt-4 flex gap-3">
+            <button
+              type="button"
+              onClick={() => handleRecalculate(true)}
+              disabled={recalculating}
+              className="rounded-md border border-gray-700 bg-gray-800 hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed px-4 py-2 text-sm font-medium text-gray-300 hover:text-gray-100 transition-colors"
+            >
+              {recalculating ? 'Working…' : 'Preview (dry run)'}
+            </button>
+            <button
+              type="button"
+              onClick={() => handleRecalculate(false)}
+              disabled={recalculating || !recalc?.dryRun || recalc.tributesChanged === 0}
+              className="rounded-md bg-amber-600 hover:bg-amber-500 disabled:opacity-50 disabled:cursor-not-allowed px-4 py-2 text-sm font-semibold text-white transition-colors"
+              title="Run a preview first"
+            >
+              Apply
+            </button>
+          </div>
+
+          {recalc && (
+            <div className="mt-6">
+              <p className="text-sm text-gray-300">
+                {recalc.dryRun ? 'Preview: ' : 'Applied: '}
+                <span className="font-semibold text-amber-400">{recalc.tributesChanged}</span> of{' '}
+                {recalc.tributesScanned} tributes {recalc.dryRun ? 'would change' : 'changed'}.
+              </p>
+
+              {recalc.leaderboard.length > 0 && (
+                <div className="mt-4 overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs uppercase tracking-wider text-gray-500 border-b border-gray-800">
+                        <th className="py-2 pr-4 font-medium">User</th>
+                        <th className="py-2 pr-4 font-medium">Score</th>
+                        <th className="py-2 pr-4 font-medium">Rank</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {recalc.leaderboard.map((entry) => (
+                        <tr key={`${entry.guildId}-${entry.userId}`} className="border-b border-gray-800/60">
+                          <td className="py-2 pr-4 text-gray-200">{entry.username}</td>
+                          <td className="py-2 pr-4 font-mono text-gray-300">
+                            {entry.oldScore} → <span className="text-amber-400">{entry.newScore}</span>
+                          </td>
+                          <td className="py-2 pr-4 font-mono text-gray-300">
+                            #{entry.oldRank} → <span className="text-amber-400">#{entry.newRank}</span>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          )}
+        </section>
+      )}
+
+      {!loading && !guildId && (
+        <div className="rounded-lg border border-dashed border-gray-700 px-8 py-16 text-center">
+          <p className="text-sm font-medium text-gray-400">Select a guild to edit its scoring rules</p>
+          {data && (
+            <p className="mt-1 text-xs text-gray-600 font-mono">Defaults: {formatLegend(data.defaults)}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,315 @@
+'use client';
+
+// Usage: /admin/seasons
+// Named, time-boxed competitions per guild (e.g. "Summer of Rum"). Each season has
+// its own leaderboard; when it ends the scheduler archives the final standings and
+// announces the champion in the season's announcement channel.
+
+import { useState, useEffect, useCallback } from 'react';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+type SeasonStatus = 'upcoming' | 'active' | 'ended' | 'archived';
+
+interface Season {
+  id: number;
+  guildId: string;
+  name: string;
+  startsAt: string;
+  endsAt: string;
+  announceThreadId: string | null;
+  archivedAt: string | null;
+  championUserId: string | null;
+  createdAt: string;
+  status: SeasonStatus;
+}
+
+interface SeasonStanding {
+  rank: number;
+  userId: string;
+  username: string;
+  score: number;
+  count: number;
+}
+
+interface SeasonForm {
+  guildId: string;
+  name: string;
+  startsAt: string;
+  endsAt: string;
+  announceThreadId: string;
+}
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+const EMPTY_FORM: SeasonForm = { guildId: '', name: '', startsAt: '', endsAt: '', announceThreadId: '' };
+
+const STATUS_BADGE: Record<SeasonStatus, string> = {
+  upcoming: 'bg-blue-900/40 text-blue-300 border-blue-700',
+  active: 'bg-green-900/40 text-green-300 border-green-700',
+  ended: 'bg-amber-900/40 text-amber-300 border-amber-700',
+  archived: 'bg-gray-800 text-gray-400 border-gray-700',
+};
+
+// ─── Shared style tokens ──────────────────────────────────────────────────────
+
+const INPUT_CLASS =
+  'rounded-md bg-gray-800 border border-gray-700 text-gray-100 px-3 py-2 text-sm placeholder-gray-500 focus:outline-none focus:border-amber-500 focus:ring-1 focus:ring-amber-500 transition-colors';
+
+const LABEL_CLASS = 'block text-xs font-medium text-gray-400 mb-1.5';
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/** datetime-local values are in the browser's timezone; send them as ISO instants */
+function toIso(local: string): string {
+  return new Date(local).toISOString();
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+// ─── Sub-components ───────────────────────────────────────────────────────────
+
+function StandingsTable({ standings }: { standings: SeasonStanding[] }) {
+  if (standings.length === 0) {
+    return <p className="py-4 text-sm text-gray-500">No tributes in this season.</p>;
+  }
+
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-xs text-gray-500">
+          <th className="py-1.5 pr-4 font-medium">Rank</th>
+          <th className="py-1.5 pr-4 font-medium">User</th>
+          <th className="py-1.5 pr-4 font-medium text-right">Score</th>
+          <th className="py-1.5 font-medium text-right">Tributes</th>
+        </tr>
+      </thead>
+      <tbody>
+        {standings.map((s) => (
+          <tr key={s.userId} className="border-t border-gray-800 text-gray-300">
+            <td className="py-1.5 pr-4">{s.rank}</td>
+            <td className="py-1.5 pr-4">{s.username}</td>
+            <td className="py-1.5 pr-4 text-right">{s.score}</td>
+            <td className="py-1.5 text-right">{s.count}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+// ─── Page ─────────────────────────────────────────────────────────────────────
+
+export default function SeasonsPage() {
+  const [seasons, setSeasons] = useState<Season[]>([]);
+  const [form, setForm] = useState<SeasonForm>(EMPTY_FORM);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [standings, setStandings] = useState<SeasonStanding[] | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSeasons = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/admin/seasons');
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.error ?? `Request failed (${res.status})`);
+      }
+      const data: Season[] = await res.json();
+      setSeasons(Array.isArray(data) ? data : []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load seasons.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSeasons();
+  }, [fetchSeasons]);
+
+  async function handleCreate(e: React.FormEvent) {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/admin/seasons', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          guildId: form.guildId.trim(),
+          name: form.name.trim(),
+          startsAt: form.startsAt ? toIso(form.startsAt) : '',
+          endsAt: form.endsAt ? toIso(form.endsAt) : '',
+          announceThreadId: form.announceThreadId.trim() || null,
+        }),
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.error ?? `Create failed (${res.status})`);
+      }
+      setForm(EMPTY_FORM);
+      await fetchSeasons();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create season.');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleToggleStandings(id: number) {
+    if (expandedId === id) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(id);
+    setStandings(null);
+    try {
+      const res = await fetch(`/api/admin/seasons?id=${id}`);
+      if (!res.ok) throw new Error(`Request failed (${res.status})`);
+      const data: { standings: SeasonStanding[] } = await res.json();
+      setStandings(data.standings);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load standings.');
+    }
+  }
+
+  async function handleDelete(season: Season) {
+    if (!confirm(`Delete season "${season.name}"? Its archived standings are deleted too.`)) return;
+    setError(null);
+    try {
+      const res = await fetch(`/api/admin/seasons?id=${season.id}`, { method: 'DELETE' });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.error ?? `Delete failed (${res.status})`);
+      }
+      if (expandedId === season.id) setExpandedId(null);
+      await fetchSeasons();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete season.');
+    }
+  }
+
+  const field = (key: keyof SeasonForm) => ({
+    value: form[key],
+    onChange: (e: React.ChangeEvent<HTMLInputElement>) => setForm({ ...form, [key]: e.target.value }),
+  });
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="mb-8">
+        <h2 className="text-2xl font-bold text-gray-100">Seasons</h2>
+        <p className="mt-1 text-sm text-gray-500">
+          Named competitions with their own leaderboard (<code>/tally season</code>). Seasons in a guild
+          cannot overlap. Final standings are archived automatically when a season ends.
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-6 rounded-md bg-red-900/40 border border-red-700 px-4 py-3 text-sm text-red-300">
+          {error}
+        </div>
+      )}
+
+      {/* Create form */}
+      <form
+        onSubmit={handleCreate}
+        className="mb-8 rounded-lg border border-gray-800 bg-gray-900 p-4"
+        aria-label="Create season"
+      >
+        <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+          <div>
+            <label htmlFor="season-guild" className={LABEL_CLASS}>Guild ID</label>
+            <input id="season-guild" required placeholder="Discord guild ID…" className={`${INPUT_CLASS} w-full`} {...field('guildId')} />
+          </div>
+          <div>
+            <label htmlFor="season-name" className={LABEL_CLASS}>Name</label>
+            <input id="season-name" required placeholder="Summer of Rum" className={`${INPUT_CLASS} w-full`} {...field('name')} />
+          </div>
+          <div>
+            <label htmlFor="season-announce" className={LABEL_CLASS}>Announcement channel</label>
+            <input
+              id="season-announce"
+              placeholder="discord:guildId:channelId (optional)"
+              className={`${INPUT_CLASS} w-full`}
+              {...field('announceThreadId')}
+            />
+          </div>
+          <div>
+            <label htmlFor="season-starts" className={LABEL_CLASS}>Starts</label>
+            <input id="season-starts" type="datetime-local" required className={`${INPUT_CLASS} w-full`} {...field('startsAt')} />
+          </div>
+          <div>
+            <label htmlFor="season-ends" className={LABEL_CLASS}>Ends</label>
+            <input id="season-ends" type="datetime-local" required className={`${INPUT_CLASS} w-full`} {...field('endsAt')} />
+          </div>
+          <div className="flex items-end">
+            <button
+              type="submit"
+              disabled={saving}
+              className="rounded-md bg-amber-600 hover:bg-amber-500 disabled:opacity-50 px-4 py-2 text-sm font-semibold text-white transition-colors"
+            >
+              {saving ? 'Creating…' : 'Create season'}
+            </button>
+          </div>
+        </div>
+      </form>
+
+      {/* Season list */}
+      {loading ? (
+        <div className="h-32 animate-pulse rounded-lg bg-gray-900" />
+      ) : seasons.length === 0 ? (
+        <p className="py-12 text-center text-sm text-gray-500">No seasons yet.</p>
+      ) : (
+        <div className="space-y-3">
+          {seasons.map((season) => (
+            <div key={season.id} className="rounded-lg border border-gray-800 bg-gray-900 p-4">
+              <div className="flex items-center gap-3 flex-wrap">
+                <span className="font-semibold text-gray-100">{season.name}</span>
+                <span className={`text-xs rounded border px-1.5 py-0.5 ${STATUS_BADGE[season.status]}`}>{season.status}</span>
+                <span className="text-xs text-gray-500">guild {season.guildId}</span>
+                <span className="text-xs text-gray-500">
+                  {formatDate(season.startsAt)} → {formatDate(season.endsAt)}
+                </span>
+                <div className="ml-auto flex gap-2">
+                  <button
+                    type="button"
+                    onClick={() => handleToggleStandings(season.id)}
+                    className="rounded-md border border-gray-700 hover:bg-gray-800 px-3 py-1.5 text-xs text-gray-300 transition-colors"
+                  >
+                    {expandedId === season.id ? 'Hide standings' : 'Standings'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(season)}
+                    className="rounded-md border border-red-800 hover:bg-red-900/40 px-3 py-1.5 text-xs text-red-300 transition-colors"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+              {season.announceThreadId && (
+                <p className="mt-1 text-xs text-gray-600">Announces in {season.announceThreadId}</p>
+              )}
+              {expandedId === season.id && (
+                <div className="mt-4">
+                  {standings === null ? (
+                    <div className="h-16 animate-pulse rounded bg-gray-800" />
+                  ) : (
+                    <StandingsTable standings={standings} />
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,349 @@
+'use client';
+
+// Usage: /admin/teams
+// Team competitions within a guild (e.g. Team Rum vs Team Gin). Members join with
+// /team join, or automatically by holding the Discord role mapped to a team. Each
+// member's public tributes count towards their team from the moment they joined.
+
+import { useState, useEffect, useCallback } from 'react';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+interface Team {
+  id: number;
+  guildId: string;
+  name: string;
+  roleId: string | null;
+  createdAt: string;
+  rank: number | null;
+  score: number;
+  count: number;
+  members: number;
+}
+
+interface TeamMember {
+  userId: string;
+  username: string | null;
+  source: 'command' | 'role';
+  joinedAt: string;
+}
+
+interface TeamForm {
+  guildId: string;
+  name: string;
+  roleId: string;
+}
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+const EMPTY_FORM: TeamForm = { guildId: '', name: '', roleId: '' };
+
+// ─── Shared style tokens ──────────────────────────────────────────────────────
+
+const INPUT_CLASS =
+  'rounded-md bg-gray-800 border border-gray-700 text-gray-100 px-3 py-2 text-sm placeholder-gray-500 focus:outline-none focus:border-amber-500 focus:ring-1 focus:ring-amber-500 transition-colors';
+
+const LABEL_CLASS = 'block text-xs font-medium text-gray-400 mb-1.5';
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+// ─── Sub-components ───────────────────────────────────────────────────────────
+
+function MembersTable({ members }: { members: TeamMember[] }) {
+  if (members.length === 0) {
+    return <p className="py-4 text-sm text-gray-500">No members yet.</p>;
+  }
+
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-xs text-gray-500">
+          <th className="py-1.5 pr-4 font-medium">User</th>
+          <th className="py-1.5 pr-4 font-medium">Joined via</th>
+          <th className="py-1.5 font-medium">Joined</th>
+        </tr>
+      </thead>
+      <tbody>
+        {members.map((m) => (
+          <tr key={m.userId} className="border-t border-gray-800 text-gray-300">
+            <td className="py-1.5 pr-4">{m.username ?? m.userId}</td>
+            <td className="py-1.5 pr-4">{m.source === 'role' ? 'role' : '/team join'}</td>
+            <td className="py-1.5">{formatDate(m.joinedAt)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+// ─── Page ─────────────────────────────────────────────────────────────────────
+
+export default function TeamsPage() {
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [form, setForm] = useState<TeamForm>(EMPTY_FORM);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [members, setMembers] = useState<TeamMember[] | null>(null);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editForm, setEditForm] = useState<Pick<TeamForm, 'name' | 'roleId'>>({ name: '', roleId: '' });
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTeams = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/admin/teams');
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.error ?? `Request failed (${res.status})`);
+      }
+      const data: Team[] = await res.json();
+      setTeams(Array.isArray(data) ? data : []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load teams.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTeams();
+  }, [fetchTeams]);
+
+  async function handleCreate(e: React.FormEvent) {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/admin/teams', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          guildId: form.guildId.trim(),
+          name: form.name.trim(),
+          roleId: form.roleId.trim() || null,
+        }),
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.error ?? `Create failed (${res.status})`);
+      }
+      setForm(EMPTY_FORM);
+      await fetchTeams();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create team.');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleToggleMembers(id: number) {
+    if (expandedId === id) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(id);
+    setMembers(null);
+    try {
+      const res = await fetch(`/api/admin/teams?id=${id}`);
+      if (!res.ok) throw new Error(`Request failed (${res.status})`);
+      const data: { members: TeamMember[] } = await res.json();
+      setMembers(data.members);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load members.');
+    }
+  }
+
+  function startEdit(team: Team) {
+    setEditingId(team.id);
+    setEditForm({ name: team.name, roleId: team.roleId ?? '' });
+  }
+
+  async function handleSaveEdit(id: number) {
+    setError(null);
+    try {
+      const res = await fetch('/api/admin/teams', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id, name: editForm.name.trim(), roleId: editForm.roleId.trim() || null }),
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.error ?? `Update failed (${res.status})`);
+      }
+      setEditingId(null);
+      await fetchTeams();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update team.');
+    }
+  }
+
+  async function handleDelete(team: Team) {
+    if (!confirm(`Delete team "${team.name}"? Its memberships are removed; tributes are kept.`)) return;
+    setError(null);
+    try {
+      const res = await fetch(`/api/admin/teams?id=${team.id}`, { method: 'DELETE' });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.error ?? `Delete failed (${res.status})`);
+      }
+      if (expandedId === team.id) setExpandedId(null);
+      await fetchTeams();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete team.');
+    }
+  }
+
+  const field = (key: keyof TeamForm) => ({
+    value: form[key],
+    onChange: (e: React.ChangeEvent<HTMLInputElement>) => setForm({ ...form, [key]: e.target.value }),
+  });
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="mb-8">
+        <h2 className="text-2xl font-bold text-gray-100">Teams</h2>
+        <p className="mt-1 text-sm text-gray-500">
+          Team competitions within a guild (<code>/team</code>). Holders of a team&apos;s role are placed on it
+          automatically; without a role, members choose with <code>/team join</code>.
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-6 rounded-md bg-red-900/40 border border-red-700 px-4 py-3 text-sm text-red-300">
+          {error}
+        </div>
+      )}
+
+      {/* Create form */}
+      <form
+        onSubmit={handleCreate}
+        className="mb-8 rounded-lg border border-gray-800 bg-gray-900 p-4"
+        aria-label="Create team"
+      >
+        <div className="grid grid-cols-1 gap-3 md:grid-cols-4">
+          <div>
+            <label htmlFor="team-guild" className={LABEL_CLASS}>Guild ID</label>
+            <input id="team-guild" required placeholder="Discord guild ID…" className={`${INPUT_CLASS} w-full`} {...field('guildId')} />
+          </div>
+          <div>
+            <label htmlFor="team-name" className={LABEL_CLASS}>Name</label>
+            <input id="team-name" required placeholder="Team Rum" className={`${INPUT_CLASS} w-full`} {...field('name')} />
+          </div>
+          <div>
+            <label htmlFor="team-role" className={LABEL_CLASS}>Role ID</label>
+            <input id="team-role" placeholder="Discord role ID (optional)" className={`${INPUT_CLASS} w-full`} {...field('roleId')} />
+          </div>
+          <div className="flex items-end">
+            <button
+              type="submit"
+              disabled={saving}
+              className="rounded-md bg-amber-600 hover:bg-amber-500 disabled:opacity-50 px-4 py-2 text-sm font-semibold text-white transition-colors"
+            >
+              {saving ? 'Creating…' : 'Create team'}
+            </button>
+          </div>
+        </div>
+      </form>
+
+      {/* Team list */}
+      {loading ? (
+        <div className="h-32 animate-pulse rounded-lg bg-gray-900" />
+      ) : teams.length === 0 ? (
+        <p className="py-12 text-center text-sm text-gray-500">No teams yet.</p>
+      ) : (
+        <div className="space-y-3">
+          {teams.map((team) => (
+            <div key={team.id} className="rounded-lg border border-gray-800 bg-gray-900 p-4">
+              {editingId === team.id ? (
+                <div className="flex items-end gap-3 flex-wrap">
+                  <div>
+                    <label htmlFor={`team-${team.id}-name`} className={LABEL_CLASS}>Name</label>
+                    <input
+                      id={`team-${team.id}-name`}
+                      value={editForm.name}
+                      onChange={(e) => setEditForm({ ...editForm, name: e.target.value })}
+                      className={INPUT_CLASS}
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor={`team-${team.id}-role`} className={LABEL_CLASS}>Role ID</label>
+                    <input
+                      id={`team-${team.id}-role`}
+                      value={editForm.roleId}
+                      placeholder="none"
+                      onChange={(e) => setEditForm({ ...editForm, roleId: e.target.value })}
+                      className={INPUT_CLASS}
+                    />
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => handleSaveEdit(team.id)}
+                    className="rounded-md bg-amber-600 hover:bg-amber-500 px-3 py-2 text-xs font-semibold text-white transition-colors"
+                  >
+                    Save
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setEditingId(null)}
+                    className="rounded-md border border-gray-700 hover:bg-gray-800 px-3 py-2 text-xs text-gray-300 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              ) : (
+                <div className="flex items-center gap-3 flex-wrap">
+                  {team.rank !== null && <span className="text-sm text-gray-500">#{team.rank}</span>}
+                  <span className="font-semibold text-gray-100">{team.name}</span>
+                  <span className="text-xs text-gray-500">guild {team.guildId}</span>
+                  {team.roleId && <span className="text-xs text-gray-500">role {team.roleId}</span>}
+                  <span className="text-xs text-amber-400">
+                    {team.score} pts · {team.count} tributes · {team.members} member{team.members === 1 ? '' : 's'}
+                  </span>
+                  <div className="ml-auto flex gap-2">
+                    <button
+                      type="button"
+                      onClick={() => handleToggleMembers(team.id)}
+                      className="rounded-md border border-gray-700 hover:bg-gray-800 px-3 py-1.5 text-xs text-gray-300 transition-colors"
+                    >
+                      {expandedId === team.id ? 'Hide members' : 'Members'}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => startEdit(team)}
+                      className="rounded-md border border-gray-700 hover:bg-gray-800 px-3 py-1.5 text-xs text-gray-300 transition-colors"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(team)}
+                      className="rounded-md border border-red-800 hover:bg-red-900/40 px-3 py-1.5 text-xs text-red-300 transition-colors"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              )}
+              {expandedId === team.id && (
+                <div className="mt-4">
+                  {members === null ? (
+                    <div className="h-16 animate-pulse rounded bg-gray-800" />
+                  ) : (
+                    <MembersTable members={members} />
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,518 @@
+'use client';
+
+// Usage: /admin/tributes
+// Gallery of recorded tributes with filters by guild, user, category, date range
+// and Friday flag. Category, drink name and score can be corrected inline (each
+// edit is kept in the tribute's history); fraudulent entries can be deleted.
+
+import { useState, useEffect, useCallback } from 'react';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+interface Tribute {
+  id: number;
+  userId: string;
+  username: string;
+  guildId: string;
+  channelId: string | null;
+  isDm: boolean;
+  imageUrl: string | null;
+  category: string;
+  drinkName: string | null;
+  description: string | null;
+  aiResponse: string | null;
+  score: number;
+  isFriday: boolean;
+  duplicateOf: number | null;
+  createdAt: string;
+}
+
+interface GalleryResponse {
+  tributes: Tribute[];
+  total: number;
+  page: number;
+  pageSize: number;
+  guilds: string[];
+}
+
+interface TributeCategory {
+  id: number;
+  guildId: string | null;
+  key: string;
+  label: string;
+  isActive: boolean;
+}
+
+interface Filters {
+  guildId: string;
+  userId: string;
+  category: string;
+  from: string;
+  to: string;
+  friday: '' | 'true' | 'false';
+}
+
+interface TributeEdit {
+  category: string;
+  drinkName: string;
+  score?: string;
+}
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+const EMPTY_FILTERS: Filters = { guildId: '', userId: '', category: '', from: '', to: '', friday: '' };
+
+const PAGE_SIZE = 24;
+
+// ─── Shared style tokens ──────────────────────────────────────────────────────
+
+const INPUT_CLASS =
+  'rounded-md bg-gray-800 border border-gray-700 text-gray-100 px-3 py-2 text-sm placeholder-gray-500 focus:outline-none focus:border-amber-500 focus:ring-1 focus:ring-amber-500 transition-colors';
+
+const LABEL_CLASS = 'block text-xs font-medium text-gray-400 mb-1.5';
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function categoriesForGuild(categories: TributeCategory[], guildId: string): TributeCategory[] {
+  const byKey = new Map<string, TributeCategory>();
+  for (const c of categories) if (c.guildId === null) byKey.set(c.key, c);
+  for (const c of categories) if (c.guildId === guildId) byKey.set(c.key, c);
+  return Array.from(byKey.values()).filter((c) => c.isActive);
+}
+
+function buildQuery(filters: Filters, page: number): string {
+  const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE) });
+  for (const [key, value] of Object.entries(filters)) {
+    if (value) params.set(key, value);
+  }
+  return params.toString();
+}
+
+/** Export honours the guild and date filters (not user, category or Friday) */
+function buildExportQuery(filters: Filters, format: 'csv' | 'json'): string {
+  const params = new URLSearchParams({ format });
+  if (filters.guildId) params.set('guildId', filters.guildId);
+  if (filters.from) params.set('from', filters.from);
+  if (filters.to) params.set('to', filters.to);
+  return params.toString();
+}
+
+// ─── Sub-components ───────────────────────────────────────────────────────────
+
+function TributeCard({
+  tribute,
+  categories,
+  onSave,
+  onDelete,
+}: {
+  tribute: Tribute;
+  categories: TributeCategory[];
+  onSave: (id: number, edit: TributeEdit) => Promise<void>;
+  onDelete: (tribute: Tribute) => Promise<void>;
+}) {
+  const [editing, setEditing] = useState(false);
+  const [category, setCategory] = useState(tribute.category);
+  const [drinkName, setDrinkName] = useState(tribute.drinkName ?? '');
+  const [score, setScore] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const label = categories.find((c) => c.key === tribute.category)?.label ?? tribute.category;
+
+  async function handleSave() {
+    setBusy(true);
+    try {
+      await onSave(tribute.id, { category, drinkName: drinkName.trim(), score: score.trim() || undefined });
+      setEditing(false);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="rounded-lg border border-gray-800 bg-gray-900 overflow-hidden flex flex-col">
+      {tribute.imageUrl ? (
+        <a href={tribute.imageUrl} target="_blank" rel="noreferrer">
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img
+            src={tribute.imageUrl}
+            alt={tribute.drinkName ?? `Tribute #${tribute.id}`}
+            className="h-48 w-full object-cover bg-gray-800"
+          />
+        </a>
+      ) : (
+        <div className="h-48 w-full bg-gray-800" />
+      )}
+
+      <div className="p-3 space-y-2 flex-1 flex flex-col">
+        <div className="flex items-center gap-2 flex-wrap">
+          <span className="font-semibold text-gray-100">{tribute.drinkName || 'Unnamed libation'}</span>
+          <span className="text-xs text-gray-500">#{tribute.id}</span>
+          {tribute.isFriday && (
+            <span className="text-xs rounded border px-1.5 py-0.5 bg-amber-900/40 text-amber-300 border-amber-700">Friday</span>
+          )}
+          {tribute.isDm && (
+            <span className="text-xs rounded border px-1.5 py-0.5 bg-gray-800 text-gray-400 border-gray-700">DM</span>
+          )}
+          {tribute.duplicateOf !== null && (
+            <span
+              className="text-xs rounded border px-1.5 py-0.5 bg-red-900/40 text-red-300 border-red-700"
+              title="The image closely resembles an earlier tribute"
+            >
+              Resembles #{tribute.duplicateOf}
+            </span>
+          )}
+        </div>
+        <p className="text-sm text-gray-400">
+          {label} · <span className="text-gray-200">{tribute.score}pts</span> · {tribute.username}
+        </p>
+        <p className="text-xs text-gray-600">
+          {new Date(tribute.createdAt).toLocaleString()} · {tribute.isDm ? 'DM' : `guild ${tribute.guildId}`}
+        </p>
+        {tribute.description && <p className="text-xs text-gray-500 line-clamp-3">{tribute.description}</p>}
+
+        {editing ? (
+          <div className="space-y-2 pt-2">
+            <div>
+              <label htmlFor={`category-${tribute.id}`} className={LABEL_CLASS}>Category</label>
+              <select
+                id={`category-${tribute.id}`}
+                value={category}
+                onChange={(e) => setCategory(e.target.value)}
+                className={`${INPUT_CLASS} w-full`}
+              >
+                {!categories.some((c) => c.key === category) && <option value={category}>{category}</option>}
+                {categories.map((c) => (
+                  <option key={c.key} value={c.key}>{c.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor={`drink-${tribute.id}`} className={LABEL_CLASS}>Drink name</label>
+              <input
+                id={`drink-${tribute.id}`}
+                value={drinkName}
+                onChange={(e) => setDrinkName(e.target.value)}
+                className={`${INPUT_CLASS} w-full`}
+              />
+            </div>
+            <div>
+              <label htmlFor={`score-${tribute.id}`} className={LABEL_CLASS}>Score</label>
+              <input
+                id={`score-${tribute.id}`}
+                type="number"
+                min={0}
+                value={score}
+                onChange={(e) => setScore(e.target.value)}
+                placeholder="From rules"
+                className={`${INPUT_CLASS} w-full`}
+              />
+            </div>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                disabled={busy}
+                onClick={handleSave}
+                className="rounded-md bg-amber-600 hover:bg-amber-500 disabled:opacity-50 px-3 py-1.5 text-sm font-semibold text-white transition-colors"
+              >
+                Save
+              </button>
+              <button
+                type="button"
+                disabled={busy}
+                onClick={() => setEditing(false)}
+                className="rounded-md border border-gray-700 hover:bg-gray-800 px-3 py-1.5 text-sm text-gray-300 transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="mt-auto flex gap-2 pt-2">
+            <button
+              type="button"
+              onClick={() => setEditing(true)}
+              className="rounded-md border border-gray-700 hover:bg-gray-800 px-3 py-1.5 text-xs text-gray-300 transition-colors"
+            >
+              Edit
+            </button>
+            <button
+              type="button"
+              disabled={busy}
+              onClick={async () => {
+                setBusy(true);
+                try {
+                  await onDelete(tribute);
+                } finally {
+                  setBusy(false);
+                }
+              }}
+              className="rounded-md border border-red-800 hover:bg-red-900/40 disabled:opacity-50 px-3 py-1.5 text-xs text-red-300 transition-colors"
+            >
+              Delete
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// ─── Page ─────────────────────────────────────────────────────────────────────
+
+export default function TributesPage() {
+  const [draft, setDraft] = useState<Filters>(EMPTY_FILTERS);
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [page, setPage] = useState(1);
+  const [data, setData] = useState<GalleryResponse | null>(null);
+  const [categories, setCategories] = useState<TributeCategory[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTributes = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/admin/tributes?${buildQuery(filters, page)}`);
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.error ?? `Request failed (${res.status})`);
+      }
+      setData(await res.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load tributes.');
+    } finally {
+      setLoading(false);
+    }
+  }, [filters, page]);
+
+  useEffect(() => {
+    fetchTributes();
+  }, [fetchTributes]);
+
+  useEffect(() => {
+    fetch('/api/admin/categories')
+      .then((res) => (res.ok ? res.json() : []))
+      .then((cats: TributeCategory[]) => setCategories(Array.isArray(cats) ? cats : []))
+      .catch(() => setCategories([]));
+  }, []);
+
+  function applyFilters(e: React.FormEvent) {
+    e.preventDefault();
+    setFilters(draft);
+    setPage(1);
+  }
+
+  function resetFilters() {
+    setDraft(EMPTY_FILTERS);
+    setFilters(EMPTY_FILTERS);
+    setPage(1);
+  }
+
+  async function handleSave(id: number, edit: TributeEdit) {
+    setError(null);
+    try {
+      const res = await fetch('/api/admin/tributes', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id, ...edit }),
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.error ?? `Update failed (${res.status})`);
+      }
+      await fetchTributes();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update tribute.');
+    }
+  }
+
+  async function handleDelete(tribute: Tribute) {
+    if (!confirm(`Delete tribute #${tribute.id} by ${tribute.username}? Its ${tribute.score} points are removed for good.`)) return;
+    setError(null);
+    try {
+      const res = await fetch(`/api/admin/tributes?id=${tribute.id}`, { method: 'DELETE' });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.error ?? `Delete failed (${res.status})`);
+      }
+      await fetchTributes();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete tribute.');
+    }
+  }
+
+  const totalPages = data ? Math.max(1, Math.ceil(data.total / data.pageSize)) : 1;
+  const filterCategories = categoriesForGuild(categories, draft.guildId);
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="mb-8 flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-100">Tributes</h2>
+          <p className="mt-1 text-sm text-gray-500">
+            Every recorded offering. Editing the category or drink without a score recalculates it from the
+            guild&apos;s scoring rules.
+          </p>
+        </div>
+        <div className="flex gap-2 shrink-0">
+          {(['csv', 'json'] as const).map((format) => (
+            <a
+              key={format}
+              href={`/api/admin/tributes/export?${buildExportQuery(filters, format)}`}
+              className="rounded-md border border-gray-700 hover:bg-gray-800 px-3 py-1.5 text-sm text-gray-300 transition-colors"
+            >
+              Export {format.toUpperCase()}
+            </a>
+          ))}
+        </div>
+      </div>
+
+      {/* Filters */}
+      <form
+        onSubmit={applyFilters}
+        className="mb-6 rounded-lg border border-gray-800 bg-gray-900 p-4"
+        aria-label="Filter tributes"
+      >
+        <div className="grid grid-cols-2 gap-3 md:grid-cols-6 items-end">
+          <div>
+            <label htmlFor="filter-guild" className={LABEL_CLASS}>Guild</label>
+            <select
+              id="filter-guild"
+              value={draft.guildId}
+              onChange={(e) => setDraft({ ...draft, guildId: e.target.value })}
+              className={`${INPUT_CLASS} w-full`}
+            >
+              <option value="">All guilds</option>
+              {(data?.guilds ?? []).map((id) => (
+                <option key={id} value={id}>{id === 'dm' ? 'DMs' : id}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="filter-user" className={LABEL_CLASS}>User ID</label>
+            <input
+              id="filter-user"
+              value={draft.userId}
+              onChange={(e) => setDraft({ ...draft, userId: e.target.value })}
+              placeholder="Any user"
+              className={`${INPUT_CLASS} w-full`}
+            />
+          </div>
+          <div>
+            <label htmlFor="filter-category" className={LABEL_CLASS}>Category</label>
+            <select
+              id="filter-category"
+              value={draft.category}
+              onChange={(e) => setDraft({ ...draft, category: e.target.value })}
+              className={`${INPUT_CLASS} w-full`}
+            >
+              <option value="">All categories</option>
+              {filterCategories.map((c) => (
+                <option key={c.key} value={c.key}>{c.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="filter-from" className={LABEL_CLASS}>From</label>
+            <input
+              id="filter-from"
+              type="date"
+              value={draft.from}
+              onChange={(e) => setDraft({ ...draft, from: e.target.value })}
+              className={`${INPUT_CLASS} w-full`}
+            />
+          </div>
+          <div>
+            <label htmlFor="filter-to" className={LABEL_CLASS}>To</label>
+            <input
+              id="filter-to"
+              type="date"
+              value={draft.to}
+              onChange={(e) => setDraft({ ...draft, to: e.target.value })}
+              className={`${INPUT_CLASS} w-full`}
+            />
+          </div>
+          <div>
+            <label htmlFor="filter-friday" className={LABEL_CLASS}>Friday</label>
+            <select
+              id="filter-friday"
+              value={draft.friday}
+              onChange={(e) => setDraft({ ...draft, friday: e.target.value as Filters['friday'] })}
+              className={`${INPUT_CLASS} w-full`}
+            >
+              <option value="">Any day</option>
+              <option value="true">Fridays only</option>
+              <option value="false">Other days</option>
+            </select>
+          </div>
+        </div>
+        <div className="mt-3 flex gap-2">
+          <button
+            type="submit"
+            className="rounded-md bg-amber-600 hover:bg-amber-500 px-4 py-2 text-sm font-semibold text-white transition-colors"
+          >
+            Apply
+          </button>
+          <button
+            type="button"
+            onClick={resetFilters}
+            className="rounded-md border border-gray-700 hover:bg-gray-800 px-4 py-2 text-sm text-gray-300 transition-colors"
+          >
+            Reset
+          </button>
+        </div>
+      </form>
+
+      {error && (
+        <div className="mb-6 rounded-md bg-red-900/40 border border-red-700 px-4 py-3 text-sm text-red-300">
+          {error}
+        </div>
+      )}
+
+      {loading && !data ? (
+        <div className="h-48 animate-pulse rounded-lg bg-gray-900" />
+      ) : !data || data.tributes.length === 0 ? (
+        <p className="py-12 text-center text-sm text-gray-500">No tributes match these filters.</p>
+      ) : (
+        <>
+          <p className="mb-3 text-xs text-gray-500">
+            {data.total} tribute{data.total !== 1 ? 's' : ''} · page {data.page} of {totalPages}
+          </p>
+          <div className={`grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 ${loading ? 'opacity-60' : ''}`}>
+            {data.tributes.map((t) => (
+              <TributeCard
+                key={`${t.id}-${t.category}-${t.score}-${t.drinkName ?? ''}`}
+                tribute={t}
+                categories={categoriesForGuild(categories, t.guildId)}
+                onSave={handleSave}
+                onDelete={handleDelete}
+              />
+            ))}
+          </div>
+
+          {/* Pagination */}
+          <div className="mt-6 flex items-center justify-center gap-3">
+            <button
+              type="button"
+              disabled={page <= 1 || loading}
+              onClick={() => setPage((p) => p - 1)}
+              className="rounded-md border border-gray-700 hover:bg-gray-800 disabled:opacity-40 px-3 py-1.5 text-sm text-gray-300 transition-colors"
+            >
+              Previous
+            </button>
+            <span className="text-sm text-gray-500">{page} / {totalPages}</span>
+            <button
+              type="button"
+              disabled={page >= totalPages || loading}
+              onClick={() => setPage((p) => p + 1)}
+              className="rounded-md border border-gray-700 hover:bg-gray-800 disabled:opacity-40 px-3 py-1.5 text-sm text-gray-300 transition-colors"
+            >
+              Next
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
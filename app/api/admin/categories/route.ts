@@ -0,0 +1,116 @@
+import { auth } from '@/lib/auth';
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getAllCategories,
+  createCategory,
+  updateCategory,
+  deleteCategory,
+} from '@/src/services/tributeCategories';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const guildId = request.nextUrl.searchParams.get('guildId') ?? undefined;
+    const categories = await getAllCategories(guildId);
+    return NextResponse.json(categories);
+  } catch (error) {
+    console.error('API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const { guildId, key, label, description, defaultPoints, sortOrder } = body;
+
+    if (!label || typeof label !== 'string') {
+      return NextResponse.json({ error: 'label is required' }, { status: 400 });
+    }
+
+    const created = await createCategory({
+      guildId: guildId || null,
+      key: key || undefined,
+      label,
+      description: description ?? undefined,
+      defaultPoints: defaultPoints !== undefined ? Number(defaultPoints) : undefined,
+      sortOrder: sortOrder !== undefined ? Number(sortOrder) : undefined,
+    });
+
+    return NextResponse.json(created, { status: 201 });
+  } catch (error) {
+    // Unique (scope, key) violation
+    if ((error as { code?: string }).code === '23505') {
+      return NextResponse.json({ error: 'A category with that key already exists' }, { status: 409 });
+    }
+    console.error('API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const { id, label, description, defaultPoints, sortOrder, isActive } = body;
+
+    if (!id) {
+      return NextResponse.json({ error: 'id is required' }, { status: 400 });
+    }
+
+    const updates: Parameters<typeof updateCategory>[1] = {};
+    if (label !== undefined) updates.label = label;
+    if (description !== undefined) updates.description = description;
+    if (defaultPoints !== undefined) updates.defaultPoints = Number(defaultPoints);
+    if (sortOrder !== undefined) updates.sortOrder = Number(sortOrder);
+    if (isActive !== undefined) updates.isActive = isActive;
+
+    const updated = await updateCategory(Number(id), updates);
+    if (!updated) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+    return NextResponse.json(updated);
+  } catch (error) {
+    console.error('API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const id = request.nextUrl.searchParams.get('id');
+
+    if (!id) {
+      return NextResponse.json({ error: 'id is required' }, { status: 400 });
+    }
+
+    const deleted = await deleteCategory(Number(id));
+    if (!deleted) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -436,7 +436,7 @@ async function testScheduledEvents(agentId: string): Promise<string[]> {
   const testEvent = await createScheduledEvent(
     '__diagnostics_test__',
     'test:diagnostics:channel',
-    '0 0 31 2 *',
+    '0 0 29 2 *', // Leap days only; Feb 31 no longer passes cron validation
     'custom_message' as EventType,
     {
       description: 'Diagnostics test event — safe to delete',
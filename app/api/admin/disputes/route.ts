@@ -0,0 +1,84 @@
+import { auth } from '@/lib/auth';
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getDisputes,
+  approveDispute,
+  rejectDispute,
+  type DisputeStatus,
+} from '@/src/services/tributeDisputes';
+
+export const dynamic = 'force-dynamic';
+
+const STATUSES: DisputeStatus[] = ['pending', 'approved', 'rejected'];
+
+export async function GET(request: NextRequest) {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const params = request.nextUrl.searchParams;
+    const status = params.get('status');
+    const guildId = params.get('guildId') ?? undefined;
+
+    const disputes = await getDisputes({
+      status: STATUSES.includes(status as DisputeStatus) ? (status as DisputeStatus) : undefined,
+      guildId,
+    });
+
+    return NextResponse.json(
+      disputes.map((d) => ({
+        ...d,
+        createdAt: d.createdAt.toISOString(),
+        resolvedAt: d.resolvedAt?.toISOString() ?? null,
+        tribute: { ...d.tribute, createdAt: d.tribute.createdAt.toISOString() },
+      }))
+    );
+  } catch (error) {
+    console.error('API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const { id, action, category, drinkName, score, note } = body;
+
+    if (!id) {
+      return NextResponse.json({ error: 'id is required' }, { status: 400 });
+    }
+    if (action !== 'approve' && action !== 'reject') {
+      return NextResponse.json({ error: 'action must be approve or reject' }, { status: 400 });
+    }
+    if (score !== undefined && score !== null && (!Number.isFinite(Number(score)) || Number(score) < 0)) {
+      return NextResponse.json({ error: 'score must be a non-negative number' }, { status: 400 });
+    }
+
+    const resolvedBy = session.user.email ?? session.user.name ?? 'admin';
+
+    const resolved = action === 'approve'
+      ? await approveDispute(Number(id), {
+          category: category || undefined,
+          drinkName: drinkName !== undefined ? drinkName : undefined,
+          score: score !== undefined && score !== null && score !== '' ? Math.round(Number(score)) : undefined,
+          resolvedBy,
+          note: note || null,
+        })
+      : await rejectDispute(Number(id), resolvedBy, note || null);
+
+    if (!resolved) {
+      return NextResponse.json({ error: 'Not found or already resolved' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
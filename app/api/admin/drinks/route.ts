@@ -0,0 +1,122 @@
+import { auth } from '@/lib/auth';
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getDrinksWithCounts,
+  createDrink,
+  updateDrink,
+  deleteDrink,
+  linkTributesToCatalogue,
+} from '@/src/services/drinks';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const drinks = await getDrinksWithCounts();
+    return NextResponse.json(drinks);
+  } catch (error) {
+    console.error('API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+
+    // Re-run catalogue matching over tributes that aren't linked yet
+    if (body.action === 'relink') {
+      const linked = await linkTributesToCatalogue();
+      return NextResponse.json({ linked });
+    }
+
+    const { canonicalName, aliases, category, recipe } = body;
+    if (!canonicalName || typeof canonicalName !== 'string' || !canonicalName.trim()) {
+      return NextResponse.json({ error: 'canonicalName is required' }, { status: 400 });
+    }
+
+    const created = await createDrink({
+      canonicalName,
+      aliases: Array.isArray(aliases) ? aliases : [],
+      category: category || null,
+      recipe: recipe || null,
+    });
+
+    return NextResponse.json(created, { status: 201 });
+  } catch (error) {
+    // Unique canonical name violation
+    if ((error as { code?: string }).code === '23505') {
+      return NextResponse.json({ error: 'A drink with that name already exists' }, { status: 409 });
+    }
+    console.error('API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const { id, canonicalName, aliases, category, recipe } = body;
+
+    if (!id) {
+      return NextResponse.json({ error: 'id is required' }, { status: 400 });
+    }
+
+    const updates: Parameters<typeof updateDrink>[1] = {};
+    if (canonicalName !== undefined) updates.canonicalName = canonicalName;
+    if (aliases !== undefined) updates.aliases = Array.isArray(aliases) ? aliases : [];
+    if (category !== undefined) updates.category = category;
+    if (recipe !== undefined) updates.recipe = recipe;
+
+    const updated = await updateDrink(Number(id), updates);
+    if (!updated) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+    return NextResponse.json(updated);
+  } catch (error) {
+    if ((error as { code?: string }).code === '23505') {
+      return NextResponse.json({ error: 'A drink with that name already exists' }, { status: 409 });
+    }
+    console.error('API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const id = request.nextUrl.searchParams.get('id');
+
+    if (!id) {
+      return NextResponse.json({ error: 'id is required' }, { status: 400 });
+    }
+
+    const deleted = await deleteDrink(Number(id));
+    if (!deleted) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,119 @@
+import { auth } from '@/lib/auth';
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getBlackouts,
+  createBlackout,
+  deleteBlackout,
+  validateBlackout,
+  getBlackoutDays,
+  HOLIDAY_REGIONS,
+  type BlackoutKind,
+  type EventBlackout,
+} from '@/src/services/blackouts';
+
+export const dynamic = 'force-dynamic';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Longest range of days a calendar may ask for */
+const MAX_CALENDAR_DAYS = 366;
+
+function serializeBlackout(b: EventBlackout) {
+  return {
+    ...b,
+    createdAt: b.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Blackouts (optionally those applying to one guild), plus the blacked-out
+ * days between ?from= and ?to= for the calendar
+ */
+export async function GET(request: NextRequest) {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const params = request.nextUrl.searchParams;
+    const from = params.get('from');
+    const to = params.get('to');
+
+    if ((from || to) && !(from && to && DATE_PATTERN.test(from) && DATE_PATTERN.test(to))) {
+      return NextResponse.json({ error: 'from and to must both be YYYY-MM-DD' }, { status: 400 });
+    }
+    if (from && to) {
+      const days = (Date.parse(to) - Date.parse(from)) / (24 * 60 * 60 * 1000);
+      if (!(days >= 0 && days <= MAX_CALENDAR_DAYS)) {
+        return NextResponse.json({ error: `to must be 0-${MAX_CALENDAR_DAYS} days after from` }, { status: 400 });
+      }
+    }
+
+    const blackouts = await getBlackouts(params.get('guildId') || undefined);
+
+    return NextResponse.json({
+      blackouts: blackouts.map(serializeBlackout),
+      days: from && to ? getBlackoutDays(blackouts, from, to) : [],
+      regions: HOLIDAY_REGIONS,
+    });
+  } catch (error) {
+    console.error('API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const input = {
+      name: typeof body.name === 'string' ? body.name : '',
+      guildId: typeof body.guildId === 'string' && body.guildId.trim() ? body.guildId.trim() : null,
+      kind: body.kind as BlackoutKind,
+      startsOn: body.startsOn ?? null,
+      endsOn: body.endsOn ?? null,
+      region: body.region ?? null,
+      createdBy: session.user.email ?? session.user.name ?? 'admin',
+    };
+
+    const error = validateBlackout(input);
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const created = await createBlackout(input);
+    return NextResponse.json(serializeBlackout(created), { status: 201 });
+  } catch (error) {
+    console.error('API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const id = request.nextUrl.searchParams.get('id');
+
+    if (!id) {
+      return NextResponse.json({ error: 'id is required' }, { status: 400 });
+    }
+
+    const deleted = await deleteBlackout(Number(id));
+    if (!deleted) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
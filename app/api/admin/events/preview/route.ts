@@ -0,0 +1,48 @@
+import { auth } from '@/lib/auth';
+import { NextRequest, NextResponse } from 'next/server';
+import { validateCron, describeCron, getNextFireTimes, MAX_PREVIEW_RUNS } from '@/src/services/cron';
+import { DEFAULT_TIMEZONE, isValidTimeZone } from '@/src/services/timezone';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Preview a cron schedule: whether it is valid, what it means and when it
+ * fires next in the given timezone
+ */
+export async function GET(request: NextRequest) {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { searchParams } = request.nextUrl;
+    const cronExpression = searchParams.get('cronExpression');
+    const timezone = searchParams.get('timezone') ?? DEFAULT_TIMEZONE;
+
+    if (!cronExpression) {
+      return NextResponse.json({ error: 'cronExpression is required' }, { status: 400 });
+    }
+    if (!isValidTimeZone(timezone)) {
+      return NextResponse.json({ error: 'timezone is invalid' }, { status: 400 });
+    }
+
+    const countParam = searchParams.get('count');
+    const count = Math.min(Math.max(Number(countParam) || 5, 1), MAX_PREVIEW_RUNS);
+
+    const cronError = validateCron(cronExpression);
+    if (cronError) {
+      return NextResponse.json({ valid: false, error: cronError, description: null, nextRuns: [] });
+    }
+
+    return NextResponse.json({
+      valid: true,
+      error: null,
+      description: describeCron(cronExpression),
+      nextRuns: getNextFireTimes(cronExpression, timezone, count).map(d => d.toISOString()),
+    });
+  } catch (error) {
+    console.error('API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
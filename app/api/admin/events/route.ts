@@ -2,14 +2,32 @@ import { auth } from '@/lib/auth';
 import { NextRequest, NextResponse } from 'next/server';
 import {
   getScheduledEvents,
+  getScheduledEvent,
   createScheduledEvent,
   updateScheduledEvent,
   deleteScheduledEvent,
+  CATCH_UP_POLICIES,
 } from '@/src/services/agents';
-import type { EventType, ScheduledEventPayload } from '@/src/services/agents';
+import type { CatchUpPolicy, EventType, ScheduledEvent, ScheduledEventPayload } from '@/src/services/agents';
+import { parseZonedDateTime } from '@/src/services/timezone';
+import { validateCron, describeCron, getNextRunAt } from '@/src/services/cron';
+import { validateEventPayload } from '@/src/services/eventMessages';
 
 export const dynamic = 'force-dynamic';
 
+// Serialize dates to ISO strings for JSON transport
+function serializeEvent(e: ScheduledEvent) {
+  return {
+    ...e,
+    runAt: e.runAt?.toISOString() ?? null,
+    schedule: e.cronExpression ? describeCron(e.cronExpression) : null,
+    nextRunAt: getNextRunAt(e)?.toISOString() ?? null,
+    lastRunAt: e.lastRunAt?.toISOString() ?? null,
+    createdAt: e.createdAt.toISOString(),
+    updatedAt: e.updatedAt.toISOString(),
+  };
+}
+
 export async function GET(request: NextRequest) {
   const session = await auth();
   if (!session?.user) {
@@ -22,16 +40,7 @@ export async function GET(request: NextRequest) {
     const activeOnly = searchParams.get('activeOnly') === 'true';
 
     const events = await getScheduledEvents({ threadId, activeOnly: activeOnly || undefined });
-
-    // Serialize dates to ISO strings for JSON transport
-    const serialized = events.map((e) => ({
-      ...e,
-      lastRunAt: e.lastRunAt?.toISOString() ?? null,
-      createdAt: e.createdAt.toISOString(),
-      updatedAt: e.updatedAt.toISOString(),
-    }));
-
-    return NextResponse.json(serialized);
+    return NextResponse.json(events.map(serializeEvent));
   } catch (error) {
     console.error('API error:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
@@ -46,35 +55,48 @@ export async function POST(request: NextRequest) {
 
   try {
     const body = await request.json();
-    const { name, threadId, cronExpression, eventType, description, payload, timezone, guildName, channelName } = body;
+    const { name, threadId, cronExpression, runAt, eventType, description, payload, guildName, channelName, catchUpPolicy } = body;
+    const timezone = (body.timezone as string | undefined) ?? 'Europe/Stockholm';
 
     if (!name) return NextResponse.json({ error: 'name is required' }, { status: 400 });
     if (!threadId) return NextResponse.json({ error: 'threadId is required' }, { status: 400 });
-    if (!cronExpression) return NextResponse.json({ error: 'cronExpression is required' }, { status: 400 });
+    if (!cronExpression && !runAt) {
+      return NextResponse.json({ error: 'cronExpression or runAt is required' }, { status: 400 });
+    }
     if (!eventType) return NextResponse.json({ error: 'eventType is required' }, { status: 400 });
+    const payloadError = validateEventPayload(String(eventType), payload ?? {});
+    if (payloadError) {
+      return NextResponse.json({ error: `payload is invalid: ${payloadError}` }, { status: 400 });
+    }
+    const cronError = !runAt ? validateCron(String(cronExpression)) : null;
+    if (cronError) {
+      return NextResponse.json({ error: `cronExpression is invalid: ${cronError}` }, { status: 400 });
+    }
+    if (catchUpPolicy !== undefined && !CATCH_UP_POLICIES.includes(catchUpPolicy)) {
+      return NextResponse.json({ error: 'catchUpPolicy is invalid' }, { status: 400 });
+    }
+
+    // One-off events: a wall-clock time in the event's timezone
+    const runAtDate = runAt ? parseZonedDateTime(String(runAt), timezone) : null;
+    if (runAt && !runAtDate) return NextResponse.json({ error: 'runAt is invalid' }, { status: 400 });
 
     const created = await createScheduledEvent(
       name as string,
       threadId as string,
-      cronExpression as string,
+      runAtDate ? null : cronExpression as string,
       eventType as EventType,
       {
         description: description ?? undefined,
         payload: (payload ?? {}) as ScheduledEventPayload,
-        timezone: timezone ?? 'Europe/Stockholm',
+        timezone,
         guildName: guildName ?? undefined,
         channelName: channelName ?? undefined,
+        runAt: runAtDate ?? undefined,
+        catchUpPolicy: catchUpPolicy as CatchUpPolicy | undefined,
       }
     );
 
-    const serialized = {
-      ...created,
-      lastRunAt: created.lastRunAt?.toISOString() ?? null,
-      createdAt: created.createdAt.toISOString(),
-      updatedAt: created.updatedAt.toISOString(),
-    };
-
-    return NextResponse.json(serialized, { status: 201 });
+    return NextResponse.json(serializeEvent(created), { status: 201 });
   } catch (error) {
     console.error('API error:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
@@ -89,7 +111,7 @@ export async function PATCH(request: NextRequest) {
 
   try {
     const body = await request.json();
-    const { id, name, description, cronExpression, eventType, payload, timezone, isActive } = body;
+    const { id, name, description, cronExpression, runAt, eventType, payload, timezone, isActive, catchUpPolicy } = body;
 
     if (!id) {
       return NextResponse.json({ error: 'id is required' }, { status: 400 });
@@ -98,11 +120,45 @@ export async function PATCH(request: NextRequest) {
     const updates: Parameters<typeof updateScheduledEvent>[1] = {};
     if (name !== undefined) updates.name = name;
     if (description !== undefined) updates.description = description;
-    if (cronExpression !== undefined) updates.cronExpression = cronExpression;
+    if (cronExpression) {
+      const cronError = validateCron(String(cronExpression));
+      if (cronError) {
+        return NextResponse.json({ error: `cronExpression is invalid: ${cronError}` }, { status: 400 });
+      }
+      updates.cronExpression = cronExpression;
+    }
+    if (runAt) {
+      const existing = await getScheduledEvent(id as string);
+      if (!existing) {
+        return NextResponse.json({ error: 'Not found' }, { status: 404 });
+      }
+      const runAtDate = parseZonedDateTime(String(runAt), timezone ?? existing.timezone);
+      if (!runAtDate) return NextResponse.json({ error: 'runAt is invalid' }, { status: 400 });
+      updates.runAt = runAtDate;
+      // Moving a one-off event's time re-arms it
+      if (existing.runAt?.getTime() !== runAtDate.getTime()) updates.isActive = true;
+    }
+    if (eventType !== undefined || payload !== undefined) {
+      // The payload must suit the event type, whichever of them changes
+      const existing = await getScheduledEvent(id as string);
+      if (!existing) {
+        return NextResponse.json({ error: 'Not found' }, { status: 404 });
+      }
+      const payloadError = validateEventPayload(String(eventType ?? existing.eventType), payload ?? existing.payload);
+      if (payloadError) {
+        return NextResponse.json({ error: `payload is invalid: ${payloadError}` }, { status: 400 });
+      }
+    }
     if (eventType !== undefined) updates.eventType = eventType as EventType;
     if (payload !== undefined) updates.payload = payload as ScheduledEventPayload;
     if (timezone !== undefined) updates.timezone = timezone;
     if (isActive !== undefined) updates.isActive = isActive;
+    if (catchUpPolicy !== undefined) {
+      if (!CATCH_UP_POLICIES.includes(catchUpPolicy)) {
+        return NextResponse.json({ error: 'catchUpPolicy is invalid' }, { status: 400 });
+      }
+      updates.catchUpPolicy = catchUpPolicy as CatchUpPolicy;
+    }
 
     const updated = await updateScheduledEvent(id as string, updates);
     if (!updated) {
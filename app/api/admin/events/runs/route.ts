@@ -0,0 +1,46 @@
+import { auth } from '@/lib/auth';
+import { NextRequest, NextResponse } from 'next/server';
+import { getEventRuns } from '@/src/services/agents';
+import type { ScheduledEventRun } from '@/src/services/agents';
+
+export const dynamic = 'force-dynamic';
+
+const MAX_RUNS = 200;
+
+// Serialize dates to ISO strings for JSON transport
+function serializeRun(r: ScheduledEventRun) {
+  return {
+    ...r,
+    scheduledFor: r.scheduledFor?.toISOString() ?? null,
+    startedAt: r.startedAt.toISOString(),
+    finishedAt: r.finishedAt?.toISOString() ?? null,
+  };
+}
+
+/**
+ * Run history for one scheduled event, newest first
+ */
+export async function GET(request: NextRequest) {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { searchParams } = request.nextUrl;
+    const eventId = searchParams.get('eventId');
+
+    if (!eventId) {
+      return NextResponse.json({ error: 'eventId is required' }, { status: 400 });
+    }
+
+    const limitParam = searchParams.get('limit');
+    const limit = Math.min(Math.max(Number(limitParam) || 50, 1), MAX_RUNS);
+
+    const runs = await getEventRuns(eventId, limit);
+    return NextResponse.json(runs.map(serializeRun));
+  } catch (error) {
+    console.error('API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,72 @@
+import { auth } from '@/lib/auth';
+import { NextRequest, NextResponse } from 'next/server';
+import { sql } from '@/src/db';
+import { getAllGuildSettings, setGuildTimezone } from '@/src/services/guildSettings';
+import { DEFAULT_TIMEZONE, isValidTimeZone } from '@/src/services/timezone';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const settings = await getAllGuildSettings();
+
+    // Guilds that have tributes but may not have settings yet
+    const guildRows = sql
+      ? await sql`
+          SELECT DISTINCT guild_id FROM tributes
+          WHERE guild_id <> 'dm'
+          ORDER BY guild_id ASC
+        `
+      : [];
+
+    return NextResponse.json({
+      defaultTimezone: DEFAULT_TIMEZONE,
+      guilds: guildRows.map((r) => r.guild_id as string),
+      settings: settings.map((s) => ({
+        ...s,
+        updatedAt: s.updatedAt.toISOString(),
+      })),
+    });
+  } catch (error) {
+    console.error('API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const { guildId, timezone } = body;
+
+    if (!guildId || typeof guildId !== 'string') {
+      return NextResponse.json({ error: 'guildId is required' }, { status: 400 });
+    }
+    if (!timezone || typeof timezone !== 'string' || !isValidTimeZone(timezone.trim())) {
+      return NextResponse.json({ error: 'timezone must be an IANA timezone like Europe/Stockholm' }, { status: 400 });
+    }
+
+    const saved = await setGuildTimezone(
+      guildId.trim(),
+      timezone.trim(),
+      session.user.email ?? session.user.name ?? 'admin'
+    );
+
+    return NextResponse.json({
+      ...saved,
+      updatedAt: saved.updatedAt.toISOString(),
+    });
+  } catch (error) {
+    console.error('API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
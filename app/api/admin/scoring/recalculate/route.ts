@@ -0,0 +1,70 @@
+import { auth } from '@/lib/auth';
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  recalculateTributeScores,
+  getRecalculationRuns,
+  getScoreAudit,
+  isRunId,
+} from '@/src/services/scoreRecalculation';
+
+export const dynamic = 'force-dynamic';
+
+// Cap the per-tribute change list in responses; totals are always exact
+const MAX_CHANGES_IN_RESPONSE = 200;
+
+export async function GET(request: NextRequest) {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { searchParams } = request.nextUrl;
+    const runId = searchParams.get('runId');
+
+    if (runId) {
+      if (!isRunId(runId)) {
+        return NextResponse.json({ error: 'runId must be a UUID' }, { status: 400 });
+      }
+      const audit = await getScoreAudit(runId);
+      return NextResponse.json(
+        audit.map((a) => ({ ...a, createdAt: a.createdAt.toISOString() }))
+      );
+    }
+
+    const runs = await getRecalculationRuns();
+    return NextResponse.json(
+      runs.map((r) => ({ ...r, createdAt: r.createdAt.toISOString() }))
+    );
+  } catch (error) {
+    console.error('API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { guildId, dryRun } = body;
+
+    const result = await recalculateTributeScores({
+      guildId: guildId || undefined,
+      // Default to a dry run so an empty POST never rewrites scores
+      dryRun: dryRun !== false,
+      triggeredBy: session.user.email ?? session.user.name ?? undefined,
+    });
+
+    return NextResponse.json({
+      ...result,
+      changes: result.changes.slice(0, MAX_CHANGES_IN_RESPONSE),
+    });
+  } catch (error) {
+    console.error('API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
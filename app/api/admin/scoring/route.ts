@@ -0,0 +1,109 @@
+import { auth } from '@/lib/auth';
+import { NextRequest, NextResponse } from 'next/server';
+import { sql } from '@/src/db';
+import {
+  DEFAULT_SCORING_RULES,
+  getScoringRules,
+  getAllScoringRules,
+  saveScoringRules,
+  deleteScoringRules,
+} from '@/src/services/scoringRules';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const guildId = request.nextUrl.searchParams.get('guildId');
+
+    // Effective rules for one guild (its categories + stored overrides)
+    if (guildId) {
+      return NextResponse.json({ guildId, rules: await getScoringRules(guildId) });
+    }
+
+    const rulesets = await getAllScoringRules();
+
+    // Guilds that have tributes but may not have custom rules yet
+    const guildRows = sql
+      ? await sql`
+          SELECT DISTINCT guild_id FROM tributes
+          WHERE guild_id <> 'dm'
+          ORDER BY guild_id ASC
+        `
+      : [];
+
+    return NextResponse.json({
+      defaults: DEFAULT_SCORING_RULES,
+      guilds: guildRows.map((r) => r.guild_id as string),
+      rulesets: rulesets.map((r) => ({
+        ...r,
+        updatedAt: r.updatedAt.toISOString(),
+      })),
+    });
+  } catch (error) {
+    console.error('API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const { guildId, rules } = body;
+
+    if (!guildId || typeof guildId !== 'string') {
+      return NextResponse.json({ error: 'guildId is required' }, { status: 400 });
+    }
+    if (!rules || typeof rules !== 'object') {
+      return NextResponse.json({ error: 'rules is required' }, { status: 400 });
+    }
+
+    const saved = await saveScoringRules(
+      guildId.trim(),
+      rules,
+      session.user.email ?? session.user.name ?? undefined
+    );
+
+    return NextResponse.json({
+      ...saved,
+      updatedAt: saved.updatedAt.toISOString(),
+    });
+  } catch (error) {
+    console.error('API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { searchParams } = request.nextUrl;
+    const guildId = searchParams.get('guildId');
+
+    if (!guildId) {
+      return NextResponse.json({ error: 'guildId is required' }, { status: 400 });
+    }
+
+    const deleted = await deleteScoringRules(guildId);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,192 @@
+import { auth } from '@/lib/auth';
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getSeasons,
+  getSeason,
+  getSeasonStandings,
+  getSeasonStatus,
+  findOverlappingSeason,
+  createSeason,
+  updateSeason,
+  deleteSeason,
+  type Season,
+} from '@/src/services/seasons';
+
+export const dynamic = 'force-dynamic';
+
+function serializeSeason(season: Season) {
+  return {
+    ...season,
+    status: getSeasonStatus(season),
+    startsAt: season.startsAt.toISOString(),
+    endsAt: season.endsAt.toISOString(),
+    archivedAt: season.archivedAt?.toISOString() ?? null,
+    createdAt: season.createdAt.toISOString(),
+  };
+}
+
+function parseDate(value: unknown): Date | null {
+  if (typeof value !== 'string' || !value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+export async function GET(request: NextRequest) {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const params = request.nextUrl.searchParams;
+    const id = params.get('id');
+
+    // Single season with its standings (live or archived)
+    if (id) {
+      const season = await getSeason(Number(id));
+      if (!season) {
+        return NextResponse.json({ error: 'Not found' }, { status: 404 });
+      }
+      const standings = await getSeasonStandings(season);
+      return NextResponse.json({ season: serializeSeason(season), standings });
+    }
+
+    const seasons = await getSeasons(params.get('guildId') ?? undefined);
+    return NextResponse.json(seasons.map(serializeSeason));
+  } catch (error) {
+    console.error('API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const { guildId, name, announceThreadId } = body;
+    const startsAt = parseDate(body.startsAt);
+    const endsAt = parseDate(body.endsAt);
+
+    if (!guildId || typeof guildId !== 'string') {
+      return NextResponse.json({ error: 'guildId is required' }, { status: 400 });
+    }
+    if (!name || typeof name !== 'string' || !name.trim()) {
+      return NextResponse.json({ error: 'name is required' }, { status: 400 });
+    }
+    if (!startsAt || !endsAt) {
+      return NextResponse.json({ error: 'startsAt and endsAt are required' }, { status: 400 });
+    }
+    if (endsAt <= startsAt) {
+      return NextResponse.json({ error: 'endsAt must be after startsAt' }, { status: 400 });
+    }
+
+    const overlapping = findOverlappingSeason(await getSeasons(guildId), startsAt, endsAt);
+    if (overlapping) {
+      return NextResponse.json({ error: `Overlaps with season "${overlapping.name}"` }, { status: 409 });
+    }
+
+    const created = await createSeason({
+      guildId,
+      name,
+      startsAt,
+      endsAt,
+      announceThreadId: announceThreadId || null,
+    });
+
+    return NextResponse.json(serializeSeason(created), { status: 201 });
+  } catch (error) {
+    console.error('API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const { id, name, announceThreadId } = body;
+
+    if (!id) {
+      return NextResponse.json({ error: 'id is required' }, { status: 400 });
+    }
+
+    const existing = await getSeason(Number(id));
+    if (!existing) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+    if (existing.archivedAt) {
+      return NextResponse.json({ error: 'Archived seasons cannot be edited' }, { status: 409 });
+    }
+
+    const updates: Parameters<typeof updateSeason>[1] = {};
+    if (name !== undefined) {
+      if (typeof name !== 'string' || !name.trim()) {
+        return NextResponse.json({ error: 'name cannot be empty' }, { status: 400 });
+      }
+      updates.name = name;
+    }
+    if (body.startsAt !== undefined) {
+      const startsAt = parseDate(body.startsAt);
+      if (!startsAt) return NextResponse.json({ error: 'startsAt is invalid' }, { status: 400 });
+      updates.startsAt = startsAt;
+    }
+    if (body.endsAt !== undefined) {
+      const endsAt = parseDate(body.endsAt);
+      if (!endsAt) return NextResponse.json({ error: 'endsAt is invalid' }, { status: 400 });
+      updates.endsAt = endsAt;
+    }
+    if (announceThreadId !== undefined) updates.announceThreadId = announceThreadId || null;
+
+    const startsAt = updates.startsAt ?? existing.startsAt;
+    const endsAt = updates.endsAt ?? existing.endsAt;
+    if (endsAt <= startsAt) {
+      return NextResponse.json({ error: 'endsAt must be after startsAt' }, { status: 400 });
+    }
+
+    const overlapping = findOverlappingSeason(await getSeasons(existing.guildId), startsAt, endsAt, existing.id);
+    if (overlapping) {
+      return NextResponse.json({ error: `Overlaps with season "${overlapping.name}"` }, { status: 409 });
+    }
+
+    const updated = await updateSeason(existing.id, updates);
+    if (!updated) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+    return NextResponse.json(serializeSeason(updated));
+  } catch (error) {
+    console.error('API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const id = request.nextUrl.searchParams.get('id');
+
+    if (!id) {
+      return NextResponse.json({ error: 'id is required' }, { status: 400 });
+    }
+
+    const deleted = await deleteSeason(Number(id));
+    if (!deleted) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
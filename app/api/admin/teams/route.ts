@@ -0,0 +1,156 @@
+import { auth } from '@/lib/auth';
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getTeams,
+  getTeam,
+  getTeamMembers,
+  getTeamStandings,
+  createTeam,
+  updateTeam,
+  deleteTeam,
+  type Team,
+  type TeamStanding,
+} from '@/src/services/teams';
+
+export const dynamic = 'force-dynamic';
+
+function serializeTeam(team: Team, standing?: TeamStanding) {
+  return {
+    ...team,
+    createdAt: team.createdAt.toISOString(),
+    rank: standing?.rank ?? null,
+    score: standing?.score ?? 0,
+    count: standing?.count ?? 0,
+    members: standing?.members ?? 0,
+  };
+}
+
+export async function GET(request: NextRequest) {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const params = request.nextUrl.searchParams;
+    const id = params.get('id');
+
+    // Single team with its members
+    if (id) {
+      const team = await getTeam(Number(id));
+      if (!team) {
+        return NextResponse.json({ error: 'Not found' }, { status: 404 });
+      }
+      const members = await getTeamMembers(team.id);
+      return NextResponse.json({
+        team: serializeTeam(team),
+        members: members.map(m => ({ ...m, joinedAt: m.joinedAt.toISOString() })),
+      });
+    }
+
+    const teams = await getTeams(params.get('guildId') ?? undefined);
+
+    // Standings are per guild, so fetch them once for each guild listed
+    const standings = new Map<number, TeamStanding>();
+    for (const guildId of new Set(teams.map(t => t.guildId))) {
+      for (const standing of await getTeamStandings(guildId)) {
+        standings.set(standing.teamId, standing);
+      }
+    }
+
+    return NextResponse.json(teams.map(t => serializeTeam(t, standings.get(t.id))));
+  } catch (error) {
+    console.error('API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const { guildId, name, roleId } = body;
+
+    if (!guildId || typeof guildId !== 'string') {
+      return NextResponse.json({ error: 'guildId is required' }, { status: 400 });
+    }
+    if (!name || typeof name !== 'string' || !name.trim()) {
+      return NextResponse.json({ error: 'name is required' }, { status: 400 });
+    }
+
+    const created = await createTeam({ guildId, name, roleId: roleId || null });
+    return NextResponse.json(serializeTeam(created), { status: 201 });
+  } catch (error) {
+    // Unique (guild, name) violation
+    if ((error as { code?: string }).code === '23505') {
+      return NextResponse.json({ error: 'A team with that name already exists in this guild' }, { status: 409 });
+    }
+    console.error('API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const { id, name, roleId } = body;
+
+    if (!id) {
+      return NextResponse.json({ error: 'id is required' }, { status: 400 });
+    }
+
+    const updates: Parameters<typeof updateTeam>[1] = {};
+    if (name !== undefined) {
+      if (typeof name !== 'string' || !name.trim()) {
+        return NextResponse.json({ error: 'name cannot be empty' }, { status: 400 });
+      }
+      updates.name = name;
+    }
+    if (roleId !== undefined) updates.roleId = roleId || null;
+
+    const updated = await updateTeam(Number(id), updates);
+    if (!updated) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+    return NextResponse.json(serializeTeam(updated));
+  } catch (error) {
+    if ((error as { code?: string }).code === '23505') {
+      return NextResponse.json({ error: 'A team with that name already exists in this guild' }, { status: 409 });
+    }
+    console.error('API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const id = request.nextUrl.searchParams.get('id');
+
+    if (!id) {
+      return NextResponse.json({ error: 'id is required' }, { status: 400 });
+    }
+
+    const deleted = await deleteTeam(Number(id));
+    if (!deleted) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
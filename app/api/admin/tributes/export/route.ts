@@ -0,0 +1,43 @@
+import { auth } from '@/lib/auth';
+import { NextRequest, NextResponse } from 'next/server';
+import { exportTributes, serializeTributeExport, type TransferFormat } from '@/src/services/tributeTransfer';
+
+export const dynamic = 'force-dynamic';
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export async function GET(request: NextRequest) {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const params = request.nextUrl.searchParams;
+    const format = (params.get('format') || 'json') as TransferFormat;
+    const guildId = params.get('guildId') || undefined;
+    const from = params.get('from') || undefined;
+    const to = params.get('to') || undefined;
+
+    if (format !== 'csv' && format !== 'json') {
+      return NextResponse.json({ error: 'format must be csv or json' }, { status: 400 });
+    }
+    if ((from && !DATE_KEY_PATTERN.test(from)) || (to && !DATE_KEY_PATTERN.test(to))) {
+      return NextResponse.json({ error: 'from and to must be YYYY-MM-DD' }, { status: 400 });
+    }
+
+    const filters = { guildId, from, to };
+    const rows = await exportTributes(filters);
+    const filename = `tributes${guildId ? `-${guildId}` : ''}-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+    return new NextResponse(serializeTributeExport(rows, format, filters), {
+      headers: {
+        'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    console.error('API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
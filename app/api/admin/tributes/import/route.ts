@@ -0,0 +1,42 @@
+import { auth } from '@/lib/auth';
+import { NextRequest, NextResponse } from 'next/server';
+import { parseTributeImport, importTributes } from '@/src/services/tributeTransfer';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST { format: 'csv' | 'json', content: string, dryRun?: boolean }
+ * Returns the import report. dryRun defaults to true; pass false to write.
+ */
+export async function POST(request: NextRequest) {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const { format, content, dryRun } = body;
+
+    if (format !== 'csv' && format !== 'json') {
+      return NextResponse.json({ error: 'format must be csv or json' }, { status: 400 });
+    }
+    if (typeof content !== 'string' || !content.trim()) {
+      return NextResponse.json({ error: 'content is required' }, { status: 400 });
+    }
+
+    let records: unknown[];
+    try {
+      records = parseTributeImport(content, format);
+    } catch (error) {
+      return NextResponse.json({ error: `Could not parse ${format}: ${(error as Error).message}` }, { status: 400 });
+    }
+
+    const report = await importTributes(records, { dryRun: dryRun !== false });
+    console.log(`[TributeTransfer] Import by ${session.user.email ?? session.user.name ?? 'admin'}: ${report.inserted} ${report.dryRun ? 'to insert (dry run)' : 'inserted'}`);
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error('API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,106 @@
+import { auth } from '@/lib/auth';
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  parseGalleryFilters,
+  searchTributes,
+  getTributeGuilds,
+  correctTribute,
+  deleteTribute,
+} from '@/src/services/tributeGallery';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const filters = parseGalleryFilters(request.nextUrl.searchParams);
+    const [result, guilds] = await Promise.all([
+      searchTributes(filters),
+      getTributeGuilds(),
+    ]);
+
+    return NextResponse.json({
+      ...result,
+      guilds,
+      tributes: result.tributes.map((t) => ({
+        ...t,
+        createdAt: t.createdAt.toISOString(),
+      })),
+    });
+  } catch (error) {
+    console.error('API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const { id, category, drinkName, score, reason } = body;
+
+    if (!id) {
+      return NextResponse.json({ error: 'id is required' }, { status: 400 });
+    }
+    if (category !== undefined && (typeof category !== 'string' || !category.trim())) {
+      return NextResponse.json({ error: 'category cannot be empty' }, { status: 400 });
+    }
+    if (score !== undefined && score !== null && score !== '' && (!Number.isFinite(Number(score)) || Number(score) < 0)) {
+      return NextResponse.json({ error: 'score must be a non-negative number' }, { status: 400 });
+    }
+
+    const entry = await correctTribute(
+      Number(id),
+      {
+        category: category ? category.trim().toUpperCase() : undefined,
+        drinkName: drinkName !== undefined ? (drinkName || null) : undefined,
+        score: score !== undefined && score !== null && score !== '' ? Math.round(Number(score)) : undefined,
+      },
+      session.user.email ?? session.user.name ?? 'admin',
+      reason || null
+    );
+
+    if (!entry) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+    return NextResponse.json({
+      ...entry,
+      createdAt: entry.createdAt.toISOString(),
+    });
+  } catch (error) {
+    console.error('API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const id = request.nextUrl.searchParams.get('id');
+
+    if (!id) {
+      return NextResponse.json({ error: 'id is required' }, { status: 400 });
+    }
+
+    const deleted = await deleteTribute(Number(id), session.user.email ?? session.user.name ?? 'admin');
+    if (!deleted) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -12,11 +12,17 @@ import {
 } from '@/src/types';
 import {
   handleTributeCommand,
+  handleTributeDispute,
+  handleJournalCommand,
+  showJournalPage,
+  handleTeamCommand,
+  getDuplicateRejection,
   getFullUserStats,
   getAllTimeLeaderboard,
   getDailyLeaderboard,
   getFridayLeaderboard,
   isFriday,
+  getCurrentFridayKey,
 } from '@/src/tribute-tracker';
 import { initializeDatabase } from '@/src/db';
 import {
@@ -28,6 +34,22 @@ import {
 import { ISEE_EMOJI, getRandomPhrase, TRIBUTE_DEMAND_PHRASES } from '@/src/personality';
 import { formatPersonalStats, formatLeaderboard } from '@/src/formatters';
 import { resolveConfigWithDefaults } from '@/src/services/agents';
+import { getScoringRules } from '@/src/services/scoringRules';
+import { getCategories } from '@/src/services/tributeCategories';
+import { screenTributeImage, type ImageScreening } from '@/src/services/imageHash';
+import { downloadImage, type DownloadedImage } from '@/src/services/tributeImages';
+import { getUserAchievements } from '@/src/services/achievements';
+import { getGuildTimezone } from '@/src/services/guildSettings';
+import { parseJournalCustomId, JOURNAL_CUSTOM_ID_PREFIX } from '@/src/services/journal';
+import { getTeamStandings, syncRoleTeam } from '@/src/services/teams';
+import { handleRemindCommand } from '@/src/services/reminders';
+import { parseRsvpCustomId, toggleEventRsvp, updateRsvpButton } from '@/src/services/eventMessages';
+import {
+  getCurrentSeason,
+  getSeasonByName,
+  getSeasonStandings,
+  formatSeasonLeaderboard,
+} from '@/src/services/seasons';
 
 export const dynamic = 'force-dynamic';
 
@@ -119,14 +141,64 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     return NextResponse.json(response);
   }
 
+  if (interaction.type === InteractionType.MESSAGE_COMPONENT) {
+    const response = await handleMessageComponent(interaction);
+    return NextResponse.json(response);
+  }
+
   return NextResponse.json({ error: 'Unknown interaction type' }, { status: 400 });
 }
 
+async function handleMessageComponent(
+  interaction: DiscordInteraction
+): Promise<InteractionResponse> {
+  const customId = interaction.data?.custom_id || '';
+  const userId = interaction.member?.user?.id || interaction.user?.id || 'unknown';
+  const username =
+    interaction.member?.user?.username || interaction.user?.username || 'Unknown Mortal';
+
+  if (customId.startsWith(`${JOURNAL_CUSTOM_ID_PREFIX}:`)) {
+    const state = parseJournalCustomId(customId);
+    if (!state || state.userId !== userId) {
+      return {
+        type: InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE,
+        data: {
+          content: `${ISEE_EMOJI} This journal belongs to another mortal. Open your own with \`/journal\`.`,
+          flags: 64,
+        },
+      };
+    }
+    const page = await showJournalPage(state, username, interaction.guild_id || null);
+    return {
+      type: InteractionResponseType.UPDATE_MESSAGE,
+      data: page,
+    };
+  }
+
+  // "I'm in!" on a scheduled event's message: toggle the RSVP and show the count
+  const rsvpEventId = parseRsvpCustomId(customId);
+  if (rsvpEventId && interaction.message) {
+    const { count } = await toggleEventRsvp(interaction.message.id, rsvpEventId, userId);
+    return {
+      type: InteractionResponseType.UPDATE_MESSAGE,
+      data: { components: updateRsvpButton(interaction.message.components ?? [], customId, count) },
+    };
+  }
+
+  return {
+    type: InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE,
+    data: { content: `${ISEE_EMOJI} The spirits do not recognize this gesture.`, flags: 64 },
+  };
+}
+
 /** Capability required for each command. Null = always available. */
 const COMMAND_CAPABILITIES: Record<string, string | null> = {
   tribute: 'tribute_tracking',
   tally: 'tribute_tracking',
+  journal: 'tribute_tracking',
+  team: 'tribute_tracking',
   demand: 'tribute_tracking',
+  remind: 'scheduled_messages',
   ask: null,
   drink: null, // 'drink random' has its own check
   cheers: null,
@@ -178,23 +250,46 @@ async function handleApplicationCommand(
     case 'tribute': {
       const subcommand = options[0]?.name || 'status';
       let imageUrl: string | undefined;
+      let screening: ImageScreening | undefined;
+      let image: DownloadedImage | null = null;
       if (subcommand === 'offer') {
+        // Team roles decide which team the tribute counts towards
+        if (guildIdOrNull && interaction.member) {
+          await syncRoleTeam(guildIdOrNull, userId, username, interaction.member.roles);
+        }
         const imageOption = options[0]?.options?.find((opt) => opt.name === 'image');
         if (imageOption && interaction.data?.resolved?.attachments) {
           const attachmentId = imageOption.value as string;
           imageUrl = interaction.data.resolved.attachments[attachmentId]?.url;
         }
         if (imageUrl) {
+          // Downloaded once: screening, analysis and storage share the bytes
+          image = await downloadImage(imageUrl);
+          // Refuse re-posted photos before spending an AI call on them
+          screening = await screenTributeImage(image, guildId, userId);
+          const rejection = getDuplicateRejection(screening, userId);
+          if (rejection) {
+            return {
+              type: InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE,
+              data: { content: rejection },
+            };
+          }
+
           // Image analysis requires the image_analysis capability
-          if (!hasCap('image_analysis')) {
-            const result = await handleTributeCommand(subcommand, userId, username, guildId, imageUrl);
+          if (!image || !hasCap('image_analysis')) {
+            const result = await handleTributeCommand(subcommand, userId, username, guildId, imageUrl, undefined, screening, image);
             return {
               type: InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE,
               data: result,
             };
           }
           try {
-            const analysis = await analyzeImage(imageUrl, undefined, isFriday(), guildId === 'dm');
+            const [scoringRules, categories, timeZone] = await Promise.all([
+              getScoringRules(guildId),
+              getCategories(guildId),
+              getGuildTimezone(guildId),
+            ]);
+            const analysis = await analyzeImage(image, undefined, isFriday(timeZone), guildId === 'dm', scoringRules, categories);
             if (analysis) {
               const { handleMentionTribute } = await import('@/src/tribute-tracker');
               const result = await handleMentionTribute(
@@ -204,11 +299,13 @@ async function handleApplicationCommand(
                 channelId || '',
                 imageUrl,
                 undefined,
-                analysis
+                analysis,
+                screening,
+                image
               );
               return {
                 type: InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE,
-                data: result,
+                data: { content: result.content },
               };
             }
           } catch (error) {
@@ -216,7 +313,21 @@ async function handleApplicationCommand(
           }
         }
       }
-      const result = await handleTributeCommand(subcommand, userId, username, guildId, imageUrl);
+      if (subcommand === 'dispute') {
+        const disputeOptions = options[0]?.options || [];
+        const getOption = (name: string) => disputeOptions.find((opt) => opt.name === name)?.value;
+        const result = await handleTributeDispute(userId, guildId, {
+          tributeId: getOption('tribute_id') as number | undefined,
+          category: getOption('category') as string | undefined,
+          drinkName: getOption('drink') as string | undefined,
+          reason: getOption('reason') as string | undefined,
+        });
+        return {
+          type: InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE,
+          data: { ...result, flags: 64 }, // Ephemeral: only the disputing user sees it
+        };
+      }
+      const result = await handleTributeCommand(subcommand, userId, username, guildId, imageUrl, undefined, screening, image);
       return {
         type: InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE,
         data: result,
@@ -302,24 +413,28 @@ async function handleApplicationCommand(
       const subcommand = options[0]?.name || 'me';
       if (subcommand === 'me') {
         const isDm = !interaction.guild_id;
-        const [stats, allTimeBoard] = await Promise.all([
-          getFullUserStats(userId),
+        const timeZone = await getGuildTimezone(guildIdOrNull);
+        const [stats, allTimeBoard, scoringRules, achievements] = await Promise.all([
+          getFullUserStats(userId, guildIdOrNull ?? undefined),
           isDm ? Promise.resolve([]) : getAllTimeLeaderboard(50, guildIdOrNull ?? undefined),
+          getScoringRules(guildIdOrNull),
+          getUserAchievements(userId, getCurrentFridayKey(timeZone)),
         ]);
         const rank = allTimeBoard.findIndex((e) => e.userId === userId) + 1;
         const rankText = !isDm && rank > 0 ? `#${rank} of ${allTimeBoard.length}` : '';
         return {
           type: InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE,
           data: {
-            content: formatPersonalStats(username, stats, rankText),
+            content: formatPersonalStats(username, stats, rankText, scoringRules, achievements),
           },
         };
       }
       if (subcommand === 'leaderboard') {
-        const [allTimeRaw, dailyRaw, fridayRaw] = await Promise.all([
+        const [allTimeRaw, dailyRaw, fridayRaw, teams] = await Promise.all([
           getAllTimeLeaderboard(50, guildIdOrNull ?? undefined),
           getDailyLeaderboard(20, guildIdOrNull ?? undefined),
           getFridayLeaderboard(20, guildIdOrNull ?? undefined),
+          guildIdOrNull ? getTeamStandings(guildIdOrNull) : Promise.resolve([]),
         ]);
         return {
           type: InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE,
@@ -327,23 +442,100 @@ async function handleApplicationCommand(
             content: formatLeaderboard(
               allTimeRaw.slice(0, 10),
               dailyRaw.slice(0, 5),
-              fridayRaw.slice(0, 5)
+              fridayRaw.slice(0, 5),
+              teams
             ),
           },
         };
       }
+      if (subcommand === 'season') {
+        if (!guildIdOrNull) {
+          return {
+            type: InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE,
+            data: {
+              content: `${ISEE_EMOJI} Seasons are waged within a server. Invoke \`/tally season\` there, mortal.`,
+              flags: 64,
+            },
+          };
+        }
+        const seasonName = options[0]?.options?.find((opt) => opt.name === 'name')?.value as string | undefined;
+        const season = seasonName
+          ? await getSeasonByName(guildIdOrNull, seasonName)
+          : await getCurrentSeason(guildIdOrNull);
+        if (!season) {
+          return {
+            type: InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE,
+            data: {
+              content: seasonName
+                ? `${ISEE_EMOJI} The spirits know of no season called "${seasonName}".`
+                : `${ISEE_EMOJI} No season has begun in this realm. The spirits keep only the eternal tally.`,
+              flags: 64,
+            },
+          };
+        }
+        const standings = await getSeasonStandings(season);
+        return {
+          type: InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE,
+          data: {
+            content: formatSeasonLeaderboard(season, standings),
+          },
+        };
+      }
       return {
         type: InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE,
         data: {
-          content: `${ISEE_EMOJI} Unknown tally command. Use \`/tally me\` or \`/tally leaderboard\`.`,
+          content: `${ISEE_EMOJI} Unknown tally command. Use \`/tally me\`, \`/tally leaderboard\` or \`/tally season\`.`,
         },
       };
     }
+    case 'journal': {
+      const getOption = (name: string) => options.find((opt) => opt.name === name)?.value as string | undefined;
+      const result = await handleJournalCommand(userId, username, guildIdOrNull, {
+        from: getOption('from'),
+        to: getOption('to'),
+        category: getOption('category'),
+        drink: getOption('drink'),
+      });
+      return {
+        type: InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE,
+        data: { ...result, flags: 64 }, // Ephemeral: a journal is personal
+      };
+    }
+    case 'team': {
+      const subcommand = options[0]?.name || 'standings';
+      const name = options[0]?.options?.find((opt) => opt.name === 'name')?.value as string | undefined;
+      const result = await handleTeamCommand(
+        subcommand,
+        userId,
+        username,
+        guildIdOrNull,
+        interaction.member?.roles ?? [],
+        { name }
+      );
+      return {
+        type: InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE,
+        data: result,
+      };
+    }
+    case 'remind': {
+      const subcommand = options[0]?.name || 'list';
+      const getOption = (name: string) =>
+        options[0]?.options?.find((opt) => opt.name === name)?.value as string | undefined;
+      const result = await handleRemindCommand(subcommand, userId, guildIdOrNull, {
+        when: getOption('when'),
+        message: getOption('message'),
+        reminder: getOption('reminder'),
+      });
+      return {
+        type: InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE,
+        data: { ...result, flags: 64 }, // Ephemeral: reminders are personal
+      };
+    }
     default:
       return {
         type: InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE,
         data: {
-          content: `${ISEE_EMOJI} Unknown invocation. The spirits recognize: \`/tribute\`, \`/ask\`, \`/tally\`, \`/demand\`, \`/drink\`, or \`/cheers\`.`,
+          content: `${ISEE_EMOJI} Unknown invocation. The spirits recognize: \`/tribute\`, \`/ask\`, \`/tally\`, \`/journal\`, \`/team\`, \`/remind\`, \`/demand\`, \`/drink\`, or \`/cheers\`.`,
         },
       };
   }
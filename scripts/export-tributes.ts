@@ -0,0 +1,61 @@
+/**
+ * Export tributes to CSV or JSON
+ *
+ * Run with: npm run tributes:export -- [options]
+ *
+ * Options:
+ * --format csv|json   Output format (default: json)
+ * --guild <id>        Only this guild ("dm" for direct messages)
+ * --from YYYY-MM-DD   First day, inclusive, in the guild's timezone
+ * --to YYYY-MM-DD     Last day, inclusive
+ * --out <file>        Write to a file instead of stdout
+ *
+ * Requires DATABASE_URL.
+ */
+
+import 'dotenv/config';
+import { writeFileSync } from 'fs';
+import { parseArgs } from 'util';
+import { closeDatabase } from '../src/db';
+import { exportTributes, serializeTributeExport, type TransferFormat } from '../src/services/tributeTransfer';
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      format: { type: 'string', default: 'json' },
+      guild: { type: 'string' },
+      from: { type: 'string' },
+      to: { type: 'string' },
+      out: { type: 'string' },
+    },
+  });
+
+  const format = values.format as TransferFormat;
+  if (format !== 'csv' && format !== 'json') {
+    throw new Error('--format must be csv or json');
+  }
+  for (const date of [values.from, values.to]) {
+    if (date && !DATE_KEY_PATTERN.test(date)) throw new Error(`Invalid date "${date}" (expected YYYY-MM-DD)`);
+  }
+
+  const filters = { guildId: values.guild, from: values.from, to: values.to };
+  const rows = await exportTributes(filters);
+  const output = serializeTributeExport(rows, format, filters);
+
+  if (values.out) {
+    writeFileSync(values.out, output);
+    console.error(`Exported ${rows.length} tributes to ${values.out}`);
+  } else {
+    process.stdout.write(output);
+    console.error(`Exported ${rows.length} tributes`);
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('Export failed:', (error as Error).message || error);
+    process.exitCode = 1;
+  })
+  .finally(() => closeDatabase());
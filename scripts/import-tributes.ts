@@ -0,0 +1,65 @@
+/**
+ * Import tributes from a CSV or JSON file
+ *
+ * Run with: npm run tributes:import -- <file> [options]
+ *
+ * Options:
+ * --format csv|json   Input format (default: from the file extension)
+ * --apply             Write to the database. Without it the import is a dry
+ *                     run that only reports what would happen.
+ *
+ * Accepts files written by tributes:export, snake_case column dumps and the
+ * legacy BeerPost shape ({ userId, username, timestamp, imageUrl, guildId }).
+ * Re-running an import is safe: tributes already present are skipped and
+ * mismatching ones are reported as conflicts, never overwritten.
+ *
+ * Requires DATABASE_URL.
+ */
+
+import 'dotenv/config';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import { closeDatabase } from '../src/db';
+import {
+  parseTributeImport,
+  importTributes,
+  formatImportReport,
+  type TransferFormat,
+} from '../src/services/tributeTransfer';
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      format: { type: 'string' },
+      apply: { type: 'boolean', default: false },
+    },
+  });
+
+  const file = positionals[0];
+  if (!file) throw new Error('Usage: npm run tributes:import -- <file> [--format csv|json] [--apply]');
+
+  const format = (values.format ?? (path.extname(file).toLowerCase() === '.csv' ? 'csv' : 'json')) as TransferFormat;
+  if (format !== 'csv' && format !== 'json') {
+    throw new Error('--format must be csv or json');
+  }
+
+  const records = parseTributeImport(readFileSync(file, 'utf8'), format);
+  const report = await importTributes(records, { dryRun: !values.apply });
+
+  console.log(formatImportReport(report));
+  if (report.dryRun) {
+    console.log('\nNothing was written. Re-run with --apply to import.');
+  }
+  if (report.conflicts.length > 0 || report.invalid.length > 0) {
+    process.exitCode = 2;
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('Import failed:', (error as Error).message || error);
+    process.exitCode = 1;
+  })
+  .finally(() => closeDatabase());
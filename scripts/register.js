@@ -46,6 +46,37 @@ const commands = [
         description: 'Invoke the spirits to demand tribute from mortals',
         type: 1,
       },
+      {
+        name: 'dispute',
+        description: 'Contest how the spirits judged your latest tribute',
+        type: 1,
+        options: [
+          {
+            name: 'category',
+            description: 'The category your offering truly belongs to (e.g. Tiki)',
+            type: 3,
+            required: false,
+          },
+          {
+            name: 'drink',
+            description: 'What the drink really was (e.g. Zombie)',
+            type: 3,
+            required: false,
+          },
+          {
+            name: 'reason',
+            description: 'Why the judgment was wrong',
+            type: 3,
+            required: false,
+          },
+          {
+            name: 'tribute_id',
+            description: 'Tribute number to dispute (defaults to your latest)',
+            type: 4,
+            required: false,
+          },
+        ],
+      },
     ],
   },
   {
@@ -138,6 +169,123 @@ const commands = [
         description: 'See the top tribute rankings',
         type: 1,
       },
+      {
+        name: 'season',
+        description: 'See the current season standings',
+        type: 1,
+        options: [
+          {
+            name: 'name',
+            description: 'A past season to view (defaults to the current one)',
+            type: 3,
+            required: false,
+          },
+        ],
+      },
+    ],
+  },
+  {
+    name: 'journal',
+    description: 'Look back through your own drink tributes',
+    options: [
+      {
+        name: 'from',
+        description: 'First day to include (YYYY-MM-DD, or YYYY-MM for a whole month)',
+        type: 3,
+        required: false,
+      },
+      {
+        name: 'to',
+        description: 'Last day to include (YYYY-MM-DD, or YYYY-MM for a whole month)',
+        type: 3,
+        required: false,
+      },
+      {
+        name: 'category',
+        description: 'Only this category (e.g. Tiki)',
+        type: 3,
+        required: false,
+      },
+      {
+        name: 'drink',
+        description: 'Only drinks whose name contains this (e.g. Mai Tai)',
+        type: 3,
+        required: false,
+        max_length: 32,
+      },
+    ],
+  },
+  {
+    name: 'team',
+    description: 'Fight for a team in this server',
+    options: [
+      {
+        name: 'join',
+        description: 'Swear allegiance to a team',
+        type: 1,
+        options: [
+          {
+            name: 'name',
+            description: 'The team to join (e.g. Team Rum)',
+            type: 3,
+            required: true,
+          },
+        ],
+      },
+      {
+        name: 'leave',
+        description: 'Leave your team',
+        type: 1,
+      },
+      {
+        name: 'standings',
+        description: 'See how the teams stand',
+        type: 1,
+      },
+    ],
+  },
+  {
+    name: 'remind',
+    description: 'Personal reminders, delivered by DM',
+    options: [
+      {
+        name: 'set',
+        description: 'Set a reminder for yourself',
+        type: 1,
+        options: [
+          {
+            name: 'when',
+            description: 'e.g. "in 2 hours", "tomorrow 18:00", "friday 6pm", "2026-03-14 18:00"',
+            type: 3,
+            required: true,
+          },
+          {
+            name: 'message',
+            description: 'What to remind you of',
+            type: 3,
+            required: true,
+            max_length: 500,
+          },
+        ],
+      },
+      {
+        name: 'list',
+        description: 'See your pending reminders',
+        type: 1,
+      },
+      {
+        name: 'cancel',
+        description: 'Cancel one of your reminders',
+        type: 1,
+        options: [
+          {
+            name: 'reminder',
+            description: 'Its number from /remind list',
+            type: 3,
+            required: true,
+          },
+        ],
+      },
     ],
   },
 ];
@@ -16,6 +16,29 @@ import { initializeThreadTables } from './services/threads';
 import { initializeAgentTables } from './services/agents';
 import { initializeUserMemoryTable } from './services/userMemory';
 import { initializeAgentKnowledgeTable } from './services/agentKnowledge';
+import {
+  initializeScoringRulesTable,
+  getScoringRules,
+  formatScoringLegend,
+  DEFAULT_SCORING_RULES,
+  type ScoringRules,
+} from './services/scoringRules';
+import { initializeScoreRecalculationTables } from './services/scoreRecalculation';
+import { initializeTributeCategoriesTable } from './services/tributeCategories';
+import { initializeDrinksTable } from './services/drinks';
+import { initializeTributeHistoryTable } from './services/tributeHistory';
+import { initializeTributeDisputesTable } from './services/tributeDisputes';
+import {
+  initializeAchievementsTable,
+  getUserAchievements,
+  formatAchievementsForAI,
+} from './services/achievements';
+import { initializeSeasonTables } from './services/seasons';
+import { initializeTeamTables } from './services/teams';
+import { initializeGuildSettingsTable, getGuildTimezone } from './services/guildSettings';
+import { initializeBlackoutsTable } from './services/blackouts';
+import { initializeEventRsvpsTable } from './services/eventMessages';
+import { DEFAULT_TIMEZONE, getDateKey, getFridayKey, getWeekday } from './services/timezone';
 
 // Get the database URL from environment
 const DATABASE_URL = process.env.DATABASE_URL;
@@ -59,6 +82,25 @@ export function requireDatabase() {
   return sql;
 }
 
+/**
+ * A transaction handle. postgres' TransactionSql type omits the query call
+ * signature (Omit<Sql>) although the handle is callable at runtime.
+ */
+export interface Transaction extends postgres.TransactionSql {
+  <T extends readonly (object | undefined)[] = postgres.Row[]>(
+    template: TemplateStringsArray,
+    ...parameters: readonly postgres.ParameterOrFragment<never>[]
+  ): postgres.PendingQuery<T>;
+}
+
+/**
+ * Run `fn` inside a transaction: committed if it resolves, rolled back if it throws
+ */
+export async function withTransaction<T>(fn: (tx: Transaction) => Promise<T>): Promise<T> {
+  const db = requireDatabase();
+  return db.begin(transaction => fn(transaction as Transaction)) as Promise<T>;
+}
+
 /**
  * Close database connections gracefully
  */
@@ -105,6 +147,58 @@ export async function initializeDatabase(): Promise<void> {
     await db`CREATE INDEX IF NOT EXISTS idx_tributes_created ON tributes(created_at DESC)`;
     await db`CREATE INDEX IF NOT EXISTS idx_tributes_category ON tributes(category)`;
 
+    // Migration: link tributes to the bot's reply so reactions can find them
+    await db`
+      DO $$
+      BEGIN
+        IF NOT EXISTS (
+          SELECT 1 FROM information_schema.columns
+          WHERE table_name = 'tributes' AND column_name = 'reply_message_id'
+        ) THEN
+          ALTER TABLE tributes ADD COLUMN reply_message_id VARCHAR(255);
+        END IF;
+      END $$;
+    `;
+    await db`CREATE INDEX IF NOT EXISTS idx_tributes_reply_message ON tributes(reply_message_id)`;
+
+    // Migration: perceptual image hash for duplicate detection; duplicate_of
+    // flags a tribute whose image closely resembles an earlier one
+    await db`
+      DO $$
+      BEGIN
+        IF NOT EXISTS (
+          SELECT 1 FROM information_schema.columns
+          WHERE table_name = 'tributes' AND column_name = 'image_hash'
+        ) THEN
+          ALTER TABLE tributes ADD COLUMN image_hash VARCHAR(16);
+        END IF;
+        IF NOT EXISTS (
+          SELECT 1 FROM information_schema.columns
+          WHERE table_name = 'tributes' AND column_name = 'duplicate_of'
+        ) THEN
+          ALTER TABLE tributes ADD COLUMN duplicate_of INTEGER;
+        END IF;
+      END $$;
+    `;
+
+    // Migration: persisted tribute images. image_url points at the stored copy;
+    // source_image_url keeps the original (expiring) Discord CDN URL
+    await db`
+      DO $$
+      BEGIN
+        IF NOT EXISTS (
+          SELECT 1 FROM information_schema.columns
+          WHERE table_name = 'tributes' AND column_name = 'source_image_url'
+        ) THEN
+          ALTER TABLE tributes ADD COLUMN source_image_url TEXT;
+          ALTER TABLE tributes ADD COLUMN image_sha256 VARCHAR(64);
+          ALTER TABLE tributes ADD COLUMN image_width INTEGER;
+          ALTER TABLE tributes ADD COLUMN image_height INTEGER;
+          ALTER TABLE tributes ADD COLUMN image_mime VARCHAR(100);
+        END IF;
+      END $$;
+    `;
+
     // Create discord_messages_recent table for conversation context
     // Short-lived message history for building LLM context
     await db`
@@ -150,6 +244,38 @@ export async function initializeDatabase(): Promise<void> {
     // Initialize agent knowledge table
     await initializeAgentKnowledgeTable();
 
+    // Initialize tribute categories (seeds the built-in categories)
+    await initializeTributeCategoriesTable();
+
+    // Initialize the drinks catalogue (seeds the built-in drinks, links tributes)
+    await initializeDrinksTable();
+
+    // Initialize per-guild scoring rules table
+    await initializeScoringRulesTable();
+
+    // Initialize score recalculation audit tables
+    await initializeScoreRecalculationTables();
+
+    // Initialize tribute correction history and dispute queue
+    await initializeTributeHistoryTable();
+    await initializeTributeDisputesTable();
+
+    // Initialize user achievements table
+    await initializeAchievementsTable();
+
+    // Initialize seasons and archived season standings
+    await initializeSeasonTables();
+
+    // Initialize teams and their memberships
+    await initializeTeamTables();
+
+    // Initialize per-guild settings (timezone)
+    await initializeGuildSettingsTable();
+
+    // Initialize scheduled event blackouts
+    await initializeBlackoutsTable();
+    await initializeEventRsvpsTable();
+
     dbInitialized = true;
   } catch (error) {
     console.error('Failed to initialize database:', error);
@@ -167,13 +293,23 @@ export interface TributeRecord {
   channelId?: string;
   isDm: boolean;
   imageUrl?: string;
-  category: 'TIKI' | 'COCKTAIL' | 'BEER_WINE' | 'OTHER';
+  category: string;  // key from tribute_categories
   drinkName?: string;
   description?: string;
   aiResponse?: string;
   score: number;
   fridayKey: string;
   isFriday: boolean;
+  replyMessageId?: string;  // Discord message id of the bot's reply
+  imageHash?: string;       // perceptual hash (dHash, hex) of the image
+  duplicateOf?: number;     // earlier tribute this image closely resembles
+  sourceImageUrl?: string;  // original Discord CDN URL when imageUrl is a stored copy
+  imageSha256?: string;
+  imageWidth?: number;
+  imageHeight?: number;
+  imageMime?: string;
+  drinkId?: number;         // catalogue drink the name matched
+  rawDrinkName?: string;    // drink name as the model wrote it, when it was normalised
   createdAt?: string;
 }
 
@@ -190,12 +326,8 @@ export interface DetailedUserStats {
   today: UserStats;
   private: UserStats;
   public: UserStats;
-  byCategory: {
-    tiki: UserStats;
-    cocktail: UserStats;
-    beerWine: UserStats;
-    other: UserStats;
-  };
+  byCategory: Record<string, UserStats>;  // keyed by category key (TIKI, COCKTAIL, ...)
+  distinctDrinks: number;
   lastTribute?: {
     date: string;
     category: string;
@@ -223,7 +355,9 @@ export async function recordTribute(tribute: Omit<TributeRecord, 'id' | 'created
       INSERT INTO tributes (
         user_id, username, guild_id, channel_id, is_dm,
         image_url, category, drink_name, description, ai_response,
-        score, friday_key, is_friday
+        score, friday_key, is_friday, image_hash, duplicate_of,
+        source_image_url, image_sha256, image_width, image_height, image_mime,
+        drink_id, raw_drink_name
       )
       VALUES (
         ${tribute.userId}, ${tribute.username}, ${tribute.guildId},
@@ -231,7 +365,12 @@ export async function recordTribute(tribute: Omit<TributeRecord, 'id' | 'created
         ${tribute.imageUrl || null}, ${tribute.category},
         ${tribute.drinkName || null}, ${tribute.description || null},
         ${tribute.aiResponse || null}, ${tribute.score},
-        ${tribute.fridayKey}, ${tribute.isFriday}
+        ${tribute.fridayKey}, ${tribute.isFriday},
+        ${tribute.imageHash || null}, ${tribute.duplicateOf ?? null},
+        ${tribute.sourceImageUrl || null}, ${tribute.imageSha256 || null},
+        ${tribute.imageWidth ?? null}, ${tribute.imageHeight ?? null},
+        ${tribute.imageMime || null},
+        ${tribute.drinkId ?? null}, ${tribute.rawDrinkName || null}
       )
       RETURNING id
     `;
@@ -242,6 +381,82 @@ export async function recordTribute(tribute: Omit<TributeRecord, 'id' | 'created
   }
 }
 
+/**
+ * Link a tribute to the bot's reply message (used to find disputed tributes from reactions)
+ */
+export async function setTributeReplyMessage(tributeId: number, replyMessageId: string): Promise<void> {
+  const db = requireDatabase();
+  await db`UPDATE tributes SET reply_message_id = ${replyMessageId} WHERE id = ${tributeId}`;
+}
+
+// ============ TRIBUTE LOOKUP ============
+
+/**
+ * Get a single tribute by id
+ */
+export async function getTributeById(id: number): Promise<TributeRecord | null> {
+  const db = requireDatabase();
+
+  const result = await db`SELECT * FROM tributes WHERE id = ${id}`;
+  return result.length > 0 ? rowToTributeRecord(result[0]) : null;
+}
+
+/**
+ * Get the tributes the bot replied to with the given message
+ * (several when one message offered multiple images)
+ */
+export async function getTributesByReplyMessage(replyMessageId: string): Promise<TributeRecord[]> {
+  const db = requireDatabase();
+
+  const result = await db`SELECT * FROM tributes WHERE reply_message_id = ${replyMessageId} ORDER BY id ASC`;
+  return result.map(rowToTributeRecord);
+}
+
+/**
+ * Get a user's most recent tribute in a guild (or in DMs when guildId is 'dm')
+ */
+export async function getLatestUserTribute(userId: string, guildId: string): Promise<TributeRecord | null> {
+  const db = requireDatabase();
+
+  const result = await db`
+    SELECT * FROM tributes
+    WHERE user_id = ${userId} AND guild_id = ${guildId}
+    ORDER BY created_at DESC
+    LIMIT 1
+  `;
+  return result.length > 0 ? rowToTributeRecord(result[0]) : null;
+}
+
+function rowToTributeRecord(row: Record<string, unknown>): TributeRecord {
+  return {
+    id: row.id as number,
+    userId: row.user_id as string,
+    username: row.username as string,
+    guildId: row.guild_id as string,
+    channelId: row.channel_id as string | undefined,
+    isDm: row.is_dm as boolean,
+    imageUrl: row.image_url as string | undefined,
+    category: row.category as string,
+    drinkName: row.drink_name as string | undefined,
+    description: row.description as string | undefined,
+    aiResponse: row.ai_response as string | undefined,
+    score: row.score as number,
+    fridayKey: row.friday_key as string,
+    isFriday: row.is_friday as boolean,
+    replyMessageId: row.reply_message_id as string | undefined,
+    imageHash: row.image_hash as string | undefined,
+    duplicateOf: row.duplicate_of as number | undefined,
+    sourceImageUrl: row.source_image_url as string | undefined,
+    imageSha256: row.image_sha256 as string | undefined,
+    imageWidth: row.image_width as number | undefined,
+    imageHeight: row.image_height as number | undefined,
+    imageMime: row.image_mime as string | undefined,
+    drinkId: row.drink_id as number | undefined,
+    rawDrinkName: row.raw_drink_name as string | undefined,
+    createdAt: (row.created_at as Date).toISOString(),
+  };
+}
+
 // ============ USER STATS ============
 
 /**
@@ -249,10 +464,11 @@ export async function recordTribute(tribute: Omit<TributeRecord, 'id' | 'created
  */
 export async function getUserStats(userId: string, guildId?: string): Promise<DetailedUserStats> {
   const db = requireDatabase();
-  const today = new Date().toISOString().split('T')[0];
+  const timeZone = await getGuildTimezone(guildId);
+  const today = getTodayKey(timeZone);
 
   try {
-    const [allTimeResult, fridayResult, todayResult, privateResult, categoryResult, lastTributeResult] = await Promise.all([
+    const [allTimeResult, fridayResult, todayResult, privateResult, categoryResult, lastTributeResult, distinctDrinks] = await Promise.all([
       // Get all-time public stats
       db`
         SELECT COUNT(*) as count, COALESCE(SUM(score), 0) as score
@@ -268,7 +484,7 @@ export async function getUserStats(userId: string, guildId?: string): Promise<De
       // Get today's stats
       db`
         SELECT COUNT(*) as count, COALESCE(SUM(score), 0) as score
-        FROM tributes WHERE user_id = ${userId} AND DATE(created_at) = ${today} AND is_dm = FALSE
+        FROM tributes WHERE user_id = ${userId} AND DATE(created_at AT TIME ZONE ${timeZone}) = ${today} AND is_dm = FALSE
         ${guildId ? db`AND guild_id = ${guildId}` : db``}
       `,
       // Get private (DM) stats
@@ -290,21 +506,13 @@ export async function getUserStats(userId: string, guildId?: string): Promise<De
         ${guildId ? db`AND guild_id = ${guildId}` : db``}
         ORDER BY created_at DESC LIMIT 1
       `,
+      getDistinctDrinkCount(userId, guildId),
     ]);
 
-    const categoryStats = {
-      tiki: { count: 0, score: 0 },
-      cocktail: { count: 0, score: 0 },
-      beerWine: { count: 0, score: 0 },
-      other: { count: 0, score: 0 },
-    };
-
+    const categoryStats: Record<string, UserStats> = {};
     for (const row of categoryResult) {
-      const cat = (row.category as string).toLowerCase();
-      if (cat === 'tiki') categoryStats.tiki = { count: Number(row.count), score: Number(row.score) };
-      else if (cat === 'cocktail') categoryStats.cocktail = { count: Number(row.count), score: Number(row.score) };
-      else if (cat === 'beer_wine') categoryStats.beerWine = { count: Number(row.count), score: Number(row.score) };
-      else categoryStats.other = { count: Number(row.count), score: Number(row.score) };
+      const cat = (row.category as string) || 'OTHER';
+      categoryStats[cat] = { count: Number(row.count), score: Number(row.score) };
     }
 
     return {
@@ -316,6 +524,7 @@ export async function getUserStats(userId: string, guildId?: string): Promise<De
       private: { count: Number(privateResult[0]?.count || 0), score: Number(privateResult[0]?.score || 0) },
       public: { count: Number(allTimeResult[0]?.count || 0), score: Number(allTimeResult[0]?.score || 0) },
       byCategory: categoryStats,
+      distinctDrinks,
       lastTribute: lastTributeResult[0] ? {
         date: (lastTributeResult[0].created_at as Date).toISOString(),
         category: lastTributeResult[0].category as string,
@@ -328,6 +537,23 @@ export async function getUserStats(userId: string, guildId?: string): Promise<De
   }
 }
 
+/**
+ * Number of different drinks a user has offered. Catalogue drinks count once
+ * however they were spelled; unmatched names count by their lowercased text.
+ */
+export async function getDistinctDrinkCount(userId: string, guildId?: string): Promise<number> {
+  const db = requireDatabase();
+
+  const result = await db`
+    SELECT COUNT(DISTINCT COALESCE('#' || drink_id::text, LOWER(TRIM(drink_name)))) AS count
+    FROM tributes
+    WHERE user_id = ${userId} AND NULLIF(TRIM(COALESCE(drink_name, '')), '') IS NOT NULL
+    ${guildId ? db`AND guild_id = ${guildId}` : db``}
+  `;
+
+  return Number(result[0]?.count || 0);
+}
+
 /**
  * Get simple all-time stats for a user
  */
@@ -365,15 +591,16 @@ export async function getFridayStats(userId: string, guildId?: string): Promise<
 }
 
 /**
- * Get today's stats for a user
+ * Get today's stats for a user. "Today" is in the guild's timezone unless one is given.
  */
-export async function getDailyStats(userId: string, guildId?: string): Promise<UserStats> {
+export async function getDailyStats(userId: string, guildId?: string, timeZone?: string): Promise<UserStats> {
   const db = requireDatabase();
-  const today = new Date().toISOString().split('T')[0];
+  timeZone ??= await getGuildTimezone(guildId);
+  const today = getTodayKey(timeZone);
 
   const result = await db`
     SELECT COUNT(*) as count, COALESCE(SUM(score), 0) as score
-    FROM tributes WHERE user_id = ${userId} AND DATE(created_at) = ${today} AND is_dm = FALSE
+    FROM tributes WHERE user_id = ${userId} AND DATE(created_at AT TIME ZONE ${timeZone}) = ${today} AND is_dm = FALSE
     ${guildId ? db`AND guild_id = ${guildId}` : db``}
   `;
 
@@ -430,11 +657,12 @@ export async function getAllTimeLeaderboard(limit: number = 50, guildId?: string
  */
 export async function getDailyLeaderboard(limit: number = 20, guildId?: string): Promise<LeaderboardEntry[]> {
   const db = requireDatabase();
-  const today = new Date().toISOString().split('T')[0];
+  const timeZone = await getGuildTimezone(guildId);
+  const today = getTodayKey(timeZone);
 
   const result = await db`
     SELECT user_id, MAX(username) as username, COUNT(*) as count, SUM(score) as score
-    FROM tributes WHERE is_dm = FALSE AND DATE(created_at) = ${today}
+    FROM tributes WHERE is_dm = FALSE AND DATE(created_at AT TIME ZONE ${timeZone}) = ${today}
     ${guildId ? db`AND guild_id = ${guildId}` : db``}
     GROUP BY user_id
     ORDER BY score DESC
@@ -494,22 +722,24 @@ export interface FridayStatus {
 }
 
 /**
- * Get current Friday key (most recent Friday)
+ * Get current Friday key (most recent Friday) in a timezone
  */
-export function getCurrentFridayKey(): string {
-  const now = new Date();
-  const dayOfWeek = now.getDay();
-  const daysToSubtract = dayOfWeek >= 5 ? dayOfWeek - 5 : dayOfWeek + 2;
-  const friday = new Date(now);
-  friday.setDate(friday.getDate() - daysToSubtract);
-  return friday.toISOString().split('T')[0];
+export function getCurrentFridayKey(timeZone: string = DEFAULT_TIMEZONE): string {
+  return getFridayKey(new Date(), timeZone);
 }
 
 /**
- * Check if today is Friday
+ * Check if today is Friday in a timezone
  */
-export function isFriday(): boolean {
-  return new Date().getDay() === 5;
+export function isFriday(timeZone: string = DEFAULT_TIMEZONE): boolean {
+  return getWeekday(new Date(), timeZone) === 5;
+}
+
+/**
+ * Get today's date key (YYYY-MM-DD) in a timezone
+ */
+export function getTodayKey(timeZone: string = DEFAULT_TIMEZONE): string {
+  return getDateKey(new Date(), timeZone);
 }
 
 /**
@@ -517,7 +747,7 @@ export function isFriday(): boolean {
  */
 export async function getFridayStatus(guildId: string): Promise<FridayStatus> {
   const db = requireDatabase();
-  const fridayKey = getCurrentFridayKey();
+  const fridayKey = getCurrentFridayKey(await getGuildTimezone(guildId));
 
   const result = await db`
     SELECT user_id, username, guild_id, channel_id, image_url,
@@ -554,7 +784,7 @@ export async function getFridayStatus(guildId: string): Promise<FridayStatus> {
  */
 export async function hasUserOfferedTribute(userId: string, guildId: string): Promise<boolean> {
   const db = requireDatabase();
-  const fridayKey = getCurrentFridayKey();
+  const fridayKey = getCurrentFridayKey(await getGuildTimezone(guildId));
 
   const result = await db`
     SELECT 1 FROM tributes
@@ -591,7 +821,7 @@ export async function getRecentTributes(limit: number = 20, guildId?: string): P
     channelId: row.channel_id as string | undefined,
     isDm: row.is_dm as boolean,
     imageUrl: row.image_url as string | undefined,
-    category: row.category as 'TIKI' | 'COCKTAIL' | 'BEER_WINE' | 'OTHER',
+    category: row.category as string,
     drinkName: row.drink_name as string | undefined,
     description: row.description as string | undefined,
     aiResponse: row.ai_response as string | undefined,
@@ -626,7 +856,7 @@ export async function getUserTributeHistory(userId: string, limit: number = 10):
     channelId: row.channel_id as string | undefined,
     isDm: row.is_dm as boolean,
     imageUrl: row.image_url as string | undefined,
-    category: row.category as 'TIKI' | 'COCKTAIL' | 'BEER_WINE' | 'OTHER',
+    category: row.category as string,
     drinkName: row.drink_name as string | undefined,
     description: row.description as string | undefined,
     aiResponse: row.ai_response as string | undefined,
@@ -661,7 +891,7 @@ export async function getChannelTributeHistory(channelId: string, limit: number
     channelId: row.channel_id as string | undefined,
     isDm: row.is_dm as boolean,
     imageUrl: row.image_url as string | undefined,
-    category: row.category as 'TIKI' | 'COCKTAIL' | 'BEER_WINE' | 'OTHER',
+    category: row.category as string,
     drinkName: row.drink_name as string | undefined,
     description: row.description as string | undefined,
     aiResponse: row.ai_response as string | undefined,
@@ -684,13 +914,15 @@ export async function getGlobalStats(): Promise<{
   fridayTributes: number;
 }> {
   const db = requireDatabase();
-  const today = new Date().toISOString().split('T')[0];
+  // Global stats span guilds, so "today" uses the default timezone
+  const timeZone = DEFAULT_TIMEZONE;
+  const today = getTodayKey(timeZone);
 
   const [totalResult, usersResult, categoryResult, todayResult, fridayResult] = await Promise.all([
     db`SELECT COUNT(*) as count, COALESCE(SUM(score), 0) as score FROM tributes WHERE is_dm = FALSE`,
     db`SELECT COUNT(DISTINCT user_id) as count FROM tributes WHERE is_dm = FALSE`,
     db`SELECT category, COUNT(*) as count, SUM(score) as score FROM tributes WHERE is_dm = FALSE GROUP BY category`,
-    db`SELECT COUNT(*) as count FROM tributes WHERE is_dm = FALSE AND DATE(created_at) = ${today}`,
+    db`SELECT COUNT(*) as count FROM tributes WHERE is_dm = FALSE AND DATE(created_at AT TIME ZONE ${timeZone}) = ${today}`,
     db`SELECT COUNT(*) as count FROM tributes WHERE is_dm = FALSE AND is_friday = TRUE`,
   ]);
 
@@ -715,15 +947,33 @@ export async function getGlobalStats(): Promise<{
 /**
  * Format user stats for AI context string
  */
-export function formatUserStatsForAI(stats: DetailedUserStats): string {
+export function formatUserStatsForAI(
+  stats: DetailedUserStats,
+  rules: ScoringRules = DEFAULT_SCORING_RULES
+): string {
   return `[USER STATS for ${stats.username} (ID: ${stats.userId})]
 All-Time: ${stats.allTime.score}pts from ${stats.allTime.count} public tributes
 Fridays: ${stats.fridays.score}pts from ${stats.fridays.count} tributes
 Today: ${stats.today.score}pts from ${stats.today.count} tributes
 Private DM tributes: ${stats.private.score}pts from ${stats.private.count} tributes
-Category breakdown - Tiki: ${stats.byCategory.tiki.count}, Cocktails: ${stats.byCategory.cocktail.count}, Beer/Wine: ${stats.byCategory.beerWine.count}, Other: ${stats.byCategory.other.count}
+Category breakdown - ${formatCategoryBreakdown(stats.byCategory, rules)}
+Distinct drinks tried: ${stats.distinctDrinks}
 ${stats.lastTribute ? `Last tribute: ${stats.lastTribute.category}${stats.lastTribute.drinkName ? ` (${stats.lastTribute.drinkName})` : ''} on ${new Date(stats.lastTribute.date).toLocaleDateString()}` : 'No tributes yet'}
-[Scoring: Tiki=10pts, Cocktail=5pts, Beer/Wine=2pts, Other=1pt]`;
+[Scoring: ${formatScoringLegend(rules)}]`;
+}
+
+/**
+ * Format per-category tribute counts, listing every active category (even at 0)
+ * followed by any retired categories the user still has tributes in
+ */
+function formatCategoryBreakdown(byCategory: Record<string, UserStats>, rules: ScoringRules): string {
+  const keys = [
+    ...Object.keys(rules.categories),
+    ...Object.keys(byCategory).filter(k => !(k in rules.categories)),
+  ];
+  return keys
+    .map(k => `${rules.labels?.[k] || k}: ${byCategory[k]?.count ?? 0}`)
+    .join(', ');
 }
 
 /**
@@ -774,16 +1024,20 @@ export function formatTributeHistoryForAI(tributes: TributeRecord[]): string {
  * Get comprehensive AI context for a user interaction
  */
 export async function getAIContext(userId: string, channelId?: string, guildId?: string): Promise<string> {
-  const [userStats, allTime, daily, friday, recentTributes, userHistory] = await Promise.all([
+  const timeZone = await getGuildTimezone(guildId);
+  const [userStats, allTime, daily, friday, recentTributes, userHistory, scoringRules, achievements] = await Promise.all([
     getUserStats(userId, guildId),
     getAllTimeLeaderboard(10, guildId),
     getDailyLeaderboard(5, guildId),
     getFridayLeaderboard(5, guildId),
     getRecentTributes(10, guildId),
     getUserTributeHistory(userId, 5),
+    getScoringRules(guildId),
+    getUserAchievements(userId, getCurrentFridayKey(timeZone)),
   ]);
 
-  let context = formatUserStatsForAI(userStats) + '\n\n';
+  let context = formatUserStatsForAI(userStats, scoringRules) + '\n\n';
+  context += formatAchievementsForAI(achievements) + '\n\n';
   context += formatLeaderboardForAI(allTime, daily, friday) + '\n\n';
 
   if (userHistory.length > 0) {
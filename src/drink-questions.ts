@@ -38,12 +38,29 @@ import {
   ToolResult,
 } from './services/tools';
 import { getAutoRecallFacts } from './services/agentKnowledge';
+import {
+  DEFAULT_SCORING_RULES,
+  ScoringRules,
+  calculateTributeScore,
+} from './services/scoringRules';
+import {
+  DEFAULT_CATEGORIES,
+  TributeCategory,
+  resolveCategoryKey,
+} from './services/tributeCategories';
 import {
   getUserMemory,
   getAllUserMemories,
   formatUserMemoryForContext,
   formatAllUserMemoriesForContext,
 } from './services/userMemory';
+import {
+  DEFAULT_DRINKS,
+  Drink,
+  getDrinks,
+  matchDrink,
+} from './services/drinks';
+import type { DownloadedImage } from './services/tributeImages';
 
 const OPENROUTER_API_KEY = process.env.OPENROUTER_API_KEY;
 
@@ -82,43 +99,60 @@ async function withRetry<T>(
   throw lastError;
 }
 
-// Tribute scoring system
+// Default tribute points per category (guilds can override via scoring rules)
 export const TRIBUTE_SCORES = {
-  TIKI: 10,      // Tiki drinks (Mai Tai, Zombie, Painkiller, etc.)
-  COCKTAIL: 5,   // Other cocktails
-  BEER_WINE: 2,  // Beer, wine, basic drinks
-  OTHER: 1,      // Non-drink offerings (still acknowledged)
+  TIKI: DEFAULT_SCORING_RULES.categories.TIKI,
+  COCKTAIL: DEFAULT_SCORING_RULES.categories.COCKTAIL,
+  BEER_WINE: DEFAULT_SCORING_RULES.categories.BEER_WINE,
+  OTHER: DEFAULT_SCORING_RULES.categories.OTHER,
 } as const;
 
-export type DrinkCategory = 'TIKI' | 'COCKTAIL' | 'BEER_WINE' | 'OTHER';
+// Category key from the tribute_categories table (TIKI, COCKTAIL, ... or guild-defined)
+export type DrinkCategory = string;
 
 export interface ImageAnalysis {
   description: string;
   category: DrinkCategory;
   score: number;
-  drinkName?: string;
+  drinkName?: string;     // canonical catalogue name when the drink was recognised
+  drinkId?: number;       // catalogue id (absent for built-in fallback drinks)
+  rawDrinkName?: string;  // the model's spelling, when it differs from drinkName
   response?: string;  // AI-generated in-character response
 }
 
 /**
  * Build the image analysis prompt for AI models
+ * The category list is generated from the guild's active categories.
  */
-function buildImageAnalysisPrompt(userMessage?: string, isFriday?: boolean, isDM?: boolean): string {
+export function buildImageAnalysisPrompt(
+  userMessage?: string,
+  isFriday?: boolean,
+  isDM?: boolean,
+  rules: ScoringRules = DEFAULT_SCORING_RULES,
+  categories: TributeCategory[] = DEFAULT_CATEGORIES
+): string {
+  const pts = (category: DrinkCategory) => {
+    const points = rules.categories[category] ?? 0;
+    return `${points}${points === 1 ? 'pt' : 'pts'}`;
+  };
+  const categoryChoices = categories.map(c => `"${c.key}"`).join(' or ');
+  const categoryRules = categories
+    .map(c => `- ${c.key} (${pts(c.key)}): ${c.description || c.label}`)
+    .join('\n');
+
   return `You are Sensei Mutum — a wise, warm anime sensei receiving a drink tribute from a student.
 
 Analyze this image and respond in EXACTLY this JSON format (no markdown, just raw JSON):
 {
   "description": "What you SEE in the image - be specific about the drink, vessel, garnishes, setting",
-  "category": "TIKI" or "COCKTAIL" or "BEER_WINE" or "OTHER",
+  "category": ${categoryChoices},
   "drinkName": "name of the drink if identifiable, or null",
   "response": "Your in-character response as Sensei Mutum (1-2 SHORT sentences, max 200 chars)"
 }
 
 CATEGORY RULES (for scoring):
-- TIKI (10pts): Tiki drinks (Mai Tai, Zombie, Painkiller, Hurricane, Scorpion, Navy Grog, Jungle Bird, etc.), drinks in tiki mugs, tropical cocktails with rum and exotic garnishes
-- COCKTAIL (5pts): Other mixed drinks, cocktails, spirits (margarita, martini, old fashioned, whiskey sour, etc.)
-- BEER_WINE (2pts): Beer, wine, cider, hard seltzer, simple drinks
-- OTHER (1pt): Non-alcoholic drinks, food, or anything that's not a beverage
+${categoryRules}
+Pick the most specific category that fits.
 
 RESPONSE GUIDELINES:
 - Speak warmly as a wise sensei with gentle anime flair ("Ara ara~", "Fufufu~", "Oh my~")
@@ -126,6 +160,7 @@ RESPONSE GUIDELINES:
   - TIKI drinks: Express great delight — the sacred tropical arts are honored!
   - Cocktails: Appreciate the craft and creativity
   - Beer/Wine: Accept warmly, Sensei loves all beverages
+  - Other categories: React to what makes the offering special
   - Other: Be curious and delighted either way
 ${isFriday ? '- This is Friday — the weekly ritual day! Mention the special occasion warmly.' : ''}
 ${isDM ? '- This is a private DM tribute — keep it warm and personal.' : ''}
@@ -136,19 +171,37 @@ Keep response SHORT (under 200 chars). Warm, encouraging, in character.`;
 
 /**
  * Parse AI response JSON into ImageAnalysis
+ * Unknown categories fall back to OTHER. Drink names are normalised against
+ * the drinks catalogue, and a recognised drink's category is used when the
+ * model could only say OTHER.
  */
-function parseImageAnalysisResponse(responseText: string): ImageAnalysis | null {
+export function parseImageAnalysisResponse(
+  responseText: string,
+  rules: ScoringRules = DEFAULT_SCORING_RULES,
+  isFriday?: boolean,
+  categories: TributeCategory[] = DEFAULT_CATEGORIES,
+  drinks: Drink[] = DEFAULT_DRINKS
+): ImageAnalysis | null {
   try {
     const parsed = JSON.parse(responseText.replace(/```json\n?|\n?```/g, ''));
-    const category = (['TIKI', 'COCKTAIL', 'BEER_WINE', 'OTHER'].includes(parsed.category)
-      ? parsed.category
-      : 'OTHER') as DrinkCategory;
+    let category: DrinkCategory = resolveCategoryKey(parsed.category, categories);
+
+    const rawDrinkName: string | undefined =
+      typeof parsed.drinkName === 'string' && parsed.drinkName.trim() ? parsed.drinkName.trim() : undefined;
+    const match = matchDrink(rawDrinkName, drinks);
+    const drinkName = match ? match.drink.canonicalName : rawDrinkName;
+
+    if (match?.drink.category && category === 'OTHER' && categories.some(c => c.key === match.drink.category)) {
+      category = match.drink.category;
+    }
 
     return {
       description: parsed.description || 'A mysterious offering',
       category,
-      score: TRIBUTE_SCORES[category],
-      drinkName: parsed.drinkName || undefined,
+      score: calculateTributeScore(rules, { category, drinkName, isFriday }),
+      drinkName,
+      drinkId: match?.drink.id ?? undefined,
+      rawDrinkName: match && rawDrinkName !== drinkName ? rawDrinkName : undefined,
       response: parsed.response || undefined,
     };
   } catch {
@@ -163,7 +216,11 @@ function parseImageAnalysisResponse(responseText: string): ImageAnalysis | null
 async function analyzeImageWithOpenRouter(
   base64: string,
   contentType: string,
-  prompt: string
+  prompt: string,
+  rules: ScoringRules,
+  isFriday: boolean | undefined,
+  categories: TributeCategory[],
+  drinks: Drink[]
 ): Promise<ImageAnalysis | null> {
   if (!openrouter) {
     return null;
@@ -192,7 +249,7 @@ async function analyzeImageWithOpenRouter(
     return null;
   }
 
-  return parseImageAnalysisResponse(responseText);
+  return parseImageAnalysisResponse(responseText, rules, isFriday, categories, drinks);
 }
 
 /**
@@ -201,12 +258,17 @@ async function analyzeImageWithOpenRouter(
 /**
  * Analyze an image and generate a full AI response for the tribute
  * Uses OpenRouter only (no fallbacks)
+ * The returned score is an estimate under the given scoring rules; the
+ * authoritative score is computed when the tribute is recorded.
  */
 export async function analyzeImage(
-  imageUrl: string,
+  image: DownloadedImage,
   userMessage?: string,
   isFriday?: boolean,
-  isDM?: boolean
+  isDM?: boolean,
+  rules: ScoringRules = DEFAULT_SCORING_RULES,
+  categories: TributeCategory[] = DEFAULT_CATEGORIES,
+  drinks?: Drink[]
 ): Promise<ImageAnalysis | null> {
   if (!OPENROUTER_API_KEY) {
     console.error('OPENROUTER_API_KEY not configured for image analysis');
@@ -214,25 +276,19 @@ export async function analyzeImage(
   }
 
   try {
-    // Fetch the image from Discord CDN
-    const response = await fetch(imageUrl);
-    if (!response.ok) {
-      console.error('Failed to fetch image:', response.status, response.statusText);
-      return null;
-    }
-
-    const arrayBuffer = await response.arrayBuffer();
-    const base64 = Buffer.from(arrayBuffer).toString('base64');
-    const contentType = response.headers.get('content-type') || 'image/jpeg';
-    const prompt = buildImageAnalysisPrompt(userMessage, isFriday, isDM);
+    // The image was already downloaded for duplicate screening; reuse the bytes
+    const base64 = image.bytes.toString('base64');
+    const contentType = image.contentType || 'image/jpeg';
+    const prompt = buildImageAnalysisPrompt(userMessage, isFriday, isDM, rules, categories);
+    const catalogue = drinks ?? await getDrinks();
 
-    console.log('Image fetched successfully. Size:', base64.length, 'Content-Type:', contentType);
+    console.log('Image loaded. Size:', base64.length, 'Content-Type:', contentType);
 
     // Use OpenRouter for image analysis
     try {
       console.log('Analyzing image with OpenRouter...');
       const result = await withRetry(
-        () => analyzeImageWithOpenRouter(base64, contentType, prompt),
+        () => analyzeImageWithOpenRouter(base64, contentType, prompt, rules, isFriday, categories, catalogue),
         'analyzeImage'
       );
       if (result) {
@@ -266,7 +322,8 @@ async function chatWithOpenRouter(
   config?: ResolvedConfig,
   threadId?: string,
   userMemoryContext?: string,
-  agentKnowledgeContext?: string
+  agentKnowledgeContext?: string,
+  userId?: string
 ): Promise<string | null> {
   if (!openrouter || !config) {
     return null;
@@ -311,7 +368,7 @@ When parsing time requests:
 - "every Friday at 5pm" = cron "0 17 * * 5"
 - "daily at 9am" = cron "0 9 * * *"
 - "weekdays at noon" = cron "0 12 * * 1-5"
-- Default timezone is Europe/Stockholm unless specified
+- Default timezone is the server's configured timezone (Europe/Stockholm if unset) unless specified
 
 You also have knowledge tools. AUTOMATICALLY use remember_fact when you learn something worth remembering:
 - User preferences (drinks they like, topics they care about)
@@ -394,7 +451,8 @@ Use recall_facts to search your memory when you need specific information.`;
         toolCall as ToolCall,
         threadId || '',
         config.agent.capabilities,
-        config.agent.id
+        config.agent.id,
+        userId
       );
 
       // Add tool result to messages
@@ -570,7 +628,7 @@ export async function handleDrinkQuestion(
 
   // Use OpenRouter (the only AI provider)
   try {
-    response = await chatWithOpenRouter(question, channelId, aiContext, transcript, config, threadId ?? undefined, userMemoryContext, agentKnowledgeContext);
+    response = await chatWithOpenRouter(question, channelId, aiContext, transcript, config, threadId ?? undefined, userMemoryContext, agentKnowledgeContext, userId);
     if (response) {
       console.log(`Chat handled by OpenRouter (${config.agent.model || DEFAULT_MODEL})`);
     }
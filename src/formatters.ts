@@ -7,12 +7,32 @@
 
 import { ISEE_EMOJI } from './personality';
 import type { LeaderboardEntry } from './db';
+import { DEFAULT_SCORING_RULES, formatScoringLegend, type ScoringRules } from './services/scoringRules';
+import { formatAchievementSummary, type AchievementProgress } from './services/achievements';
+import type { TeamStanding } from './services/teams';
+import type { StatusReportPeriod } from './services/agents';
 
 export interface StatsData {
   allTime: { score: number; count: number };
   daily: { score: number; count: number };
   friday: { score: number; count: number };
   private: { score: number; count: number };
+  distinctDrinks?: number;
+}
+
+export interface StatusReportData {
+  period: StatusReportPeriod;
+  /** Friday the period is keyed by (YYYY-MM-DD); not used for all time */
+  fridayKey?: string;
+  /** Everyone who posted in the period, ranked */
+  entries: LeaderboardEntry[];
+  /** All-time leaderboard for the guild */
+  allTime: LeaderboardEntry[];
+  topN: number;
+  includeTributeCount: boolean;
+  includeLeaderboard: boolean;
+  /** Regulars who haven't posted in the period, to be called out */
+  nonParticipants?: LeaderboardEntry[];
 }
 
 /**
@@ -21,7 +41,9 @@ export interface StatsData {
 export function formatPersonalStats(
   username: string,
   stats: StatsData,
-  rankText: string
+  rankText: string,
+  rules: ScoringRules = DEFAULT_SCORING_RULES,
+  achievements?: AchievementProgress
 ): string {
   const totalScore = stats.allTime.score + stats.private.score;
   const totalCount = stats.allTime.count + stats.private.count;
@@ -31,8 +53,11 @@ export function formatPersonalStats(
     `**Server:** ${stats.allTime.score} pts (${stats.allTime.count} tributes)${rankText ? ` - ${rankText}` : ''}\n` +
     `**DMs:** ${stats.private.score} pts (${stats.private.count} tributes)\n` +
     `**Fridays:** ${stats.friday.score} pts (${stats.friday.count} tributes)\n` +
-    `**Today:** ${stats.daily.score} pts (${stats.daily.count} tributes)\n\n` +
-    `*Scoring: Tiki=10pts, Cocktail=5pts, Beer/Wine=2pts, Other=1pt*`;
+    `**Today:** ${stats.daily.score} pts (${stats.daily.count} tributes)\n` +
+    (stats.distinctDrinks !== undefined ? `**Drinks Tried:** ${stats.distinctDrinks} distinct\n` : '') +
+    `\n` +
+    (achievements ? `${formatAchievementSummary(achievements)}\n\n` : '') +
+    `*Scoring: ${formatScoringLegend(rules)}*`;
 }
 
 /**
@@ -41,7 +66,8 @@ export function formatPersonalStats(
 export function formatLeaderboard(
   allTime: LeaderboardEntry[],
   daily: LeaderboardEntry[],
-  friday: LeaderboardEntry[]
+  friday: LeaderboardEntry[],
+  teams: TeamStanding[] = []
 ): string {
   let content = `${ISEE_EMOJI} **THE SPIRITS REVEAL THE DEVOTED...**\n\n`;
 
@@ -69,5 +95,79 @@ export function formatLeaderboard(
     });
   }
 
+  if (teams.length > 0) {
+    content += `\n**\u{2694}\u{FE0F} Team Standings:**\n`;
+    teams.forEach(team => {
+      content += `${team.rank}. **${team.name}** - ${team.score}pts (${team.members} member${team.members === 1 ? '' : 's'})\n`;
+    });
+  }
+
   return content;
 }
+
+/**
+ * Rank individual tribute posts into leaderboard entries, one per user
+ */
+export function leaderboardFromPosts(
+  posts: { userId: string; username?: string; score: number }[]
+): LeaderboardEntry[] {
+  const byUser = new Map<string, LeaderboardEntry>();
+  for (const post of posts) {
+    const entry = byUser.get(post.userId) ?? { userId: post.userId, username: post.username, count: 0, score: 0 };
+    entry.count += 1;
+    entry.score += post.score;
+    byUser.set(post.userId, entry);
+  }
+  return [...byUser.values()].sort((a, b) => b.score - a.score || b.count - a.count);
+}
+
+/**
+ * Format a scheduled status report: tribute totals for the period, the
+ * leaderboards (top N) and, optionally, a nudge for absent regulars
+ */
+export function formatStatusReport(report: StatusReportData): string {
+  const { period, fridayKey, entries, topN } = report;
+
+  const title = period === 'week'
+    ? `This tribute week${fridayKey ? ` (since Friday ${fridayKey})` : ''}`
+    : period === 'friday'
+      ? `Friday${fridayKey ? ` ${fridayKey}` : ''}`
+      : 'All time';
+  let content = `${ISEE_EMOJI} **STATUS REPORT** - ${title}\n`;
+
+  if (report.includeTributeCount) {
+    const count = entries.reduce((sum, e) => sum + e.count, 0);
+    const score = entries.reduce((sum, e) => sum + e.score, 0);
+    content += count > 0
+      ? `**${count}** tribute${count === 1 ? '' : 's'} from **${entries.length}** devotee${entries.length === 1 ? '' : 's'} - ${score}pts\n`
+      : `*No tributes have been offered${period === 'all_time' ? ' yet' : ''}... The spirits HUNGER.*\n`;
+  }
+
+  if (report.includeLeaderboard) {
+    content += `\n${formatLeaderboard(report.allTime.slice(0, topN), [], [])}`;
+
+    const periodEntries = period === 'all_time' ? [] : entries.slice(0, topN);
+    if (periodEntries.length > 0) {
+      const heading = period === 'week' ? "\u{1F4C5} This Week's Devoted" : '\u{1F5FF} Friday Champions';
+      content += `\n**${heading}:**\n`;
+      periodEntries.forEach((entry, i) => {
+        content += `${i + 1}. <@${entry.userId}> - ${entry.score}pts\n`;
+      });
+    }
+  }
+
+  if (report.nonParticipants && report.nonParticipants.length > 0) {
+    const mentions = report.nonParticipants.map(e => `<@${e.userId}>`).join(' ');
+    content += `\nThe spirits still await offerings from ${mentions}.\n`;
+  }
+
+  return content.trimEnd();
+}
+
+/**
+ * Regulars (by all-time rank) with no tribute in the period
+ */
+export function findNonParticipants(regulars: LeaderboardEntry[], entries: LeaderboardEntry[]): LeaderboardEntry[] {
+  const posted = new Set(entries.map(e => e.userId));
+  return regulars.filter(e => !posted.has(e.userId));
+}
@@ -2,146 +2,530 @@
  * Event Scheduler
  *
  * Manages cron jobs for scheduled events.
- * Each scheduled event gets its own cron job that executes when triggered.
+ * Each recurring event gets its own cron job that executes when triggered.
+ * One-off events (runAt) get a timer once they are within the next refresh
+ * window, and are deactivated after they fire.
+ *
+ * Runs missed while the scheduler was offline are handled by each event's
+ * catch-up policy when it is (re)scheduled: skipped, run once late, or all run.
+ * Runs due during a blackout (holidays, pause windows) are recorded as skipped.
+ *
+ * Events are reloaded within seconds of being created, edited or deleted:
+ * the database notifies on every change (Postgres LISTEN/NOTIFY), and the
+ * scheduler refreshes shortly after. Periodic polling stays as a fallback for
+ * notifications lost while the listening connection was down.
+ *
+ * Several gateway replicas can run a scheduler at once (e.g. during a
+ * deploy): before running or skipping a fire, an instance claims it in the
+ * database, and only the instance whose claim lands runs it.
  */
 
 import * as cron from 'node-cron';
+import { hostname } from 'os';
 import {
   getScheduledEvents,
+  getScheduledEvent,
+  updateScheduledEvent,
+  recordSkippedRuns,
+  getLastScheduledFor,
+  claimEventRun,
+  listenForScheduledEventChanges,
   ScheduledEvent,
+  EventRunTrigger,
 } from '../services/agents';
+import { getMissedFireTimes, planCatchUp } from '../services/cron';
+import { getEventBlackout } from '../services/blackouts';
 import {
   executeEvent,
+  archiveEndedSeasons,
   registerMessageSender,
   SendMessageCallback,
+  EventExecutionResult,
 } from '../services/eventExecutor';
 
-// Map of event ID to cron task and expression
-const scheduledTasks: Map<string, { task: cron.ScheduledTask; cronExpression: string }> = new Map();
+// ============ TYPES ============
+
+/** One fire of an event: when it was due and what triggered it */
+export interface EventFire {
+  trigger: EventRunTrigger;
+  scheduledFor: Date;
+}
+
+export interface EventSchedulerOptions {
+  /** Names this instance in run claims (default: hostname:pid) */
+  instanceId?: string;
+  /** Runs an event (default: executeEvent) */
+  execute?: (event: ScheduledEvent, fire: EventFire) => Promise<EventExecutionResult>;
+  /** Minutes between fallback refreshes from the database (default: 5) */
+  refreshIntervalMinutes?: number;
+}
+
+export interface EventScheduler {
+  readonly instanceId: string;
+  /** Load and schedule active events, then refresh on changes and periodically */
+  start(): Promise<void>;
+  /** Stop all cron jobs and timers */
+  stop(): void;
+  /** Pick up new, edited and removed events */
+  refresh(): Promise<void>;
+  /** Run one fire of an event, unless it is claimed elsewhere. Returns whether it ran. */
+  fire(event: ScheduledEvent, fire: EventFire): Promise<boolean>;
+  /** Run an event now, outside its schedule */
+  triggerNow(eventId: string): Promise<boolean>;
+  getStatus(): { activeEvents: number; eventIds: string[] };
+}
 
-// Track events currently executing to prevent overlap
-const runningEvents: Set<string> = new Set();
+// ============ CONSTANTS ============
 
-// Refresh interval (check for new/updated events)
+// Fallback refresh interval (check for new/updated events)
 const REFRESH_INTERVAL_MINUTES = 5;
-let refreshTask: cron.ScheduledTask | null = null;
+
+// Wait this long after a change notification before refreshing, so a burst
+// of edits (e.g. a bulk toggle) causes a single refresh
+const CHANGE_DEBOUNCE_MS = 1000;
+
+// A run this late counts as missed rather than merely delayed
+const CATCH_UP_GRACE_MS = 60 * 1000;
+
+const MISSED_REASON = 'Missed while the scheduler was offline';
+
+// ============ SCHEDULER ============
 
 /**
- * Initialize the event scheduler
+ * Create a scheduler instance. The gateway uses a single one (see
+ * initializeEventScheduler); tests create several to act as replicas.
  */
-export async function initializeEventScheduler(
-  messageSender: SendMessageCallback
-): Promise<void> {
-  console.log('[EventScheduler] Initializing...');
+export function createEventScheduler(options: EventSchedulerOptions = {}): EventScheduler {
+  const instanceId = options.instanceId ?? `${hostname()}:${process.pid}`;
+  const execute = options.execute ?? executeEvent;
+  const refreshIntervalMinutes = options.refreshIntervalMinutes ?? REFRESH_INTERVAL_MINUTES;
 
-  // Register the message sender with the executor
-  registerMessageSender(messageSender);
+  // Map of event ID to cron task, the schedule it was created with, and the
+  // latest version of the event (edits that keep the schedule just swap it)
+  const scheduledTasks: Map<string, {
+    task: cron.ScheduledTask;
+    cronExpression: string;
+    timezone: string;
+    event: ScheduledEvent;
+  }> = new Map();
 
-  // Load and schedule all active events
-  await refreshScheduledEvents();
+  // Map of one-off event ID to its pending timer and fire time
+  const oneShotTimers: Map<string, { timer: ReturnType<typeof setTimeout>; runAt: number }> = new Map();
 
-  // Set up periodic refresh to catch new/updated events
-  refreshTask = cron.schedule(`*/${REFRESH_INTERVAL_MINUTES} * * * *`, async () => {
-    await refreshScheduledEvents();
-  });
+  // Track events currently executing to prevent overlap
+  const runningEvents: Set<string> = new Set();
 
-  console.log('[EventScheduler] Initialized with refresh every', REFRESH_INTERVAL_MINUTES, 'minutes');
-}
+  let refreshTask: cron.ScheduledTask | null = null;
+  let stopListening: (() => Promise<void>) | null = null;
+  let changeTimer: ReturnType<typeof setTimeout> | null = null;
 
-/**
- * Refresh scheduled events from database
- */
-async function refreshScheduledEvents(): Promise<void> {
-  try {
-    const events = await getScheduledEvents({ activeOnly: true });
+  // The refresh in progress, and whether another was asked for meanwhile
+  let refreshing: Promise<void> | null = null;
+  let refreshAgain = false;
 
-    // Track which events we've seen
-    const currentEventIds = new Set<string>();
+  /**
+   * Refresh, one at a time: a refresh asked for while one is running runs
+   * again once it finishes, so it sees every change made before it was asked
+   */
+  function refresh(): Promise<void> {
+    if (refreshing) {
+      refreshAgain = true;
+      return refreshing;
+    }
+    refreshing = (async () => {
+      do {
+        refreshAgain = false;
+        await refreshScheduledEvents();
+      } while (refreshAgain);
+    })().finally(() => {
+      refreshing = null;
+    });
+    return refreshing;
+  }
 
-    for (const event of events) {
-      currentEventIds.add(event.id);
+  /**
+   * Refresh soon after a change notification
+   */
+  function refreshAfterChange(): void {
+    if (changeTimer) clearTimeout(changeTimer);
+    changeTimer = setTimeout(() => {
+      changeTimer = null;
+      void refresh();
+    }, CHANGE_DEBOUNCE_MS);
+  }
 
-      // Check if this event already has a task
-      const existingTask = scheduledTasks.get(event.id);
+  /**
+   * Listen for event changes. Failing to listen leaves polling to pick them up.
+   */
+  async function listenForChanges(): Promise<void> {
+    let listening = false;
+    try {
+      stopListening = await listenForScheduledEventChanges(
+        change => {
+          console.log(`[EventScheduler] Event ${change.id} changed (${change.op.toLowerCase()}), refreshing`);
+          refreshAfterChange();
+        },
+        () => {
+          // Changes may have been missed while reconnecting
+          if (listening) refreshAfterChange();
+          listening = true;
+        }
+      );
+    } catch (error) {
+      console.error(`[EventScheduler] Failed to listen for event changes, polling every ${refreshIntervalMinutes} minutes:`, error);
+    }
+  }
+
+  /**
+   * Refresh scheduled events from database
+   */
+  async function refreshScheduledEvents(): Promise<void> {
+    try {
+      const events = await getScheduledEvents({ activeOnly: true });
+
+      // Track which events we've seen
+      const currentEventIds = new Set<string>();
 
-      if (existingTask) {
-        // Check if cron expression changed
-        if (existingTask.cronExpression === event.cronExpression) {
+      for (const event of events) {
+        currentEventIds.add(event.id);
+
+        // An event can switch between recurring and one-off when edited
+        if (event.runAt) {
+          scheduledTasks.get(event.id)?.task.stop();
+          scheduledTasks.delete(event.id);
+          await scheduleOneShot(event);
           continue;
         }
-        // Cron changed - stop old task and reschedule
-        console.log(`[EventScheduler] Rescheduling event ${event.name}: cron changed from ${existingTask.cronExpression} to ${event.cronExpression}`);
-        existingTask.task.stop();
-        scheduledTasks.delete(event.id);
+        const pendingOneShot = oneShotTimers.get(event.id);
+        if (pendingOneShot) {
+          clearTimeout(pendingOneShot.timer);
+          oneShotTimers.delete(event.id);
+        }
+
+        // Check if this event already has a task
+        const existingTask = scheduledTasks.get(event.id);
+
+        if (existingTask) {
+          // Same schedule - keep the task, but run the edited event
+          if (existingTask.cronExpression === event.cronExpression && existingTask.timezone === event.timezone) {
+            existingTask.event = event;
+            continue;
+          }
+          // Schedule changed - stop old task and reschedule
+          console.log(`[EventScheduler] Rescheduling event ${event.name}: schedule changed from ${existingTask.cronExpression} (${existingTask.timezone}) to ${event.cronExpression} (${event.timezone})`);
+          existingTask.task.stop();
+          scheduledTasks.delete(event.id);
+        }
+
+        // Schedule new event, then deal with anything it missed
+        if (scheduleEvent(event)) {
+          await catchUpMissedRuns(event);
+        }
       }
 
-      // Schedule new event
-      scheduleEvent(event);
+      // Remove tasks for events that are no longer active
+      for (const [eventId, entry] of scheduledTasks) {
+        if (!currentEventIds.has(eventId)) {
+          console.log(`[EventScheduler] Removing inactive event: ${eventId}`);
+          entry.task.stop();
+          scheduledTasks.delete(eventId);
+        }
+      }
+      for (const [eventId, entry] of oneShotTimers) {
+        if (!currentEventIds.has(eventId)) {
+          console.log(`[EventScheduler] Removing inactive one-off event: ${eventId}`);
+          clearTimeout(entry.timer);
+          oneShotTimers.delete(eventId);
+        }
+      }
+
+      console.log(`[EventScheduler] Active events: ${scheduledTasks.size} recurring, ${oneShotTimers.size} one-off pending`);
+    } catch (error) {
+      console.error('[EventScheduler] Failed to refresh events:', error);
     }
+  }
 
-    // Remove tasks for events that are no longer active
-    for (const [eventId, entry] of scheduledTasks) {
-      if (!currentEventIds.has(eventId)) {
-        console.log(`[EventScheduler] Removing inactive event: ${eventId}`);
-        entry.task.stop();
-        scheduledTasks.delete(eventId);
-      }
+  /**
+   * Run an event unless it is still running from a previous trigger, another
+   * instance has claimed this fire, or the fire falls in a blackout
+   */
+  async function runEvent(event: ScheduledEvent, run: EventFire): Promise<boolean> {
+    if (runningEvents.has(event.id)) {
+      console.log(`[EventScheduler] Skipping event ${event.name} - still running from previous trigger`);
+      return false;
     }
+    runningEvents.add(event.id);
+    try {
+      if (!await claimEventRun(event.id, run.scheduledFor, instanceId)) {
+        console.log(`[EventScheduler] Skipping event ${event.name} - claimed by another instance`);
+        return false;
+      }
 
-    console.log(`[EventScheduler] Active events: ${scheduledTasks.size}`);
-  } catch (error) {
-    console.error('[EventScheduler] Failed to refresh events:', error);
+      const blackout = await getEventBlackout(event, run.scheduledFor);
+      if (blackout) {
+        console.log(`[EventScheduler] Skipping event ${event.name} - blackout "${blackout.name}"`);
+        await recordSkippedRuns(event.id, [run.scheduledFor], `Blackout: ${blackout.name}`, run.trigger);
+        return false;
+      }
+
+      console.log(`[EventScheduler] Triggering event: ${event.name}`);
+      const result = await execute(event, run);
+      if (result.success) {
+        console.log(`[EventScheduler] Event ${event.name} completed successfully`);
+      } else {
+        console.error(`[EventScheduler] Event ${event.name} failed:`, result.error);
+      }
+      return true;
+    } catch (error) {
+      console.error(`[EventScheduler] Event ${event.name} threw error:`, error);
+      return false;
+    } finally {
+      runningEvents.delete(event.id);
+    }
   }
-}
 
-/**
- * Schedule a single event
- */
-function scheduleEvent(event: ScheduledEvent): void {
-  // Validate cron expression
-  if (!cron.validate(event.cronExpression)) {
-    console.error(`[EventScheduler] Invalid cron expression for event ${event.name}: ${event.cronExpression}`);
-    return;
+  /**
+   * Record missed fires as skipped, except any another instance has claimed
+   */
+  async function skipMissedRuns(event: ScheduledEvent, times: Date[]): Promise<void> {
+    const claimed: Date[] = [];
+    for (const time of times) {
+      if (await claimEventRun(event.id, time, instanceId)) claimed.push(time);
+    }
+    await recordSkippedRuns(event.id, claimed, MISSED_REASON);
   }
 
-  console.log(`[EventScheduler] Scheduling event: ${event.name} (${event.cronExpression})`);
+  /**
+   * Set a timer for a one-off event due before the next refresh. Events whose
+   * time passed while the bot was offline fire straight away; ones that have
+   * already run are just deactivated.
+   */
+  async function scheduleOneShot(event: ScheduledEvent): Promise<void> {
+    const runAt = event.runAt!.getTime();
+
+    if (event.lastRunAt && event.lastRunAt.getTime() >= runAt) {
+      await deactivateOneShot(event);
+      return;
+    }
+
+    const existing = oneShotTimers.get(event.id);
+    if (existing) {
+      if (existing.runAt === runAt) return;
+      console.log(`[EventScheduler] Rescheduling one-off event ${event.name} to ${event.runAt!.toISOString()}`);
+      clearTimeout(existing.timer);
+      oneShotTimers.delete(event.id);
+    }
 
-  const task = cron.schedule(
-    event.cronExpression,
-    async () => {
-      if (runningEvents.has(event.id)) {
-        console.log(`[EventScheduler] Skipping event ${event.name} - still running from previous trigger`);
+    const overdue = Date.now() - runAt > CATCH_UP_GRACE_MS;
+    if (overdue && event.catchUpPolicy === 'skip') {
+      console.log(`[EventScheduler] Skipping missed one-off event: ${event.name}`);
+      await skipMissedRuns(event, [event.runAt!]);
+      await deactivateOneShot(event);
+      return;
+    }
+
+    const delay = Math.max(runAt - Date.now(), 0);
+    // Later events are picked up by a future refresh (this also keeps the
+    // delay well inside setTimeout's ~24.8 day limit)
+    if (delay > (refreshIntervalMinutes + 1) * 60 * 1000) return;
+
+    console.log(`[EventScheduler] Scheduling one-off event: ${event.name} (${event.runAt!.toISOString()})`);
+
+    const timer = setTimeout(async () => {
+      oneShotTimers.delete(event.id);
+      // It may have been cancelled or edited since the timer was set
+      const current = await getScheduledEvent(event.id).catch(() => event);
+      if (!current?.isActive) {
+        console.log(`[EventScheduler] One-off event ${event.name} was cancelled before it ran`);
         return;
       }
-      runningEvents.add(event.id);
-      console.log(`[EventScheduler] Triggering event: ${event.name}`);
-      try {
-        const result = await executeEvent(event);
-        if (result.success) {
-          console.log(`[EventScheduler] Event ${event.name} completed successfully`);
-        } else {
-          console.error(`[EventScheduler] Event ${event.name} failed:`, result.error);
-        }
-      } catch (error) {
-        console.error(`[EventScheduler] Event ${event.name} threw error:`, error);
-      } finally {
-        runningEvents.delete(event.id);
+      await runEvent(current, { trigger: overdue ? 'catch_up' : 'schedule', scheduledFor: event.runAt! });
+      await deactivateOneShot(current);
+    }, delay);
+
+    oneShotTimers.set(event.id, { timer, runAt });
+  }
+
+  async function deactivateOneShot(event: ScheduledEvent): Promise<void> {
+    try {
+      await updateScheduledEvent(event.id, { isActive: false });
+      console.log(`[EventScheduler] Deactivated one-off event: ${event.name}`);
+    } catch (error) {
+      console.error(`[EventScheduler] Failed to deactivate one-off event ${event.name}:`, error);
+    }
+  }
+
+  /**
+   * Schedule a single recurring event. Returns false if it can't be scheduled.
+   */
+  function scheduleEvent(event: ScheduledEvent): boolean {
+    if (!event.cronExpression) return false;
+
+    // Validate cron expression
+    if (!cron.validate(event.cronExpression)) {
+      console.error(`[EventScheduler] Invalid cron expression for event ${event.name}: ${event.cronExpression}`);
+      return false;
+    }
+
+    console.log(`[EventScheduler] Scheduling event: ${event.name} (${event.cronExpression})`);
+
+    const task = cron.schedule(
+      event.cronExpression,
+      () => {
+        // The minute it was due; node-cron fires on the minute, so every
+        // instance arrives at the same time to claim
+        const scheduledFor = new Date(Math.floor(Date.now() / 60000) * 60000);
+        return runEvent(scheduledTasks.get(event.id)?.event ?? event, { trigger: 'schedule', scheduledFor });
+      },
+      {
+        timezone: event.timezone || 'UTC',
+      }
+    );
+
+    scheduledTasks.set(event.id, { task, cronExpression: event.cronExpression, timezone: event.timezone, event });
+    return true;
+  }
+
+  /**
+   * Apply a recurring event's catch-up policy to the runs it missed since it
+   * last ran (or was last edited). Missed runs not caught up are recorded as
+   * skipped, so they show in the run history and aren't considered again.
+   */
+  async function catchUpMissedRuns(event: ScheduledEvent): Promise<void> {
+    if (!event.cronExpression) return;
+
+    try {
+      const lastRecorded = await getLastScheduledFor(event.id);
+      const since = lastRecorded && lastRecorded > event.updatedAt ? lastRecorded : event.updatedAt;
+      const missed = getMissedFireTimes(
+        event.cronExpression,
+        since,
+        new Date(Date.now() - 1000),
+        event.timezone || 'UTC'
+      );
+      if (missed.length === 0) return;
+
+      const plan = planCatchUp(missed, event.catchUpPolicy);
+      console.log(`[EventScheduler] Event ${event.name} missed ${missed.length} run(s): running ${plan.run.length}, skipping ${plan.skip.length} (policy: ${event.catchUpPolicy})`);
+
+      await skipMissedRuns(event, plan.skip);
+      for (const scheduledFor of plan.run) {
+        await runEvent(event, { trigger: 'catch_up', scheduledFor });
       }
+    } catch (error) {
+      console.error(`[EventScheduler] Failed to catch up event ${event.name}:`, error);
+    }
+  }
+
+  return {
+    instanceId,
+
+    async start() {
+      console.log(`[EventScheduler] Initializing (instance ${instanceId})...`);
+
+      // Listen first, so changes made while loading aren't missed
+      await listenForChanges();
+
+      // Load and schedule all active events
+      await refresh();
+      await archiveSeasons();
+
+      // Set up periodic refresh to catch ended seasons, and any event changes
+      // whose notification was lost
+      refreshTask = cron.schedule(`*/${refreshIntervalMinutes} * * * *`, async () => {
+        await refresh();
+        await archiveSeasons();
+      });
+
+      console.log('[EventScheduler] Initialized with refresh on changes and every', refreshIntervalMinutes, 'minutes');
     },
-    {
-      timezone: event.timezone || 'UTC',
+
+    stop() {
+      console.log('[EventScheduler] Stopping...');
+
+      // Stop refresh task
+      if (refreshTask) {
+        refreshTask.stop();
+        refreshTask = null;
+      }
+
+      // Stop listening for changes
+      if (changeTimer) {
+        clearTimeout(changeTimer);
+        changeTimer = null;
+      }
+      if (stopListening) {
+        stopListening().catch(error => console.error('[EventScheduler] Failed to stop listening for event changes:', error));
+        stopListening = null;
+      }
+
+      // Stop all event tasks
+      for (const entry of scheduledTasks.values()) {
+        entry.task.stop();
+      }
+      scheduledTasks.clear();
+
+      for (const entry of oneShotTimers.values()) {
+        clearTimeout(entry.timer);
+      }
+      oneShotTimers.clear();
+
+      console.log('[EventScheduler] Stopped');
+    },
+
+    refresh,
+
+    fire: runEvent,
+
+    triggerNow: triggerEventNow,
+
+    getStatus() {
+      return {
+        activeEvents: scheduledTasks.size + oneShotTimers.size,
+        eventIds: [...scheduledTasks.keys(), ...oneShotTimers.keys()],
+      };
+    },
+  };
+}
+
+/**
+ * Archive ended seasons and post their champion announcements. Safe on every
+ * instance: archiving claims each season, so only one instance announces it.
+ */
+async function archiveSeasons(): Promise<void> {
+  try {
+    const archived = await archiveEndedSeasons();
+    if (archived > 0) {
+      console.log(`[EventScheduler] Archived ${archived} ended season(s)`);
     }
-  );
+  } catch (error) {
+    console.error('[EventScheduler] Failed to archive seasons:', error);
+  }
+}
+
+// ============ GATEWAY INSTANCE ============
 
-  scheduledTasks.set(event.id, { task, cronExpression: event.cronExpression });
+let scheduler: EventScheduler | null = null;
+
+/**
+ * Initialize the event scheduler
+ */
+export async function initializeEventScheduler(
+  messageSender: SendMessageCallback
+): Promise<void> {
+  // Register the message sender with the executor
+  registerMessageSender(messageSender);
+
+  scheduler?.stop();
+  scheduler = createEventScheduler({ instanceId: process.env.SCHEDULER_INSTANCE_ID || undefined });
+  await scheduler.start();
 }
 
 /**
  * Manually trigger an event (for testing)
  */
 export async function triggerEventNow(eventId: string): Promise<boolean> {
-  const events = await getScheduledEvents();
-  const event = events.find(e => e.id === eventId);
+  const event = await getScheduledEvent(eventId);
 
   if (!event) {
     console.error(`[EventScheduler] Event not found: ${eventId}`);
@@ -157,28 +541,15 @@ export async function triggerEventNow(eventId: string): Promise<boolean> {
  * Stop all scheduled tasks
  */
 export function stopEventScheduler(): void {
-  console.log('[EventScheduler] Stopping...');
-
-  // Stop refresh task
-  if (refreshTask) {
-    refreshTask.stop();
-    refreshTask = null;
-  }
-
-  // Stop all event tasks
-  for (const [eventId, entry] of scheduledTasks) {
-    entry.task.stop();
-  }
-  scheduledTasks.clear();
-
-  console.log('[EventScheduler] Stopped');
+  scheduler?.stop();
+  scheduler = null;
 }
 
 /**
  * Force refresh of scheduled events
  */
 export async function forceRefresh(): Promise<void> {
-  await refreshScheduledEvents();
+  await scheduler?.refresh();
 }
 
 /**
@@ -188,8 +559,5 @@ export function getSchedulerStatus(): {
   activeEvents: number;
   eventIds: string[];
 } {
-  return {
-    activeEvents: scheduledTasks.size,
-    eventIds: Array.from(scheduledTasks.keys()),
-  };
+  return scheduler?.getStatus() ?? { activeEvents: 0, eventIds: [] };
 }
@@ -2,15 +2,14 @@
  * Friday Cron Job
  *
  * Automatically posts tribute demands on Fridays.
- * Posts at a random time between 15:00-18:00 Stockholm time.
+ * Posts at a random time between 15:00-18:00 in the channel's guild timezone.
  */
 
 import { Client, TextChannel } from 'discord.js';
 import cron from 'node-cron';
 import { getRandomPhrase, TRIBUTE_DEMAND_PHRASES } from '../personality';
-
-// Stockholm timezone
-const STOCKHOLM_TZ = 'Europe/Stockholm';
+import { getGuildTimezone } from '../services/guildSettings';
+import { DEFAULT_TIMEZONE } from '../services/timezone';
 
 let currentTask: cron.ScheduledTask | null = null;
 
@@ -21,16 +20,33 @@ function getRandomMinute(min: number, max: number): number {
   return Math.floor(Math.random() * (max - min + 1)) + min;
 }
 
+/**
+ * Resolve the timezone of the guild that owns a channel
+ */
+async function getChannelTimezone(client: Client, channelId: string): Promise<string> {
+  try {
+    const channel = await client.channels.fetch(channelId);
+    const guildId = channel && 'guildId' in channel ? channel.guildId : null;
+    return await getGuildTimezone(guildId);
+  } catch (error) {
+    console.error('Failed to resolve Friday demand timezone, using default:', error);
+    return DEFAULT_TIMEZONE;
+  }
+}
+
 /**
  * Schedule the next Friday demand
  * Uses a random hour between 15-17 and random minute
  */
-function scheduleFridayDemand(client: Client, channelId: string): void {
+async function scheduleFridayDemand(client: Client, channelId: string): Promise<void> {
   // Random hour between 15, 16, or 17
   const hour = 15 + Math.floor(Math.random() * 3);
   const minute = getRandomMinute(0, 59);
 
-  console.log(`Next Friday demand scheduled for ${hour}:${minute.toString().padStart(2, '0')} Stockholm time`);
+  // Looked up on every reschedule so timezone changes apply from the next Friday
+  const timeZone = await getChannelTimezone(client, channelId);
+
+  console.log(`Next Friday demand scheduled for ${hour}:${minute.toString().padStart(2, '0')} ${timeZone} time`);
 
   // Schedule for Fridays at the random time
   // Cron format: minute hour * * dayOfWeek
@@ -60,10 +76,10 @@ function scheduleFridayDemand(client: Client, channelId: string): void {
       }
 
       // Reschedule for next Friday with a new random time
-      scheduleFridayDemand(client, channelId);
+      await scheduleFridayDemand(client, channelId);
     },
     {
-      timezone: STOCKHOLM_TZ,
+      timezone: timeZone,
       scheduled: true,
     }
   );
@@ -72,9 +88,9 @@ function scheduleFridayDemand(client: Client, channelId: string): void {
 /**
  * Start the Friday cron job
  */
-export function startFridayCron(client: Client, channelId: string): void {
+export async function startFridayCron(client: Client, channelId: string): Promise<void> {
   console.log('Initializing Friday tribute demand scheduler...');
-  scheduleFridayDemand(client, channelId);
+  await scheduleFridayDemand(client, channelId);
 }
 
 /**
@@ -88,17 +104,6 @@ export function stopFridayCron(): void {
   }
 }
 
-/**
- * Check if today is Friday in Stockholm timezone
- */
-export function isFridayInStockholm(): boolean {
-  const stockholmDate = new Date().toLocaleString('en-US', {
-    timeZone: STOCKHOLM_TZ,
-    weekday: 'long',
-  });
-  return stockholmDate === 'Friday';
-}
-
 /**
  * Post an immediate demand (for testing or manual triggering)
  */
@@ -9,8 +9,17 @@
  */
 
 import * as http from 'http';
-import { Client, GatewayIntentBits, Events, Partials } from 'discord.js';
+import {
+  Client,
+  GatewayIntentBits,
+  Events,
+  Partials,
+  type APIActionRowComponent,
+  type APIComponentInMessageActionRow,
+  type MessageCreateOptions,
+} from 'discord.js';
 import { handleMentionMessage } from './mentionHandler';
+import { handleReactionAdd } from './reactionHandler';
 import { startFridayCron, postImmediateDemand, stopFridayCron } from './fridayCron';
 import { startRetentionJob, stopRetentionJob } from './retentionJob';
 import { initializeDatabase, isDatabaseAvailable, closeDatabase } from '../db';
@@ -22,6 +31,7 @@ import {
 } from '../services/messageIngestor';
 import { registerChannelLookup, registerGuildNameLookup } from '../services/tools';
 import { initializeEventScheduler, stopEventScheduler } from './eventScheduler';
+import type { OutgoingMessage } from '../services/eventMessages';
 
 // Environment variables
 const DISCORD_BOT_TOKEN = process.env.DISCORD_BOT_TOKEN;
@@ -40,6 +50,20 @@ if (!process.env.DATABASE_URL) {
   console.warn('WARNING: DATABASE_URL not set - database features will not work');
 }
 
+/**
+ * discord.js options for a scheduled event's message. Embeds and components
+ * are already in Discord's API shape; attachments are fetched from their URLs.
+ */
+function toMessageOptions(message: OutgoingMessage): MessageCreateOptions {
+  return {
+    content: message.content,
+    embeds: message.embeds,
+    components: message.components as APIActionRowComponent<APIComponentInMessageActionRow>[] | undefined,
+    allowedMentions: message.allowedMentions,
+    files: message.attachments?.map(url => ({ attachment: url })),
+  };
+}
+
 // Create Discord client with necessary intents
 const client = new Client({
   intents: [
@@ -47,8 +71,12 @@ const client = new Client({
     GatewayIntentBits.GuildMessages,
     GatewayIntentBits.MessageContent, // Privileged intent - must enable in Developer Portal
     GatewayIntentBits.DirectMessages,
+    GatewayIntentBits.GuildMessageReactions, // ⚖️ tribute disputes
+    GatewayIntentBits.DirectMessageReactions,
   ],
-  partials: [Partials.Channel], // Required for DM support
+  // Channel is required for DM support; Message/Reaction/User let us see
+  // reactions on messages sent before the bot started
+  partials: [Partials.Channel, Partials.Message, Partials.Reaction, Partials.User],
 });
 
 // Event: Bot is ready
@@ -98,7 +126,9 @@ client.once(Events.ClientReady, async readyClient => {
 
   // Initialize event scheduler for database-driven cron jobs
   try {
-    await initializeEventScheduler(async (threadId: string, message: string): Promise<boolean> => {
+    await initializeEventScheduler(async (threadId: string, message: OutgoingMessage): Promise<boolean> => {
+      const options = toMessageOptions(message);
+
       // Parse threadId to get guild and channel
       const parts = threadId.split(':');
       if (parts[0] !== 'discord' || parts.length < 3) {
@@ -109,6 +139,30 @@ client.once(Events.ClientReady, async readyClient => {
       const guildId = parts[1];
       const channelId = parts[2];
 
+      // Personal reminders go to the user's DMs
+      if (guildId === 'user') {
+        try {
+          const user = await readyClient.users.fetch(channelId);
+          await user.send(options);
+          console.log(`[EventScheduler] Sent DM to ${user.username}`);
+          return true;
+        } catch (error) {
+          console.error('[EventScheduler] Failed to DM user:', channelId, error);
+          return false;
+        }
+      }
+
+      if (guildId === 'dm') {
+        const channel = await readyClient.channels.fetch(channelId).catch(() => null);
+        if (!channel || !channel.isSendable()) {
+          console.error('[EventScheduler] DM channel not found:', channelId);
+          return false;
+        }
+        await channel.send(options);
+        console.log(`[EventScheduler] Sent message to DM channel ${channelId}`);
+        return true;
+      }
+
       const guild = readyClient.guilds.cache.get(guildId);
       if (!guild) {
         console.error('[EventScheduler] Guild not found:', guildId);
@@ -121,7 +175,7 @@ client.once(Events.ClientReady, async readyClient => {
         return false;
       }
 
-      await channel.send(message);
+      await channel.send(options);
       console.log(`[EventScheduler] Sent message to ${guild.name}/#${channel.name}`);
       return true;
     });
@@ -132,7 +186,7 @@ client.once(Events.ClientReady, async readyClient => {
 
   // Start Friday cron job if party channel is configured
   if (PARTY_CHANNEL_ID) {
-    startFridayCron(client, PARTY_CHANNEL_ID);
+    await startFridayCron(client, PARTY_CHANNEL_ID);
     console.log(`Friday tribute demands will be posted to channel: ${PARTY_CHANNEL_ID}`);
 
     // Post immediate demand if requested (one-off, for testing)
@@ -184,6 +238,15 @@ client.on(Events.MessageCreate, async message => {
   }
 });
 
+// Event: Reaction added (⚖️ on a tribute reply opens a dispute)
+client.on(Events.MessageReactionAdd, async (reaction, user) => {
+  try {
+    await handleReactionAdd(reaction, user);
+  } catch (error) {
+    console.error('Error handling reaction:', error);
+  }
+});
+
 // Event: Message edited
 client.on(Events.MessageUpdate, async (oldMessage, newMessage) => {
   // Ingest updates to keep context accurate
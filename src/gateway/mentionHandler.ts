@@ -8,10 +8,13 @@
  */
 
 import { Message } from 'discord.js';
-import { handleMention, analyzeImage, TRIBUTE_SCORES } from '../drink-questions';
+import { handleMention, analyzeImage } from '../drink-questions';
 import {
   handleMentionTribute,
+  handleGalleryTribute,
   recordTributePost,
+  getDuplicateRejection,
+  getSimilarTributeNote,
   getFullUserStats,
   getAllTimeLeaderboard,
   getDailyLeaderboard,
@@ -21,6 +24,9 @@ import {
   getLeaderboardContext,
   getAIContext,
   isFriday,
+  getCurrentFridayKey,
+  MAX_TRIBUTE_IMAGES,
+  type GalleryImage,
 } from '../tribute-tracker';
 import { ISEE_EMOJI, getRandomPhrase, NO_TRIBUTES_PHRASES, TRIBUTES_RECEIVED_STATUS } from '../personality';
 import { formatPersonalStats, formatLeaderboard } from '../formatters';
@@ -28,14 +34,19 @@ import { addToContext } from '../services/conversationContext';
 import { maybeUpdateUserMemory } from '../services/userMemory';
 import { isAdmin, isAdminCommand, handleAdminCommand } from './adminHandler';
 import { resolveConfigWithDefaults } from '../services/agents';
-
-// Category labels for context
-const CATEGORY_LABELS: Record<string, string> = {
-  TIKI: 'Tiki (10pts)',
-  COCKTAIL: 'Cocktail (5pts)',
-  BEER_WINE: 'Beer/Wine (2pts)',
-  OTHER: 'Other (1pt)',
-};
+import { getScoringRules, formatCategoryLabel } from '../services/scoringRules';
+import { getCategories } from '../services/tributeCategories';
+import { getDrinks } from '../services/drinks';
+import { getTeamStandings, syncRoleTeam } from '../services/teams';
+import { setTributeReplyMessage } from '../db';
+import { screenTributeImage, findRepeatedImages } from '../services/imageHash';
+import { downloadImage } from '../services/tributeImages';
+import {
+  getUserAchievements,
+  formatAchievementAnnouncement,
+  type AchievementDefinition,
+} from '../services/achievements';
+import { getGuildTimezone } from '../services/guildSettings';
 
 /**
  * Handle a message that mentions Mutumbot
@@ -72,17 +83,53 @@ export async function handleMentionMessage(message: Message): Promise<Message |
   }
 
   // Check for image attachments
-  const imageAttachment = message.attachments.find(att =>
-    att.contentType?.startsWith('image/') ||
-    /\.(png|jpg|jpeg|gif|webp)($|\?)/i.test(att.url)
-  );
+  const imageUrls = message.attachments
+    .filter(att =>
+      att.contentType?.startsWith('image/') ||
+      /\.(png|jpg|jpeg|gif|webp)($|\?)/i.test(att.url)
+    )
+    .map(att => att.url);
+
+  const isSpecialDay = isFriday(await getGuildTimezone(guildId));
+
+  // Team roles decide which team a tribute counts towards
+  if (imageUrls.length > 0 && message.member) {
+    await syncRoleTeam(guildId, userId, username, [...message.member.roles.cache.keys()]);
+  }
 
-  const isSpecialDay = isFriday();
+  // Several images: each becomes its own tribute, answered with one combined reply
+  if (imageUrls.length > 1 && hasCap('tribute_tracking')) {
+    return handleGalleryMessage(message, {
+      userId,
+      username,
+      guildId,
+      channelId,
+      isDM,
+      isSpecialDay,
+      analyze: hasCap('image_analysis'),
+      imageUrls,
+    });
+  }
 
   // If there's an image, treat as a tribute (requires image_analysis + tribute_tracking)
-  if (imageAttachment && hasCap('tribute_tracking')) {
-    const imageAnalysis = hasCap('image_analysis')
-      ? await analyzeImage(imageAttachment.url, message.content, isSpecialDay, isDM)
+  if (imageUrls.length === 1 && hasCap('tribute_tracking')) {
+    const imageUrl = imageUrls[0];
+    // Downloaded once: screening, analysis and storage share the bytes
+    const image = await downloadImage(imageUrl);
+    // Refuse re-posted photos before spending an AI call on them
+    const screening = await screenTributeImage(image, guildId, userId);
+    const rejection = getDuplicateRejection(screening, userId);
+    if (rejection) {
+      const reply = await message.reply(rejection);
+      return reply;
+    }
+
+    const [scoringRules, categories] = await Promise.all([
+      getScoringRules(guildId),
+      getCategories(guildId),
+    ]);
+    const imageAnalysis = image && hasCap('image_analysis')
+      ? await analyzeImage(image, message.content, isSpecialDay, isDM, scoringRules, categories)
       : null;
 
     // Store user's message in context
@@ -92,25 +139,26 @@ export async function handleMentionMessage(message: Message): Promise<Message |
     addToContext(channelId, 'user', userContextMessage);
 
     if (imageAnalysis) {
-      const categoryLabel = CATEGORY_LABELS[imageAnalysis.category] || imageAnalysis.category;
+      const categoryLabel = formatCategoryLabel(imageAnalysis.category, scoringRules);
       addToContext(channelId, 'model', `[I observed this image: ${imageAnalysis.description}. Category: ${categoryLabel}${imageAnalysis.drinkName ? `, identified as: ${imageAnalysis.drinkName}` : ''}. Worth ${imageAnalysis.score} points.]`);
     }
 
     // DM tributes
     if (isDM) {
-      const score = imageAnalysis?.score || TRIBUTE_SCORES.OTHER;
-      const category = (imageAnalysis?.category as 'TIKI' | 'COCKTAIL' | 'BEER_WINE' | 'OTHER') || 'OTHER';
+      const category = imageAnalysis?.category || 'OTHER';
 
+      let tributeId: number | undefined;
+      let achievements: AchievementDefinition[] = [];
       let recordFailed = false;
       try {
-        await recordTributePost(
-          { userId, username, guildId: 'dm', channelId, imageUrl: imageAttachment.url, timestamp: new Date().toISOString() },
-          score,
+        ({ id: tributeId, achievements } = await recordTributePost(
+          { userId, username, guildId: 'dm', channelId, imageUrl, timestamp: new Date().toISOString(), screening, image },
           category,
           imageAnalysis?.drinkName,
           imageAnalysis?.description,
-          imageAnalysis?.response
-        );
+          imageAnalysis?.response,
+          imageAnalysis ?? undefined
+        ));
       } catch (error) {
         console.error('Failed to record DM tribute to database:', error);
         recordFailed = true;
@@ -122,12 +170,15 @@ export async function handleMentionMessage(message: Message): Promise<Message |
       } else {
         dmResponse = `${ISEE_EMOJI} I SEE your private offering, **${username}**... The spirits acknowledge your devotion.`;
       }
+      dmResponse += getSimilarTributeNote(screening);
+      dmResponse += formatAchievementAnnouncement(achievements);
 
       if (recordFailed) {
         dmResponse += `\n\n⚠️ **The ancient scrolls failed to record this tribute!** The database spirits are unresponsive. Please try again later — your offering was witnessed but NOT saved.`;
       }
 
       const reply = await message.reply(dmResponse);
+      if (tributeId) await linkTributeReply(tributeId, reply.id);
       return reply;
     }
 
@@ -137,12 +188,15 @@ export async function handleMentionMessage(message: Message): Promise<Message |
       username,
       guildId,
       channelId,
-      imageAttachment.url,
+      imageUrl,
       message.content,
-      imageAnalysis || undefined
+      imageAnalysis || undefined,
+      screening,
+      image
     );
 
     const reply = await message.reply(result.content);
+    if (result.tributeId) await linkTributeReply(result.tributeId, reply.id);
     return reply;
   }
 
@@ -189,6 +243,76 @@ export async function handleMentionMessage(message: Message): Promise<Message |
   return reply;
 }
 
+/**
+ * Handle a tribute message with several images. Images past MAX_TRIBUTE_IMAGES
+ * are ignored; the rest are screened together so the same photo attached twice
+ * is caught, then analysed in parallel and recorded one by one.
+ */
+async function handleGalleryMessage(
+  message: Message,
+  ctx: {
+    userId: string;
+    username: string;
+    guildId: string;
+    channelId: string;
+    isDM: boolean;
+    isSpecialDay: boolean;
+    analyze: boolean;
+    imageUrls: string[];
+  }
+): Promise<Message> {
+  const urls = ctx.imageUrls.slice(0, MAX_TRIBUTE_IMAGES);
+  const ignoredCount = ctx.imageUrls.length - urls.length;
+
+  const downloads = await Promise.all(urls.map(downloadImage));
+  const screenings = await Promise.all(downloads.map(download => screenTributeImage(download, ctx.guildId, ctx.userId)));
+  const repeated = new Set(findRepeatedImages(screenings.map(s => s.hash)));
+
+  const [scoringRules, categories, drinks] = await Promise.all([
+    getScoringRules(ctx.guildId),
+    getCategories(ctx.guildId),
+    getDrinks(),
+  ]);
+
+  // Only spend AI calls on images that will actually be recorded
+  const images: GalleryImage[] = await Promise.all(urls.map(async (imageUrl, i) => {
+    const download = downloads[i];
+    const screening = screenings[i];
+    const accepted = !repeated.has(i) && screening.verdict !== 'duplicate';
+    const analysis = download && accepted && ctx.analyze
+      ? await analyzeImage(download, message.content, ctx.isSpecialDay, ctx.isDM, scoringRules, categories, drinks)
+      : null;
+    return { imageUrl, download, screening, repeated: repeated.has(i), analysis };
+  }));
+
+  const userContextMessage = message.content
+    ? `[Sent ${urls.length} images with message: "${message.content.replace(/<@!?\d+>/g, '').trim()}"]`
+    : `[Sent ${urls.length} images as tribute]`;
+  addToContext(ctx.channelId, 'user', userContextMessage);
+
+  const observed = images
+    .filter(img => img.analysis)
+    .map(img => `${img.analysis!.drinkName || img.analysis!.description} (${formatCategoryLabel(img.analysis!.category, scoringRules)}, ${img.analysis!.score} points)`);
+  if (observed.length > 0) {
+    addToContext(ctx.channelId, 'model', `[I observed ${observed.length} offerings: ${observed.join('; ')}]`);
+  }
+
+  const result = await handleGalleryTribute(
+    ctx.userId,
+    ctx.username,
+    ctx.guildId,
+    ctx.channelId,
+    images,
+    ignoredCount
+  );
+
+  const reply = await message.reply(result.content);
+  for (const tributeId of result.tributeIds) {
+    await linkTributeReply(tributeId, reply.id);
+  }
+  return reply;
+}
+
 /**
  * Check if the message is asking about tribute status
  */
@@ -246,11 +370,12 @@ export function needsTributeContext(content: string): boolean {
  * Handle tribute status query
  */
 async function handleStatusQuery(userId: string, username: string, guildId: string): Promise<string> {
-  const status = await getFridayStatus(guildId);
-  const fridayLabel = isFriday() ? 'this sacred Friday' : `Friday (${status.date})`;
+  const [status, timeZone] = await Promise.all([getFridayStatus(guildId), getGuildTimezone(guildId)]);
+  const isSpecialDay = isFriday(timeZone);
+  const fridayLabel = isSpecialDay ? 'this sacred Friday' : `Friday (${status.date})`;
 
   if (!status.hasTributePost) {
-    return `${getRandomPhrase(NO_TRIBUTES_PHRASES)}\n\n**${fridayLabel}**: The offering hall stands EMPTY.${isFriday() ? '\n\nMention me with an image to make your offering!' : ''}`;
+    return `${getRandomPhrase(NO_TRIBUTES_PHRASES)}\n\n**${fridayLabel}**: The offering hall stands EMPTY.${isSpecialDay ? '\n\nMention me with an image to make your offering!' : ''}`;
   }
 
   const guildIdOrUndefined = guildId === 'dm' ? undefined : guildId;
@@ -279,14 +404,17 @@ async function handleStatusQuery(userId: string, username: string, guildId: stri
  */
 async function handlePersonalStatsQuery(userId: string, username: string, guildId: string): Promise<string> {
   const isDm = guildId === 'dm';
-  const [stats, allTimeBoard] = await Promise.all([
-    getFullUserStats(userId),
+  const timeZone = await getGuildTimezone(guildId);
+  const [stats, allTimeBoard, scoringRules, achievements] = await Promise.all([
+    getFullUserStats(userId, guildId),
     isDm ? Promise.resolve([]) : getAllTimeLeaderboard(50, guildId),
+    getScoringRules(guildId),
+    getUserAchievements(userId, getCurrentFridayKey(timeZone)),
   ]);
   const rank = allTimeBoard.findIndex(e => e.userId === userId) + 1;
   const rankText = !isDm && rank > 0 ? `#${rank} of ${allTimeBoard.length}` : '';
 
-  return formatPersonalStats(username, stats, rankText);
+  return formatPersonalStats(username, stats, rankText, scoringRules, achievements);
 }
 
 /**
@@ -294,10 +422,23 @@ async function handlePersonalStatsQuery(userId: string, username: string, guildI
  */
 async function handleLeaderboardQuery(guildId: string): Promise<string> {
   const guildIdOrUndefined = guildId === 'dm' ? undefined : guildId;
-  const [allTimeRaw, dailyRaw, fridayRaw] = await Promise.all([
+  const [allTimeRaw, dailyRaw, fridayRaw, teams] = await Promise.all([
     getAllTimeLeaderboard(50, guildIdOrUndefined),
     getDailyLeaderboard(20, guildIdOrUndefined),
     getFridayLeaderboard(20, guildIdOrUndefined),
+    guildIdOrUndefined ? getTeamStandings(guildIdOrUndefined) : Promise.resolve([]),
   ]);
-  return formatLeaderboard(allTimeRaw.slice(0, 10), dailyRaw.slice(0, 5), fridayRaw.slice(0, 5));
+  return formatLeaderboard(allTimeRaw.slice(0, 10), dailyRaw.slice(0, 5), fridayRaw.slice(0, 5), teams);
+}
+
+/**
+ * Remember which bot reply belongs to a tribute so ⚖️ reactions can dispute it.
+ * Failure only disables reaction disputes for this tribute, so it is not fatal.
+ */
+async function linkTributeReply(tributeId: number, replyMessageId: string): Promise<void> {
+  try {
+    await setTributeReplyMessage(tributeId, replyMessageId);
+  } catch (error) {
+    console.error('Failed to link tribute to reply message:', error);
+  }
 }
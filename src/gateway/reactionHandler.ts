@@ -0,0 +1,52 @@
+/**
+ * Reaction Handler
+ *
+ * Handles ⚖️ reactions on Mutumbot's tribute replies. The owner of the
+ * tribute can react to dispute how it was judged; the dispute then waits
+ * in the admin dashboard queue.
+ */
+
+import { MessageReaction, PartialMessageReaction, User, PartialUser } from 'discord.js';
+import { getTributesByReplyMessage } from '../db';
+import { fileTributeDispute } from '../tribute-tracker';
+import { isDisputeEmoji } from '../services/tributeDisputes';
+import { ISEE_EMOJI } from '../personality';
+
+/**
+ * Handle a reaction being added to a message
+ */
+export async function handleReactionAdd(
+  reaction: MessageReaction | PartialMessageReaction,
+  user: User | PartialUser
+): Promise<void> {
+  if (user.bot || !isDisputeEmoji(reaction.emoji.name)) return;
+
+  // Reactions on uncached messages arrive as partials
+  if (reaction.partial) {
+    try {
+      reaction = await reaction.fetch();
+    } catch {
+      return; // Message was deleted or is inaccessible
+    }
+  }
+
+  const message = reaction.message;
+  if (message.author?.id !== reaction.client.user.id) return;
+
+  const tributes = await getTributesByReplyMessage(message.id);
+  if (tributes.length === 0) return;
+
+  // Ignore other users' reactions silently rather than replying to each one
+  const tribute = tributes[0];
+  if (tribute.userId !== user.id) return;
+
+  // A multi-image reply covers several tributes; the reaction can't say which one
+  if (tributes.length > 1) {
+    const ids = tributes.map(t => `\`${t.id}\``).join(', ');
+    await message.reply(`${ISEE_EMOJI} This offering holds ${tributes.length} tributes (${ids}). Use \`/tribute dispute tribute_id:<number>\` to contest a specific one.`);
+    return;
+  }
+
+  const response = await fileTributeDispute(tribute, user.id, 'reaction');
+  await message.reply(response);
+}
@@ -5,6 +5,7 @@
  * - Purges messages older than TTL (default 4 hours)
  * - Purges thread items older than TTL (ChatKit-style cleanup)
  * - Purges old runs after 24 hours (keep for debugging)
+ * - Purges scheduled event run history after 30 days
  * - Caps messages per channel to prevent spam dominance
  *
  * This keeps the database lean and fast while maintaining
@@ -14,11 +15,13 @@
 import * as cron from 'node-cron';
 import { purgeOldMessages } from '../services/messageIngestor';
 import { purgeOldThreadItems, purgeOldRuns } from '../services/threads';
+import { purgeOldEventRuns } from '../services/agents';
 
 // Configuration
 const MESSAGE_TTL_HOURS = 4;
 const THREAD_ITEMS_TTL_HOURS = 4; // Same as messages for consistency
 const RUNS_TTL_HOURS = 24; // Keep runs longer for debugging
+const EVENT_RUNS_TTL_DAYS = 30; // Scheduled event history shown in the admin timeline
 const CLEANUP_CRON = '0 * * * *'; // Every hour at minute 0
 
 let scheduledTask: cron.ScheduledTask | null = null;
@@ -40,8 +43,11 @@ async function runRetentionCleanup(): Promise<void> {
     // Cleanup old runs (keep longer for debugging)
     const purgedRuns = await purgeOldRuns(RUNS_TTL_HOURS);
 
+    // Cleanup scheduled event run history
+    const purgedEventRuns = await purgeOldEventRuns(EVENT_RUNS_TTL_DAYS);
+
     const duration = Date.now() - startTime;
-    console.log(`[Retention] Cleanup complete in ${duration}ms: ${purgedMessages} messages, ${purgedItems} thread items, ${purgedRuns} runs`);
+    console.log(`[Retention] Cleanup complete in ${duration}ms: ${purgedMessages} messages, ${purgedItems} thread items, ${purgedRuns} runs, ${purgedEventRuns} event runs`);
   } catch (error) {
     console.error('[Retention] Cleanup failed:', error);
   }
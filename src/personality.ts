@@ -210,6 +210,50 @@ export const TRIBUTES_RECEIVED_STATUS = [
   'The ancient ledger shows tribute has been paid. The spirits are SATISFIED.',
 ];
 
+/**
+ * Phrases for refusing a re-posted photo of the user's own earlier tribute
+ */
+export const DUPLICATE_TRIBUTE_PHRASES = [
+  `${ISEE_EMOJI} You DARE offer the SAME vessel twice? The spirits have already tasted this one, mortal. REJECTED.`,
+  `${ISEE_EMOJI} I have SEEN this offering before. The ancient ledger does not forget. Bring a FRESH libation!`,
+  `${ISEE_EMOJI} A recycled tribute? The spirits are INSULTED. Pour something new before you return.`,
+];
+
+/**
+ * Phrases for refusing a photo of someone else's tribute (OWNER is replaced with their name)
+ */
+export const RECYCLED_TRIBUTE_PHRASES = [
+  `${ISEE_EMOJI} THIEF! This offering was already made by **OWNER**. The spirits do not accept STOLEN tributes.`,
+  `${ISEE_EMOJI} The spirits recognize this vessel... it belongs to **OWNER**. Offer your OWN libation, mortal.`,
+  `${ISEE_EMOJI} You present **OWNER**'s tribute as your own? The ancients are NOT FOOLED.`,
+];
+
+/**
+ * Phrases appended when a tribute looks suspiciously like an earlier one
+ */
+export const SIMILAR_TRIBUTE_PHRASES = [
+  `*The spirits squint... this offering looks FAMILIAR. The elders will be watching.*`,
+  `*Hmm. I have seen a vessel very much like this before. The ledger has been marked.*`,
+  `*Something about this offering stirs an old memory... The council has been notified.*`,
+];
+
+/**
+ * Phrases for acknowledging a tribute dispute
+ */
+export const DISPUTE_RECEIVED_PHRASES = [
+  `${ISEE_EMOJI} You question the judgment of the spirits? VERY WELL. The elders shall review your offering.`,
+  `${ISEE_EMOJI} Your grievance has been carved into the ANCIENT LEDGER. The council will deliberate.`,
+  `${ISEE_EMOJI} The scales of the spirits have been summoned. Your offering will be JUDGED AGAIN.`,
+];
+
+/**
+ * Phrases for when a dispute is already awaiting judgment
+ */
+export const DISPUTE_PENDING_PHRASES = [
+  `${ISEE_EMOJI} PATIENCE, mortal. Your grievance already awaits the council's judgment.`,
+  `${ISEE_EMOJI} The elders have not yet ruled on your last complaint. Do not pester the spirits.`,
+];
+
 /**
  * Get a random phrase from an array
  */
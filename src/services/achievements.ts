@@ -0,0 +1,299 @@
+/**
+ * Achievements Service
+ *
+ * Streaks and achievements derived from a user's tribute history.
+ * After each tribute the full history is re-evaluated and any newly earned
+ * achievements are stored in user_achievements, so each one is announced
+ * exactly once no matter how many points a single tribute adds.
+ *
+ * Achievements are per user (across guilds and DMs), like personal stats.
+ */
+
+import { sql } from '../db';
+import { ISEE_EMOJI } from '../personality';
+import { normalizeDrinkKey } from './scoringRules';
+
+// ============ TYPES ============
+
+export interface AchievementDefinition {
+  key: string;
+  name: string;
+  description: string;
+  emoji: string;
+}
+
+/** The subset of a tribute needed to evaluate achievements */
+export interface AchievementTribute {
+  category: string;
+  drinkName?: string | null;
+  drinkId?: number | null;  // catalogue drink, so aliases of one drink count once
+  fridayKey: string;  // YYYY-MM-DD of the week's Friday
+  isFriday: boolean;
+  score: number;
+}
+
+export interface UnlockedAchievement extends AchievementDefinition {
+  guildId: string | null;
+  tributeId: number | null;
+  unlockedAt: Date;
+}
+
+export interface FridayStreak {
+  current: number;
+  longest: number;
+}
+
+export interface AchievementProgress {
+  unlocked: UnlockedAchievement[];
+  streak: FridayStreak;
+}
+
+// ============ DEFINITIONS ============
+
+const FRIDAY_STREAK_TIERS = [3, 5, 10];
+const SCORE_MILESTONES = [50, 100, 250, 500, 1000];
+const DISTINCT_DRINKS_TARGET = 10;
+const CATEGORIES_PER_WEEK_TARGET = 3;
+
+export const ACHIEVEMENTS: AchievementDefinition[] = [
+  { key: 'FIRST_TIKI', name: 'Tiki Initiate', description: 'Offered your first tiki drink', emoji: '🗿' },
+  { key: 'DISTINCT_DRINKS_10', name: 'Connoisseur', description: `Offered ${DISTINCT_DRINKS_TARGET} different drinks`, emoji: '🍹' },
+  { key: 'CATEGORIES_3_WEEK', name: 'Triple Offering', description: `Tributed in ${CATEGORIES_PER_WEEK_TARGET} categories in one week`, emoji: '🔱' },
+  ...FRIDAY_STREAK_TIERS.map(n => ({
+    key: `FRIDAY_STREAK_${n}`,
+    name: `${n}-Friday Streak`,
+    description: `Honored the ritual ${n} Fridays in a row`,
+    emoji: '🔥',
+  })),
+  { key: 'SCORE_50', name: 'Proven Devotee', description: 'Reached 50 points', emoji: '⭐' },
+  { key: 'SCORE_100', name: 'True Devotee', description: 'Reached 100 points', emoji: '🌟' },
+  { key: 'SCORE_250', name: 'Tiki Elder', description: 'Reached 250 points', emoji: '🌺' },
+  { key: 'SCORE_500', name: 'Revered Ancient', description: 'Reached 500 points', emoji: '🌋' },
+  { key: 'SCORE_1000', name: 'Tiki Immortal', description: 'Reached 1000 points', emoji: '👑' },
+];
+
+const ACHIEVEMENTS_BY_KEY = new Map(ACHIEVEMENTS.map(a => [a.key, a]));
+
+// ============ DATABASE INITIALIZATION ============
+
+export async function initializeAchievementsTable(): Promise<void> {
+  if (!sql) return;
+
+  await sql`
+    CREATE TABLE IF NOT EXISTS user_achievements (
+      id SERIAL PRIMARY KEY,
+      user_id VARCHAR(255) NOT NULL,
+      achievement_key VARCHAR(50) NOT NULL,
+      guild_id VARCHAR(255),
+      tribute_id INTEGER,
+      unlocked_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE (user_id, achievement_key)
+    )
+  `;
+
+  await sql`CREATE INDEX IF NOT EXISTS idx_user_achievements_user ON user_achievements(user_id)`;
+
+  console.log('[Achievements] Table initialized');
+}
+
+// ============ PURE HELPERS ============
+
+/**
+ * Compute Friday streaks from the week keys of tributes made on a Friday.
+ * A streak counts consecutive weeks; the current streak stays alive until
+ * a Friday passes without a tribute.
+ */
+export function computeFridayStreaks(fridayKeys: string[], currentFridayKey: string): FridayStreak {
+  const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+  const weeks = Array.from(new Set(fridayKeys))
+    .map(key => Date.parse(`${key}T00:00:00Z`))
+    .filter(t => !Number.isNaN(t))
+    .sort((a, b) => a - b);
+
+  if (weeks.length === 0) return { current: 0, longest: 0 };
+
+  let longest = 1;
+  let run = 1;
+  for (let i = 1; i < weeks.length; i++) {
+    // Round so DST-free UTC dates that are a week apart always match
+    run = Math.round((weeks[i] - weeks[i - 1]) / WEEK_MS) === 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  }
+
+  const weeksSinceLast = Math.round((Date.parse(`${currentFridayKey}T00:00:00Z`) - weeks[weeks.length - 1]) / WEEK_MS);
+  const current = weeksSinceLast <= 1 ? run : 0;
+
+  return { current, longest };
+}
+
+/**
+ * Work out every achievement a tribute history has earned
+ */
+export function evaluateAchievements(tributes: AchievementTribute[], currentFridayKey: string): string[] {
+  const earned: string[] = [];
+
+  if (tributes.some(t => t.category === 'TIKI')) {
+    earned.push('FIRST_TIKI');
+  }
+
+  const drinks = new Set(
+    tributes
+      .filter(t => t.drinkId != null || t.drinkName?.trim())
+      .map(t => (t.drinkId != null ? `#${t.drinkId}` : normalizeDrinkKey(t.drinkName!)))
+  );
+  if (drinks.size >= DISTINCT_DRINKS_TARGET) {
+    earned.push('DISTINCT_DRINKS_10');
+  }
+
+  const categoriesByWeek = new Map<string, Set<string>>();
+  for (const t of tributes) {
+    const set = categoriesByWeek.get(t.fridayKey) ?? new Set<string>();
+    set.add(t.category);
+    categoriesByWeek.set(t.fridayKey, set);
+  }
+  if (Array.from(categoriesByWeek.values()).some(set => set.size >= CATEGORIES_PER_WEEK_TARGET)) {
+    earned.push('CATEGORIES_3_WEEK');
+  }
+
+  const { longest } = computeFridayStreaks(
+    tributes.filter(t => t.isFriday).map(t => t.fridayKey),
+    currentFridayKey
+  );
+  for (const tier of FRIDAY_STREAK_TIERS) {
+    if (longest >= tier) earned.push(`FRIDAY_STREAK_${tier}`);
+  }
+
+  const totalScore = tributes.reduce((sum, t) => sum + t.score, 0);
+  for (const milestone of SCORE_MILESTONES) {
+    if (totalScore >= milestone) earned.push(`SCORE_${milestone}`);
+  }
+
+  return earned;
+}
+
+/**
+ * Announcement appended to a tribute reply for newly unlocked achievements
+ */
+export function formatAchievementAnnouncement(achievements: AchievementDefinition[]): string {
+  if (achievements.length === 0) return '';
+
+  const lines = achievements.map(a => `${a.emoji} **${a.name}** - ${a.description}`);
+  const heading = achievements.length === 1 ? 'ACHIEVEMENT UNLOCKED!' : 'ACHIEVEMENTS UNLOCKED!';
+  return `\n\n${ISEE_EMOJI} **${heading}** The spirits take note...\n${lines.join('\n')}`;
+}
+
+/**
+ * One-line summary for /tally me
+ */
+export function formatAchievementSummary(progress: AchievementProgress): string {
+  const badges = progress.unlocked.length > 0
+    ? progress.unlocked.map(a => `${a.emoji} ${a.name}`).join(', ')
+    : 'None yet';
+  return `**Friday Streak:** ${progress.streak.current} (best ${progress.streak.longest})\n` +
+    `**Achievements (${progress.unlocked.length}/${ACHIEVEMENTS.length}):** ${badges}`;
+}
+
+/**
+ * Format achievements for AI context
+ */
+export function formatAchievementsForAI(progress: AchievementProgress): string {
+  const unlocked = progress.unlocked.length > 0
+    ? progress.unlocked.map(a => `${a.name} (${a.description})`).join(', ')
+    : 'none yet';
+  return `[USER ACHIEVEMENTS]
+Friday streak: ${progress.streak.current} consecutive Fridays (longest: ${progress.streak.longest})
+Unlocked: ${unlocked}`;
+}
+
+// ============ DATABASE OPERATIONS ============
+
+/**
+ * Re-evaluate a user's achievements after a tribute and store new ones.
+ * Returns the achievements unlocked by this tribute.
+ */
+export async function checkAchievements(
+  userId: string,
+  guildId: string,
+  tributeId: number,
+  currentFridayKey: string
+): Promise<AchievementDefinition[]> {
+  if (!sql) return [];
+
+  const tributes = await getAchievementTributes(userId);
+  const earned = evaluateAchievements(tributes, currentFridayKey);
+  if (earned.length === 0) return [];
+
+  const inserted = await sql`
+    INSERT INTO user_achievements (user_id, achievement_key, guild_id, tribute_id)
+    SELECT ${userId}, key, ${guildId}, ${tributeId}
+    FROM unnest(${earned}::text[]) AS key
+    ON CONFLICT (user_id, achievement_key) DO NOTHING
+    RETURNING achievement_key
+  `;
+
+  const unlocked = inserted
+    .map(row => ACHIEVEMENTS_BY_KEY.get(row.achievement_key as string))
+    .filter((a): a is AchievementDefinition => !!a);
+
+  if (unlocked.length > 0) {
+    console.log(`[Achievements] ${userId} unlocked: ${unlocked.map(a => a.key).join(', ')}`);
+  }
+
+  // Keep definition order (streak tiers and milestones ascending)
+  return ACHIEVEMENTS.filter(a => unlocked.includes(a));
+}
+
+/**
+ * Get a user's unlocked achievements and Friday streak
+ */
+export async function getUserAchievements(userId: string, currentFridayKey: string): Promise<AchievementProgress> {
+  if (!sql) return { unlocked: [], streak: { current: 0, longest: 0 } };
+
+  const [rows, fridayRows] = await Promise.all([
+    sql`
+      SELECT achievement_key, guild_id, tribute_id, unlocked_at
+      FROM user_achievements
+      WHERE user_id = ${userId}
+      ORDER BY unlocked_at ASC, id ASC
+    `,
+    sql`
+      SELECT DISTINCT friday_key::text AS friday_key
+      FROM tributes
+      WHERE user_id = ${userId} AND is_friday = TRUE
+    `,
+  ]);
+
+  const unlocked: UnlockedAchievement[] = [];
+  for (const row of rows) {
+    const definition = ACHIEVEMENTS_BY_KEY.get(row.achievement_key as string);
+    if (!definition) continue;
+    unlocked.push({
+      ...definition,
+      guildId: row.guild_id as string | null,
+      tributeId: row.tribute_id === null ? null : Number(row.tribute_id),
+      unlockedAt: new Date(row.unlocked_at as string),
+    });
+  }
+
+  const streak = computeFridayStreaks(fridayRows.map(r => r.friday_key as string), currentFridayKey);
+  return { unlocked, streak };
+}
+
+// ============ HELPERS ============
+
+async function getAchievementTributes(userId: string): Promise<AchievementTribute[]> {
+  const rows = await sql!`
+    SELECT category, drink_name, drink_id, friday_key::text AS friday_key, is_friday, score
+    FROM tributes
+    WHERE user_id = ${userId}
+  `;
+
+  return rows.map(row => ({
+    category: (row.category as string) || 'OTHER',
+    drinkName: row.drink_name as string | null,
+    drinkId: row.drink_id === null ? null : Number(row.drink_id),
+    fridayKey: row.friday_key as string,
+    isFriday: Boolean(row.is_friday),
+    score: Number(row.score),
+  }));
+}
@@ -17,6 +17,8 @@ import { sql } from '../db';
 import type { JSONValue } from 'postgres';
 import { SAFETY_GUARDRAILS, DEFAULT_MUTUMBOT_PERSONA, SENSEI_MUTUM_PERSONA, SPACE_TRAVELER_PERSONA } from '../personality';
 import { resetThread } from './threads';
+import { validateCron } from './cron';
+import { validateEventPayload } from './eventMessages';
 
 /** Helper: cast any plain object/array to postgresjs JSONValue for sql.json() */
 const jsonb = (value: unknown) => sql!.json(value as JSONValue);
@@ -100,10 +102,57 @@ export const EVENT_TYPES = {
   STATUS_REPORT: 'status_report',           // Post stats/leaderboard
   AI_PROMPT: 'ai_prompt',                   // Ask AI to generate and post something
   CHANNEL_SUMMARY: 'channel_summary',       // Summarize recent channel activity
+  TEAM_STANDINGS: 'team_standings',         // Post the guild's team standings
 } as const;
 
 export type EventType = typeof EVENT_TYPES[keyof typeof EVENT_TYPES];
 
+/**
+ * What to do about runs missed while the scheduler was offline: skip them,
+ * run once late, or run every missed occurrence
+ */
+export type CatchUpPolicy = 'skip' | 'once' | 'all';
+
+export const CATCH_UP_POLICIES: CatchUpPolicy[] = ['skip', 'once', 'all'];
+
+/** Why an event ran: on schedule, late to catch up, or by hand */
+export type EventRunTrigger = 'schedule' | 'catch_up' | 'manual';
+
+export type EventRunStatus = 'success' | 'failed' | 'skipped';
+
+/** Postgres NOTIFY channel announcing scheduled event changes */
+export const SCHEDULED_EVENTS_CHANNEL = 'scheduled_events_changed';
+
+/**
+ * How long a claim on an event fire holds. A fire claimed longer ago with no
+ * run recorded (its instance died mid-run) can be claimed again.
+ */
+export const EVENT_RUN_CLAIM_LEASE_MINUTES = 15;
+
+/**
+ * A scheduled event was created, edited or deleted (payload of
+ * SCHEDULED_EVENTS_CHANNEL notifications)
+ */
+export interface ScheduledEventChange {
+  op: 'INSERT' | 'UPDATE' | 'DELETE';
+  id: string;
+}
+
+/**
+ * One entry in an event's run history
+ */
+export interface ScheduledEventRun {
+  id: number;
+  eventId: string;
+  /** The time the run was due; null for manual runs */
+  scheduledFor: Date | null;
+  trigger: EventRunTrigger;
+  status: EventRunStatus;
+  error: string | null;
+  startedAt: Date;
+  finishedAt: Date | null;
+}
+
 /**
  * Scheduled event - cron job tied to a specific channel
  */
@@ -111,14 +160,16 @@ export interface ScheduledEvent {
   id: string;
   name: string;
   description: string | null;
-  /** Target thread/channel (discord:guild:channel format) */
+  /** Target thread/channel (discord:guild:channel format), or a user's DMs (discord:user:userId) */
   threadId: string;
   /** Human-readable guild/server name */
   guildName: string | null;
   /** Human-readable channel name */
   channelName: string | null;
-  /** Cron expression (e.g., "0 17 * * 5" for Friday 5pm) */
-  cronExpression: string;
+  /** Cron expression (e.g., "0 17 * * 5" for Friday 5pm); null for one-off events */
+  cronExpression: string | null;
+  /** When a one-off event fires; it is deactivated afterwards. Null for recurring events */
+  runAt: Date | null;
   /** Type of event to trigger */
   eventType: EventType;
   /** Event-specific payload */
@@ -127,6 +178,10 @@ export interface ScheduledEvent {
   isActive: boolean;
   /** Timezone for cron (default: UTC) */
   timezone: string;
+  /** Discord user who created the event, for personal reminders */
+  createdByUserId: string | null;
+  /** What to do about runs missed while the scheduler was offline */
+  catchUpPolicy: CatchUpPolicy;
   /** Last successful run */
   lastRunAt: Date | null;
   /** Last run status */
@@ -138,18 +193,104 @@ export interface ScheduledEvent {
 }
 
 /**
- * Payload types for different event types
+ * Leaderboard period for STATUS_REPORT: the current tribute week (since the
+ * most recent Friday), that Friday alone, or all time
  */
-export interface ScheduledEventPayload {
-  /** For CUSTOM_MESSAGE: the message template */
-  message?: string;
-  /** For AI_PROMPT: the prompt to send to AI */
-  prompt?: string;
-  /** For STATUS_REPORT: what stats to include */
+export type StatusReportPeriod = 'week' | 'friday' | 'all_time';
+
+/**
+ * A button under an event's message: a link, or an RSVP toggle ("I'm in!")
+ * that counts who is coming
+ */
+export type EventButton =
+  | { label: string; url: string }
+  | { label?: string; rsvp: true };
+
+/**
+ * Post an event's message as an embed; the message becomes its description
+ */
+export interface EventEmbed {
+  title?: string;
+  /** Hex colour, e.g. "#d97706" */
+  color?: string;
+  footer?: string;
+  /** Large image at the bottom of the embed */
+  imageUrl?: string;
+  /** Small image in the top right corner */
+  thumbnailUrl?: string;
+}
+
+/**
+ * How an event's message is posted; every event type accepts these
+ */
+export interface EventMessagePayload {
+  /** Mention a role: "@everyone", "@here" or a role ID */
+  mentionRole?: string;
+  /** User IDs to mention */
+  mentionUsers?: string[];
+  embed?: EventEmbed;
+  /** Image URLs to attach */
+  attachments?: string[];
+  /** Up to 5 buttons, in one row */
+  buttons?: EventButton[];
+}
+
+export type TributeReminderPayload = EventMessagePayload;
+
+export interface CustomMessagePayload extends EventMessagePayload {
+  /** The message template */
+  message: string;
+}
+
+export interface StatusReportPayload extends EventMessagePayload {
+  /** What stats to include */
   includeLeaderboard?: boolean;
   includeTributeCount?: boolean;
-  /** Whether to mention @everyone or a role */
-  mentionRole?: string;
+  /** Which tributes to rank (default: week) */
+  period?: StatusReportPeriod;
+  /** How many devotees to list (default: 5) */
+  topN?: number;
+  /** Call out regulars who haven't posted this period */
+  mentionNonParticipants?: boolean;
+}
+
+export interface AiPromptPayload extends EventMessagePayload {
+  /** The prompt to send to AI */
+  prompt: string;
+}
+
+export interface ChannelSummaryPayload extends EventMessagePayload {
+  /** Hours of conversation to summarise (default: 24) */
+  windowHours?: number;
+  /** Also list a few highlights */
+  highlights?: boolean;
+  /** Skip when fewer messages than this were posted (default: 5) */
+  minMessages?: number;
+}
+
+export interface TeamStandingsPayload extends EventMessagePayload {
+  /** Only count tributes from the last N days (default: since joining) */
+  periodDays?: number;
+}
+
+/**
+ * The payload schema of each event type (checked by validateEventPayload)
+ */
+export interface EventPayloads {
+  tribute_reminder: TributeReminderPayload;
+  custom_message: CustomMessagePayload;
+  status_report: StatusReportPayload;
+  ai_prompt: AiPromptPayload;
+  channel_summary: ChannelSummaryPayload;
+  team_standings: TeamStandingsPayload;
+}
+
+/**
+ * A stored payload: any event type's fields, as it may predate its schema
+ */
+export interface ScheduledEventPayload extends Partial<
+  CustomMessagePayload & StatusReportPayload & AiPromptPayload & ChannelSummaryPayload & TeamStandingsPayload
+> {
   /** Any additional data */
   [key: string]: unknown;
 }
@@ -316,10 +457,13 @@ export async function initializeAgentTables(): Promise<void> {
         thread_id VARCHAR(200) NOT NULL,
         guild_name VARCHAR(200),
         channel_name VARCHAR(200),
-        cron_expression VARCHAR(100) NOT NULL,
+        cron_expression VARCHAR(100),
+        run_at TIMESTAMP WITH TIME ZONE,
         event_type VARCHAR(50) NOT NULL,
         payload JSONB DEFAULT '{}',
         timezone VARCHAR(50) DEFAULT 'UTC',
+        created_by_user_id VARCHAR(255),
+        catch_up_policy VARCHAR(10) DEFAULT 'skip',
         is_active BOOLEAN DEFAULT TRUE,
         last_run_at TIMESTAMP WITH TIME ZONE,
         last_run_status VARCHAR(20),
@@ -329,9 +473,108 @@ export async function initializeAgentTables(): Promise<void> {
       )
     `;
 
+    // Migration: one-off events have run_at instead of a cron expression
+    await sql`
+      DO $$
+      BEGIN
+        IF NOT EXISTS (
+          SELECT 1 FROM information_schema.columns
+          WHERE table_name = 'scheduled_events' AND column_name = 'run_at'
+        ) THEN
+          ALTER TABLE scheduled_events ADD COLUMN run_at TIMESTAMP WITH TIME ZONE;
+          ALTER TABLE scheduled_events ALTER COLUMN cron_expression DROP NOT NULL;
+        END IF;
+
+        -- Personal reminders remember who set them
+        IF NOT EXISTS (
+          SELECT 1 FROM information_schema.columns
+          WHERE table_name = 'scheduled_events' AND column_name = 'created_by_user_id'
+        ) THEN
+          ALTER TABLE scheduled_events ADD COLUMN created_by_user_id VARCHAR(255);
+        END IF;
+
+        -- Catch-up policy for missed runs; one-off events always fired late before
+        IF NOT EXISTS (
+          SELECT 1 FROM information_schema.columns
+          WHERE table_name = 'scheduled_events' AND column_name = 'catch_up_policy'
+        ) THEN
+          ALTER TABLE scheduled_events ADD COLUMN catch_up_policy VARCHAR(10) DEFAULT 'skip';
+          UPDATE scheduled_events SET catch_up_policy = 'once' WHERE run_at IS NOT NULL;
+        END IF;
+      END $$;
+    `;
+
+    // Run history for scheduled events
+    await sql`
+      CREATE TABLE IF NOT EXISTS scheduled_event_runs (
+        id SERIAL PRIMARY KEY,
+        event_id UUID NOT NULL REFERENCES scheduled_events(id) ON DELETE CASCADE,
+        scheduled_for TIMESTAMP WITH TIME ZONE,
+        trigger VARCHAR(20) NOT NULL DEFAULT 'schedule',
+        status VARCHAR(20) NOT NULL,
+        error TEXT,
+        started_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        finished_at TIMESTAMP WITH TIME ZONE
+      )
+    `;
+
+    // One row per event fire, claimed by whichever scheduler instance gets
+    // there first, so replicas never run the same fire twice
+    await sql`
+      CREATE TABLE IF NOT EXISTS scheduled_event_claims (
+        event_id UUID NOT NULL REFERENCES scheduled_events(id) ON DELETE CASCADE,
+        scheduled_for TIMESTAMP WITH TIME ZONE NOT NULL,
+        instance_id VARCHAR(255) NOT NULL,
+        claimed_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (event_id, scheduled_for)
+      )
+    `;
+
     // Create indexes for scheduled_events
     await sql`CREATE INDEX IF NOT EXISTS idx_scheduled_events_active ON scheduled_events(is_active) WHERE is_active = TRUE`;
     await sql`CREATE INDEX IF NOT EXISTS idx_scheduled_events_thread ON scheduled_events(thread_id)`;
+    await sql`CREATE INDEX IF NOT EXISTS idx_scheduled_events_creator ON scheduled_events(created_by_user_id) WHERE created_by_user_id IS NOT NULL`;
+    await sql`CREATE INDEX IF NOT EXISTS idx_scheduled_event_runs_event ON scheduled_event_runs(event_id, started_at DESC)`;
+
+    // Announce event changes so gateway schedulers pick them up within
+    // seconds, whoever made them. Recording a run only touches the last_run_*
+    // columns and updated_at, which schedulers don't need to hear about.
+    // The channel name must match SCHEDULED_EVENTS_CHANNEL.
+    await sql`
+      CREATE OR REPLACE FUNCTION notify_scheduled_event_change() RETURNS trigger AS $$
+      BEGIN
+        IF TG_OP = 'DELETE' THEN
+          PERFORM pg_notify('scheduled_events_changed', json_build_object('op', TG_OP, 'id', OLD.id)::text);
+          RETURN NULL;
+        END IF;
+
+        IF TG_OP = 'UPDATE' AND (
+          NEW.name, NEW.thread_id, NEW.cron_expression, NEW.run_at, NEW.event_type,
+          NEW.payload, NEW.timezone, NEW.is_active, NEW.catch_up_policy
+        ) IS NOT DISTINCT FROM (
+          OLD.name, OLD.thread_id, OLD.cron_expression, OLD.run_at, OLD.event_type,
+          OLD.payload, OLD.timezone, OLD.is_active, OLD.catch_up_policy
+        ) THEN
+          RETURN NULL;
+        END IF;
+
+        PERFORM pg_notify('scheduled_events_changed', json_build_object('op', TG_OP, 'id', NEW.id)::text);
+        RETURN NULL;
+      END;
+      $$ LANGUAGE plpgsql
+    `;
+    await sql`
+      DO $$
+      BEGIN
+        IF NOT EXISTS (
+          SELECT 1 FROM pg_trigger WHERE tgname = 'scheduled_events_notify'
+        ) THEN
+          CREATE TRIGGER scheduled_events_notify
+            AFTER INSERT OR UPDATE OR DELETE ON scheduled_events
+            FOR EACH ROW EXECUTE FUNCTION notify_scheduled_event_change();
+        END IF;
+      END $$;
+    `;
 
     console.log('[Agents] Tables initialized successfully');
 
@@ -1005,6 +1248,13 @@ function rowToWorkflow(row: Record<string, unknown>): Workflow {
   };
 }
 
+/**
+ * Read a catch-up policy, falling back to 'skip' for anything unknown
+ */
+export function parseCatchUpPolicy(raw: unknown): CatchUpPolicy {
+  return CATCH_UP_POLICIES.includes(raw as CatchUpPolicy) ? raw as CatchUpPolicy : 'skip';
+}
+
 function rowToScheduledEvent(row: Record<string, unknown>): ScheduledEvent {
   return {
     id: row.id as string,
@@ -1013,10 +1263,13 @@ function rowToScheduledEvent(row: Record<string, unknown>): ScheduledEvent {
     threadId: row.thread_id as string,
     guildName: (row.guild_name as string) || null,
     channelName: (row.channel_name as string) || null,
-    cronExpression: row.cron_expression as string,
+    cronExpression: (row.cron_expression as string | null) ?? null,
+    runAt: row.run_at ? new Date(row.run_at as string) : null,
     eventType: row.event_type as EventType,
     payload: (row.payload as ScheduledEventPayload) || {},
     timezone: (row.timezone as string) || 'UTC',
+    createdByUserId: (row.created_by_user_id as string | null) ?? null,
+    catchUpPolicy: parseCatchUpPolicy(row.catch_up_policy),
     isActive: row.is_active as boolean,
     lastRunAt: row.last_run_at ? new Date(row.last_run_at as string) : null,
     lastRunStatus: row.last_run_status as 'success' | 'failed' | null,
@@ -1034,11 +1287,20 @@ function rowToScheduledEvent(row: Record<string, unknown>): ScheduledEvent {
 export async function getScheduledEvents(options?: {
   activeOnly?: boolean;
   threadId?: string;
+  createdByUserId?: string;
 }): Promise<ScheduledEvent[]> {
   if (!sql) return [];
 
   let result;
-  if (options?.threadId) {
+  if (options?.createdByUserId) {
+    result = await sql`
+      SELECT * FROM scheduled_events
+      WHERE created_by_user_id = ${options.createdByUserId}
+      ${options.threadId ? sql`AND thread_id = ${options.threadId}` : sql``}
+      ${options.activeOnly ? sql`AND is_active = TRUE` : sql``}
+      ORDER BY COALESCE(run_at, created_at) ASC
+    `;
+  } else if (options?.threadId) {
     result = await sql`
       SELECT * FROM scheduled_events
       WHERE thread_id = ${options.threadId}
@@ -1076,12 +1338,13 @@ export async function getScheduledEvent(id: string): Promise<ScheduledEvent | nu
 }
 
 /**
- * Create a new scheduled event
+ * Create a new scheduled event. Pass a cron expression for a recurring event,
+ * or null and `runAt` for a one-off.
  */
 export async function createScheduledEvent(
   name: string,
   threadId: string,
-  cronExpression: string,
+  cronExpression: string | null,
   eventType: EventType,
   options: {
     description?: string;
@@ -1089,22 +1352,36 @@ export async function createScheduledEvent(
     timezone?: string;
     guildName?: string;
     channelName?: string;
+    runAt?: Date;
+    createdByUserId?: string;
+    /** Default: 'once' for one-off events, 'skip' for recurring ones */
+    catchUpPolicy?: CatchUpPolicy;
   } = {}
 ): Promise<ScheduledEvent> {
   if (!sql) throw new Error('Database not available');
+  if (!cronExpression === !options.runAt) {
+    throw new Error('An event needs either a cron expression or a run time');
+  }
+  const cronError = cronExpression ? validateCron(cronExpression) : null;
+  if (cronError) throw new Error(`Invalid cron expression: ${cronError}`);
+  const payloadError = validateEventPayload(eventType, options.payload || {});
+  if (payloadError) throw new Error(`Invalid payload: ${payloadError}`);
 
   const result = await sql`
-    INSERT INTO scheduled_events (name, description, thread_id, guild_name, channel_name, cron_expression, event_type, payload, timezone)
+    INSERT INTO scheduled_events (name, description, thread_id, guild_name, channel_name, cron_expression, run_at, event_type, payload, timezone, created_by_user_id, catch_up_policy)
     VALUES (
       ${name},
       ${options.description || null},
       ${threadId},
       ${options.guildName || null},
       ${options.channelName || null},
-      ${cronExpression},
+      ${cronExpression || null},
+      ${options.runAt?.toISOString() ?? null},
       ${eventType},
       ${jsonb(options.payload || {})},
-      ${options.timezone || 'UTC'}
+      ${options.timezone || 'UTC'},
+      ${options.createdByUserId || null},
+      ${options.catchUpPolicy ?? (options.runAt ? 'once' : 'skip')}
     )
     RETURNING *
   `;
@@ -1121,19 +1398,37 @@ export async function updateScheduledEvent(
     name?: string;
     description?: string | null;
     cronExpression?: string;
+    /** Setting one of cronExpression/runAt clears the other */
+    runAt?: Date;
     eventType?: EventType;
     payload?: ScheduledEventPayload;
     timezone?: string;
     isActive?: boolean;
+    catchUpPolicy?: CatchUpPolicy;
   }
 ): Promise<ScheduledEvent | null> {
   if (!sql) return null;
+  const cronError = updates.cronExpression ? validateCron(updates.cronExpression) : null;
+  if (cronError) throw new Error(`Invalid cron expression: ${cronError}`);
+  if (updates.payload !== undefined || updates.eventType !== undefined) {
+    // The payload must suit the event type, whichever of them changes
+    const current = await getScheduledEvent(id);
+    if (!current) return null;
+    const payloadError = validateEventPayload(
+      updates.eventType ?? current.eventType,
+      updates.payload ?? current.payload
+    );
+    if (payloadError) throw new Error(`Invalid payload: ${payloadError}`);
+  }
 
   const result = await sql`
     UPDATE scheduled_events SET
       name = COALESCE(${updates.name ?? null}, name),
       description = COALESCE(${updates.description ?? null}, description),
-      cron_expression = COALESCE(${updates.cronExpression ?? null}, cron_expression),
+      cron_expression = ${updates.cronExpression ? sql`${updates.cronExpression}`
+        : updates.runAt ? sql`NULL` : sql`cron_expression`},
+      run_at = ${updates.runAt ? sql`${updates.runAt.toISOString()}`
+        : updates.cronExpression ? sql`NULL` : sql`run_at`},
       event_type = COALESCE(${updates.eventType ?? null}, event_type),
       payload = CASE
         WHEN ${updates.payload !== undefined} THEN ${jsonb(updates.payload ?? {})}
@@ -1141,6 +1436,7 @@ export async function updateScheduledEvent(
       END,
       timezone = COALESCE(${updates.timezone ?? null}, timezone),
       is_active = COALESCE(${updates.isActive ?? null}, is_active),
+      catch_up_policy = COALESCE(${updates.catchUpPolicy ?? null}, catch_up_policy),
       updated_at = CURRENT_TIMESTAMP
     WHERE id = ${id}::uuid
     RETURNING *
@@ -1165,12 +1461,14 @@ export async function deleteScheduledEvent(id: string): Promise<boolean> {
 }
 
 /**
- * Record run result for a scheduled event
+ * Record run result for a scheduled event, both on the event (last run) and
+ * in its run history
  */
 export async function recordEventRun(
   id: string,
   status: 'success' | 'failed',
-  error?: string
+  error?: string,
+  run: { trigger?: EventRunTrigger; scheduledFor?: Date | null; startedAt?: Date } = {}
 ): Promise<void> {
   if (!sql) return;
 
@@ -1182,6 +1480,152 @@ export async function recordEventRun(
       updated_at = CURRENT_TIMESTAMP
     WHERE id = ${id}::uuid
   `;
+
+  await sql`
+    INSERT INTO scheduled_event_runs (event_id, scheduled_for, trigger, status, error, started_at, finished_at)
+    VALUES (
+      ${id}::uuid,
+      ${run.scheduledFor?.toISOString() ?? null},
+      ${run.trigger ?? 'manual'},
+      ${status},
+      ${error || null},
+      ${(run.startedAt ?? new Date()).toISOString()},
+      CURRENT_TIMESTAMP
+    )
+  `;
+}
+
+/**
+ * Record runs that were deliberately not run: missed and not caught up, or
+ * due during a blackout
+ */
+export async function recordSkippedRuns(
+  id: string,
+  scheduledFor: Date[],
+  reason: string,
+  trigger: EventRunTrigger = 'catch_up'
+): Promise<void> {
+  if (!sql || scheduledFor.length === 0) return;
+
+  for (const time of scheduledFor) {
+    await sql`
+      INSERT INTO scheduled_event_runs (event_id, scheduled_for, trigger, status, error, finished_at)
+      VALUES (${id}::uuid, ${time.toISOString()}, ${trigger}, 'skipped', ${reason}, CURRENT_TIMESTAMP)
+    `;
+  }
+}
+
+/**
+ * An event's run history, newest first
+ */
+export async function getEventRuns(id: string, limit: number = 50): Promise<ScheduledEventRun[]> {
+  if (!sql) return [];
+
+  const result = await sql`
+    SELECT * FROM scheduled_event_runs
+    WHERE event_id = ${id}::uuid
+    ORDER BY COALESCE(scheduled_for, started_at) DESC, id DESC
+    LIMIT ${limit}
+  `;
+
+  return result.map(row => ({
+    id: row.id as number,
+    eventId: row.event_id as string,
+    scheduledFor: row.scheduled_for ? new Date(row.scheduled_for as string) : null,
+    trigger: row.trigger as EventRunTrigger,
+    status: row.status as EventRunStatus,
+    error: (row.error as string | null) ?? null,
+    startedAt: new Date(row.started_at as string),
+    finishedAt: row.finished_at ? new Date(row.finished_at as string) : null,
+  }));
+}
+
+/**
+ * The latest due time the event has a run (or skip) recorded for
+ */
+export async function getLastScheduledFor(id: string): Promise<Date | null> {
+  if (!sql) return null;
+
+  const result = await sql`
+    SELECT MAX(scheduled_for) AS scheduled_for FROM scheduled_event_runs
+    WHERE event_id = ${id}::uuid
+  `;
+  const value = result[0]?.scheduled_for;
+  return value ? new Date(value as string) : null;
+}
+
+/**
+ * Claim one fire of an event for a scheduler instance. Returns false if
+ * another instance (or this one) already claimed it, in which case the
+ * caller must not run or record it. A claim whose lease has expired without
+ * a run being recorded is taken over.
+ */
+export async function claimEventRun(id: string, scheduledFor: Date, instanceId: string): Promise<boolean> {
+  if (!sql) return true;
+
+  const result = await sql`
+    INSERT INTO scheduled_event_claims (event_id, scheduled_for, instance_id)
+    VALUES (${id}::uuid, ${scheduledFor.toISOString()}, ${instanceId})
+    ON CONFLICT (event_id, scheduled_for) DO UPDATE SET
+      instance_id = EXCLUDED.instance_id,
+      claimed_at = CURRENT_TIMESTAMP
+    WHERE scheduled_event_claims.claimed_at < CURRENT_TIMESTAMP - make_interval(mins => ${EVENT_RUN_CLAIM_LEASE_MINUTES})
+      AND NOT EXISTS (
+        SELECT 1 FROM scheduled_event_runs r
+        WHERE r.event_id = scheduled_event_claims.event_id
+          AND r.scheduled_for = scheduled_event_claims.scheduled_for
+      )
+    RETURNING event_id
+  `;
+  return result.length > 0;
+}
+
+/**
+ * Call `onChange` whenever a scheduled event is created, edited or deleted,
+ * from the dashboard, the AI tools or anywhere else. `onListen` is called each
+ * time the listening connection is (re)established; changes made while it was
+ * down are not replayed. Returns a function that stops listening, or null
+ * without a database.
+ */
+export async function listenForScheduledEventChanges(
+  onChange: (change: ScheduledEventChange) => void,
+  onListen?: () => void
+): Promise<(() => Promise<void>) | null> {
+  if (!sql) return null;
+
+  const { unlisten } = await sql.listen(
+    SCHEDULED_EVENTS_CHANNEL,
+    payload => {
+      let change: ScheduledEventChange;
+      try {
+        change = JSON.parse(payload);
+      } catch {
+        console.error('[Agents] Ignoring malformed scheduled event notification:', payload);
+        return;
+      }
+      onChange(change);
+    },
+    onListen
+  );
+  return unlisten;
+}
+
+/**
+ * Delete run history (and run claims) older than the given number of days
+ */
+export async function purgeOldEventRuns(ttlDays: number = 30): Promise<number> {
+  if (!sql) return 0;
+
+  const cutoff = new Date(Date.now() - ttlDays * 24 * 60 * 60 * 1000);
+
+  const result = await sql`
+    DELETE FROM scheduled_event_runs
+    WHERE started_at < ${cutoff.toISOString()}
+    RETURNING id
+  `;
+  await sql`DELETE FROM scheduled_event_claims WHERE claimed_at < ${cutoff.toISOString()}`;
+
+  return result.length;
 }
 
 // ============ EXPORTS FOR EASY MANAGEMENT ============
@@ -0,0 +1,344 @@
+/**
+ * Event Blackouts Service
+ *
+ * Periods when scheduled events are paused without being deleted or edited:
+ * a date range ("2026-07-01 to 2026-07-31"), a range that recurs every year
+ * ("12-24 to 01-01"), or a country's public holidays. A blackout applies to
+ * one guild, or to every guild when it has no guild.
+ *
+ * Days are read in the event's own timezone. The event scheduler checks
+ * blackouts before each run and records blacked-out runs as skipped.
+ * Personal reminders are exempt: they were asked for a specific time.
+ */
+
+import { sql } from '../db';
+import { getDateKey } from './timezone';
+import { getReminderUserId } from './reminders';
+import type { ScheduledEvent } from './agents';
+
+// ============ TYPES ============
+
+/**
+ * dates: startsOn to endsOn (YYYY-MM-DD), inclusive
+ * yearly: startsOn to endsOn (MM-DD) every year, wrapping over New Year
+ * holidays: the public holidays of a region
+ */
+export type BlackoutKind = 'dates' | 'yearly' | 'holidays';
+
+export const BLACKOUT_KINDS: BlackoutKind[] = ['dates', 'yearly', 'holidays'];
+
+export interface EventBlackout {
+  id: number;
+  name: string;
+  /** The guild it applies to, or null for every guild */
+  guildId: string | null;
+  kind: BlackoutKind;
+  startsOn: string | null;
+  endsOn: string | null;
+  /** Holiday calendar for the holidays kind, e.g. 'SE' */
+  region: string | null;
+  createdBy: string | null;
+  createdAt: Date;
+}
+
+export interface CreateBlackoutInput {
+  name: string;
+  guildId?: string | null;
+  kind: BlackoutKind;
+  startsOn?: string | null;
+  endsOn?: string | null;
+  region?: string | null;
+  createdBy?: string | null;
+}
+
+export interface PublicHoliday {
+  /** YYYY-MM-DD */
+  date: string;
+  name: string;
+}
+
+/** One blacked-out day, for calendars */
+export interface BlackoutDay {
+  date: string;
+  blackoutId: number;
+  name: string;
+}
+
+// ============ CONSTANTS ============
+
+/** Regions with a public holiday calendar */
+export const HOLIDAY_REGIONS: Record<string, string> = {
+  SE: 'Sweden',
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MONTH_DAY_PATTERN = /^\d{2}-\d{2}$/;
+
+// ============ DATABASE INITIALIZATION ============
+
+export async function initializeBlackoutsTable(): Promise<void> {
+  if (!sql) return;
+
+  await sql`
+    CREATE TABLE IF NOT EXISTS event_blackouts (
+      id SERIAL PRIMARY KEY,
+      name VARCHAR(255) NOT NULL,
+      guild_id VARCHAR(255),
+      kind VARCHAR(20) NOT NULL,
+      starts_on VARCHAR(10),
+      ends_on VARCHAR(10),
+      region VARCHAR(10),
+      created_by VARCHAR(255),
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+    )
+  `;
+
+  await sql`CREATE INDEX IF NOT EXISTS idx_event_blackouts_guild ON event_blackouts(guild_id)`;
+
+  console.log('[Blackouts] Table initialized');
+}
+
+// ============ PURE HELPERS ============
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+function toDateKey(date: Date): string {
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+}
+
+/**
+ * Easter Sunday of a year (Gregorian calendar, anonymous computus)
+ */
+export function getEasterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+/** The first given weekday (0 = Sunday) on or after a date */
+function weekdayOnOrAfter(year: number, month: number, day: number, weekday: number): Date {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  date.setUTCDate(day + ((weekday - date.getUTCDay() + 7) % 7));
+  return date;
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + days));
+}
+
+/**
+ * A region's public holidays in a year, in date order. For Sweden this
+ * includes the eves everyone has off (midsummer, Christmas and New Year's
+ * Eve) as well as the official red days.
+ */
+export function getPublicHolidays(year: number, region: string): PublicHoliday[] {
+  if (region !== 'SE') return [];
+
+  const easter = getEasterSunday(year);
+  const midsummerEve = weekdayOnOrAfter(year, 6, 19, 5);
+  const fixed = (month: number, day: number) => new Date(Date.UTC(year, month - 1, day));
+
+  const holidays: [Date, string][] = [
+    [fixed(1, 1), 'Nyårsdagen'],
+    [fixed(1, 6), 'Trettondedag jul'],
+    [addDays(easter, -2), 'Långfredagen'],
+    [easter, 'Påskdagen'],
+    [addDays(easter, 1), 'Annandag påsk'],
+    [fixed(5, 1), 'Första maj'],
+    [addDays(easter, 39), 'Kristi himmelsfärdsdag'],
+    [addDays(easter, 49), 'Pingstdagen'],
+    [fixed(6, 6), 'Sveriges nationaldag'],
+    [midsummerEve, 'Midsommarafton'],
+    [addDays(midsummerEve, 1), 'Midsommardagen'],
+    [weekdayOnOrAfter(year, 10, 31, 6), 'Alla helgons dag'],
+    [fixed(12, 24), 'Julafton'],
+    [fixed(12, 25), 'Juldagen'],
+    [fixed(12, 26), 'Annandag jul'],
+    [fixed(12, 31), 'Nyårsafton'],
+  ];
+
+  return holidays
+    .map(([date, name]) => ({ date: toDateKey(date), name }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Why a blackout can't be saved, or null if it can
+ */
+export function validateBlackout(input: CreateBlackoutInput): string | null {
+  if (!input.name?.trim()) return 'name is required';
+  if (!BLACKOUT_KINDS.includes(input.kind)) return 'kind is invalid';
+
+  if (input.kind === 'holidays') {
+    return input.region && HOLIDAY_REGIONS[input.region] ? null : 'region is invalid';
+  }
+
+  const pattern = input.kind === 'dates' ? DATE_PATTERN : MONTH_DAY_PATTERN;
+  const format = input.kind === 'dates' ? 'YYYY-MM-DD' : 'MM-DD';
+  for (const [field, value] of [['startsOn', input.startsOn], ['endsOn', input.endsOn]] as const) {
+    if (!value || !pattern.test(value)) return `${field} must be ${format}`;
+    // Round-trip through a leap year so 02-29 is allowed for yearly ranges
+    const full = input.kind === 'dates' ? value : `2024-${value}`;
+    if (toDateKey(new Date(`${full}T00:00:00Z`)) !== full) return `${field} is not a real date`;
+  }
+
+  // Yearly ranges may wrap over New Year; date ranges may not run backwards
+  if (input.kind === 'dates' && input.startsOn! > input.endsOn!) {
+    return 'endsOn must not be before startsOn';
+  }
+  return null;
+}
+
+/**
+ * Whether a blackout covers a calendar day (YYYY-MM-DD)
+ */
+export function blackoutCoversDay(blackout: EventBlackout, dateKey: string): boolean {
+  switch (blackout.kind) {
+    case 'dates':
+      return !!blackout.startsOn && !!blackout.endsOn
+        && blackout.startsOn <= dateKey && dateKey <= blackout.endsOn;
+
+    case 'yearly': {
+      if (!blackout.startsOn || !blackout.endsOn) return false;
+      const monthDay = dateKey.slice(5);
+      return blackout.startsOn <= blackout.endsOn
+        ? blackout.startsOn <= monthDay && monthDay <= blackout.endsOn
+        : monthDay >= blackout.startsOn || monthDay <= blackout.endsOn;
+    }
+
+    case 'holidays':
+      return !!blackout.region && getPublicHolidays(Number(dateKey.slice(0, 4)), blackout.region)
+        .some(h => h.date === dateKey);
+  }
+}
+
+/**
+ * The blackout (if any) pausing a guild's events at an instant, reading the
+ * day in the given timezone. Global blackouts apply to every guild.
+ */
+export function findBlackout(
+  blackouts: EventBlackout[],
+  guildId: string | null,
+  at: Date,
+  timeZone: string
+): EventBlackout | null {
+  const dateKey = getDateKey(at, timeZone);
+  return blackouts.find(b =>
+    (b.guildId === null || b.guildId === guildId) && blackoutCoversDay(b, dateKey)
+  ) ?? null;
+}
+
+/**
+ * Every blacked-out day from `from` to `to` (YYYY-MM-DD, inclusive), for a
+ * calendar. A day covered by several blackouts is listed once for each.
+ */
+export function getBlackoutDays(blackouts: EventBlackout[], from: string, to: string): BlackoutDay[] {
+  const days: BlackoutDay[] = [];
+  for (let day = new Date(`${from}T00:00:00Z`); toDateKey(day) <= to; day = addDays(day, 1)) {
+    const date = toDateKey(day);
+    for (const blackout of blackouts) {
+      if (!blackoutCoversDay(blackout, date)) continue;
+      const holiday = blackout.kind === 'holidays'
+        ? getPublicHolidays(day.getUTCFullYear(), blackout.region!).find(h => h.date === date)
+        : undefined;
+      days.push({ date, blackoutId: blackout.id, name: holiday ? `${blackout.name}: ${holiday.name}` : blackout.name });
+    }
+  }
+  return days;
+}
+
+/**
+ * The guild an event's channel belongs to, or null for DMs and personal reminders
+ */
+export function getEventGuildId(threadId: string): string | null {
+  const [platform, guildId] = threadId.split(':');
+  if (platform !== 'discord' || !guildId || guildId === 'dm' || guildId === 'user') return null;
+  return guildId;
+}
+
+// ============ CRUD ============
+
+/**
+ * List blackouts. With a guild, only those that apply to it (its own and
+ * the global ones).
+ */
+export async function getBlackouts(guildId?: string | null): Promise<EventBlackout[]> {
+  if (!sql) return [];
+
+  const rows = await sql`
+    SELECT * FROM event_blackouts
+    ${guildId ? sql`WHERE guild_id IS NULL OR guild_id = ${guildId}` : sql``}
+    ORDER BY guild_id ASC NULLS FIRST, kind ASC, starts_on ASC NULLS FIRST, id ASC
+  `;
+  return rows.map(rowToBlackout);
+}
+
+export async function createBlackout(input: CreateBlackoutInput): Promise<EventBlackout> {
+  if (!sql) throw new Error('Database not available');
+
+  const error = validateBlackout(input);
+  if (error) throw new Error(`Invalid blackout: ${error}`);
+
+  const ranged = input.kind !== 'holidays';
+  const rows = await sql`
+    INSERT INTO event_blackouts (name, guild_id, kind, starts_on, ends_on, region, created_by)
+    VALUES (
+      ${input.name.trim()},
+      ${input.guildId || null},
+      ${input.kind},
+      ${ranged ? input.startsOn! : null},
+      ${ranged ? input.endsOn! : null},
+      ${ranged ? null : input.region!},
+      ${input.createdBy || null}
+    )
+    RETURNING *
+  `;
+  return rowToBlackout(rows[0]);
+}
+
+export async function deleteBlackout(id: number): Promise<boolean> {
+  if (!sql) return false;
+
+  const rows = await sql`DELETE FROM event_blackouts WHERE id = ${id} RETURNING id`;
+  return rows.length > 0;
+}
+
+/**
+ * The blackout pausing a scheduled event's run due at `at`, if any.
+ * Personal reminders are never blacked out.
+ */
+export async function getEventBlackout(event: ScheduledEvent, at: Date): Promise<EventBlackout | null> {
+  if (getReminderUserId(event.threadId)) return null;
+
+  const guildId = getEventGuildId(event.threadId);
+  const blackouts = await getBlackouts(guildId);
+  return findBlackout(blackouts, guildId, at, event.timezone || 'UTC');
+}
+
+// ============ HELPERS ============
+
+function rowToBlackout(row: Record<string, unknown>): EventBlackout {
+  return {
+    id: row.id as number,
+    name: row.name as string,
+    guildId: (row.guild_id as string | null) ?? null,
+    kind: row.kind as BlackoutKind,
+    startsOn: (row.starts_on as string | null) ?? null,
+    endsOn: (row.ends_on as string | null) ?? null,
+    region: (row.region as string | null) ?? null,
+    createdBy: (row.created_by as string | null) ?? null,
+    createdAt: row.created_at as Date,
+  };
+}
@@ -0,0 +1,188 @@
+/**
+ * Blob Storage
+ *
+ * Pluggable storage for files that must outlive their source (tribute images
+ * posted to Discord, whose CDN URLs expire). Two backends:
+ *
+ * - local: writes under IMAGE_STORAGE_DIR, served from IMAGE_STORAGE_PUBLIC_URL
+ * - s3:    PUTs to any S3-compatible bucket (AWS, R2, MinIO...) signed with SigV4
+ *
+ * IMAGE_STORAGE selects the backend; when unset, nothing is stored.
+ */
+
+import { createHash, createHmac } from 'crypto';
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+
+// ============ TYPES ============
+
+export interface BlobStorage {
+  /** Backend name, for logs */
+  readonly name: string;
+  /** Store the bytes under the key and return a stable public URL */
+  put(key: string, data: Buffer, contentType: string): Promise<string>;
+}
+
+export interface S3StorageConfig {
+  endpoint: string;        // e.g. https://s3.eu-north-1.amazonaws.com
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  publicUrl?: string;      // base URL objects are served from; defaults to endpoint/bucket
+}
+
+// ============ HELPERS ============
+
+/**
+ * RFC 3986 encoding of each key segment, as SigV4 canonical URIs require
+ */
+function encodeKey(key: string): string {
+  return key
+    .split('/')
+    .map(segment => encodeURIComponent(segment).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`))
+    .join('/');
+}
+
+function sha256Hex(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+function trimSlashes(url: string): string {
+  return url.replace(/\/+$/, '');
+}
+
+// ============ LOCAL BACKEND ============
+
+export function createLocalStorage(directory: string, publicUrl: string): BlobStorage {
+  const root = path.resolve(directory);
+
+  return {
+    name: 'local',
+    async put(key, data) {
+      const target = path.resolve(root, key);
+      if (!target.startsWith(root + path.sep)) {
+        throw new Error(`Invalid storage key: ${key}`);
+      }
+      await mkdir(path.dirname(target), { recursive: true });
+      await writeFile(target, data);
+      return `${trimSlashes(publicUrl)}/${encodeKey(key)}`;
+    },
+  };
+}
+
+// ============ S3 BACKEND ============
+
+/**
+ * Sign an S3 PUT with AWS Signature Version 4 (path-style addressing)
+ */
+export function signS3Put(
+  config: S3StorageConfig,
+  key: string,
+  data: Buffer,
+  contentType: string,
+  now: Date = new Date()
+): { url: string; headers: Record<string, string> } {
+  const endpoint = new URL(config.endpoint);
+  const canonicalUri = `${trimSlashes(endpoint.pathname)}/${encodeKey(config.bucket)}/${encodeKey(key)}`;
+  const amzDate = now.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const dateStamp = amzDate.slice(0, 8);
+  const payloadHash = sha256Hex(data);
+
+  const headers: Record<string, string> = {
+    'content-type': contentType,
+    'x-amz-content-sha256': payloadHash,
+    'x-amz-date': amzDate,
+  };
+  // host is signed too, but fetch sets the header itself
+  const signed: Record<string, string> = { ...headers, host: endpoint.host };
+  const signedHeaders = Object.keys(signed).sort().join(';');
+  const canonicalHeaders = Object.keys(signed).sort().map(name => `${name}:${signed[name]}\n`).join('');
+
+  const canonicalRequest = ['PUT', canonicalUri, '', canonicalHeaders, signedHeaders, payloadHash].join('\n');
+  const scope = `${dateStamp}/${config.region}/s3/aws4_request`;
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+
+  const signingKey = hmac(hmac(hmac(hmac(`AWS4${config.secretAccessKey}`, dateStamp), config.region), 's3'), 'aws4_request');
+  const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+  return {
+    url: `${endpoint.origin}${canonicalUri}`,
+    headers: {
+      ...headers,
+      authorization: `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+    },
+  };
+}
+
+export function createS3Storage(config: S3StorageConfig): BlobStorage {
+  const publicUrl = trimSlashes(config.publicUrl || `${trimSlashes(config.endpoint)}/${config.bucket}`);
+
+  return {
+    name: 's3',
+    async put(key, data, contentType) {
+      const request = signS3Put(config, key, data, contentType);
+      const response = await fetch(request.url, {
+        method: 'PUT',
+        headers: request.headers,
+        body: new Uint8Array(data),
+        signal: AbortSignal.timeout(30_000),
+      });
+      if (!response.ok) {
+        const body = await response.text().catch(() => '');
+        throw new Error(`S3 upload failed: ${response.status} ${response.statusText} ${body.slice(0, 200)}`);
+      }
+      return `${publicUrl}/${encodeKey(key)}`;
+    },
+  };
+}
+
+// ============ CONFIGURATION ============
+
+let configuredStorage: BlobStorage | null | undefined;
+
+/**
+ * The storage backend configured by environment variables, or null when
+ * storage is disabled or misconfigured
+ */
+export function getBlobStorage(): BlobStorage | null {
+  if (configuredStorage !== undefined) return configuredStorage;
+
+  const backend = process.env.IMAGE_STORAGE?.trim().toLowerCase();
+  configuredStorage = null;
+
+  if (backend === 'local') {
+    const directory = process.env.IMAGE_STORAGE_DIR;
+    const publicUrl = process.env.IMAGE_STORAGE_PUBLIC_URL;
+    if (directory && publicUrl) {
+      configuredStorage = createLocalStorage(directory, publicUrl);
+    } else {
+      console.warn('[BlobStorage] IMAGE_STORAGE=local needs IMAGE_STORAGE_DIR and IMAGE_STORAGE_PUBLIC_URL - storage disabled');
+    }
+  } else if (backend === 's3') {
+    const region = process.env.S3_REGION || 'us-east-1';
+    const bucket = process.env.S3_BUCKET;
+    const accessKeyId = process.env.S3_ACCESS_KEY_ID;
+    const secretAccessKey = process.env.S3_SECRET_ACCESS_KEY;
+    if (bucket && accessKeyId && secretAccessKey) {
+      configuredStorage = createS3Storage({
+        endpoint: process.env.S3_ENDPOINT || `https://s3.${region}.amazonaws.com`,
+        region,
+        bucket,
+        accessKeyId,
+        secretAccessKey,
+        publicUrl: process.env.S3_PUBLIC_URL,
+      });
+    } else {
+      console.warn('[BlobStorage] IMAGE_STORAGE=s3 needs S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY - storage disabled');
+    }
+  } else if (backend) {
+    console.warn(`[BlobStorage] Unknown IMAGE_STORAGE "${backend}" - storage disabled`);
+  }
+
+  return configuredStorage;
+}
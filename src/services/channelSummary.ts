@@ -0,0 +1,178 @@
+/**
+ * Channel Summary Service
+ *
+ * Builds the transcript a CHANNEL_SUMMARY event summarises: every message in
+ * the target channel over a time window. thread_items is the durable
+ * transcript; discord_messages_recent only holds the last few hours but may
+ * have messages thread_items missed, so both are read and merged.
+ */
+
+import { sql } from '../db';
+import { getZonedParts } from './timezone';
+
+// ============ TYPES ============
+
+export interface TranscriptLine {
+  /** Discord message ID, used to merge the two sources */
+  messageId: string | null;
+  authorName: string;
+  isBot: boolean;
+  content: string;
+  createdAt: Date;
+}
+
+export interface ChannelSummaryOptions {
+  windowHours: number;
+  highlights: boolean;
+}
+
+// ============ CONSTANTS ============
+
+export const DEFAULT_SUMMARY_WINDOW_HOURS = 24;
+export const MAX_SUMMARY_WINDOW_HOURS = 24 * 7;
+
+/** Skip the summary when fewer human messages than this were posted */
+export const DEFAULT_SUMMARY_MIN_MESSAGES = 5;
+
+/** Transcript budget for the prompt; the oldest lines are dropped first */
+const MAX_TRANSCRIPT_CHARS = 12000;
+const MAX_LINE_CHARS = 400;
+
+/** Upper bound on rows read from each source */
+const MAX_TRANSCRIPT_ROWS = 500;
+
+// ============ PURE HELPERS ============
+
+/**
+ * Merge lines from both sources in chronological order, dropping empty
+ * messages and any message present in both
+ */
+export function mergeTranscripts(...sources: TranscriptLine[][]): TranscriptLine[] {
+  const seen = new Set<string>();
+  const merged: TranscriptLine[] = [];
+
+  for (const line of sources.flat()) {
+    if (!line.content.trim()) continue;
+    if (line.messageId) {
+      if (seen.has(line.messageId)) continue;
+      seen.add(line.messageId);
+    }
+    merged.push(line);
+  }
+
+  return merged.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+}
+
+/**
+ * Messages written by people (not bots), for the skip-if-quiet threshold
+ */
+export function countHumanMessages(lines: TranscriptLine[]): number {
+  return lines.filter(line => !line.isBot).length;
+}
+
+/**
+ * Render lines as "[Fri 18:05] Name: message", keeping the most recent lines
+ * that fit in the character budget
+ */
+export function formatTranscript(
+  lines: TranscriptLine[],
+  timeZone: string,
+  maxChars: number = MAX_TRANSCRIPT_CHARS
+): string {
+  const weekdays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+  const rendered: string[] = [];
+  let length = 0;
+
+  for (let i = lines.length - 1; i >= 0; i--) {
+    const line = lines[i];
+    const { hour, minute, weekday } = getZonedParts(line.createdAt, timeZone);
+    const time = `${weekdays[weekday]} ${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+    const content = line.content.replace(/\s+/g, ' ').trim();
+    const text = content.length > MAX_LINE_CHARS ? `${content.slice(0, MAX_LINE_CHARS)}...` : content;
+    const entry = `[${time}] ${line.authorName}${line.isBot ? ' (bot)' : ''}: ${text}`;
+
+    if (length + entry.length + 1 > maxChars) break;
+    rendered.push(entry);
+    length += entry.length + 1;
+  }
+
+  return rendered.reverse().join('\n');
+}
+
+/**
+ * The prompt asking the agent to summarise a transcript in character
+ */
+export function buildChannelSummaryPrompt(
+  transcript: string,
+  messageCount: number,
+  options: ChannelSummaryOptions
+): string {
+  const window = options.windowHours === 1 ? 'hour' : `${options.windowHours} hours`;
+
+  let prompt = `Summarize what happened in this channel over the last ${window} ` +
+    `(${messageCount} message${messageCount === 1 ? '' : 's'}), based only on the transcript below. ` +
+    `Mention who talked about what. Do not invent anything that is not in the transcript. ` +
+    `Be brief and dramatic, as befitting an ancient tiki entity.`;
+
+  if (options.highlights) {
+    prompt += ` After the summary, list up to 3 highlights as bullet points ` +
+      `(notable drinks, memorable lines, plans made), each naming who it came from.`;
+  }
+
+  prompt += ` Keep the whole reply under ${options.highlights ? 1500 : 800} characters.\n\n` +
+    `TRANSCRIPT:\n${transcript}`;
+
+  return prompt;
+}
+
+// ============ QUERIES ============
+
+/**
+ * Everything posted in a channel since a point in time, from both thread_items
+ * and discord_messages_recent
+ */
+export async function getChannelTranscript(
+  threadId: string,
+  channelId: string,
+  since: Date
+): Promise<TranscriptLine[]> {
+  if (!sql) return [];
+
+  const [items, recent] = await Promise.all([
+    sql`
+      SELECT source_message_id, author_name, type, content, created_at
+      FROM thread_items
+      WHERE thread_id = ${threadId}
+        AND type IN ('user_message', 'assistant_message')
+        AND created_at >= ${since.toISOString()}
+      ORDER BY created_at DESC
+      LIMIT ${MAX_TRANSCRIPT_ROWS}
+    `,
+    sql`
+      SELECT message_id, author_name, is_bot, content, created_at
+      FROM discord_messages_recent
+      WHERE channel_id = ${channelId}
+        AND is_deleted = FALSE
+        AND created_at >= ${since.toISOString()}
+      ORDER BY created_at DESC
+      LIMIT ${MAX_TRANSCRIPT_ROWS}
+    `,
+  ]);
+
+  return mergeTranscripts(
+    items.map(row => ({
+      messageId: (row.source_message_id as string | null) ?? null,
+      authorName: (row.author_name as string | null) ?? 'unknown',
+      isBot: row.type === 'assistant_message',
+      content: (row.content as string | null) ?? '',
+      createdAt: new Date(row.created_at as string),
+    })),
+    recent.map(row => ({
+      messageId: row.message_id as string,
+      authorName: row.author_name as string,
+      isBot: row.is_bot as boolean,
+      content: (row.content as string | null) ?? '',
+      createdAt: new Date(row.created_at as string),
+    }))
+  );
+}
@@ -0,0 +1,478 @@
+/**
+ * Cron Helpers
+ *
+ * Validates, describes and previews cron expressions, and works out when one
+ * fires in the event's timezone, so the scheduler can tell which runs were
+ * missed while it was offline. Parsing and matching follow node-cron (which
+ * does the live scheduling): steps pick values divisible by the step, every
+ * field must match, including both day-of-month and day-of-week, and
+ * wall-clock times skipped by a DST jump never fire.
+ *
+ * Pure functions; no database access.
+ */
+
+import type { CatchUpPolicy, ScheduledEvent } from './agents';
+import { getZonedParts, zonedTimeToDate } from './timezone';
+
+// ============ TYPES ============
+
+export interface CronSchedule {
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;  // 0 = Sunday
+}
+
+export interface CatchUpPlan {
+  /** Missed times to run now, oldest first */
+  run: Date[];
+  /** Missed times to record as skipped */
+  skip: Date[];
+}
+
+// ============ CONSTANTS ============
+
+/** Most missed runs executed by the "all" catch-up policy */
+export const MAX_CATCH_UP_RUNS = 10;
+
+/** Missed runs older than this are not caught up (or recorded) */
+export const MAX_CATCH_UP_DAYS = 7;
+
+/** How many days ahead to search for the next fire time before giving up */
+const MAX_SCAN_DAYS = 366 * 4;
+
+/** Most upcoming runs shown in a schedule preview */
+export const MAX_PREVIEW_RUNS = 20;
+
+/**
+ * Common cron patterns for reference
+ */
+export const CRON_PATTERNS = {
+  // Weekly
+  'friday_5pm': '0 17 * * 5',
+  'monday_9am': '0 9 * * 1',
+  'sunday_noon': '0 12 * * 0',
+
+  // Daily
+  'daily_9am': '0 9 * * *',
+  'daily_noon': '0 12 * * *',
+  'daily_6pm': '0 18 * * *',
+
+  // Weekdays
+  'weekdays_9am': '0 9 * * 1-5',
+  'weekdays_5pm': '0 17 * * 1-5',
+
+  // Intervals
+  'every_15_minutes': '*/15 * * * *',
+  'every_2_hours': '0 */2 * * *',
+
+  // Monthly
+  'first_of_month': '0 9 1 * *',
+} as const;
+
+const MONTH_NAMES = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+];
+const DAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+  /** Allowed values, for error messages */
+  hint: string;
+}
+
+const FIELD_SPECS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59, hint: '0-59' },
+  { name: 'hour', min: 0, max: 23, hint: '0-23' },
+  { name: 'day-of-month', min: 1, max: 31, hint: '1-31' },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES, hint: '1-12 or jan-dec' },
+  // 7 is Sunday too
+  { name: 'weekday', min: 0, max: 7, names: DAY_NAMES, hint: '0-7 or sun-sat, with Sunday as 0 or 7' },
+];
+
+// ============ PARSING ============
+
+/**
+ * A field value as a number: digits, or a full or three-letter name
+ */
+function toNumber(text: string, names: string[], min: number): number | null {
+  const lower = text.toLowerCase();
+  const named = names.findIndex(n => lower === n || lower === n.slice(0, 3));
+  if (named >= 0) return named + min;
+  if (!/^\d+$/.test(text)) return null;
+  return Number(text);
+}
+
+/**
+ * Expand one cron field ("*", "5", "1-5", "*\/15", "mon,wed", "0-30/10")
+ * into its values, or null if it is malformed or matches nothing. As in
+ * node-cron, a step picks the values divisible by it, so "*\/2" in the day
+ * field means the even days.
+ */
+function parseField(field: string, { min, max, names = [] }: FieldSpec): number[] | null {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepText, extra] = part.split('/');
+    if (extra !== undefined) return null;
+    if (stepText !== undefined && !/^\d+$/.test(stepText)) return null;
+
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (step < 1) return null;
+
+    let start: number | null;
+    let end: number | null;
+    if (range === '*') {
+      start = min;
+      end = max;
+    } else if (range.includes('-')) {
+      const [from, to, rest] = range.split('-');
+      if (rest !== undefined) return null;
+      start = toNumber(from, names, min);
+      end = toNumber(to, names, min);
+    } else {
+      // node-cron only steps over "*" and ranges
+      if (stepText !== undefined) return null;
+      start = end = toNumber(range, names, min);
+    }
+
+    if (start === null || end === null || start < min || end > max || start > end) return null;
+    for (let value = start; value <= end; value++) {
+      if (value % step === 0) values.add(value);
+    }
+  }
+
+  if (values.size === 0) return null;
+  return [...values].sort((a, b) => a - b);
+}
+
+/**
+ * An expression's fields, including any leading seconds
+ */
+function splitFields(expression: string): string[] {
+  return expression.trim().split(/\s+/).filter(Boolean);
+}
+
+/**
+ * Parse an expression, or explain what is wrong with it
+ */
+function parseExpression(expression: string): { schedule: CronSchedule } | { error: string } {
+  let fields = splitFields(expression);
+  if (fields.length !== 5 && fields.length !== 6) {
+    return {
+      error: `expected 5 fields (minute hour day-of-month month weekday) but got ${fields.length}. ` +
+        'For example, "0 17 * * 5" is every Friday at 17:00.',
+    };
+  }
+  if (fields.length === 6) {
+    if (!parseField(fields[0], { ...FIELD_SPECS[0], name: 'second' })) {
+      return { error: `"${fields[0]}" is not a valid second (0-59)` };
+    }
+    fields = fields.slice(1);
+  }
+
+  const parsed: number[][] = [];
+  for (const [i, spec] of FIELD_SPECS.entries()) {
+    const values = parseField(fields[i], spec);
+    if (!values) {
+      if (/[LW#?]/.test(fields[i])) {
+        return { error: `"${fields[i]}" is not supported: L, W, # and ? (such as "last Friday of the month") are not available` };
+      }
+      return {
+        error: `"${fields[i]}" is not a valid ${spec.name}. Use ${spec.hint}, ranges like 1-5, lists like 1,3 or steps like */15.`,
+      };
+    }
+    parsed.push(values);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parsed;
+  return {
+    schedule: {
+      minutes,
+      hours,
+      daysOfMonth: new Set(daysOfMonth),
+      months: new Set(months),
+      daysOfWeek: new Set(daysOfWeek.map(d => d % 7)),
+    },
+  };
+}
+
+/**
+ * Parse a 5-field cron expression (minute hour day month weekday), or a
+ * 6-field one with leading seconds, which are ignored. Null if invalid.
+ */
+export function parseCron(expression: string): CronSchedule | null {
+  const result = parseExpression(expression);
+  return 'schedule' in result ? result.schedule : null;
+}
+
+/**
+ * Check a cron expression before it is saved. Returns what is wrong with it,
+ * or null if it is valid and fires at least once in the next few years.
+ */
+export function validateCron(expression: string): string | null {
+  const result = parseExpression(expression);
+  if ('error' in result) return result.error;
+
+  // Runs are claimed per minute, so a second fire within a minute never runs
+  const fields = splitFields(expression);
+  if (fields.length === 6 && fields[0] !== '0') {
+    return `"${fields[0]}" seconds are not supported: events run at most once a minute. ` +
+      'Drop the seconds field, e.g. "0 17 * * 5".';
+  }
+
+  if (cronFireTimes(result.schedule, new Date(), 'UTC').next().done) {
+    return `"${expression.trim()}" never fires: no date matches it`;
+  }
+  return null;
+}
+
+// ============ ITERATION ============
+
+/**
+ * Fire times strictly after `after`, in order. Stops once `until` is passed,
+ * or after MAX_SCAN_DAYS days for expressions that (almost) never fire.
+ */
+export function* cronFireTimes(
+  schedule: CronSchedule,
+  after: Date,
+  timeZone: string,
+  until?: Date
+): Generator<Date> {
+  const start = getZonedParts(after, timeZone);
+  let last = after.getTime();
+
+  for (let offset = 0; offset <= MAX_SCAN_DAYS; offset++) {
+    const day = new Date(Date.UTC(start.year, start.month - 1, start.day + offset));
+    const year = day.getUTCFullYear();
+    const month = day.getUTCMonth() + 1;
+    const date = day.getUTCDate();
+
+    if (until && zonedTimeToDate(year, month, date, 0, 0, timeZone).getTime() > until.getTime()) return;
+    if (!schedule.months.has(month) || !schedule.daysOfMonth.has(date) || !schedule.daysOfWeek.has(day.getUTCDay())) {
+      continue;
+    }
+
+    for (const hour of schedule.hours) {
+      for (const minute of schedule.minutes) {
+        const time = zonedTimeToDate(year, month, date, hour, minute, timeZone);
+        // A time skipped by DST lands elsewhere on the clock; node-cron never fires it
+        const seen = getZonedParts(time, timeZone);
+        if (seen.hour !== hour || seen.minute !== minute) continue;
+
+        const ms = time.getTime();
+        if (ms <= last) continue;
+        if (until && ms > until.getTime()) return;
+        last = ms;
+        yield time;
+      }
+    }
+  }
+}
+
+/**
+ * Times a cron expression should have fired after `since` and up to `now`,
+ * oldest first. Only the last MAX_CATCH_UP_DAYS are considered, and at most
+ * `limit` (the most recent) are returned.
+ */
+export function getMissedFireTimes(
+  expression: string,
+  since: Date,
+  now: Date,
+  timeZone: string,
+  limit: number = MAX_CATCH_UP_RUNS
+): Date[] {
+  const schedule = parseCron(expression);
+  if (!schedule) return [];
+
+  const horizon = new Date(now.getTime() - MAX_CATCH_UP_DAYS * 24 * 60 * 60 * 1000);
+  const from = since.getTime() > horizon.getTime() ? since : horizon;
+
+  const missed: Date[] = [];
+  for (const time of cronFireTimes(schedule, from, timeZone, now)) {
+    missed.push(time);
+    if (missed.length > limit) missed.shift();
+  }
+  return missed;
+}
+
+/**
+ * The next `count` fire times after `after`, in the event's timezone
+ */
+export function getNextFireTimes(
+  expression: string,
+  timeZone: string,
+  count: number = 5,
+  after: Date = new Date()
+): Date[] {
+  const schedule = parseCron(expression);
+  if (!schedule || count < 1) return [];
+
+  const times: Date[] = [];
+  for (const time of cronFireTimes(schedule, after, timeZone)) {
+    times.push(time);
+    if (times.length >= count) break;
+  }
+  return times;
+}
+
+/**
+ * When an event runs next: its run time for a pending one-off, the next cron
+ * fire time for a recurring one, or null if it is paused or already done
+ */
+export function getNextRunAt(
+  event: Pick<ScheduledEvent, 'cronExpression' | 'runAt' | 'timezone' | 'isActive'>,
+  now: Date = new Date()
+): Date | null {
+  if (!event.isActive) return null;
+  if (event.runAt) return event.runAt;
+  if (!event.cronExpression) return null;
+  return getNextFireTimes(event.cronExpression, event.timezone, 1, now)[0] ?? null;
+}
+
+// ============ DESCRIPTION ============
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+/** "a", "a and b", "a, b and c" */
+function joinList(items: string[]): string {
+  if (items.length <= 1) return items.join('');
+  return `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+}
+
+/** A "*\/n" step, or null */
+function stepOf(field: string): number | null {
+  const match = /^\*\/(\d+)$/.exec(field);
+  return match ? Number(match[1]) : null;
+}
+
+/** Plain numbers ("5", "0,30") as values, or null for anything fancier */
+function plainValues(field: string): number[] | null {
+  return /^\d+(,\d+)*$/.test(field) ? field.split(',').map(Number) : null;
+}
+
+/**
+ * A list/range field in words: "1-5,0" → "Monday to Friday and Sunday".
+ * A stepped range lists the values it picks: "1-12/3" → "March, June,
+ * September and December".
+ */
+function describeRanges(field: string, spec: FieldSpec, label: (value: number) => string): string {
+  const parts = field.split(',').flatMap(part => {
+    if (part.includes('/')) {
+      const values = parseField(part, spec);
+      return values ? [...new Set(values.map(label))] : [part];
+    }
+    const ends = part.split('-').map(text => toNumber(text, spec.names ?? [], spec.min));
+    return ends.every(end => end !== null) ? [ends.map(end => label(end!)).join(' to ')] : [part];
+  });
+  return joinList(parts);
+}
+
+function describeTime(minute: string, hour: string): string {
+  const minutes = plainValues(minute);
+  const hours = plainValues(hour);
+
+  // A handful of clock times: "at 09:00 and 17:30"
+  if (minutes && hours && minutes.length * hours.length <= 6) {
+    return `at ${joinList(hours.flatMap(h => minutes.map(m => `${pad(h)}:${pad(m)}`)))}`;
+  }
+
+  const minuteStep = stepOf(minute);
+  let text = minute === '*' ? 'every minute'
+    : minuteStep ? `every ${minuteStep} minutes`
+    : minutes ? `at ${joinList(minutes.map(m => `:${pad(m)}`))}`
+    : `at minutes ${minute}`;
+
+  const hourStep = stepOf(hour);
+  if (hour === '*') {
+    if (minutes) text += ' every hour';
+  } else if (hourStep) {
+    text += ` every ${hourStep} hours`;
+  } else if (/^\d+-\d+$/.test(hour)) {
+    const [from, to] = hour.split('-').map(Number);
+    text += ` from ${pad(from)}:00 to ${pad(to)}:59`;
+  } else {
+    text += ` during hour ${hour}`;
+  }
+  return text;
+}
+
+/**
+ * Describe a cron expression in plain English, e.g. "at 17:00 every Friday"
+ * or "every 15 minutes from 09:00 to 17:59 Monday to Friday". Returns the
+ * expression unchanged if it is invalid.
+ */
+export function describeCron(expression: string): string {
+  if (!parseCron(expression)) return expression;
+
+  let fields = splitFields(expression);
+  if (fields.length === 6) {
+    // Only whole minutes are described
+    if (fields[0] !== '0') return expression;
+    fields = fields.slice(1);
+  }
+  const [minute, hour, dayOfMonth, month, weekday] = fields;
+  const [, , daySpec, monthSpec, weekdaySpec] = FIELD_SPECS;
+
+  const parts = [describeTime(minute, hour)];
+
+  let weekdays: string | null = null;
+  if (weekday !== '*') {
+    const step = stepOf(weekday);
+    weekdays = step
+      ? `on weekdays divisible by ${step}`
+      : describeRanges(weekday, weekdaySpec, d => capitalize(DAY_NAMES[d % 7]));
+  }
+
+  let days: string | null = null;
+  if (dayOfMonth !== '*') {
+    const step = stepOf(dayOfMonth);
+    days = step
+      ? `on days of the month divisible by ${step}`
+      : `on day ${describeRanges(dayOfMonth, daySpec, String)} of the month`;
+  }
+
+  if (days && weekdays) {
+    // Both must match, as in node-cron
+    parts.push(`${days} if it is ${weekdays}`);
+  } else if (days) {
+    parts.push(days);
+  } else if (weekdays) {
+    parts.push(/[,/]/.test(weekday) ? `on ${weekdays}` : weekday.includes('-') ? weekdays : `every ${weekdays}`);
+  } else if (parts[0].startsWith('at ') && plainValues(hour)) {
+    parts.push('every day');
+  }
+
+  if (month !== '*') {
+    const step = stepOf(month);
+    parts.push(step
+      ? `in months divisible by ${step}`
+      : `in ${describeRanges(month, monthSpec, m => capitalize(MONTH_NAMES[m - 1]))}`);
+  }
+
+  return parts.join(' ');
+}
+
+// ============ CATCH-UP ============
+
+/**
+ * Decide what to do about missed runs (oldest first) under a catch-up policy:
+ * skip them all, run the latest once, or run each of them
+ */
+export function planCatchUp(missed: Date[], policy: CatchUpPolicy): CatchUpPlan {
+  if (missed.length === 0 || policy === 'skip') {
+    return { run: [], skip: missed };
+  }
+  if (policy === 'once') {
+    return { run: missed.slice(-1), skip: missed.slice(0, -1) };
+  }
+  const cut = Math.max(missed.length - MAX_CATCH_UP_RUNS, 0);
+  return { run: missed.slice(cut), skip: missed.slice(0, cut) };
+}
@@ -0,0 +1,362 @@
+/**
+ * Drinks Catalogue Service
+ *
+ * Canonical drink names with aliases, so "Mai Tai", "mai-tai" and "Trader
+ * Vic's Mai Tai" are recognised as one drink. Drink names from image analysis
+ * are matched against the catalogue (exactly, by alias, by containment or by
+ * edit distance) and tributes link to the matched drink via drink_id; the
+ * model's original text is kept in tributes.raw_drink_name.
+ */
+
+import { sql } from '../db';
+
+// ============ TYPES ============
+
+export interface Drink {
+  id: number | null;  // null for built-in defaults that aren't stored
+  canonicalName: string;
+  aliases: string[];
+  category: string | null;  // tribute category key, e.g. TIKI
+  recipe: string | null;
+}
+
+export interface CreateDrinkInput {
+  canonicalName: string;
+  aliases?: string[];
+  category?: string | null;
+  recipe?: string | null;
+}
+
+export type DrinkMatchKind = 'exact' | 'alias' | 'partial' | 'fuzzy';
+
+export interface DrinkMatch {
+  drink: Drink;
+  kind: DrinkMatchKind;
+}
+
+// ============ DEFAULTS ============
+
+export const DEFAULT_DRINKS: Drink[] = [
+  { id: null, canonicalName: 'Mai Tai', aliases: ["Trader Vic's Mai Tai", 'Maitai'], category: 'TIKI', recipe: null },
+  { id: null, canonicalName: 'Zombie', aliases: ['Zombie Punch'], category: 'TIKI', recipe: null },
+  { id: null, canonicalName: 'Painkiller', aliases: [], category: 'TIKI', recipe: null },
+  { id: null, canonicalName: 'Jungle Bird', aliases: [], category: 'TIKI', recipe: null },
+  { id: null, canonicalName: 'Navy Grog', aliases: [], category: 'TIKI', recipe: null },
+  { id: null, canonicalName: 'Hurricane', aliases: [], category: 'TIKI', recipe: null },
+  { id: null, canonicalName: 'Scorpion Bowl', aliases: ['Scorpion'], category: 'TIKI', recipe: null },
+  { id: null, canonicalName: 'Piña Colada', aliases: [], category: 'TIKI', recipe: null },
+  { id: null, canonicalName: 'Daiquiri', aliases: [], category: 'COCKTAIL', recipe: null },
+  { id: null, canonicalName: 'Margarita', aliases: [], category: 'COCKTAIL', recipe: null },
+  { id: null, canonicalName: 'Old Fashioned', aliases: [], category: 'COCKTAIL', recipe: null },
+  { id: null, canonicalName: 'Negroni', aliases: [], category: 'COCKTAIL', recipe: null },
+  { id: null, canonicalName: 'Martini', aliases: ['Dry Martini'], category: 'COCKTAIL', recipe: null },
+  { id: null, canonicalName: 'Whiskey Sour', aliases: ['Whisky Sour'], category: 'COCKTAIL', recipe: null },
+  { id: null, canonicalName: 'Mojito', aliases: [], category: 'COCKTAIL', recipe: null },
+  { id: null, canonicalName: 'Dark and Stormy', aliases: ["Dark 'n' Stormy", 'Dark n Stormy'], category: 'COCKTAIL', recipe: null },
+];
+
+/** Minimum similarity (1 - distance / length) for a typo-level fuzzy match */
+const FUZZY_MIN_SIMILARITY = 0.8;
+
+/** Names shorter than this only match exactly (too many false positives otherwise) */
+const FUZZY_MIN_LENGTH = 5;
+
+// ============ DATABASE INITIALIZATION ============
+
+export async function initializeDrinksTable(): Promise<void> {
+  if (!sql) return;
+
+  const [{ existed }] = await sql`SELECT to_regclass('drinks') IS NOT NULL AS existed`;
+
+  await sql`
+    CREATE TABLE IF NOT EXISTS drinks (
+      id SERIAL PRIMARY KEY,
+      canonical_name VARCHAR(255) NOT NULL,
+      aliases TEXT[] NOT NULL DEFAULT '{}',
+      category VARCHAR(50),
+      recipe TEXT,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+    )
+  `;
+  await sql`CREATE UNIQUE INDEX IF NOT EXISTS idx_drinks_canonical_name ON drinks (LOWER(canonical_name))`;
+
+  // Tributes link to the matched drink; raw_drink_name keeps the model's text
+  await sql`
+    DO $$
+    BEGIN
+      IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'tributes' AND column_name = 'drink_id'
+      ) THEN
+        ALTER TABLE tributes ADD COLUMN drink_id INTEGER REFERENCES drinks(id) ON DELETE SET NULL;
+        ALTER TABLE tributes ADD COLUMN raw_drink_name VARCHAR(255);
+      END IF;
+    END $$;
+  `;
+  await sql`CREATE INDEX IF NOT EXISTS idx_tributes_drink ON tributes(drink_id)`;
+
+  // Seed the built-in drinks once, when the table is created, so drinks an
+  // admin deletes or renames don't come back on the next restart
+  if (!existed) {
+    for (const drink of DEFAULT_DRINKS) {
+      await sql`
+        INSERT INTO drinks (canonical_name, aliases, category)
+        SELECT ${drink.canonicalName}, ${drink.aliases}, ${drink.category}
+        WHERE NOT EXISTS (
+          SELECT 1 FROM drinks WHERE LOWER(canonical_name) = LOWER(${drink.canonicalName})
+        )
+      `;
+    }
+  }
+
+  console.log('[Drinks] Table initialized');
+}
+
+// ============ PURE HELPERS ============
+
+/**
+ * Comparable form of a drink name: accents, case, punctuation and
+ * "'n'"/"&" spellings of "and" are ignored
+ */
+export function normalizeDrinkName(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/['\u2019]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .split(' ')
+    .map(word => (word === 'n' ? 'and' : word))
+    .join(' ');
+}
+
+/**
+ * Edit distance counting insertions, deletions, substitutions and swaps of
+ * adjacent letters ("Mai Tia") as one edit each (optimal string alignment)
+ */
+export function editDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
+
+function containsWords(haystack: string, needle: string): boolean {
+  return ` ${haystack} `.includes(` ${needle} `);
+}
+
+/**
+ * Find the catalogue drink a free-text name refers to.
+ *
+ * In order of preference: the canonical name, an alias, a catalogue name
+ * contained word-for-word in the text ("Trader Vic's Mai Tai" -> Mai Tai;
+ * the longest such name wins), then the closest name within a small edit
+ * distance ("Mai Tia" -> Mai Tai).
+ */
+export function matchDrink(name: string | null | undefined, catalogue: Drink[]): DrinkMatch | null {
+  if (!name) return null;
+  const input = normalizeDrinkName(name);
+  if (!input) return null;
+
+  const names = catalogue.flatMap(drink => [
+    { drink, text: normalizeDrinkName(drink.canonicalName), alias: false },
+    ...drink.aliases.map(alias => ({ drink, text: normalizeDrinkName(alias), alias: true })),
+  ]).filter(n => n.text);
+
+  const exact = names.find(n => n.text === input);
+  if (exact) return { drink: exact.drink, kind: exact.alias ? 'alias' : 'exact' };
+
+  const contained = names
+    .filter(n => containsWords(input, n.text))
+    .sort((a, b) => b.text.length - a.text.length)[0];
+  if (contained) return { drink: contained.drink, kind: 'partial' };
+
+  if (input.length < FUZZY_MIN_LENGTH) return null;
+
+  let best: { drink: Drink; similarity: number } | null = null;
+  for (const n of names) {
+    if (n.text.length < FUZZY_MIN_LENGTH) continue;
+    const similarity = 1 - editDistance(input, n.text) / Math.max(input.length, n.text.length);
+    if (similarity >= FUZZY_MIN_SIMILARITY && (!best || similarity > best.similarity)) {
+      best = { drink: n.drink, similarity };
+    }
+  }
+  return best ? { drink: best.drink, kind: 'fuzzy' } : null;
+}
+
+/**
+ * Clean up an alias list: trimmed, no blanks, no case-insensitive repeats,
+ * and never the canonical name itself
+ */
+export function normalizeAliases(aliases: unknown, canonicalName: string): string[] {
+  if (!Array.isArray(aliases)) return [];
+
+  const seen = new Set([normalizeDrinkName(canonicalName)]);
+  const result: string[] = [];
+  for (const alias of aliases) {
+    if (typeof alias !== 'string') continue;
+    const trimmed = alias.trim().slice(0, 255);
+    const key = normalizeDrinkName(trimmed);
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+    result.push(trimmed);
+  }
+  return result;
+}
+
+// ============ CRUD ============
+
+/**
+ * Get the whole catalogue. Falls back to the built-in drinks when the
+ * database is unavailable.
+ */
+export async function getDrinks(): Promise<Drink[]> {
+  if (!sql) return DEFAULT_DRINKS;
+
+  try {
+    const rows = await sql`SELECT * FROM drinks ORDER BY canonical_name ASC`;
+    return rows.map(rowToDrink);
+  } catch (error) {
+    console.error('[Drinks] Failed to load catalogue, using defaults:', error);
+    return DEFAULT_DRINKS;
+  }
+}
+
+/**
+ * Every drink with how many tributes link to it, for the admin dashboard
+ */
+export async function getDrinksWithCounts(): Promise<(Drink & { tributeCount: number })[]> {
+  if (!sql) return [];
+
+  const rows = await sql`
+    SELECT d.*, COUNT(t.id) AS tribute_count
+    FROM drinks d
+    LEFT JOIN tributes t ON t.drink_id = d.id
+    GROUP BY d.id
+    ORDER BY d.canonical_name ASC
+  `;
+  return rows.map(row => ({ ...rowToDrink(row), tributeCount: Number(row.tribute_count) }));
+}
+
+export async function createDrink(input: CreateDrinkInput): Promise<Drink> {
+  if (!sql) throw new Error('Database not available');
+
+  const canonicalName = input.canonicalName.trim();
+  if (!canonicalName) throw new Error('Canonical name is required');
+
+  const result = await sql`
+    INSERT INTO drinks (canonical_name, aliases, category, recipe)
+    VALUES (
+      ${canonicalName}, ${normalizeAliases(input.aliases, canonicalName)},
+      ${input.category || null}, ${input.recipe || null}
+    )
+    RETURNING *
+  `;
+  return rowToDrink(result[0]);
+}
+
+export async function updateDrink(
+  id: number,
+  updates: Partial<Pick<Drink, 'canonicalName' | 'aliases' | 'category' | 'recipe'>>
+): Promise<Drink | null> {
+  if (!sql) return null;
+
+  const [current] = await sql`SELECT * FROM drinks WHERE id = ${id}`;
+  if (!current) return null;
+
+  const canonicalName = updates.canonicalName?.trim() || (current.canonical_name as string);
+  const aliases = updates.aliases !== undefined
+    ? normalizeAliases(updates.aliases, canonicalName)
+    : normalizeAliases(current.aliases, canonicalName);
+
+  const result = await sql`
+    UPDATE drinks SET
+      canonical_name = ${canonicalName},
+      aliases = ${aliases},
+      category = ${updates.category !== undefined ? updates.category || null : (current.category as string | null)},
+      recipe = ${updates.recipe !== undefined ? updates.recipe || null : (current.recipe as string | null)},
+      updated_at = CURRENT_TIMESTAMP
+    WHERE id = ${id}
+    RETURNING *
+  `;
+
+  // Linked tributes show the canonical name
+  if (canonicalName !== current.canonical_name) {
+    await sql`UPDATE tributes SET drink_name = ${canonicalName} WHERE drink_id = ${id}`;
+  }
+
+  return result.length > 0 ? rowToDrink(result[0]) : null;
+}
+
+/**
+ * Delete a drink. Linked tributes keep their drink name but lose the link.
+ */
+export async function deleteDrink(id: number): Promise<boolean> {
+  if (!sql) return false;
+
+  const result = await sql`DELETE FROM drinks WHERE id = ${id} RETURNING id`;
+  return result.length > 0;
+}
+
+/**
+ * Link existing tributes to the catalogue. Tributes without a drink_id whose
+ * name matches a drink get the link and the canonical name; the previous
+ * name moves to raw_drink_name. Returns how many tributes were linked.
+ */
+export async function linkTributesToCatalogue(): Promise<number> {
+  if (!sql) throw new Error('Database not available');
+
+  const catalogue = (await getDrinks()).filter(d => d.id !== null);
+  const names = await sql`
+    SELECT DISTINCT drink_name FROM tributes
+    WHERE drink_id IS NULL AND drink_name IS NOT NULL AND drink_name <> ''
+  `;
+
+  let linked = 0;
+  for (const row of names) {
+    const name = row.drink_name as string;
+    const match = matchDrink(name, catalogue);
+    if (!match) continue;
+
+    const result = await sql`
+      UPDATE tributes SET
+        drink_id = ${match.drink.id},
+        raw_drink_name = COALESCE(raw_drink_name, NULLIF(drink_name, ${match.drink.canonicalName})),
+        drink_name = ${match.drink.canonicalName}
+      WHERE drink_id IS NULL AND drink_name = ${name}
+      RETURNING id
+    `;
+    linked += result.length;
+  }
+
+  console.log(`[Drinks] Linked ${linked} tributes to the catalogue`);
+  return linked;
+}
+
+// ============ HELPERS ============
+
+function rowToDrink(row: Record<string, unknown>): Drink {
+  return {
+    id: Number(row.id),
+    canonicalName: row.canonical_name as string,
+    aliases: (row.aliases as string[] | null) ?? [],
+    category: row.category as string | null,
+    recipe: row.recipe as string | null,
+  };
+}
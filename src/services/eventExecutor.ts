@@ -8,17 +8,37 @@
 import {
   ScheduledEvent,
   EventType,
+  EventRunTrigger,
   EVENT_TYPES,
   resolveConfigWithDefaults,
   recordEventRun,
 } from './agents';
 import { handleDrinkQuestion } from '../drink-questions';
 import {
-  ISEE_EMOJI,
   TRIBUTE_DEMAND_PHRASES,
   getRandomPhrase,
   processIseeMarkers,
 } from '../personality';
+import {
+  getSeasonsDueForArchive,
+  archiveSeason,
+  formatChampionAnnouncement,
+} from './seasons';
+import { getTeamStandings, formatTeamStandings } from './teams';
+import { getAllTimeLeaderboard, getFridayStatus } from '../db';
+import { getGuildTimezone } from './guildSettings';
+import { getWeekday } from './timezone';
+import { formatStatusReport, leaderboardFromPosts, findNonParticipants } from '../formatters';
+import {
+  getChannelTranscript,
+  countHumanMessages,
+  formatTranscript,
+  buildChannelSummaryPrompt,
+  DEFAULT_SUMMARY_WINDOW_HOURS,
+  MAX_SUMMARY_WINDOW_HOURS,
+  DEFAULT_SUMMARY_MIN_MESSAGES,
+} from './channelSummary';
+import { buildEventMessage, type OutgoingMessage } from './eventMessages';
 
 /**
  * Result of executing an event
@@ -35,8 +55,7 @@ export interface EventExecutionResult {
  */
 export type SendMessageCallback = (
   threadId: string,
-  content: string,
-  options?: { mentionRole?: string }
+  message: OutgoingMessage
 ) => Promise<boolean>;
 
 // Message sender callback (set by gateway)
@@ -52,15 +71,20 @@ export function registerMessageSender(callback: SendMessageCallback): void {
 }
 
 /**
- * Execute a scheduled event
+ * Execute a scheduled event. `run` says why it ran and when it was due, for
+ * the run history; without it the run counts as manual.
  */
-export async function executeEvent(event: ScheduledEvent): Promise<EventExecutionResult> {
+export async function executeEvent(
+  event: ScheduledEvent,
+  run: { trigger: EventRunTrigger; scheduledFor?: Date | null } = { trigger: 'manual' }
+): Promise<EventExecutionResult> {
   console.log(`[EventExecutor] Executing event: ${event.name} (${event.eventType})`);
+  const runInfo = { ...run, startedAt: new Date() };
 
   if (!sendMessage) {
     const error = 'Message sender not registered';
     console.error(`[EventExecutor] ${error}`);
-    await recordEventRun(event.id, 'failed', error);
+    await recordEventRun(event.id, 'failed', error, runInfo);
     return { success: false, error };
   }
 
@@ -88,6 +112,10 @@ export async function executeEvent(event: ScheduledEvent): Promise<EventExecutio
         result = await executeChannelSummary(event);
         break;
 
+      case EVENT_TYPES.TEAM_STANDINGS:
+        result = await executeTeamStandings(event);
+        break;
+
       default:
         result = {
           success: false,
@@ -99,14 +127,15 @@ export async function executeEvent(event: ScheduledEvent): Promise<EventExecutio
     await recordEventRun(
       event.id,
       result.success ? 'success' : 'failed',
-      result.error
+      result.error,
+      runInfo
     );
 
     return result;
   } catch (error) {
     const errorMessage = (error as Error).message || String(error);
     console.error(`[EventExecutor] Event failed:`, error);
-    await recordEventRun(event.id, 'failed', errorMessage);
+    await recordEventRun(event.id, 'failed', errorMessage, runInfo);
     return { success: false, error: errorMessage };
   }
 }
@@ -117,9 +146,7 @@ export async function executeEvent(event: ScheduledEvent): Promise<EventExecutio
 async function executeTributeReminder(event: ScheduledEvent): Promise<EventExecutionResult> {
   const message = getRandomPhrase(TRIBUTE_DEMAND_PHRASES);
 
-  const sent = await sendMessage!(event.threadId, message, {
-    mentionRole: event.payload.mentionRole,
-  });
+  const sent = await postEventMessage(event, message);
 
   if (sent) {
     return { success: true, message: 'Tribute reminder sent' };
@@ -140,9 +167,7 @@ async function executeCustomMessage(event: ScheduledEvent): Promise<EventExecuti
   // Process any [ISEE] markers in the template
   const message = processIseeMarkers(template);
 
-  const sent = await sendMessage!(event.threadId, message, {
-    mentionRole: event.payload.mentionRole,
-  });
+  const sent = await postEventMessage(event, message);
 
   if (sent) {
     return { success: true, message: 'Custom message sent' };
@@ -151,26 +176,62 @@ async function executeCustomMessage(event: ScheduledEvent): Promise<EventExecuti
   }
 }
 
+/** Default number of devotees listed in a status report */
+const STATUS_REPORT_TOP_N = 5;
+
+/** How many of the all-time top devotees count as regulars to nudge */
+const STATUS_REPORT_REGULARS = 25;
+
 /**
- * Execute a status report event
+ * Execute a status report event: tribute totals and leaderboards for the
+ * event's guild. With neither includeTributeCount nor includeLeaderboard set,
+ * both are included.
  */
 async function executeStatusReport(event: ScheduledEvent): Promise<EventExecutionResult> {
-  // Build status report message
-  let message = `${ISEE_EMOJI} **STATUS REPORT**\n\n`;
-
-  // TODO: Integrate with tribute tracking to get real stats
-  if (event.payload.includeTributeCount) {
-    message += `The spirits have received tributes this week.\n`;
+  const target = parseThreadId(event.threadId);
+  if (!target?.guildId) {
+    return { success: false, error: 'Status reports need a guild channel target' };
   }
-
-  if (event.payload.includeLeaderboard) {
-    message += `The faithful devotees are honored.\n`;
+  const guildId = target.guildId;
+
+  const { payload } = event;
+  const period = payload.period === 'friday' || payload.period === 'all_time' ? payload.period : 'week';
+  const topN = Math.min(Math.max(Math.floor(Number(payload.topN)) || STATUS_REPORT_TOP_N, 1), STATUS_REPORT_REGULARS);
+  const showAll = !payload.includeTributeCount && !payload.includeLeaderboard;
+
+  const allTime = await getAllTimeLeaderboard(period === 'all_time' ? 1000 : STATUS_REPORT_REGULARS, guildId);
+
+  let entries = allTime;
+  let fridayKey: string | undefined;
+  if (period !== 'all_time') {
+    // The tribute week runs from the most recent Friday
+    const status = await getFridayStatus(guildId);
+    const timeZone = await getGuildTimezone(guildId);
+    const posts = period === 'friday'
+      ? status.posts.filter(p => getWeekday(new Date(p.timestamp), timeZone) === 5)
+      : status.posts;
+    entries = leaderboardFromPosts(posts);
+    fridayKey = status.date;
   }
 
-  const sent = await sendMessage!(event.threadId, message, {
-    mentionRole: event.payload.mentionRole,
+  const nonParticipants = payload.mentionNonParticipants && period !== 'all_time'
+    ? findNonParticipants(allTime.slice(0, STATUS_REPORT_REGULARS), entries)
+    : [];
+
+  const message = formatStatusReport({
+    period,
+    fridayKey,
+    entries,
+    allTime,
+    topN,
+    includeTributeCount: showAll || !!payload.includeTributeCount,
+    includeLeaderboard: showAll || !!payload.includeLeaderboard,
+    nonParticipants,
   });
 
+  // The nudged regulars are named in the report; let those mentions ping
+  const sent = await postEventMessage(event, message, nonParticipants.map(e => e.userId));
+
   if (sent) {
     return { success: true, message: 'Status report sent' };
   } else {
@@ -216,9 +277,7 @@ async function executeAiPrompt(event: ScheduledEvent): Promise<EventExecutionRes
     return { success: false, error: 'AI generated empty response' };
   }
 
-  const sent = await sendMessage!(event.threadId, response.content, {
-    mentionRole: event.payload.mentionRole,
-  });
+  const sent = await postEventMessage(event, response.content);
 
   if (sent) {
     return { success: true, message: 'AI-generated message sent' };
@@ -228,18 +287,105 @@ async function executeAiPrompt(event: ScheduledEvent): Promise<EventExecutionRes
 }
 
 /**
- * Execute a channel summary event
+ * Execute a channel summary event - summarises what was actually said in the
+ * target channel over the last `windowHours`, or stays silent when fewer than
+ * `minMessages` messages were posted
  */
 async function executeChannelSummary(event: ScheduledEvent): Promise<EventExecutionResult> {
-  // Use AI to summarize recent activity
-  const prompt = `Summarize the recent activity in this channel. Be brief and dramatic, as befitting an ancient tiki entity. Keep it under 500 characters.`;
+  const target = parseThreadId(event.threadId);
+  if (!target) {
+    return { success: false, error: 'Invalid threadId format' };
+  }
+
+  const { payload } = event;
+  const windowHours = Math.min(
+    Math.max(Number(payload.windowHours) || DEFAULT_SUMMARY_WINDOW_HOURS, 1),
+    MAX_SUMMARY_WINDOW_HOURS
+  );
+  const minMessages = payload.minMessages !== undefined
+    ? Math.max(Math.floor(Number(payload.minMessages)) || 0, 0)
+    : DEFAULT_SUMMARY_MIN_MESSAGES;
+
+  const since = new Date(Date.now() - windowHours * 60 * 60 * 1000);
+  const lines = await getChannelTranscript(event.threadId, target.channelId, since);
+  const messageCount = countHumanMessages(lines);
 
-  const response = await executeAiPrompt({
+  if (messageCount === 0 || messageCount < minMessages) {
+    console.log(`[EventExecutor] Channel summary skipped: ${messageCount} messages in the last ${windowHours}h`);
+    return { success: true, message: `Skipped: only ${messageCount} messages in the last ${windowHours}h` };
+  }
+
+  const prompt = buildChannelSummaryPrompt(
+    formatTranscript(lines, event.timezone),
+    messageCount,
+    { windowHours, highlights: !!payload.highlights }
+  );
+
+  return executeAiPrompt({
     ...event,
-    payload: { ...event.payload, prompt },
+    payload: { ...payload, prompt },
   });
+}
+
+/**
+ * Execute a team standings event - posts the target guild's team totals
+ */
+async function executeTeamStandings(event: ScheduledEvent): Promise<EventExecutionResult> {
+  const target = parseThreadId(event.threadId);
+  if (!target?.guildId) {
+    return { success: false, error: 'Team standings need a guild channel target' };
+  }
+
+  const periodDays = Number(event.payload.periodDays) || 0;
+  const since = periodDays > 0 ? new Date(Date.now() - periodDays * 24 * 60 * 60 * 1000) : undefined;
+  const standings = await getTeamStandings(target.guildId, { since });
+  const subtitle = periodDays > 0 ? `The last ${periodDays} day${periodDays === 1 ? '' : 's'}` : undefined;
+
+  const sent = await postEventMessage(event, formatTeamStandings(standings, subtitle));
+
+  if (sent) {
+    return { success: true, message: 'Team standings sent' };
+  } else {
+    return { success: false, error: 'Failed to send message' };
+  }
+}
+
+/**
+ * Post an event's message with its mentions, embed, attachments and buttons.
+ * `pingUsers` are users named in the text who should be notified.
+ */
+function postEventMessage(event: ScheduledEvent, text: string, pingUsers: string[] = []): Promise<boolean> {
+  return sendMessage!(event.threadId, buildEventMessage(text, event.payload, event.id, pingUsers));
+}
+
+/**
+ * Archive seasons that have ended and announce their champions.
+ * Called periodically by the scheduler; returns the number of seasons archived.
+ */
+export async function archiveEndedSeasons(): Promise<number> {
+  const due = await getSeasonsDueForArchive();
+  let archived = 0;
+
+  for (const season of due) {
+    try {
+      const result = await archiveSeason(season.id);
+      if (!result) continue;
+      archived++;
+
+      if (result.season.announceThreadId && sendMessage) {
+        const sent = await sendMessage(result.season.announceThreadId, {
+          content: formatChampionAnnouncement(result.season, result.standings),
+        });
+        if (!sent) {
+          console.error(`[EventExecutor] Failed to announce champion for season ${season.name}`);
+        }
+      }
+    } catch (error) {
+      console.error(`[EventExecutor] Failed to archive season ${season.name}:`, error);
+    }
+  }
 
-  return response;
+  return archived;
 }
 
 /**
@@ -255,7 +401,8 @@ export function parseThreadId(threadId: string): {
     return null;
   }
 
-  if (parts[1] === 'dm') {
+  // discord:user:<id> targets a user's DMs; channelId is then the user ID
+  if (parts[1] === 'dm' || parts[1] === 'user') {
     return { guildId: null, channelId: parts[2] };
   }
 
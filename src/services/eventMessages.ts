@@ -0,0 +1,375 @@
+/**
+ * Event Messages Service
+ *
+ * Turns a scheduled event's text into the message the gateway posts: role and
+ * user mentions (with allowedMentions so only those ping), an optional embed,
+ * image attachments and buttons. Also checks each event type's payload
+ * against its schema, and keeps the RSVPs of "I'm in!" buttons.
+ *
+ * RSVPs are counted per posted message, so each week's tribute reminder
+ * starts from zero. Clicking the button again takes the RSVP back.
+ */
+
+import { sql } from '../db';
+import type { AllowedMentions, Component, Embed } from '../types';
+import type {
+  EventButton,
+  EventMessagePayload,
+  EventType,
+  ScheduledEventPayload,
+} from './agents';
+
+// ============ TYPES ============
+
+/**
+ * A message for the gateway to post
+ */
+export interface OutgoingMessage {
+  content?: string;
+  embeds?: Embed[];
+  components?: Component[];
+  allowedMentions?: AllowedMentions;
+  /** Image URLs to attach */
+  attachments?: string[];
+}
+
+// ============ CONSTANTS ============
+
+export const RSVP_CUSTOM_ID_PREFIX = 'rsvp';
+
+export const DEFAULT_RSVP_LABEL = "I'm in!";
+
+/** Discord's limits */
+export const MAX_BUTTONS = 5;
+export const MAX_ATTACHMENTS = 10;
+const MAX_BUTTON_LABEL_LENGTH = 80;
+const MAX_EMBED_TITLE_LENGTH = 256;
+const MAX_EMBED_FOOTER_LENGTH = 2048;
+
+const SNOWFLAKE_PATTERN = /^\d{17,20}$/;
+const ROLE_MENTION_PATTERN = /^<@&(\d{17,20})>$/;
+const COLOR_PATTERN = /^#?([0-9a-f]{6})$/i;
+
+const STATUS_REPORT_PERIODS = ['week', 'friday', 'all_time'];
+
+// Discord component types and button styles
+const ACTION_ROW = 1;
+const BUTTON = 2;
+const SUCCESS = 3;
+const LINK = 5;
+
+// ============ DATABASE INITIALIZATION ============
+
+export async function initializeEventRsvpsTable(): Promise<void> {
+  if (!sql) return;
+
+  await sql`
+    CREATE TABLE IF NOT EXISTS event_rsvps (
+      message_id VARCHAR(32) NOT NULL,
+      user_id VARCHAR(32) NOT NULL,
+      event_id VARCHAR(64) NOT NULL,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (message_id, user_id)
+    )
+  `;
+
+  console.log('[EventMessages] RSVP table initialized');
+}
+
+// ============ PAYLOAD VALIDATION ============
+
+/** Checks the fields specific to each event type */
+const PAYLOAD_CHECKS: { [T in EventType]: (payload: ScheduledEventPayload) => string | null } = {
+  tribute_reminder: () => null,
+
+  custom_message: payload =>
+    requireText(payload.message, 'message'),
+
+  status_report: payload =>
+    (payload.period !== undefined && !STATUS_REPORT_PERIODS.includes(payload.period)
+      ? `period must be one of ${STATUS_REPORT_PERIODS.join(', ')}`
+      : null) ??
+    checkBoolean(payload.includeLeaderboard, 'includeLeaderboard') ??
+    checkBoolean(payload.includeTributeCount, 'includeTributeCount') ??
+    checkBoolean(payload.mentionNonParticipants, 'mentionNonParticipants') ??
+    checkNumber(payload.topN, 'topN', 1),
+
+  ai_prompt: payload =>
+    requireText(payload.prompt, 'prompt'),
+
+  channel_summary: payload =>
+    checkNumber(payload.windowHours, 'windowHours', 1) ??
+    checkNumber(payload.minMessages, 'minMessages', 0) ??
+    checkBoolean(payload.highlights, 'highlights'),
+
+  team_standings: payload =>
+    checkNumber(payload.periodDays, 'periodDays', 1),
+};
+
+/**
+ * Check a payload against its event type's schema (EventPayloads in agents.ts).
+ * Returns an error message, or null if it is valid. Unknown extra fields are
+ * allowed.
+ */
+export function validateEventPayload(eventType: string, payload: unknown): string | null {
+  const check = PAYLOAD_CHECKS[eventType as EventType];
+  if (!check) return `unknown event type ${eventType}`;
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+    return 'payload must be an object';
+  }
+
+  const p = payload as ScheduledEventPayload;
+  return check(p) ?? validateMessageOptions(p);
+}
+
+/**
+ * Check the message fields every event type accepts
+ */
+function validateMessageOptions(payload: EventMessagePayload): string | null {
+  if (payload.mentionRole !== undefined && !parseMentionRole(payload.mentionRole)) {
+    return 'mentionRole must be @everyone, @here or a role ID';
+  }
+
+  if (payload.mentionUsers !== undefined) {
+    if (!Array.isArray(payload.mentionUsers) || !payload.mentionUsers.every(id => SNOWFLAKE_PATTERN.test(String(id)))) {
+      return 'mentionUsers must be a list of user IDs';
+    }
+  }
+
+  if (payload.embed !== undefined) {
+    const embed = payload.embed;
+    if (!embed || typeof embed !== 'object') return 'embed must be an object';
+    if (embed.title !== undefined && (typeof embed.title !== 'string' || embed.title.length > MAX_EMBED_TITLE_LENGTH)) {
+      return `embed.title must be text of at most ${MAX_EMBED_TITLE_LENGTH} characters`;
+    }
+    if (embed.footer !== undefined && (typeof embed.footer !== 'string' || embed.footer.length > MAX_EMBED_FOOTER_LENGTH)) {
+      return `embed.footer must be text of at most ${MAX_EMBED_FOOTER_LENGTH} characters`;
+    }
+    if (embed.color !== undefined && !COLOR_PATTERN.test(String(embed.color))) {
+      return 'embed.color must be a hex colour like #d97706';
+    }
+    if (embed.imageUrl !== undefined && !isWebUrl(embed.imageUrl)) return 'embed.imageUrl must be an http(s) URL';
+    if (embed.thumbnailUrl !== undefined && !isWebUrl(embed.thumbnailUrl)) return 'embed.thumbnailUrl must be an http(s) URL';
+  }
+
+  if (payload.attachments !== undefined) {
+    if (!Array.isArray(payload.attachments) || !payload.attachments.every(isWebUrl)) {
+      return 'attachments must be a list of http(s) URLs';
+    }
+    if (payload.attachments.length > MAX_ATTACHMENTS) return `at most ${MAX_ATTACHMENTS} attachments are allowed`;
+  }
+
+  if (payload.buttons !== undefined) {
+    if (!Array.isArray(payload.buttons)) return 'buttons must be a list';
+    if (payload.buttons.length > MAX_BUTTONS) return `at most ${MAX_BUTTONS} buttons are allowed`;
+
+    for (const button of payload.buttons as unknown[]) {
+      const error = validateButton(button);
+      if (error) return error;
+    }
+    if (payload.buttons.filter(isRsvpButton).length > 1) return 'only one RSVP button is allowed';
+  }
+
+  return null;
+}
+
+function validateButton(button: unknown): string | null {
+  if (!button || typeof button !== 'object') return 'each button must be an object';
+  const b = button as Record<string, unknown>;
+
+  if (b.label !== undefined && (typeof b.label !== 'string' || !b.label.trim() || b.label.length > MAX_BUTTON_LABEL_LENGTH)) {
+    return `button labels must be 1-${MAX_BUTTON_LABEL_LENGTH} characters`;
+  }
+  if (b.rsvp === true) return null;
+  if (!isWebUrl(b.url)) return 'each button needs an http(s) url, or rsvp: true';
+  if (b.label === undefined) return 'link buttons need a label';
+  return null;
+}
+
+// ============ MESSAGE BUILDING ============
+
+/**
+ * Read a mentionRole: "@everyone"/"everyone", "@here"/"here", a role ID or
+ * a role mention (<@&id>). Null if it is none of those.
+ */
+export function parseMentionRole(value: unknown): { everyone: '@everyone' | '@here' } | { roleId: string } | null {
+  if (typeof value !== 'string') return null;
+  const text = value.trim();
+
+  const keyword = text.replace(/^@/, '').toLowerCase();
+  if (keyword === 'everyone') return { everyone: '@everyone' };
+  if (keyword === 'here') return { everyone: '@here' };
+
+  const roleId = ROLE_MENTION_PATTERN.exec(text)?.[1] ?? (SNOWFLAKE_PATTERN.test(text) ? text : null);
+  return roleId ? { roleId } : null;
+}
+
+/**
+ * The message posting `text` for an event, dressed as its payload says.
+ * Mentions go in the content (they don't ping from inside an embed), and only
+ * the payload's mentions plus `pingUsers` (users the text itself names, e.g.
+ * regulars a status report nudges) may ping.
+ */
+export function buildEventMessage(
+  text: string,
+  payload: EventMessagePayload,
+  eventId: string,
+  pingUsers: string[] = []
+): OutgoingMessage {
+  const role = parseMentionRole(payload.mentionRole);
+  const mentionUsers = Array.isArray(payload.mentionUsers) ? payload.mentionUsers : [];
+
+  const mentions = [
+    role ? ('everyone' in role ? role.everyone : `<@&${role.roleId}>`) : null,
+    ...mentionUsers.map(id => `<@${id}>`),
+  ].filter(Boolean).join(' ');
+
+  const users = [...new Set([...mentionUsers, ...pingUsers])];
+  const allowedMentions: AllowedMentions = { parse: role && 'everyone' in role ? ['everyone'] : [] };
+  if (role && 'roleId' in role) allowedMentions.roles = [role.roleId];
+  if (users.length > 0) allowedMentions.users = users;
+
+  const message: OutgoingMessage = { allowedMentions };
+
+  if (payload.embed) {
+    message.embeds = [buildEmbed(text, payload)];
+    if (mentions) message.content = mentions;
+  } else {
+    message.content = mentions ? `${mentions}\n${text}` : text;
+  }
+
+  if (payload.attachments?.length) message.attachments = [...payload.attachments];
+
+  if (payload.buttons?.length) {
+    message.components = [{
+      type: ACTION_ROW,
+      components: payload.buttons.map(button => buildButton(button, eventId)),
+    }];
+  }
+
+  return message;
+}
+
+function buildEmbed(text: string, payload: EventMessagePayload): Embed {
+  const { title, color, footer, imageUrl, thumbnailUrl } = payload.embed!;
+  const embed: Embed = { description: text };
+
+  if (title) embed.title = title;
+  const hex = color ? COLOR_PATTERN.exec(color)?.[1] : undefined;
+  if (hex) embed.color = parseInt(hex, 16);
+  if (footer) embed.footer = { text: footer };
+  if (imageUrl) embed.image = { url: imageUrl };
+  if (thumbnailUrl) embed.thumbnail = { url: thumbnailUrl };
+
+  return embed;
+}
+
+function buildButton(button: EventButton, eventId: string): Component {
+  if (isRsvpButton(button)) {
+    return {
+      type: BUTTON,
+      style: SUCCESS,
+      label: button.label || DEFAULT_RSVP_LABEL,
+      custom_id: buildRsvpCustomId(eventId),
+    };
+  }
+  return { type: BUTTON, style: LINK, label: button.label, url: button.url };
+}
+
+// ============ RSVP BUTTONS ============
+
+export function buildRsvpCustomId(eventId: string): string {
+  return `${RSVP_CUSTOM_ID_PREFIX}:${eventId}`;
+}
+
+/**
+ * The event ID in a custom_id made by buildRsvpCustomId, or null if it isn't one
+ */
+export function parseRsvpCustomId(customId: string): string | null {
+  const [prefix, eventId, ...rest] = customId.split(':');
+  if (prefix !== RSVP_CUSTOM_ID_PREFIX || !eventId || rest.length > 0) return null;
+  return eventId;
+}
+
+/**
+ * A button label with its RSVP count, e.g. "I'm in! (3)". Any count already
+ * on the label is replaced.
+ */
+export function formatRsvpLabel(label: string, count: number): string {
+  const base = label.replace(/ \(\d+\)$/, '');
+  return count > 0 ? `${base} (${count})` : base;
+}
+
+/**
+ * A message's components with the RSVP count shown on the button with `customId`
+ */
+export function updateRsvpButton(components: Component[], customId: string, count: number): Component[] {
+  return components.map(row => ({
+    ...row,
+    components: row.components?.map(component =>
+      component.custom_id === customId
+        ? { ...component, label: formatRsvpLabel(component.label || DEFAULT_RSVP_LABEL, count) }
+        : component
+    ),
+  }));
+}
+
+// ============ RSVPS ============
+
+/**
+ * Toggle a user's RSVP on a posted event message. Returns whether they are
+ * now in, and how many are.
+ */
+export async function toggleEventRsvp(
+  messageId: string,
+  eventId: string,
+  userId: string
+): Promise<{ going: boolean; count: number }> {
+  if (!sql) throw new Error('Database not available');
+
+  const removed = await sql`
+    DELETE FROM event_rsvps
+    WHERE message_id = ${messageId} AND user_id = ${userId}
+    RETURNING user_id
+  `;
+  if (removed.length === 0) {
+    await sql`
+      INSERT INTO event_rsvps (message_id, user_id, event_id)
+      VALUES (${messageId}, ${userId}, ${eventId})
+      ON CONFLICT (message_id, user_id) DO NOTHING
+    `;
+  }
+
+  const rows = await sql`SELECT COUNT(*)::int AS count FROM event_rsvps WHERE message_id = ${messageId}`;
+  return { going: removed.length === 0, count: rows[0].count as number };
+}
+
+// ============ HELPERS ============
+
+function isRsvpButton(button: EventButton): button is { label?: string; rsvp: true } {
+  return (button as { rsvp?: unknown }).rsvp === true;
+}
+
+function isWebUrl(value: unknown): boolean {
+  if (typeof value !== 'string') return false;
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' || url.protocol === 'http:';
+  } catch {
+    return false;
+  }
+}
+
+function requireText(value: unknown, field: string): string | null {
+  return typeof value === 'string' && value.trim() ? null : `${field} is required`;
+}
+
+function checkBoolean(value: unknown, field: string): string | null {
+  return value === undefined || typeof value === 'boolean' ? null : `${field} must be true or false`;
+}
+
+function checkNumber(value: unknown, field: string, min: number): string | null {
+  return value === undefined || (typeof value === 'number' && Number.isFinite(value) && value >= min)
+    ? null
+    : `${field} must be a number of at least ${min}`;
+}
@@ -0,0 +1,97 @@
+/**
+ * Guild Settings Service
+ *
+ * Per-guild configuration that isn't tied to scoring or categories.
+ * Currently the guild's timezone, which decides what "today" and "this
+ * Friday" mean for tributes, leaderboards and the Friday demand.
+ * Guilds without a stored row use DEFAULT_TIMEZONE.
+ */
+
+import { sql } from '../db';
+import { DEFAULT_TIMEZONE, isValidTimeZone } from './timezone';
+
+// ============ TYPES ============
+
+export interface GuildSettings {
+  guildId: string;
+  timezone: string;
+  updatedBy: string | null;
+  updatedAt: Date;
+}
+
+// ============ DATABASE INITIALIZATION ============
+
+export async function initializeGuildSettingsTable(): Promise<void> {
+  if (!sql) return;
+
+  await sql`
+    CREATE TABLE IF NOT EXISTS guild_settings (
+      guild_id VARCHAR(255) PRIMARY KEY,
+      timezone VARCHAR(64) NOT NULL,
+      updated_by VARCHAR(255),
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+    )
+  `;
+
+  console.log('[GuildSettings] Table initialized');
+}
+
+// ============ CRUD ============
+
+/**
+ * Get the timezone for a guild (DEFAULT_TIMEZONE for DMs and unconfigured guilds)
+ */
+export async function getGuildTimezone(guildId?: string | null): Promise<string> {
+  if (!sql || !guildId || guildId === 'dm') return DEFAULT_TIMEZONE;
+
+  try {
+    const rows = await sql`SELECT timezone FROM guild_settings WHERE guild_id = ${guildId}`;
+    const timeZone = rows[0]?.timezone as string | undefined;
+    return timeZone && isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIMEZONE;
+  } catch (error) {
+    console.error('[GuildSettings] Failed to load timezone, using default:', error);
+    return DEFAULT_TIMEZONE;
+  }
+}
+
+/**
+ * Get every stored guild's settings (for the admin dashboard)
+ */
+export async function getAllGuildSettings(): Promise<GuildSettings[]> {
+  if (!sql) return [];
+
+  const rows = await sql`SELECT * FROM guild_settings ORDER BY guild_id ASC`;
+  return rows.map(rowToGuildSettings);
+}
+
+/**
+ * Set a guild's timezone
+ */
+export async function setGuildTimezone(guildId: string, timeZone: string, updatedBy: string): Promise<GuildSettings> {
+  if (!sql) throw new Error('Database not available');
+  if (!isValidTimeZone(timeZone)) throw new Error(`Unknown timezone: ${timeZone}`);
+
+  const rows = await sql`
+    INSERT INTO guild_settings (guild_id, timezone, updated_by, updated_at)
+    VALUES (${guildId}, ${timeZone}, ${updatedBy}, CURRENT_TIMESTAMP)
+    ON CONFLICT (guild_id) DO UPDATE SET
+      timezone = EXCLUDED.timezone,
+      updated_by = EXCLUDED.updated_by,
+      updated_at = CURRENT_TIMESTAMP
+    RETURNING *
+  `;
+
+  console.log(`[GuildSettings] ${guildId} timezone set to ${timeZone} by ${updatedBy}`);
+  return rowToGuildSettings(rows[0]);
+}
+
+// ============ HELPERS ============
+
+function rowToGuildSettings(row: Record<string, unknown>): GuildSettings {
+  return {
+    guildId: row.guild_id as string,
+    timezone: row.timezone as string,
+    updatedBy: row.updated_by as string | null,
+    updatedAt: new Date(row.updated_at as string),
+  };
+}
@@ -0,0 +1,189 @@
+/**
+ * Image Hash Service
+ *
+ * Perceptual hashing of tribute images so the same photo can't be offered
+ * twice. Uses a 64-bit difference hash (dHash): the image is shrunk to 9x8
+ * grayscale and each bit records whether a pixel is brighter than its right
+ * neighbour. Resizing, recompression and small brightness changes barely move
+ * the hash, so near-duplicates are found by Hamming distance.
+ *
+ * Hashes are stored as 16-char hex strings in tributes.image_hash.
+ */
+
+import sharp from 'sharp';
+import { sql } from '../db';
+import type { DownloadedImage } from './tributeImages';
+
+// ============ TYPES ============
+
+export type DuplicateVerdict = 'unique' | 'similar' | 'duplicate';
+
+export interface SimilarTribute {
+  tributeId: number;
+  userId: string;
+  username: string;
+  distance: number;
+  createdAt: Date;
+}
+
+export interface ImageScreening {
+  hash: string | null;  // null when the image couldn't be fetched or decoded
+  verdict: DuplicateVerdict;
+  match: SimilarTribute | null;
+}
+
+// ============ CONSTANTS ============
+
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+/** At or below this distance the image is treated as the same photo and refused */
+export const DUPLICATE_MAX_DISTANCE = 4;
+
+/** At or below this distance the tribute is recorded but flagged as a likely repost */
+export const SIMILAR_MAX_DISTANCE = 10;
+
+// ============ PURE HELPERS ============
+
+/**
+ * Compute a dHash from 9x8 grayscale pixels (row-major, one byte per pixel)
+ */
+export function computeDHash(pixels: Uint8Array): string {
+  if (pixels.length !== HASH_WIDTH * HASH_HEIGHT) {
+    throw new Error(`Expected ${HASH_WIDTH * HASH_HEIGHT} pixels, got ${pixels.length}`);
+  }
+
+  let hash = 0n;
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      const left = pixels[y * HASH_WIDTH + x];
+      const right = pixels[y * HASH_WIDTH + x + 1];
+      hash = (hash << 1n) | (left > right ? 1n : 0n);
+    }
+  }
+
+  return hash.toString(16).padStart(16, '0');
+}
+
+/**
+ * Number of differing bits between two hex hashes
+ */
+export function hammingDistance(a: string, b: string): number {
+  let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+  let count = 0;
+  while (diff > 0n) {
+    count += Number(diff & 1n);
+    diff >>= 1n;
+  }
+  return count;
+}
+
+/**
+ * Classify a match by its Hamming distance
+ */
+export function classifyDistance(distance: number | null): DuplicateVerdict {
+  if (distance === null) return 'unique';
+  if (distance <= DUPLICATE_MAX_DISTANCE) return 'duplicate';
+  if (distance <= SIMILAR_MAX_DISTANCE) return 'similar';
+  return 'unique';
+}
+
+/**
+ * Indexes of images that repeat an earlier image in the same list.
+ * Screening only compares against recorded tributes, so this catches the
+ * same photo attached twice to one message.
+ */
+export function findRepeatedImages(hashes: (string | null)[]): number[] {
+  const repeated: number[] = [];
+  hashes.forEach((hash, i) => {
+    if (!hash) return;
+    const seenBefore = hashes
+      .slice(0, i)
+      .some(earlier => earlier && hammingDistance(earlier, hash) <= DUPLICATE_MAX_DISTANCE);
+    if (seenBefore) repeated.push(i);
+  });
+  return repeated;
+}
+
+// ============ HASHING ============
+
+/**
+ * Compute the dHash of an encoded image (JPEG, PNG, WebP, GIF)
+ */
+export async function hashImage(image: Buffer): Promise<string> {
+  // Mitchell is steadier than the default Lanczos on flat areas, where
+  // near-equal neighbours would otherwise flip bits after recompression
+  const pixels = await sharp(image)
+    .grayscale()
+    .resize(HASH_WIDTH, HASH_HEIGHT, { fit: 'fill', kernel: 'mitchell' })
+    .raw()
+    .toBuffer();
+
+  return computeDHash(pixels);
+}
+
+/**
+ * Find the most similar earlier tribute in a guild, if any is within SIMILAR_MAX_DISTANCE.
+ * DM tributes are private, so in DMs only the user's own tributes are compared.
+ */
+export async function findSimilarTribute(
+  hash: string,
+  guildId: string,
+  userId: string
+): Promise<SimilarTribute | null> {
+  if (!sql) return null;
+
+  // Hex -> bit(64), XOR, then count the 1 bits
+  const rows = await sql`
+    SELECT * FROM (
+      SELECT id, user_id, username, created_at,
+             length(replace((('x' || image_hash)::bit(64) # ('x' || ${hash})::bit(64))::text, '0', '')) AS distance
+      FROM tributes
+      WHERE guild_id = ${guildId} AND image_hash IS NOT NULL
+        ${guildId === 'dm' ? sql`AND user_id = ${userId}` : sql``}
+    ) candidates
+    WHERE distance <= ${SIMILAR_MAX_DISTANCE}
+    ORDER BY distance ASC, created_at ASC
+    LIMIT 1
+  `;
+
+  if (rows.length === 0) return null;
+
+  const row = rows[0];
+  return {
+    tributeId: Number(row.id),
+    userId: row.user_id as string,
+    username: row.username as string,
+    distance: Number(row.distance),
+    createdAt: new Date(row.created_at as string),
+  };
+}
+
+/**
+ * Hash a downloaded tribute image and check it against earlier tributes in the guild
+ * (or the user's own earlier DM tributes).
+ * Fails open: if the image couldn't be downloaded or hashed, it is treated as unique.
+ */
+export async function screenTributeImage(
+  image: DownloadedImage | null,
+  guildId: string,
+  userId: string
+): Promise<ImageScreening> {
+  if (!image) return { hash: null, verdict: 'unique', match: null };
+
+  let hash: string;
+  try {
+    hash = await hashImage(image.bytes);
+  } catch (error) {
+    console.error('[ImageHash] Failed to hash image:', (error as Error).message || error);
+    return { hash: null, verdict: 'unique', match: null };
+  }
+
+  try {
+    const match = await findSimilarTribute(hash, guildId, userId);
+    return { hash, verdict: classifyDistance(match?.distance ?? null), match };
+  } catch (error) {
+    console.error('[ImageHash] Duplicate lookup failed:', error);
+    return { hash, verdict: 'unique', match: null };
+  }
+}
@@ -0,0 +1,311 @@
+/**
+ * Drink Journal Service
+ *
+ * A user's own tribute history for /journal: filtered by date range,
+ * category and drink name, one page at a time. The filters and page travel in
+ * the buttons' custom_id, so paging needs no server-side session.
+ *
+ * DM tributes are private: in a guild the journal only lists that guild's
+ * public tributes; in a DM it lists everything.
+ */
+
+import { sql } from '../db';
+import { getDateKey, getWeekday } from './timezone';
+import { DEFAULT_SCORING_RULES, type ScoringRules } from './scoringRules';
+import { ISEE_EMOJI } from '../personality';
+import type { Component } from '../types';
+
+// ============ TYPES ============
+
+export interface JournalFilters {
+  from?: string;      // YYYY-MM-DD, inclusive, in the guild's timezone
+  to?: string;        // YYYY-MM-DD, inclusive
+  category?: string;  // category key
+  drink?: string;     // substring of the drink name
+}
+
+/** Everything needed to render a journal page; encoded in button custom_ids */
+export interface JournalState extends JournalFilters {
+  userId: string;
+  page: number;  // 1-based
+}
+
+/** Whose tributes are visible where the journal is shown */
+export interface JournalScope {
+  guildId: string | null;  // null in DMs: every tribute, private ones included
+  drinkId?: number | null;  // catalogue drink matching the drink filter
+}
+
+export interface JournalEntry {
+  id: number;
+  guildId: string;
+  isDm: boolean;
+  category: string;
+  drinkName: string | null;
+  score: number;
+  isFriday: boolean;
+  createdAt: Date;
+}
+
+export interface JournalPage {
+  entries: JournalEntry[];
+  total: number;
+  page: number;
+  pageCount: number;
+}
+
+// ============ CONSTANTS ============
+
+export const JOURNAL_PAGE_SIZE = 10;
+
+export const JOURNAL_CUSTOM_ID_PREFIX = 'journal';
+
+/** Discord rejects custom_ids longer than this */
+const MAX_CUSTOM_ID_LENGTH = 100;
+
+const DAY_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const MONTH_PATTERN = /^(\d{4})-(\d{2})$/;
+
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Discord component types and button styles
+const ACTION_ROW = 1;
+const BUTTON = 2;
+const SECONDARY = 2;
+
+// ============ PURE HELPERS ============
+
+/**
+ * Parse a journal date. Accepts a day (2026-09-12) or a month (2026-09),
+ * which means its first day for `from` and its last day for `to`.
+ */
+export function parseJournalDate(value: string, edge: 'from' | 'to'): string | null {
+  const text = value.trim();
+
+  const day = DAY_PATTERN.exec(text);
+  if (day) {
+    const [, year, month, date] = day.map(Number);
+    const parsed = new Date(Date.UTC(year, month - 1, date));
+    if (parsed.getUTCMonth() !== month - 1 || parsed.getUTCDate() !== date) return null;
+    return text;
+  }
+
+  const month = MONTH_PATTERN.exec(text);
+  if (month) {
+    const [, year, monthNumber] = month.map(Number);
+    if (monthNumber < 1 || monthNumber > 12) return null;
+    // Day 0 of the next month is the last day of this one
+    const day = edge === 'from' ? 1 : new Date(Date.UTC(year, monthNumber, 0)).getUTCDate();
+    return `${year}-${String(monthNumber).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+  }
+
+  return null;
+}
+
+/**
+ * Validate the /journal date range options
+ */
+export function parseJournalRange(
+  from?: string,
+  to?: string
+): { from?: string; to?: string } | { error: string } {
+  const range: { from?: string; to?: string } = {};
+
+  if (from) {
+    const parsed = parseJournalDate(from, 'from');
+    if (!parsed) return { error: `"${from}" is not a date. Use YYYY-MM-DD or YYYY-MM.` };
+    range.from = parsed;
+  }
+  if (to) {
+    const parsed = parseJournalDate(to, 'to');
+    if (!parsed) return { error: `"${to}" is not a date. Use YYYY-MM-DD or YYYY-MM.` };
+    range.to = parsed;
+  }
+  if (range.from && range.to && range.from > range.to) {
+    return { error: 'The range ends before it begins.' };
+  }
+
+  return range;
+}
+
+/**
+ * Encode a journal state as a button custom_id. A long drink filter is
+ * shortened to fit Discord's 100-character limit.
+ */
+export function buildJournalCustomId(state: JournalState): string {
+  const fields = [
+    JOURNAL_CUSTOM_ID_PREFIX,
+    state.userId,
+    String(state.page),
+    state.from ?? '',
+    state.to ?? '',
+    state.category ?? '',
+  ].map(encodeURIComponent);
+
+  const base = fields.join(':') + ':';
+  let drink = state.drink ?? '';
+  while (drink && base.length + encodeURIComponent(drink).length > MAX_CUSTOM_ID_LENGTH) {
+    drink = drink.slice(0, -1);
+  }
+  return base + encodeURIComponent(drink.trim());
+}
+
+/**
+ * Decode a custom_id made by buildJournalCustomId, or null if it isn't one
+ */
+export function parseJournalCustomId(customId: string): JournalState | null {
+  const parts = customId.split(':');
+  if (parts.length !== 7 || parts[0] !== JOURNAL_CUSTOM_ID_PREFIX) return null;
+
+  try {
+    const [, userId, page, from, to, category, drink] = parts.map(decodeURIComponent);
+    const pageNumber = Number(page);
+    if (!userId || !Number.isInteger(pageNumber) || pageNumber < 1) return null;
+
+    return {
+      userId,
+      page: pageNumber,
+      from: from || undefined,
+      to: to || undefined,
+      category: category || undefined,
+      drink: drink || undefined,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * One-line description of the active filters, e.g. "2026-09-01 to 2026-09-30 · Tiki · "mai tai""
+ */
+export function describeJournalFilters(filters: JournalFilters, rules: ScoringRules = DEFAULT_SCORING_RULES): string {
+  const parts: string[] = [];
+
+  if (filters.from && filters.to) parts.push(`${filters.from} to ${filters.to}`);
+  else if (filters.from) parts.push(`since ${filters.from}`);
+  else if (filters.to) parts.push(`until ${filters.to}`);
+
+  if (filters.category) parts.push(rules.labels?.[filters.category] || filters.category);
+  if (filters.drink) parts.push(`"${filters.drink}"`);
+
+  return parts.join(' · ');
+}
+
+/**
+ * Render a journal page as message content. Dates are shown in the guild's
+ * timezone; private tributes are marked (they only appear in DMs).
+ */
+export function formatJournalPage(
+  username: string,
+  journal: JournalPage,
+  filters: JournalFilters,
+  timeZone: string,
+  rules: ScoringRules = DEFAULT_SCORING_RULES
+): string {
+  const filterText = describeJournalFilters(filters, rules);
+  let content = `${ISEE_EMOJI} **${username}'s drink journal**${filterText ? ` — ${filterText}` : ''}\n`;
+
+  if (journal.total === 0) {
+    return content + `\nThe ancient ledger holds no offerings${filterText ? ' matching these signs' : ''}.`;
+  }
+
+  content += `${journal.total} tribute${journal.total === 1 ? '' : 's'} · page ${journal.page} of ${journal.pageCount}\n\n`;
+  content += journal.entries.map(entry => {
+    const date = getDateKey(entry.createdAt, timeZone);
+    const weekday = WEEKDAY_NAMES[getWeekday(entry.createdAt, timeZone)];
+    const label = rules.labels?.[entry.category] || entry.category;
+    const drink = entry.drinkName ? `**${entry.drinkName}** · ` : '';
+    const markers = `${entry.isFriday ? ' 🗿' : ''}${entry.isDm ? ' (private)' : ''}`;
+    return `\`#${entry.id}\` ${date} ${weekday} — ${drink}${label} · ${entry.score} pts${markers}`;
+  }).join('\n');
+
+  return content;
+}
+
+/**
+ * Previous/next buttons for a journal page, or none when it all fits on one
+ */
+export function buildJournalComponents(state: JournalState, pageCount: number): Component[] {
+  if (pageCount <= 1) return [];
+
+  return [{
+    type: ACTION_ROW,
+    components: [
+      {
+        type: BUTTON,
+        style: SECONDARY,
+        label: '◀ Newer',
+        custom_id: buildJournalCustomId({ ...state, page: state.page - 1 }),
+        disabled: state.page <= 1,
+      },
+      {
+        type: BUTTON,
+        style: SECONDARY,
+        label: 'Older ▶',
+        custom_id: buildJournalCustomId({ ...state, page: state.page + 1 }),
+        disabled: state.page >= pageCount,
+      },
+    ],
+  }];
+}
+
+// ============ QUERIES ============
+
+function escapeLikePattern(text: string): string {
+  return text.replace(/[\\%_]/g, match => `\\${match}`);
+}
+
+/**
+ * One page of a user's tributes matching the filters (newest first).
+ * Pages past the end return the last page.
+ */
+export async function getJournalPage(
+  state: JournalState,
+  scope: JournalScope,
+  timeZone: string
+): Promise<JournalPage> {
+  if (!sql) return { entries: [], total: 0, page: 1, pageCount: 0 };
+
+  const pattern = state.drink ? `%${escapeLikePattern(state.drink)}%` : null;
+
+  const where = sql`
+    WHERE user_id = ${state.userId}
+    ${scope.guildId ? sql`AND guild_id = ${scope.guildId} AND is_dm = FALSE` : sql``}
+    ${state.category ? sql`AND category = ${state.category}` : sql``}
+    ${state.from ? sql`AND DATE(created_at AT TIME ZONE ${timeZone}) >= ${state.from}` : sql``}
+    ${state.to ? sql`AND DATE(created_at AT TIME ZONE ${timeZone}) <= ${state.to}` : sql``}
+    ${pattern ? sql`AND (
+      drink_name ILIKE ${pattern} OR raw_drink_name ILIKE ${pattern}
+      ${scope.drinkId ? sql`OR drink_id = ${scope.drinkId}` : sql``}
+    )` : sql``}
+  `;
+
+  const [countRow] = await sql`SELECT COUNT(*) AS count FROM tributes ${where}`;
+  const total = Number(countRow?.count ?? 0);
+  const pageCount = Math.ceil(total / JOURNAL_PAGE_SIZE);
+  const page = Math.max(1, Math.min(state.page, pageCount));
+
+  const rows = total === 0 ? [] : await sql`
+    SELECT id, guild_id, is_dm, category, drink_name, score, is_friday, created_at
+    FROM tributes
+    ${where}
+    ORDER BY created_at DESC, id DESC
+    LIMIT ${JOURNAL_PAGE_SIZE} OFFSET ${(page - 1) * JOURNAL_PAGE_SIZE}
+  `;
+
+  return {
+    entries: rows.map(row => ({
+      id: row.id as number,
+      guildId: row.guild_id as string,
+      isDm: row.is_dm as boolean,
+      category: row.category as string,
+      drinkName: (row.drink_name as string | null) ?? null,
+      score: Number(row.score),
+      isFriday: row.is_friday as boolean,
+      createdAt: row.created_at as Date,
+    })),
+    total,
+    page,
+    pageCount,
+  };
+}
@@ -0,0 +1,336 @@
+/**
+ * Personal Reminders Service
+ *
+ * Reminders a user sets for themselves ("remind me tomorrow at 18:00 to buy
+ * limes"), delivered to their DMs rather than a channel. They are stored as
+ * one-off CUSTOM_MESSAGE scheduled events targeting discord:user:<userId>, so
+ * the event scheduler delivers them like any other one-off event.
+ *
+ * Set with /remind or the AI reminder tools. Users only ever see and cancel
+ * reminders they created themselves.
+ */
+
+import {
+  createScheduledEvent,
+  getScheduledEvents,
+  deleteScheduledEvent,
+  EVENT_TYPES,
+  type ScheduledEvent,
+} from './agents';
+import { getGuildTimezone } from './guildSettings';
+import { getZonedParts, zonedTimeToDate, parseZonedDateTime } from './timezone';
+import { ISEE_EMOJI } from '../personality';
+
+// ============ TYPES ============
+
+export interface Reminder {
+  id: string;
+  userId: string;
+  message: string;
+  runAt: Date;
+  timezone: string;
+  createdAt: Date;
+}
+
+// ============ CONSTANTS ============
+
+/** Pending reminders a single user may have at once */
+export const MAX_REMINDERS_PER_USER = 25;
+
+export const MAX_REMINDER_LENGTH = 500;
+
+/** How far ahead a reminder may be set */
+export const MAX_REMINDER_DAYS = 365;
+
+const REMINDER_THREAD_PREFIX = 'discord:user:';
+
+const UNIT_MINUTES: Record<string, number> = {
+  m: 1, min: 1, mins: 1, minute: 1, minutes: 1,
+  h: 60, hr: 60, hrs: 60, hour: 60, hours: 60,
+  d: 60 * 24, day: 60 * 24, days: 60 * 24,
+  w: 60 * 24 * 7, week: 60 * 24 * 7, weeks: 60 * 24 * 7,
+};
+
+const WEEKDAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+/** Time of day used when only a day is given ("tomorrow") */
+const DEFAULT_REMINDER_HOUR = 9;
+
+// ============ PURE HELPERS ============
+
+/**
+ * The scheduled-event target for a user's DMs
+ */
+export function getReminderThreadId(userId: string): string {
+  return `${REMINDER_THREAD_PREFIX}${userId}`;
+}
+
+/**
+ * The user a reminder target points at, or null for channel targets
+ */
+export function getReminderUserId(threadId: string): string | null {
+  if (!threadId.startsWith(REMINDER_THREAD_PREFIX)) return null;
+  return threadId.slice(REMINDER_THREAD_PREFIX.length) || null;
+}
+
+/**
+ * Parse a clock time: "18", "18:30", "6pm", "6:30 pm"
+ */
+function parseClockTime(text: string): { hour: number; minute: number } | null {
+  const match = /^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/.exec(text);
+  if (!match) return null;
+
+  let hour = Number(match[1]);
+  const minute = match[2] ? Number(match[2]) : 0;
+  const meridiem = match[3];
+
+  if (meridiem) {
+    if (hour < 1 || hour > 12) return null;
+    hour = (hour % 12) + (meridiem === 'pm' ? 12 : 0);
+  }
+  if (hour > 23 || minute > 59) return null;
+
+  return { hour, minute };
+}
+
+/**
+ * Work out when a reminder should fire. Understands:
+ *   - relative times: "in 2 hours", "30m", "1h30m", "2 days"
+ *   - a time of day: "18:00", "6pm" (tomorrow if already past today)
+ *   - a day and time: "tomorrow 9am", "friday at 18:00", "today 17:30"
+ *   - a day alone: "tomorrow", "friday" (at 09:00)
+ *   - a date: "2026-03-14 18:00"
+ * Wall-clock times are read in the given timezone. Returns null if the text
+ * isn't understood or lies in the past.
+ */
+export function parseReminderTime(text: string, now: Date, timeZone: string): Date | null {
+  const input = text.trim().toLowerCase().replace(/\s+/g, ' ');
+  if (!input) return null;
+
+  const future = (date: Date | null) => (date && date.getTime() > now.getTime() ? date : null);
+
+  // Relative: "in 2 hours", "1h30m", "2 days" (but not "6pm")
+  const relative = input.replace(/^in /, '');
+  if (/^(?:\d+\s*[a-z]+\s*)+$/.test(relative)) {
+    const parts = [...relative.matchAll(/(\d+)\s*([a-z]+)/g)];
+    if (parts.every(([, , unit]) => UNIT_MINUTES[unit])) {
+      const minutes = parts.reduce((sum, [, amount, unit]) => sum + Number(amount) * UNIT_MINUTES[unit], 0);
+      return minutes > 0 ? new Date(now.getTime() + minutes * 60 * 1000) : null;
+    }
+  }
+
+  // Absolute date: "2026-03-14 18:00"
+  if (/^\d{4}-\d{2}-\d{2}/.test(input)) {
+    return future(parseZonedDateTime(input, timeZone));
+  }
+
+  // Day and/or time of day
+  const match = /^(?:(today|tomorrow|[a-z]+day)\b)?\s*(?:at\s*)?(.*)$/.exec(input);
+  if (!match) return null;
+  const [, day, timeText] = match;
+
+  const clock = timeText
+    ? parseClockTime(timeText)
+    : day ? { hour: DEFAULT_REMINDER_HOUR, minute: 0 } : null;
+  if (!clock) return null;
+
+  const today = getZonedParts(now, timeZone);
+  const at = (offsetDays: number) => {
+    const date = new Date(Date.UTC(today.year, today.month - 1, today.day + offsetDays));
+    return zonedTimeToDate(
+      date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate(),
+      clock.hour, clock.minute, timeZone
+    );
+  };
+
+  if (day === 'today') return future(at(0));
+  if (day === 'tomorrow') return future(at(1));
+
+  if (day) {
+    const weekday = WEEKDAY_NAMES.indexOf(day);
+    if (weekday < 0) return null;
+    // The next such day, a week out if it is today and the time has passed
+    const offset = (weekday - today.weekday + 7) % 7;
+    return future(at(offset)) ?? at(offset + 7);
+  }
+
+  return future(at(0)) ?? at(1);
+}
+
+/**
+ * Check a reminder before it is stored; returns the reason it can't be, or null
+ */
+export function validateReminder(
+  message: string,
+  runAt: Date | null,
+  pendingCount: number,
+  now: Date = new Date()
+): string | null {
+  if (!message.trim()) return 'What should the spirits remind you of?';
+  if (message.length > MAX_REMINDER_LENGTH) {
+    return `Reminders can be at most ${MAX_REMINDER_LENGTH} characters.`;
+  }
+  if (!runAt) {
+    return 'The spirits cannot read that time, or it has already passed. Try "in 2 hours", "tomorrow 18:00", "friday 6pm" or "2026-03-14 18:00".';
+  }
+  if (runAt.getTime() - now.getTime() > MAX_REMINDER_DAYS * 24 * 60 * 60 * 1000) {
+    return `Reminders can be at most ${MAX_REMINDER_DAYS} days ahead.`;
+  }
+  if (pendingCount >= MAX_REMINDERS_PER_USER) {
+    return `You already have ${MAX_REMINDERS_PER_USER} reminders pending. Cancel one first.`;
+  }
+  return null;
+}
+
+/**
+ * A Discord timestamp, shown in each reader's own timezone: "14 March 2026 18:00 (in 3 days)"
+ */
+export function formatReminderTime(runAt: Date): string {
+  const seconds = Math.floor(runAt.getTime() / 1000);
+  return `<t:${seconds}:f> (<t:${seconds}:R>)`;
+}
+
+/**
+ * A user's pending reminders as a numbered list, soonest first
+ */
+export function formatReminderList(reminders: Reminder[]): string {
+  if (reminders.length === 0) {
+    return `${ISEE_EMOJI} You have no reminders pending. Set one with \`/remind set\`.`;
+  }
+
+  const lines = reminders.map((r, i) => `**${i + 1}.** ${formatReminderTime(r.runAt)} — ${r.message} \`${r.id.slice(0, 8)}\``);
+  return `${ISEE_EMOJI} **Your reminders**\n\n${lines.join('\n')}\n\n*Cancel one with \`/remind cancel\` and its number.*`;
+}
+
+/**
+ * Find a reminder by its number in the list (1-based) or the start of its ID
+ */
+export function findReminderByRef(reminders: Reminder[], ref: string): Reminder | null {
+  const text = ref.trim().replace(/^#/, '').toLowerCase();
+  if (!text) return null;
+
+  if (/^\d+$/.test(text)) {
+    const index = Number(text) - 1;
+    if (index >= 0 && index < reminders.length) return reminders[index];
+  }
+
+  const matches = reminders.filter(r => r.id.toLowerCase().startsWith(text));
+  return matches.length === 1 ? matches[0] : null;
+}
+
+/**
+ * The reminder a scheduled event holds, or null if it isn't a pending reminder
+ */
+export function eventToReminder(event: ScheduledEvent): Reminder | null {
+  const userId = getReminderUserId(event.threadId);
+  if (!userId || !event.runAt || !event.isActive) return null;
+
+  return {
+    id: event.id,
+    userId,
+    message: event.description ?? '',
+    runAt: event.runAt,
+    timezone: event.timezone,
+    createdAt: event.createdAt,
+  };
+}
+
+// ============ OPERATIONS ============
+
+/**
+ * A user's pending reminders, soonest first
+ */
+export async function getUserReminders(userId: string): Promise<Reminder[]> {
+  const events = await getScheduledEvents({
+    createdByUserId: userId,
+    threadId: getReminderThreadId(userId),
+    activeOnly: true,
+  });
+
+  return events
+    .map(eventToReminder)
+    .filter((r): r is Reminder => r !== null)
+    .sort((a, b) => a.runAt.getTime() - b.runAt.getTime());
+}
+
+/**
+ * Set a reminder for a user. Returns the reminder, or the reason it was refused.
+ */
+export async function createReminder(
+  userId: string,
+  message: string,
+  runAt: Date | null,
+  timeZone: string
+): Promise<{ reminder: Reminder } | { error: string }> {
+  const text = message.trim();
+  const pending = await getUserReminders(userId);
+  const error = validateReminder(text, runAt, pending.length);
+  if (error) return { error };
+
+  const event = await createScheduledEvent(
+    'Reminder',
+    getReminderThreadId(userId),
+    null,
+    EVENT_TYPES.CUSTOM_MESSAGE,
+    {
+      description: text,
+      payload: { message: `⏰ **Reminder:** ${text}` },
+      timezone: timeZone,
+      runAt: runAt!,
+      createdByUserId: userId,
+    }
+  );
+
+  return { reminder: eventToReminder(event)! };
+}
+
+/**
+ * Cancel one of a user's own reminders, by list number or ID prefix.
+ * Other users' reminders are never matched.
+ */
+export async function cancelReminder(userId: string, ref: string): Promise<Reminder | null> {
+  const reminder = findReminderByRef(await getUserReminders(userId), ref);
+  if (!reminder) return null;
+
+  const deleted = await deleteScheduledEvent(reminder.id);
+  return deleted ? reminder : null;
+}
+
+// ============ COMMAND HANDLER ============
+
+/**
+ * Handle /remind set | list | cancel. Replies are meant to be ephemeral.
+ */
+export async function handleRemindCommand(
+  subcommand: string,
+  userId: string,
+  guildId: string | null,
+  options: { when?: string; message?: string; reminder?: string } = {}
+): Promise<{ content: string }> {
+  switch (subcommand) {
+    case 'set': {
+      const timeZone = await getGuildTimezone(guildId);
+      const runAt = parseReminderTime(options.when ?? '', new Date(), timeZone);
+      const result = await createReminder(userId, options.message ?? '', runAt, timeZone);
+      if ('error' in result) {
+        return { content: `${ISEE_EMOJI} ${result.error}` };
+      }
+      return {
+        content: `${ISEE_EMOJI} The spirits will whisper to you ${formatReminderTime(result.reminder.runAt)}: *${result.reminder.message}*\n` +
+          `-# Delivered by DM. Make sure your DMs are open to this server.`,
+      };
+    }
+
+    case 'cancel': {
+      const cancelled = await cancelReminder(userId, options.reminder ?? '');
+      return {
+        content: cancelled
+          ? `${ISEE_EMOJI} Reminder cancelled: *${cancelled.message}*`
+          : `${ISEE_EMOJI} The spirits find no such reminder of yours. Use \`/remind list\` to see their numbers.`,
+      };
+    }
+
+    default:
+      return { content: formatReminderList(await getUserReminders(userId)) };
+  }
+}
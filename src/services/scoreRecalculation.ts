@@ -0,0 +1,385 @@
+/**
+ * Score Recalculation Service
+ *
+ * Re-derives the frozen `score` of existing tributes from their category and
+ * drink name under the current scoring rules, so leaderboards don't mix two
+ * scoring systems after the rules change.
+ *
+ * Every committed run is recorded in score_recalculation_runs, with one
+ * tribute_score_audit row per changed tribute (old vs new score). Dry runs
+ * compute the same changes plus a leaderboard preview without writing anything.
+ */
+
+import { sql, withTransaction } from '../db';
+import {
+  DEFAULT_SCORING_RULES,
+  ScoringRules,
+  calculateTributeScore,
+  getScoringRules,
+} from './scoringRules';
+
+// ============ TYPES ============
+
+export interface TributeScoreInput {
+  id: number;
+  userId: string;
+  username: string;
+  guildId: string;
+  isDm: boolean;
+  category: string;
+  drinkName: string | null;
+  isFriday: boolean;
+  score: number;
+}
+
+export interface ScoreChange {
+  tributeId: number;
+  userId: string;
+  guildId: string;
+  oldScore: number;
+  newScore: number;
+}
+
+export interface LeaderboardPreviewEntry {
+  guildId: string;
+  userId: string;
+  username: string;
+  oldScore: number;
+  newScore: number;
+  oldRank: number;
+  newRank: number;
+}
+
+export interface RecalculationResult {
+  runId: string | null;
+  dryRun: boolean;
+  guildId: string | null;
+  tributesScanned: number;
+  tributesChanged: number;
+  /** Changes not applied because the tribute's score changed after it was read */
+  tributesSkipped: number;
+  changes: ScoreChange[];
+  leaderboard: LeaderboardPreviewEntry[];
+}
+
+export interface RecalculationRun {
+  id: string;
+  guildId: string | null;
+  tributesScanned: number;
+  tributesChanged: number;
+  triggeredBy: string | null;
+  createdAt: Date;
+}
+
+export interface ScoreAuditEntry {
+  id: number;
+  runId: string;
+  tributeId: number;
+  oldScore: number;
+  newScore: number;
+  createdAt: Date;
+}
+
+// ============ DATABASE INITIALIZATION ============
+
+export async function initializeScoreRecalculationTables(): Promise<void> {
+  if (!sql) return;
+
+  await sql`
+    CREATE TABLE IF NOT EXISTS score_recalculation_runs (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      guild_id VARCHAR(255),
+      tributes_scanned INTEGER NOT NULL DEFAULT 0,
+      tributes_changed INTEGER NOT NULL DEFAULT 0,
+      triggered_by VARCHAR(255),
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+    )
+  `;
+
+  await sql`
+    CREATE TABLE IF NOT EXISTS tribute_score_audit (
+      id SERIAL PRIMARY KEY,
+      run_id UUID NOT NULL REFERENCES score_recalculation_runs(id) ON DELETE CASCADE,
+      tribute_id INTEGER NOT NULL,
+      old_score INTEGER NOT NULL,
+      new_score INTEGER NOT NULL,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+    )
+  `;
+
+  await sql`CREATE INDEX IF NOT EXISTS idx_score_audit_run ON tribute_score_audit(run_id)`;
+  await sql`CREATE INDEX IF NOT EXISTS idx_score_audit_tribute ON tribute_score_audit(tribute_id)`;
+
+  console.log('[ScoreRecalculation] Tables initialized');
+}
+
+// ============ PURE HELPERS ============
+
+/**
+ * Compute which tributes would change score under the given rules.
+ * Rules are looked up per guild; unknown guilds (and DMs) use the defaults.
+ */
+export function computeScoreChanges(
+  tributes: TributeScoreInput[],
+  rulesByGuild: Record<string, ScoringRules>
+): ScoreChange[] {
+  const changes: ScoreChange[] = [];
+
+  for (const t of tributes) {
+    const rules = rulesByGuild[t.guildId] ?? DEFAULT_SCORING_RULES;
+    const newScore = calculateTributeScore(rules, {
+      category: t.category,
+      drinkName: t.drinkName,
+      isFriday: t.isFriday,
+    });
+
+    if (newScore !== t.score) {
+      changes.push({
+        tributeId: t.id,
+        userId: t.userId,
+        guildId: t.guildId,
+        oldScore: t.score,
+        newScore,
+      });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Build a before/after all-time leaderboard for every guild touched by the changes.
+ * Mirrors getAllTimeLeaderboard: public tributes only, ranked by total score.
+ * Only users whose score or rank moves are returned.
+ */
+export function buildLeaderboardPreview(
+  tributes: TributeScoreInput[],
+  changes: ScoreChange[]
+): LeaderboardPreviewEntry[] {
+  const newScoreById = new Map(changes.map(c => [c.tributeId, c.newScore]));
+  const affectedGuilds = new Set(changes.map(c => c.guildId));
+
+  // guildId -> userId -> totals
+  const totals = new Map<string, Map<string, { username: string; oldScore: number; newScore: number }>>();
+
+  for (const t of tributes) {
+    if (t.isDm || !affectedGuilds.has(t.guildId)) continue;
+
+    let guildTotals = totals.get(t.guildId);
+    if (!guildTotals) {
+      guildTotals = new Map();
+      totals.set(t.guildId, guildTotals);
+    }
+
+    const entry = guildTotals.get(t.userId) ?? { username: t.username, oldScore: 0, newScore: 0 };
+    entry.oldScore += t.score;
+    entry.newScore += newScoreById.get(t.id) ?? t.score;
+    guildTotals.set(t.userId, entry);
+  }
+
+  const preview: LeaderboardPreviewEntry[] = [];
+
+  for (const [guildId, guildTotals] of totals) {
+    const users = Array.from(guildTotals.entries()).map(([userId, e]) => ({ userId, ...e }));
+    const oldRanks = rankBy(users, u => u.oldScore);
+    const newRanks = rankBy(users, u => u.newScore);
+
+    for (const u of users) {
+      const oldRank = oldRanks.get(u.userId)!;
+      const newRank = newRanks.get(u.userId)!;
+      if (u.oldScore === u.newScore && oldRank === newRank) continue;
+
+      preview.push({
+        guildId,
+        userId: u.userId,
+        username: u.username,
+        oldScore: u.oldScore,
+        newScore: u.newScore,
+        oldRank,
+        newRank,
+      });
+    }
+  }
+
+  return preview.sort((a, b) => a.guildId.localeCompare(b.guildId) || a.newRank - b.newRank);
+}
+
+/**
+ * Whether a value can be a recalculation run ID (a UUID)
+ */
+export function isRunId(value: string): boolean {
+  return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value);
+}
+
+/**
+ * Rank users by score (descending); ties share the same rank
+ */
+function rankBy<T extends { userId: string }>(users: T[], score: (u: T) => number): Map<string, number> {
+  const sorted = [...users].sort((a, b) => score(b) - score(a));
+  const ranks = new Map<string, number>();
+
+  sorted.forEach((u, i) => {
+    const prev = sorted[i - 1];
+    const rank = prev && score(prev) === score(u) ? ranks.get(prev.userId)! : i + 1;
+    ranks.set(u.userId, rank);
+  });
+
+  return ranks;
+}
+
+// ============ RECALCULATION ============
+
+/**
+ * Load the effective rules (custom categories included) of every guild the
+ * tributes belong to, keyed by guild ID
+ */
+export async function loadRulesByGuild(
+  tributes: TributeScoreInput[],
+  loadRules: (guildId: string) => Promise<ScoringRules> = getScoringRules
+): Promise<Record<string, ScoringRules>> {
+  const rulesByGuild: Record<string, ScoringRules> = {};
+
+  for (const guildId of new Set(tributes.map(t => t.guildId))) {
+    rulesByGuild[guildId] = await loadRules(guildId);
+  }
+
+  return rulesByGuild;
+}
+
+/**
+ * Recalculate tribute scores under the current rules.
+ * With dryRun, nothing is written and the result only previews the changes.
+ */
+export async function recalculateTributeScores(options: {
+  guildId?: string;
+  dryRun?: boolean;
+  triggeredBy?: string;
+} = {}): Promise<RecalculationResult> {
+  if (!sql) throw new Error('Database not available');
+
+  const { guildId, dryRun = false, triggeredBy } = options;
+
+  const rows = await sql`
+    SELECT id, user_id, username, guild_id, is_dm, category, drink_name, is_friday, score
+    FROM tributes
+    ${guildId ? sql`WHERE guild_id = ${guildId}` : sql``}
+    ORDER BY id ASC
+  `;
+  const tributes = rows.map(rowToScoreInput);
+
+  const rulesByGuild = await loadRulesByGuild(tributes);
+  let changes = computeScoreChanges(tributes, rulesByGuild);
+  let runId: string | null = null;
+  let skipped = 0;
+
+  if (!dryRun && changes.length > 0) {
+    const planned = changes;
+    const applied: ScoreChange[] = [];
+
+    runId = await withTransaction(async (tx) => {
+      const [run] = await tx`
+        INSERT INTO score_recalculation_runs (guild_id, tributes_scanned, tributes_changed, triggered_by)
+        VALUES (${guildId ?? null}, ${tributes.length}, ${planned.length}, ${triggeredBy ?? null})
+        RETURNING id
+      `;
+
+      for (const change of planned) {
+        // A correction, dispute or other run may have changed the score since it was read
+        const updated = await tx`
+          UPDATE tributes SET score = ${change.newScore}
+          WHERE id = ${change.tributeId} AND score = ${change.oldScore}
+          RETURNING id
+        `;
+        if (updated.length === 0) continue;
+
+        await tx`
+          INSERT INTO tribute_score_audit (run_id, tribute_id, old_score, new_score)
+          VALUES (${run.id}, ${change.tributeId}, ${change.oldScore}, ${change.newScore})
+        `;
+        applied.push(change);
+      }
+
+      if (applied.length < planned.length) {
+        await tx`UPDATE score_recalculation_runs SET tributes_changed = ${applied.length} WHERE id = ${run.id}`;
+      }
+
+      return run.id as string;
+    });
+
+    changes = applied;
+    skipped = planned.length - applied.length;
+    console.log(`[ScoreRecalculation] Run ${runId}: ${applied.length}/${tributes.length} tributes rescored` +
+      (skipped > 0 ? `, ${skipped} skipped (changed meanwhile)` : ''));
+  }
+
+  return {
+    runId,
+    dryRun,
+    guildId: guildId ?? null,
+    tributesScanned: tributes.length,
+    tributesChanged: changes.length,
+    tributesSkipped: skipped,
+    changes,
+    leaderboard: buildLeaderboardPreview(tributes, changes),
+  };
+}
+
+/**
+ * List recent committed recalculation runs
+ */
+export async function getRecalculationRuns(limit: number = 20): Promise<RecalculationRun[]> {
+  if (!sql) return [];
+
+  const result = await sql`
+    SELECT * FROM score_recalculation_runs
+    ORDER BY created_at DESC
+    LIMIT ${limit}
+  `;
+
+  return result.map(row => ({
+    id: row.id as string,
+    guildId: row.guild_id as string | null,
+    tributesScanned: Number(row.tributes_scanned),
+    tributesChanged: Number(row.tributes_changed),
+    triggeredBy: row.triggered_by as string | null,
+    createdAt: new Date(row.created_at as string),
+  }));
+}
+
+/**
+ * Get the audit trail (old vs new score) for a run
+ */
+export async function getScoreAudit(runId: string): Promise<ScoreAuditEntry[]> {
+  if (!sql || !isRunId(runId)) return [];
+
+  const result = await sql`
+    SELECT * FROM tribute_score_audit
+    WHERE run_id = ${runId}
+    ORDER BY tribute_id ASC
+  `;
+
+  return result.map(row => ({
+    id: Number(row.id),
+    runId: row.run_id as string,
+    tributeId: Number(row.tribute_id),
+    oldScore: Number(row.old_score),
+    newScore: Number(row.new_score),
+    createdAt: new Date(row.created_at as string),
+  }));
+}
+
+// ============ HELPERS ============
+
+function rowToScoreInput(row: Record<string, unknown>): TributeScoreInput {
+  return {
+    id: Number(row.id),
+    userId: row.user_id as string,
+    username: row.username as string,
+    guildId: row.guild_id as string,
+    isDm: Boolean(row.is_dm),
+    category: (row.category as string) || 'OTHER',
+    drinkName: row.drink_name as string | null,
+    isFriday: Boolean(row.is_friday),
+    score: Number(row.score),
+  };
+}
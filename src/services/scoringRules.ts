@@ -0,0 +1,312 @@
+/**
+ * Scoring Rules Service
+ *
+ * Per-guild tribute scoring configuration. Each guild can override the point
+ * value of every category, apply multipliers (such as a Friday bonus) and pin
+ * specific drinks to a fixed score. Guilds without a stored ruleset fall back
+ * to DEFAULT_SCORING_RULES.
+ */
+
+import { sql } from '../db';
+import type { JSONValue } from 'postgres';
+import { TributeCategory, getCategories } from './tributeCategories';
+
+/** Helper: cast any plain object/array to postgresjs JSONValue for sql.json() */
+const jsonb = (value: unknown) => sql!.json(value as JSONValue);
+
+// ============ TYPES ============
+
+export interface ScoringMultipliers {
+  /** Applied to tributes offered on a Friday (1 = no bonus) */
+  friday: number;
+}
+
+export interface ScoringRules {
+  /** Base points per tribute category (TIKI, COCKTAIL, ...) */
+  categories: Record<string, number>;
+  /** Multipliers applied on top of the base points */
+  multipliers: ScoringMultipliers;
+  /** Fixed base points for specific drinks, keyed by lowercased drink name */
+  drinkOverrides: Record<string, number>;
+  /** Display labels per category, resolved from the categories table (never stored) */
+  labels?: Record<string, string>;
+}
+
+export interface StoredScoringRules {
+  guildId: string;
+  rules: ScoringRules;
+  updatedBy: string | null;
+  updatedAt: Date;
+}
+
+// ============ DEFAULTS ============
+
+// Mirrors DEFAULT_CATEGORIES; kept literal because db.ts imports this module
+// and DEFAULT_CATEGORIES may not be initialized yet during that import cycle
+export const DEFAULT_SCORING_RULES: ScoringRules = {
+  categories: {
+    TIKI: 10,      // Tiki drinks (Mai Tai, Zombie, Painkiller, etc.)
+    COCKTAIL: 5,   // Other cocktails
+    BEER_WINE: 2,  // Beer, wine, basic drinks
+    OTHER: 1,      // Non-drink offerings (still acknowledged)
+  },
+  multipliers: {
+    friday: 1,
+  },
+  drinkOverrides: {},
+  labels: {
+    TIKI: 'Tiki',
+    COCKTAIL: 'Cocktail',
+    BEER_WINE: 'Beer/Wine',
+    OTHER: 'Other',
+  },
+};
+
+// Upper bound for any single point value or multiplier (guards against typos like 1000000)
+const MAX_POINTS = 1000;
+const MAX_MULTIPLIER = 10;
+
+// ============ DATABASE INITIALIZATION ============
+
+export async function initializeScoringRulesTable(): Promise<void> {
+  if (!sql) return;
+
+  await sql`
+    CREATE TABLE IF NOT EXISTS scoring_rules (
+      guild_id VARCHAR(255) PRIMARY KEY,
+      rules JSONB NOT NULL,
+      updated_by VARCHAR(255),
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+    )
+  `;
+
+  console.log('[ScoringRules] Table initialized');
+}
+
+// ============ PURE HELPERS ============
+
+function clampNumber(value: unknown, min: number, max: number): number | null {
+  const num = typeof value === 'string' ? Number(value) : value;
+  if (typeof num !== 'number' || !Number.isFinite(num)) return null;
+  return Math.min(max, Math.max(min, num));
+}
+
+function categoryPoints(categories: TributeCategory[]): Record<string, number> {
+  return Object.fromEntries(categories.map(c => [c.key, c.defaultPoints]));
+}
+
+function categoryLabels(categories: TributeCategory[]): Record<string, string> {
+  return Object.fromEntries(categories.map(c => [c.key, c.label]));
+}
+
+/**
+ * Normalize an untrusted ruleset (from the DB or the admin API) into a complete
+ * ScoringRules object. Missing or invalid values fall back to the defaults
+ * (category points fall back to baseCategories).
+ */
+export function normalizeScoringRules(
+  raw: unknown,
+  baseCategories: Record<string, number> = DEFAULT_SCORING_RULES.categories
+): ScoringRules {
+  const input = (raw && typeof raw === 'object' ? raw : {}) as Partial<Record<keyof ScoringRules, unknown>>;
+
+  const categories: Record<string, number> = { ...baseCategories };
+  if (input.categories && typeof input.categories === 'object') {
+    for (const [key, value] of Object.entries(input.categories as Record<string, unknown>)) {
+      const points = clampNumber(value, 0, MAX_POINTS);
+      if (points !== null && key.trim()) {
+        categories[key.trim().toUpperCase()] = Math.round(points);
+      }
+    }
+  }
+
+  const rawMultipliers = (input.multipliers && typeof input.multipliers === 'object'
+    ? input.multipliers
+    : {}) as Record<string, unknown>;
+  const friday = clampNumber(rawMultipliers.friday, 0, MAX_MULTIPLIER);
+
+  const drinkOverrides: Record<string, number> = {};
+  if (input.drinkOverrides && typeof input.drinkOverrides === 'object') {
+    for (const [name, value] of Object.entries(input.drinkOverrides as Record<string, unknown>)) {
+      const key = normalizeDrinkKey(name);
+      const points = clampNumber(value, 0, MAX_POINTS);
+      if (key && points !== null) {
+        drinkOverrides[key] = Math.round(points);
+      }
+    }
+  }
+
+  return {
+    categories,
+    multipliers: {
+      friday: friday ?? DEFAULT_SCORING_RULES.multipliers.friday,
+    },
+    drinkOverrides,
+  };
+}
+
+/**
+ * Normalize a ruleset for storage. Only the categories it sets are kept, so
+ * every other category keeps following its default points.
+ */
+export function toStoredScoringRules(raw: unknown): ScoringRules {
+  return normalizeScoringRules(raw, {});
+}
+
+/**
+ * Resolve the effective rules for a guild from its stored ruleset (or null) and
+ * its active categories. Categories without a stored value use their default
+ * points; stored values for categories that no longer exist are dropped.
+ */
+export function resolveScoringRules(stored: unknown, categories: TributeCategory[]): ScoringRules {
+  const normalized = normalizeScoringRules(stored, categoryPoints(categories));
+
+  return {
+    ...normalized,
+    categories: Object.fromEntries(
+      categories.map(c => [c.key, normalized.categories[c.key] ?? c.defaultPoints])
+    ),
+    labels: categoryLabels(categories),
+  };
+}
+
+/**
+ * Key used for drink overrides (case and whitespace insensitive)
+ */
+export function normalizeDrinkKey(drinkName: string): string {
+  return drinkName.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Calculate the score for a tribute under a ruleset.
+ * Drink overrides take precedence over the category value; multipliers apply to both.
+ */
+export function calculateTributeScore(
+  rules: ScoringRules,
+  tribute: { category: string; drinkName?: string | null; isFriday?: boolean }
+): number {
+  const override = tribute.drinkName
+    ? rules.drinkOverrides[normalizeDrinkKey(tribute.drinkName)]
+    : undefined;
+
+  const base = override
+    ?? rules.categories[tribute.category]
+    ?? rules.categories.OTHER
+    ?? DEFAULT_SCORING_RULES.categories.OTHER;
+
+  const multiplier = tribute.isFriday ? rules.multipliers.friday : 1;
+
+  return Math.max(0, Math.round(base * multiplier));
+}
+
+/**
+ * Human-readable label for a category, e.g. "Tiki (10pts)"
+ */
+export function formatCategoryLabel(category: string, rules: ScoringRules = DEFAULT_SCORING_RULES): string {
+  const label = rules.labels?.[category] || category;
+  const points = rules.categories[category];
+  if (points === undefined) return label;
+  return `${label} (${points}${points === 1 ? 'pt' : 'pts'})`;
+}
+
+/**
+ * One-line scoring legend, e.g. "Tiki=10pts, Cocktail=5pts, Beer/Wine=2pts, Other=1pt"
+ */
+export function formatScoringLegend(rules: ScoringRules = DEFAULT_SCORING_RULES): string {
+  let legend = Object.entries(rules.categories)
+    .map(([category, points]) => `${rules.labels?.[category] || category}=${points}${points === 1 ? 'pt' : 'pts'}`)
+    .join(', ');
+
+  if (rules.multipliers.friday !== 1) {
+    legend += ` (Fridays x${rules.multipliers.friday})`;
+  }
+
+  return legend;
+}
+
+// ============ CRUD ============
+
+/**
+ * Get the effective scoring rules for a guild: its active categories with
+ * their default points, overlaid with the guild's stored ruleset (if any)
+ */
+export async function getScoringRules(guildId?: string | null): Promise<ScoringRules> {
+  if (!sql) return DEFAULT_SCORING_RULES;
+
+  try {
+    const hasGuild = !!guildId && guildId !== 'dm';
+    const [categories, result] = await Promise.all([
+      getCategories(guildId),
+      hasGuild
+        ? sql`SELECT rules FROM scoring_rules WHERE guild_id = ${guildId}`
+        : Promise.resolve([]),
+    ]);
+    return resolveScoringRules(result[0]?.rules ?? null, categories);
+  } catch (error) {
+    console.error('[ScoringRules] Failed to load rules, using defaults:', error);
+    return DEFAULT_SCORING_RULES;
+  }
+}
+
+/**
+ * Get every stored ruleset (for the admin dashboard)
+ */
+export async function getAllScoringRules(): Promise<StoredScoringRules[]> {
+  if (!sql) return [];
+
+  const result = await sql`
+    SELECT guild_id, rules, updated_by, updated_at
+    FROM scoring_rules
+    ORDER BY guild_id ASC
+  `;
+
+  return result.map(rowToStoredRules);
+}
+
+/**
+ * Create or replace the scoring rules for a guild
+ */
+export async function saveScoringRules(
+  guildId: string,
+  rules: unknown,
+  updatedBy?: string
+): Promise<StoredScoringRules> {
+  if (!sql) throw new Error('Database not available');
+
+  const normalized = toStoredScoringRules(rules);
+
+  const result = await sql`
+    INSERT INTO scoring_rules (guild_id, rules, updated_by)
+    VALUES (${guildId}, ${jsonb(normalized)}, ${updatedBy ?? null})
+    ON CONFLICT (guild_id) DO UPDATE SET
+      rules = EXCLUDED.rules,
+      updated_by = EXCLUDED.updated_by,
+      updated_at = CURRENT_TIMESTAMP
+    RETURNING guild_id, rules, updated_by, updated_at
+  `;
+
+  return rowToStoredRules(result[0]);
+}
+
+/**
+ * Delete a guild's ruleset so it falls back to the defaults
+ */
+export async function deleteScoringRules(guildId: string): Promise<boolean> {
+  if (!sql) return false;
+
+  const result = await sql`
+    DELETE FROM scoring_rules WHERE guild_id = ${guildId} RETURNING guild_id
+  `;
+  return result.length > 0;
+}
+
+// ============ HELPERS ============
+
+function rowToStoredRules(row: Record<string, unknown>): StoredScoringRules {
+  return {
+    guildId: row.guild_id as string,
+    rules: toStoredScoringRules(row.rules),
+    updatedBy: row.updated_by as string | null,
+    updatedAt: new Date(row.updated_at as string),
+  };
+}
@@ -0,0 +1,414 @@
+/**
+ * Seasons Service
+ *
+ * Named, time-boxed competitions per guild (e.g. "Q3 2026" or "Summer of Rum").
+ * While a season runs, its leaderboard is computed live from the tributes
+ * posted between starts_at and ends_at. Once it ends, the event scheduler
+ * archives the final standings into season_standings and announces the
+ * champion in the season's announcement channel.
+ */
+
+import { sql, withTransaction, type LeaderboardEntry } from '../db';
+import { ISEE_EMOJI } from '../personality';
+
+// ============ TYPES ============
+
+export interface Season {
+  id: number;
+  guildId: string;
+  name: string;
+  startsAt: Date;
+  endsAt: Date;  // exclusive
+  /** Where the champion is announced (discord:guild:channel), optional */
+  announceThreadId: string | null;
+  archivedAt: Date | null;
+  championUserId: string | null;
+  createdAt: Date;
+}
+
+export type SeasonStatus = 'upcoming' | 'active' | 'ended' | 'archived';
+
+export interface SeasonStanding {
+  rank: number;
+  userId: string;
+  username: string;
+  score: number;
+  count: number;
+}
+
+export interface CreateSeasonInput {
+  guildId: string;
+  name: string;
+  startsAt: Date;
+  endsAt: Date;
+  announceThreadId?: string | null;
+}
+
+// ============ DATABASE INITIALIZATION ============
+
+export async function initializeSeasonTables(): Promise<void> {
+  if (!sql) return;
+
+  await sql`
+    CREATE TABLE IF NOT EXISTS seasons (
+      id SERIAL PRIMARY KEY,
+      guild_id VARCHAR(255) NOT NULL,
+      name VARCHAR(100) NOT NULL,
+      starts_at TIMESTAMP WITH TIME ZONE NOT NULL,
+      ends_at TIMESTAMP WITH TIME ZONE NOT NULL,
+      announce_thread_id VARCHAR(255),
+      archived_at TIMESTAMP WITH TIME ZONE,
+      champion_user_id VARCHAR(255),
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+      CHECK (ends_at > starts_at)
+    )
+  `;
+
+  await sql`
+    CREATE TABLE IF NOT EXISTS season_standings (
+      season_id INTEGER NOT NULL REFERENCES seasons(id) ON DELETE CASCADE,
+      rank INTEGER NOT NULL,
+      user_id VARCHAR(255) NOT NULL,
+      username VARCHAR(255) NOT NULL,
+      score INTEGER NOT NULL,
+      tribute_count INTEGER NOT NULL,
+      PRIMARY KEY (season_id, user_id)
+    )
+  `;
+
+  await sql`CREATE INDEX IF NOT EXISTS idx_seasons_guild ON seasons(guild_id, starts_at DESC)`;
+  await sql`CREATE INDEX IF NOT EXISTS idx_seasons_pending_archive ON seasons(ends_at) WHERE archived_at IS NULL`;
+
+  console.log('[Seasons] Tables initialized');
+}
+
+// ============ PURE HELPERS ============
+
+/**
+ * Where a season is in its lifecycle at the given time
+ */
+export function getSeasonStatus(season: Pick<Season, 'startsAt' | 'endsAt' | 'archivedAt'>, now: Date = new Date()): SeasonStatus {
+  if (season.archivedAt) return 'archived';
+  if (now < season.startsAt) return 'upcoming';
+  if (now < season.endsAt) return 'active';
+  return 'ended';
+}
+
+/**
+ * Find a season in the list whose date range overlaps [startsAt, endsAt).
+ * Seasons in a guild may not overlap, so "the current season" is always unambiguous.
+ */
+export function findOverlappingSeason(
+  seasons: Season[],
+  startsAt: Date,
+  endsAt: Date,
+  excludeId?: number
+): Season | null {
+  return seasons.find(s =>
+    s.id !== excludeId && s.startsAt < endsAt && startsAt < s.endsAt
+  ) ?? null;
+}
+
+/**
+ * Rank leaderboard entries by score (descending); ties share the same rank
+ */
+export function rankStandings(entries: LeaderboardEntry[]): SeasonStanding[] {
+  const sorted = [...entries].sort((a, b) =>
+    b.score - a.score || (a.username ?? '').localeCompare(b.username ?? '')
+  );
+
+  const standings: SeasonStanding[] = [];
+  sorted.forEach((entry, i) => {
+    const prev = standings[i - 1];
+    standings.push({
+      rank: prev && prev.score === entry.score ? prev.rank : i + 1,
+      userId: entry.userId,
+      username: entry.username ?? 'Unknown',
+      score: entry.score,
+      count: entry.count,
+    });
+  });
+
+  return standings;
+}
+
+/**
+ * Format a season leaderboard for display
+ */
+export function formatSeasonLeaderboard(season: Season, standings: SeasonStanding[], now: Date = new Date()): string {
+  const status = getSeasonStatus(season, now);
+  const dateRange = `${formatSeasonDate(season.startsAt)} - ${formatSeasonDate(new Date(season.endsAt.getTime() - 1))}`;
+
+  let content = `${ISEE_EMOJI} **${season.name.toUpperCase()}**\n`;
+  content += status === 'active'
+    ? `*${dateRange} · ${formatTimeLeft(season.endsAt.getTime() - now.getTime())} remain*\n\n`
+    : `*${dateRange} · ${status === 'upcoming' ? 'not yet begun' : 'final standings'}*\n\n`;
+
+  if (standings.length === 0) {
+    content += status === 'upcoming'
+      ? `*The season has not begun. The spirits wait...*`
+      : `*No tributes yet this season... The spirits HUNGER.*`;
+    return content;
+  }
+
+  standings.slice(0, 10).forEach(s => {
+    const medal = s.rank === 1 ? '\u{1F947}' : s.rank === 2 ? '\u{1F948}' : s.rank === 3 ? '\u{1F949}' : `${s.rank}.`;
+    content += `${medal} <@${s.userId}> - ${s.score}pts (${s.count} tributes)\n`;
+  });
+
+  return content.trimEnd();
+}
+
+/**
+ * Champion announcement posted when a season is archived
+ */
+export function formatChampionAnnouncement(season: Season, standings: SeasonStanding[]): string {
+  const champions = standings.filter(s => s.rank === 1);
+
+  if (champions.length === 0) {
+    return `${ISEE_EMOJI} **${season.name}** has ENDED... and not a single tribute was offered. The spirits are DEEPLY DISAPPOINTED.`;
+  }
+
+  const names = champions.map(c => `<@${c.userId}>`).join(' and ');
+  const title = champions.length === 1 ? 'CHAMPION' : 'CHAMPIONS';
+  let content = `${ISEE_EMOJI} **${season.name}** HAS ENDED!\n\n`;
+  content += `\u{1F3C6} The spirits crown ${names} as ${title} with **${champions[0].score}pts**!\n\n`;
+
+  const runnersUp = standings.filter(s => s.rank > 1 && s.rank <= 3);
+  if (runnersUp.length > 0) {
+    content += `**Also honored:**\n`;
+    content += runnersUp.map(s => `${s.rank === 2 ? '\u{1F948}' : '\u{1F949}'} <@${s.userId}> - ${s.score}pts`).join('\n');
+    content += '\n\n';
+  }
+
+  content += `*The final standings are carved into the ancient ledger.*`;
+  return content;
+}
+
+function formatSeasonDate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function formatTimeLeft(ms: number): string {
+  const days = Math.floor(ms / (24 * 60 * 60 * 1000));
+  if (days >= 1) return `${days} day${days !== 1 ? 's' : ''}`;
+  const hours = Math.max(1, Math.ceil(ms / (60 * 60 * 1000)));
+  return `${hours} hour${hours !== 1 ? 's' : ''}`;
+}
+
+// ============ CRUD ============
+
+/**
+ * List seasons (newest first), optionally for one guild
+ */
+export async function getSeasons(guildId?: string): Promise<Season[]> {
+  if (!sql) return [];
+
+  const rows = await sql`
+    SELECT * FROM seasons
+    ${guildId ? sql`WHERE guild_id = ${guildId}` : sql``}
+    ORDER BY starts_at DESC
+  `;
+  return rows.map(rowToSeason);
+}
+
+export async function getSeason(id: number): Promise<Season | null> {
+  if (!sql) return null;
+
+  const rows = await sql`SELECT * FROM seasons WHERE id = ${id}`;
+  return rows.length > 0 ? rowToSeason(rows[0]) : null;
+}
+
+/**
+ * The season to show by default: the one running now, otherwise the most
+ * recently started one
+ */
+export async function getCurrentSeason(guildId: string, now: Date = new Date()): Promise<Season | null> {
+  if (!sql) return null;
+
+  const rows = await sql`
+    SELECT * FROM seasons
+    WHERE guild_id = ${guildId} AND starts_at <= ${now}
+    ORDER BY starts_at DESC
+    LIMIT 1
+  `;
+  return rows.length > 0 ? rowToSeason(rows[0]) : null;
+}
+
+/**
+ * Find a guild's season by name (case-insensitive)
+ */
+export async function getSeasonByName(guildId: string, name: string): Promise<Season | null> {
+  if (!sql) return null;
+
+  const rows = await sql`
+    SELECT * FROM seasons
+    WHERE guild_id = ${guildId} AND LOWER(name) = LOWER(${name.trim()})
+    ORDER BY starts_at DESC
+    LIMIT 1
+  `;
+  return rows.length > 0 ? rowToSeason(rows[0]) : null;
+}
+
+export async function createSeason(input: CreateSeasonInput): Promise<Season> {
+  if (!sql) throw new Error('Database not available');
+
+  const rows = await sql`
+    INSERT INTO seasons (guild_id, name, starts_at, ends_at, announce_thread_id)
+    VALUES (${input.guildId}, ${input.name.trim()}, ${input.startsAt}, ${input.endsAt}, ${input.announceThreadId ?? null})
+    RETURNING *
+  `;
+  return rowToSeason(rows[0]);
+}
+
+/**
+ * Update a season that hasn't been archived yet
+ */
+export async function updateSeason(
+  id: number,
+  updates: Partial<Pick<Season, 'name' | 'startsAt' | 'endsAt' | 'announceThreadId'>>
+): Promise<Season | null> {
+  if (!sql) return null;
+
+  const rows = await sql`
+    UPDATE seasons SET
+      name = COALESCE(${updates.name?.trim() ?? null}, name),
+      starts_at = COALESCE(${updates.startsAt ?? null}, starts_at),
+      ends_at = COALESCE(${updates.endsAt ?? null}, ends_at),
+      announce_thread_id = ${updates.announceThreadId !== undefined ? sql`${updates.announceThreadId}` : sql`announce_thread_id`}
+    WHERE id = ${id} AND archived_at IS NULL
+    RETURNING *
+  `;
+  return rows.length > 0 ? rowToSeason(rows[0]) : null;
+}
+
+export async function deleteSeason(id: number): Promise<boolean> {
+  if (!sql) return false;
+
+  const rows = await sql`DELETE FROM seasons WHERE id = ${id} RETURNING id`;
+  return rows.length > 0;
+}
+
+// ============ STANDINGS ============
+
+/**
+ * Standings for a season: the archived snapshot once archived, otherwise
+ * computed live from public tributes inside the season window
+ */
+export async function getSeasonStandings(season: Season, limit: number = 50): Promise<SeasonStanding[]> {
+  if (!sql) return [];
+
+  if (season.archivedAt) {
+    const rows = await sql`
+      SELECT * FROM season_standings
+      WHERE season_id = ${season.id}
+      ORDER BY rank ASC, username ASC
+      LIMIT ${limit}
+    `;
+    return rows.map(row => ({
+      rank: Number(row.rank),
+      userId: row.user_id as string,
+      username: row.username as string,
+      score: Number(row.score),
+      count: Number(row.tribute_count),
+    }));
+  }
+
+  return rankStandings(await getSeasonLeaderboard(season, limit));
+}
+
+/**
+ * Live leaderboard for a season window (mirrors getAllTimeLeaderboard)
+ */
+async function getSeasonLeaderboard(season: Season, limit?: number): Promise<LeaderboardEntry[]> {
+  const rows = await sql!`
+    SELECT user_id, MAX(username) as username, COUNT(*) as count, SUM(score) as score
+    FROM tributes
+    WHERE is_dm = FALSE
+      AND guild_id = ${season.guildId}
+      AND created_at >= ${season.startsAt}
+      AND created_at < ${season.endsAt}
+    GROUP BY user_id
+    ORDER BY score DESC
+    ${limit ? sql!`LIMIT ${limit}` : sql!``}
+  `;
+
+  return rows.map(row => ({
+    userId: row.user_id as string,
+    username: row.username as string,
+    count: Number(row.count),
+    score: Number(row.score),
+  }));
+}
+
+// ============ ARCHIVING ============
+
+/**
+ * Seasons that have ended but haven't been archived yet
+ */
+export async function getSeasonsDueForArchive(now: Date = new Date()): Promise<Season[]> {
+  if (!sql) return [];
+
+  const rows = await sql`
+    SELECT * FROM seasons
+    WHERE archived_at IS NULL AND ends_at <= ${now}
+    ORDER BY ends_at ASC
+  `;
+  return rows.map(rowToSeason);
+}
+
+/**
+ * Snapshot a finished season's final standings and record the champion.
+ * Returns null if the season is unknown, still running or already archived.
+ */
+export async function archiveSeason(
+  id: number
+): Promise<{ season: Season; standings: SeasonStanding[] } | null> {
+  if (!sql) throw new Error('Database not available');
+
+  const season = await getSeason(id);
+  if (!season || season.archivedAt || getSeasonStatus(season) !== 'ended') return null;
+
+  const standings = rankStandings(await getSeasonLeaderboard(season));
+  const championUserId = standings[0]?.userId ?? null;
+
+  const archived = await withTransaction(async (tx) => {
+    // Claim the season so concurrent archivers don't double-insert
+    const [claimed] = await tx`
+      UPDATE seasons SET archived_at = CURRENT_TIMESTAMP, champion_user_id = ${championUserId}
+      WHERE id = ${id} AND archived_at IS NULL
+      RETURNING *
+    `;
+    if (!claimed) return null;
+
+    for (const s of standings) {
+      await tx`
+        INSERT INTO season_standings (season_id, rank, user_id, username, score, tribute_count)
+        VALUES (${id}, ${s.rank}, ${s.userId}, ${s.username}, ${s.score}, ${s.count})
+      `;
+    }
+
+    return rowToSeason(claimed);
+  });
+
+  if (!archived) return null;
+
+  console.log(`[Seasons] Archived "${archived.name}" (${standings.length} participants, champion: ${championUserId ?? 'none'})`);
+  return { season: archived, standings };
+}
+
+// ============ HELPERS ============
+
+function rowToSeason(row: Record<string, unknown>): Season {
+  return {
+    id: Number(row.id),
+    guildId: row.guild_id as string,
+    name: row.name as string,
+    startsAt: new Date(row.starts_at as string),
+    endsAt: new Date(row.ends_at as string),
+    announceThreadId: row.announce_thread_id as string | null,
+    archivedAt: row.archived_at ? new Date(row.archived_at as string) : null,
+    championUserId: row.champion_user_id as string | null,
+    createdAt: new Date(row.created_at as string),
+  };
+}
@@ -0,0 +1,414 @@
+/**
+ * Teams Service
+ *
+ * Team (or "house") competitions within a guild, e.g. Team Rum vs Team Gin.
+ * Users join a team with /team join, or are placed in one automatically when
+ * they hold the Discord role mapped to it. A member's public tributes in the
+ * guild count towards the team they were on when they made them, so points
+ * earned before leaving or switching sides stay with the old team.
+ */
+
+import { sql, withTransaction } from '../db';
+import { ISEE_EMOJI } from '../personality';
+
+// ============ TYPES ============
+
+export interface Team {
+  id: number;
+  guildId: string;
+  name: string;
+  /** Discord role whose holders are members of this team, optional */
+  roleId: string | null;
+  createdAt: Date;
+}
+
+/** How a user came to be on a team: by command, or by holding its role */
+export type TeamMembershipSource = 'command' | 'role';
+
+export interface TeamMembership {
+  teamId: number;
+  guildId: string;
+  userId: string;
+  username: string | null;
+  source: TeamMembershipSource;
+  joinedAt: Date;
+}
+
+export interface TeamStanding {
+  rank: number;
+  teamId: number;
+  name: string;
+  score: number;
+  count: number;    // tributes
+  members: number;
+}
+
+export interface CreateTeamInput {
+  guildId: string;
+  name: string;
+  roleId?: string | null;
+}
+
+// ============ DATABASE INITIALIZATION ============
+
+export async function initializeTeamTables(): Promise<void> {
+  if (!sql) return;
+
+  await sql`
+    CREATE TABLE IF NOT EXISTS teams (
+      id SERIAL PRIMARY KEY,
+      guild_id VARCHAR(255) NOT NULL,
+      name VARCHAR(100) NOT NULL,
+      role_id VARCHAR(255),
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+    )
+  `;
+
+  // One membership per user per guild
+  await sql`
+    CREATE TABLE IF NOT EXISTS team_members (
+      guild_id VARCHAR(255) NOT NULL,
+      user_id VARCHAR(255) NOT NULL,
+      team_id INTEGER NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+      username VARCHAR(255),
+      source VARCHAR(20) NOT NULL DEFAULT 'command',
+      joined_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (guild_id, user_id)
+    )
+  `;
+
+  // Every stint a user spent on a team; the open one (left_at NULL) mirrors team_members
+  await sql`
+    CREATE TABLE IF NOT EXISTS team_membership_periods (
+      id SERIAL PRIMARY KEY,
+      guild_id VARCHAR(255) NOT NULL,
+      user_id VARCHAR(255) NOT NULL,
+      team_id INTEGER NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+      joined_at TIMESTAMP WITH TIME ZONE NOT NULL,
+      left_at TIMESTAMP WITH TIME ZONE
+    )
+  `;
+
+  await sql`CREATE UNIQUE INDEX IF NOT EXISTS idx_teams_guild_name ON teams(guild_id, LOWER(name))`;
+  await sql`CREATE INDEX IF NOT EXISTS idx_team_members_team ON team_members(team_id)`;
+  await sql`CREATE INDEX IF NOT EXISTS idx_team_periods_team ON team_membership_periods(team_id)`;
+  await sql`
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_team_periods_open
+    ON team_membership_periods(guild_id, user_id) WHERE left_at IS NULL
+  `;
+
+  // Memberships made before periods were recorded
+  await sql`
+    INSERT INTO team_membership_periods (guild_id, user_id, team_id, joined_at)
+    SELECT m.guild_id, m.user_id, m.team_id, m.joined_at
+    FROM team_members m
+    WHERE NOT EXISTS (
+      SELECT 1 FROM team_membership_periods p
+      WHERE p.guild_id = m.guild_id AND p.user_id = m.user_id
+    )
+  `;
+
+  console.log('[Teams] Tables initialized');
+}
+
+// ============ PURE HELPERS ============
+
+/**
+ * Find a team by name, ignoring case and surrounding whitespace
+ */
+export function findTeamByName(teams: Team[], name: string): Team | null {
+  const wanted = name.trim().toLowerCase();
+  if (!wanted) return null;
+  return teams.find(t => t.name.toLowerCase() === wanted) ?? null;
+}
+
+/**
+ * The team a member's roles place them in. If they hold several team roles,
+ * the oldest team wins so the result is stable.
+ */
+export function findRoleTeam(teams: Team[], roleIds: string[]): Team | null {
+  const held = new Set(roleIds);
+  return [...teams]
+    .sort((a, b) => a.id - b.id)
+    .find(t => t.roleId !== null && held.has(t.roleId)) ?? null;
+}
+
+/**
+ * Rank teams by score (descending); ties share the same rank
+ */
+export function rankTeams(rows: Omit<TeamStanding, 'rank'>[]): TeamStanding[] {
+  const sorted = [...rows].sort((a, b) => b.score - a.score || a.name.localeCompare(b.name));
+
+  const standings: TeamStanding[] = [];
+  sorted.forEach((row, i) => {
+    const prev = standings[i - 1];
+    standings.push({ ...row, rank: prev && prev.score === row.score ? prev.rank : i + 1 });
+  });
+
+  return standings;
+}
+
+/**
+ * Team standings as a message, e.g. for /team standings or a scheduled post
+ */
+export function formatTeamStandings(standings: TeamStanding[], subtitle?: string): string {
+  let content = `${ISEE_EMOJI} **THE SPIRITS WEIGH THE TEAMS...**\n`;
+  if (subtitle) content += `*${subtitle}*\n`;
+  content += '\n';
+
+  if (standings.length === 0) {
+    return content + `*No teams have been formed in this realm.*`;
+  }
+
+  content += standings.map(s => {
+    const medal = s.rank === 1 ? '\u{1F947}' : s.rank === 2 ? '\u{1F948}' : s.rank === 3 ? '\u{1F949}' : `${s.rank}.`;
+    return `${medal} **${s.name}** - ${s.score}pts (${s.count} tributes, ${s.members} member${s.members === 1 ? '' : 's'})`;
+  }).join('\n');
+
+  return content;
+}
+
+// ============ CRUD ============
+
+/**
+ * List teams, optionally for one guild
+ */
+export async function getTeams(guildId?: string): Promise<Team[]> {
+  if (!sql) return [];
+
+  const rows = await sql`
+    SELECT * FROM teams
+    ${guildId ? sql`WHERE guild_id = ${guildId}` : sql``}
+    ORDER BY guild_id ASC, name ASC
+  `;
+  return rows.map(rowToTeam);
+}
+
+export async function getTeam(id: number): Promise<Team | null> {
+  if (!sql) return null;
+
+  const rows = await sql`SELECT * FROM teams WHERE id = ${id}`;
+  return rows.length > 0 ? rowToTeam(rows[0]) : null;
+}
+
+export async function createTeam(input: CreateTeamInput): Promise<Team> {
+  if (!sql) throw new Error('Database not available');
+
+  const rows = await sql`
+    INSERT INTO teams (guild_id, name, role_id)
+    VALUES (${input.guildId}, ${input.name.trim()}, ${input.roleId || null})
+    RETURNING *
+  `;
+  return rowToTeam(rows[0]);
+}
+
+export async function updateTeam(
+  id: number,
+  updates: Partial<Pick<Team, 'name' | 'roleId'>>
+): Promise<Team | null> {
+  if (!sql) return null;
+
+  const rows = await sql`
+    UPDATE teams SET
+      name = COALESCE(${updates.name?.trim() || null}, name),
+      role_id = ${updates.roleId !== undefined ? sql`${updates.roleId || null}` : sql`role_id`}
+    WHERE id = ${id}
+    RETURNING *
+  `;
+  return rows.length > 0 ? rowToTeam(rows[0]) : null;
+}
+
+/**
+ * Delete a team. Its memberships go with it; tributes are untouched.
+ */
+export async function deleteTeam(id: number): Promise<boolean> {
+  if (!sql) return false;
+
+  const rows = await sql`DELETE FROM teams WHERE id = ${id} RETURNING id`;
+  return rows.length > 0;
+}
+
+// ============ MEMBERSHIP ============
+
+export async function getUserTeam(guildId: string, userId: string): Promise<(TeamMembership & { team: Team }) | null> {
+  if (!sql) return null;
+
+  const rows = await sql`
+    SELECT m.*, t.name AS team_name, t.role_id AS team_role_id, t.created_at AS team_created_at
+    FROM team_members m
+    JOIN teams t ON t.id = m.team_id
+    WHERE m.guild_id = ${guildId} AND m.user_id = ${userId}
+  `;
+  if (rows.length === 0) return null;
+
+  const row = rows[0];
+  return {
+    ...rowToMembership(row),
+    team: {
+      id: row.team_id as number,
+      guildId: row.guild_id as string,
+      name: row.team_name as string,
+      roleId: (row.team_role_id as string | null) ?? null,
+      createdAt: row.team_created_at as Date,
+    },
+  };
+}
+
+export async function getTeamMembers(teamId: number): Promise<TeamMembership[]> {
+  if (!sql) return [];
+
+  const rows = await sql`
+    SELECT * FROM team_members
+    WHERE team_id = ${teamId}
+    ORDER BY joined_at ASC
+  `;
+  return rows.map(rowToMembership);
+}
+
+/**
+ * Put a user on a team, moving them off any other team in the guild.
+ * Rejoining the same team keeps the original join date. Points earned on a
+ * previous team stay with it.
+ */
+export async function joinTeam(
+  team: Team,
+  userId: string,
+  username: string,
+  source: TeamMembershipSource = 'command'
+): Promise<TeamMembership> {
+  if (!sql) throw new Error('Database not available');
+
+  return withTransaction(async (tx) => {
+    const rows = await tx`
+      INSERT INTO team_members (guild_id, user_id, team_id, username, source)
+      VALUES (${team.guildId}, ${userId}, ${team.id}, ${username}, ${source})
+      ON CONFLICT (guild_id, user_id) DO UPDATE SET
+        username = EXCLUDED.username,
+        source = EXCLUDED.source,
+        joined_at = CASE WHEN team_members.team_id = EXCLUDED.team_id
+          THEN team_members.joined_at ELSE CURRENT_TIMESTAMP END,
+        team_id = EXCLUDED.team_id
+      RETURNING *
+    `;
+    const membership = rowToMembership(rows[0]);
+
+    await tx`
+      UPDATE team_membership_periods SET left_at = CURRENT_TIMESTAMP
+      WHERE guild_id = ${team.guildId} AND user_id = ${userId}
+        AND left_at IS NULL AND team_id <> ${team.id}
+    `;
+    await tx`
+      INSERT INTO team_membership_periods (guild_id, user_id, team_id, joined_at)
+      VALUES (${team.guildId}, ${userId}, ${team.id}, ${membership.joinedAt})
+      ON CONFLICT (guild_id, user_id) WHERE left_at IS NULL DO NOTHING
+    `;
+
+    return membership;
+  });
+}
+
+export async function leaveTeam(guildId: string, userId: string): Promise<boolean> {
+  if (!sql) return false;
+
+  return withTransaction(async (tx) => {
+    const rows = await tx`
+      DELETE FROM team_members
+      WHERE guild_id = ${guildId} AND user_id = ${userId}
+      RETURNING team_id
+    `;
+    await tx`
+      UPDATE team_membership_periods SET left_at = CURRENT_TIMESTAMP
+      WHERE guild_id = ${guildId} AND user_id = ${userId} AND left_at IS NULL
+    `;
+    return rows.length > 0;
+  });
+}
+
+/**
+ * Bring a member's team in line with their Discord roles: holding a team's
+ * role puts them on it; losing the role takes them off it again. Teams joined
+ * by command are left alone when no team role is held. Never throws.
+ */
+export async function syncRoleTeam(
+  guildId: string,
+  userId: string,
+  username: string,
+  roleIds: string[]
+): Promise<void> {
+  if (!sql || guildId === 'dm') return;
+
+  try {
+    const teams = await getTeams(guildId);
+    if (!teams.some(t => t.roleId)) return;
+
+    const target = findRoleTeam(teams, roleIds);
+    const current = await getUserTeam(guildId, userId);
+
+    if (target && current?.teamId !== target.id) {
+      await joinTeam(target, userId, username, 'role');
+    } else if (!target && current?.source === 'role') {
+      await leaveTeam(guildId, userId);
+    }
+  } catch (error) {
+    console.error('[Teams] Failed to sync team role:', error);
+  }
+}
+
+// ============ STANDINGS ============
+
+/**
+ * Team totals for a guild. Each public tribute counts for the team its author
+ * was on when they made it; `since` narrows that further (e.g. to this weekend).
+ * Members are the team's current members.
+ */
+export async function getTeamStandings(guildId: string, options: { since?: Date } = {}): Promise<TeamStanding[]> {
+  if (!sql) return [];
+
+  const rows = await sql`
+    SELECT t.id, t.name,
+           (SELECT COUNT(*) FROM team_members m WHERE m.team_id = t.id) AS members,
+           COUNT(tr.id) AS count,
+           COALESCE(SUM(tr.score), 0) AS score
+    FROM teams t
+    LEFT JOIN team_membership_periods p ON p.team_id = t.id
+    LEFT JOIN tributes tr ON tr.user_id = p.user_id
+      AND tr.guild_id = t.guild_id
+      AND tr.is_dm = FALSE
+      AND tr.created_at >= p.joined_at
+      AND (p.left_at IS NULL OR tr.created_at < p.left_at)
+      ${options.since ? sql`AND tr.created_at >= ${options.since}` : sql``}
+    WHERE t.guild_id = ${guildId}
+    GROUP BY t.id, t.name
+  `;
+
+  return rankTeams(rows.map(row => ({
+    teamId: row.id as number,
+    name: row.name as string,
+    score: Number(row.score),
+    count: Number(row.count),
+    members: Number(row.members),
+  })));
+}
+
+// ============ HELPERS ============
+
+function rowToTeam(row: Record<string, unknown>): Team {
+  return {
+    id: row.id as number,
+    guildId: row.guild_id as string,
+    name: row.name as string,
+    roleId: (row.role_id as string | null) ?? null,
+    createdAt: row.created_at as Date,
+  };
+}
+
+function rowToMembership(row: Record<string, unknown>): TeamMembership {
+  return {
+    teamId: row.team_id as number,
+    guildId: row.guild_id as string,
+    userId: row.user_id as string,
+    username: (row.username as string | null) ?? null,
+    source: row.source as TeamMembershipSource,
+    joinedAt: row.joined_at as Date,
+  };
+}
@@ -0,0 +1,148 @@
+/**
+ * Timezone Helpers
+ *
+ * Calendar calculations (today, weekday, the week's Friday) in a guild's
+ * timezone rather than the server clock. A tribute at 00:30 on Saturday in
+ * Stockholm belongs to Saturday, even though it is still Friday in UTC.
+ *
+ * Pure functions built on Intl; no database access.
+ */
+
+// ============ CONSTANTS ============
+
+/** Used for DMs and guilds that haven't configured a timezone */
+export const DEFAULT_TIMEZONE = 'Europe/Stockholm';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/** Formatters are costly to build and get reused heavily (e.g. cron iteration) */
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+// ============ TYPES ============
+
+export interface ZonedParts {
+  year: number;
+  month: number;   // 1-12
+  day: number;
+  hour: number;    // 0-23
+  minute: number;
+  weekday: number; // 0 = Sunday
+}
+
+// ============ HELPERS ============
+
+/**
+ * Check that a string is an IANA timezone Intl understands (e.g. "America/New_York")
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Wall-clock date and time of an instant in a timezone
+ */
+export function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  let format = formatters.get(timeZone);
+  if (!format) {
+    format = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      weekday: 'short',
+      hourCycle: 'h23',
+    });
+    formatters.set(timeZone, format);
+  }
+  const parts = format.formatToParts(date);
+
+  const get = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value ?? '';
+
+  return {
+    year: Number(get('year')),
+    month: Number(get('month')),
+    day: Number(get('day')),
+    hour: Number(get('hour')),
+    minute: Number(get('minute')),
+    weekday: WEEKDAYS.indexOf(get('weekday')),
+  };
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) of an instant in a timezone
+ */
+export function getDateKey(date: Date, timeZone: string): string {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Day of the week (0 = Sunday) of an instant in a timezone
+ */
+export function getWeekday(date: Date, timeZone: string): number {
+  return getZonedParts(date, timeZone).weekday;
+}
+
+/**
+ * Date key of the most recent Friday (today if it is Friday) in a timezone
+ */
+export function getFridayKey(date: Date, timeZone: string): string {
+  const { year, month, day, weekday } = getZonedParts(date, timeZone);
+  const daysToSubtract = weekday >= 5 ? weekday - 5 : weekday + 2;
+  // Calendar arithmetic on a UTC date so DST never shifts the day
+  const friday = new Date(Date.UTC(year, month - 1, day - daysToSubtract));
+  return friday.toISOString().split('T')[0];
+}
+
+/**
+ * The instant a wall-clock time occurs in a timezone, e.g. 18:00 on
+ * 2026-03-14 in Stockholm. A time skipped by a DST jump lands just after it.
+ */
+export function zonedTimeToDate(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone: string
+): Date {
+  const wall = Date.UTC(year, month - 1, day, hour, minute);
+  let instant = wall;
+  // Correct by the zone's offset; the second pass settles DST boundaries
+  for (let i = 0; i < 2; i++) {
+    const seen = getZonedParts(new Date(instant), timeZone);
+    instant += wall - Date.UTC(seen.year, seen.month - 1, seen.day, seen.hour, seen.minute);
+  }
+  return new Date(instant);
+}
+
+/**
+ * Parse a date and time. ISO strings with an offset ("2026-03-14T17:00:00Z")
+ * are taken as-is; local ones ("2026-03-14 18:00") are read in the timezone.
+ */
+export function parseZonedDateTime(value: string, timeZone: string): Date | null {
+  const text = value.trim();
+
+  if (/(Z|[+-]\d{2}:?\d{2})$/i.test(text)) {
+    const date = new Date(text);
+    return Number.isNaN(date.getTime()) ? null : date;
+  }
+
+  const match = /^(\d{4})-(\d{2})-(\d{2})[T ](\d{1,2}):(\d{2})(?::\d{2}(?:\.\d+)?)?$/.exec(text);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute] = match.map(Number);
+  const calendar = new Date(Date.UTC(year, month - 1, day));
+  if (calendar.getUTCMonth() !== month - 1 || calendar.getUTCDate() !== day) return null;
+  if (hour > 23 || minute > 59) return null;
+
+  return zonedTimeToDate(year, month, day, hour, minute, timeZone);
+}
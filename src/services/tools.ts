@@ -8,6 +8,7 @@
 import {
   createScheduledEvent,
   getScheduledEvents,
+  getScheduledEvent,
   updateScheduledEvent,
   deleteScheduledEvent,
   ScheduledEvent,
@@ -16,6 +17,16 @@ import {
   AVAILABLE_CAPABILITIES,
 } from './agents';
 import { rememberFact, recallFacts } from './agentKnowledge';
+import { getGuildTimezone } from './guildSettings';
+import { parseZonedDateTime } from './timezone';
+import { validateCron, describeCron, getNextFireTimes } from './cron';
+import {
+  parseReminderTime,
+  createReminder,
+  getUserReminders,
+  cancelReminder,
+  getReminderUserId,
+} from './reminders';
 
 // ============ TOOL DEFINITIONS ============
 
@@ -123,7 +134,7 @@ export const SCHEDULING_TOOLS: ToolDefinition[] = [
     type: 'function',
     function: {
       name: 'create_scheduled_event',
-      description: 'Create a new scheduled event (cron job) for a channel. Use this when users ask to set up reminders, scheduled messages, or recurring events. If no target channel specified, uses the current channel.',
+      description: 'Create a new scheduled event for a channel: recurring (cron_expression) or one-off (run_at or delay_minutes). Use this when users ask to set up reminders, scheduled messages, or recurring events; use a one-off for things like "remind everyone in 2 hours" or "on March 14 at 18:00". For a reminder just for the person asking, use create_reminder instead. If no target channel specified, uses the current channel.',
       parameters: {
         type: 'object',
         properties: {
@@ -133,20 +144,36 @@ export const SCHEDULING_TOOLS: ToolDefinition[] = [
           },
           cron_expression: {
             type: 'string',
-            description: 'Cron expression for when to trigger. Format: "minute hour day month weekday". Examples: "0 17 * * 5" = Friday 5pm, "0 9 * * *" = Daily 9am, "0 12 * * 1-5" = Weekdays noon',
+            description: 'For recurring events: cron expression for when to trigger. Format: "minute hour day month weekday". Examples: "0 17 * * 5" = Friday 5pm, "0 9 * * *" = Daily 9am, "0 12 * * 1-5" = Weekdays noon, "*/30 * * * *" = every 30 minutes. L, W and # (e.g. "last Friday") are not supported.',
+          },
+          run_at: {
+            type: 'string',
+            description: 'For one-off events: when to fire, as "YYYY-MM-DD HH:MM" in the event timezone (or ISO 8601 with an offset). The event runs once and is then deactivated.',
+          },
+          delay_minutes: {
+            type: 'number',
+            description: 'For one-off events: fire this many minutes from now (e.g. 120 for "in 2 hours"). Use instead of run_at for relative times.',
           },
           event_type: {
             type: 'string',
             description: 'Type of event to trigger',
-            enum: ['tribute_reminder', 'custom_message', 'ai_prompt', 'status_report'],
+            enum: ['tribute_reminder', 'custom_message', 'ai_prompt', 'status_report', 'team_standings'],
           },
           message: {
             type: 'string',
             description: 'For custom_message: the message to send. For ai_prompt: the prompt for AI to generate a response.',
           },
+          mention_role: {
+            type: 'string',
+            description: 'Optional: mention a role when the event posts: "@everyone", "@here" or a role ID. Only this role is pinged.',
+          },
+          rsvp_button: {
+            type: 'boolean',
+            description: 'Optional: add an "I\'m in!" button people click to say they are coming (e.g. on a tribute reminder). It shows how many are in.',
+          },
           timezone: {
             type: 'string',
-            description: 'Timezone for the schedule (default: Europe/Stockholm). Examples: UTC, America/New_York, Europe/London',
+            description: 'Timezone for the schedule (default: the server\'s configured timezone, Europe/Stockholm if unset). Examples: UTC, America/New_York, Europe/London',
           },
           target_channel_id: {
             type: 'string',
@@ -157,7 +184,7 @@ export const SCHEDULING_TOOLS: ToolDefinition[] = [
             description: 'Discord guild/server ID for the target channel. Required if target_channel_id is provided and we are in a DM.',
           },
         },
-        required: ['name', 'cron_expression', 'event_type'],
+        required: ['name', 'event_type'],
       },
     },
   },
@@ -212,7 +239,7 @@ export const SCHEDULING_TOOLS: ToolDefinition[] = [
           },
           new_cron_expression: {
             type: 'string',
-            description: 'New cron expression for the schedule',
+            description: 'New cron expression for the schedule (same format as create_scheduled_event)',
           },
           new_message: {
             type: 'string',
@@ -229,6 +256,65 @@ export const SCHEDULING_TOOLS: ToolDefinition[] = [
   },
 ];
 
+// ============ REMINDER TOOLS ============
+
+export const REMINDER_TOOLS: ToolDefinition[] = [
+  {
+    type: 'function',
+    function: {
+      name: 'create_reminder',
+      description: 'Set a personal reminder for the user you are talking to, delivered to them by DM. Use this when someone asks you to remind them (not the channel) of something, e.g. "remind me tomorrow at 18:00 to buy limes".',
+      parameters: {
+        type: 'object',
+        properties: {
+          message: {
+            type: 'string',
+            description: 'What to remind them of, written as the reminder they will receive (e.g. "Buy limes for Friday")',
+          },
+          when: {
+            type: 'string',
+            description: 'When to remind them: "in 2 hours", "30m", "18:00", "tomorrow 9am", "friday at 18:00" or "YYYY-MM-DD HH:MM"',
+          },
+          timezone: {
+            type: 'string',
+            description: 'Timezone for wall-clock times (default: the server\'s configured timezone, Europe/Stockholm if unset)',
+          },
+        },
+        required: ['message', 'when'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'list_my_reminders',
+      description: 'List the pending personal reminders of the user you are talking to.',
+      parameters: {
+        type: 'object',
+        properties: {},
+        required: [],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'cancel_reminder',
+      description: 'Cancel one of the personal reminders of the user you are talking to.',
+      parameters: {
+        type: 'object',
+        properties: {
+          reminder: {
+            type: 'string',
+            description: 'The reminder\'s number from list_my_reminders, or its ID',
+          },
+        },
+        required: ['reminder'],
+      },
+    },
+  },
+];
+
 // ============ KNOWLEDGE TOOLS ============
 
 export const KNOWLEDGE_TOOLS: ToolDefinition[] = [
@@ -304,9 +390,9 @@ export function getToolsForCapabilities(
     tools.push(...DISCORD_TOOLS);
   }
 
-  // Scheduling tools require 'scheduled_messages' capability
+  // Scheduling and reminder tools require 'scheduled_messages' capability
   if (capabilities.includes(AVAILABLE_CAPABILITIES.SCHEDULED_MESSAGES)) {
-    tools.push(...SCHEDULING_TOOLS);
+    tools.push(...SCHEDULING_TOOLS, ...REMINDER_TOOLS);
   }
 
   // Knowledge tools require 'knowledge' capability
@@ -322,12 +408,14 @@ export function getToolsForCapabilities(
 
 /**
  * Execute a tool call
+ * @param userId - Discord user being answered; reminder tools act on their reminders only
  */
 export async function executeTool(
   toolCall: ToolCall,
   threadId: string,
   capabilities: string[],
-  agentId?: string
+  agentId?: string,
+  userId?: string
 ): Promise<ToolResult> {
   const { name, arguments: argsJson } = toolCall.function;
 
@@ -356,6 +444,18 @@ export async function executeTool(
         result = await executeUpdateScheduledEvent(args, threadId);
         break;
 
+      case 'create_reminder':
+        result = await executeCreateReminder(args, threadId, capabilities, userId);
+        break;
+
+      case 'list_my_reminders':
+        result = await executeListMyReminders(userId);
+        break;
+
+      case 'cancel_reminder':
+        result = await executeCancelReminder(args, userId);
+        break;
+
       case 'remember_fact':
         result = await executeRememberFact(args, threadId, agentId);
         break;
@@ -431,9 +531,13 @@ async function executeListChannels(
 async function executeCreateScheduledEvent(
   args: {
     name: string;
-    cron_expression: string;
+    cron_expression?: string;
+    run_at?: string;
+    delay_minutes?: number;
     event_type: string;
     message?: string;
+    mention_role?: string;
+    rsvp_button?: boolean;
     timezone?: string;
     target_channel_id?: string;
     target_guild_id?: string;
@@ -485,6 +589,8 @@ async function executeCreateScheduledEvent(
   } else if (args.event_type === 'ai_prompt' && args.message) {
     payload.prompt = args.message;
   }
+  if (args.mention_role) payload.mentionRole = args.mention_role;
+  if (args.rsvp_button) payload.buttons = [{ rsvp: true }];
 
   try {
     // Resolve guild and channel names for human-readable storage
@@ -502,24 +608,60 @@ async function executeCreateScheduledEvent(
       }
     }
 
+    const timeZone = args.timezone || await getGuildTimezone(parts[0] === 'discord' ? parts[1] : null);
+
+    // One-off events fire at a fixed time instead of on a cron schedule
+    let runAt: Date | undefined;
+    if (args.delay_minutes !== undefined) {
+      const minutes = Number(args.delay_minutes);
+      if (!Number.isFinite(minutes) || minutes <= 0) {
+        return JSON.stringify({ error: 'delay_minutes must be a positive number' });
+      }
+      runAt = new Date(Date.now() + minutes * 60 * 1000);
+    } else if (args.run_at) {
+      const parsed = parseZonedDateTime(args.run_at, timeZone);
+      if (!parsed) {
+        return JSON.stringify({ error: `Could not read run_at "${args.run_at}". Use "YYYY-MM-DD HH:MM".` });
+      }
+      if (parsed.getTime() <= Date.now()) {
+        return JSON.stringify({ error: `run_at ${args.run_at} (${timeZone}) is in the past` });
+      }
+      runAt = parsed;
+    }
+
+    if (!runAt && !args.cron_expression) {
+      return JSON.stringify({ error: 'Provide cron_expression for a recurring event, or run_at/delay_minutes for a one-off' });
+    }
+    if (runAt && args.cron_expression) {
+      return JSON.stringify({ error: 'Provide either cron_expression or run_at/delay_minutes, not both' });
+    }
+    if (args.cron_expression) {
+      const cronError = validateCron(args.cron_expression);
+      if (cronError) {
+        return JSON.stringify({ error: `Invalid cron_expression: ${cronError}` });
+      }
+    }
+
     console.log('[Tools] Creating scheduled event:', {
       name: args.name,
       threadId: targetThreadId,
       cron: args.cron_expression,
+      runAt: runAt?.toISOString(),
       type: args.event_type,
-      timezone: args.timezone || 'Europe/Stockholm',
+      timezone: timeZone,
     });
 
     const event = await createScheduledEvent(
       args.name,
       targetThreadId,
-      args.cron_expression,
+      runAt ? null : args.cron_expression!,
       args.event_type as EventType,
       {
         payload,
-        timezone: args.timezone || 'Europe/Stockholm',
+        timezone: timeZone,
         guildName,
         channelName,
+        runAt,
       }
     );
 
@@ -536,6 +678,11 @@ async function executeCreateScheduledEvent(
         id: event.id,
         name: event.name,
         cron: event.cronExpression,
+        schedule: event.cronExpression ? describeCron(event.cronExpression) : null,
+        nextRuns: event.cronExpression
+          ? getNextFireTimes(event.cronExpression, event.timezone, 3).map(d => d.toISOString())
+          : [],
+        runAt: event.runAt?.toISOString() ?? null,
         type: event.eventType,
         timezone: event.timezone,
         targetChannel: targetThreadId,
@@ -566,6 +713,7 @@ async function executeListScheduledEvents(threadId: string): Promise<string> {
         id: e.id,
         name: e.name,
         cron: e.cronExpression,
+        runAt: e.runAt?.toISOString() ?? null,
         type: e.eventType,
         timezone: e.timezone,
         active: e.isActive,
@@ -580,6 +728,18 @@ async function executeListScheduledEvents(threadId: string): Promise<string> {
   }
 }
 
+/**
+ * The error to return when a generic event tool targets someone's personal
+ * reminder, which only its owner may change (via the reminder tools)
+ */
+async function getPersonalReminderError(eventId: string): Promise<string | null> {
+  const event = await getScheduledEvent(eventId);
+  if (!event || !getReminderUserId(event.threadId)) return null;
+  return JSON.stringify({
+    error: 'That is a personal reminder. Only the person who set it can cancel it, with cancel_reminder.',
+  });
+}
+
 async function executeDeleteScheduledEvent(
   args: { event_id?: string; event_name?: string },
   threadId: string
@@ -608,6 +768,10 @@ async function executeDeleteScheduledEvent(
       });
     }
 
+    // Personal reminders belong to whoever set them
+    const reminderError = await getPersonalReminderError(eventId);
+    if (reminderError) return reminderError;
+
     const deleted = await deleteScheduledEvent(eventId);
 
     if (deleted) {
@@ -661,8 +825,16 @@ async function executeUpdateScheduledEvent(
       });
     }
 
+    // Personal reminders belong to whoever set them
+    const reminderError = await getPersonalReminderError(eventId);
+    if (reminderError) return reminderError;
+
     const updates: Record<string, unknown> = {};
     if (args.new_cron_expression) {
+      const cronError = validateCron(args.new_cron_expression);
+      if (cronError) {
+        return JSON.stringify({ error: `Invalid new_cron_expression: ${cronError}` });
+      }
       updates.cronExpression = args.new_cron_expression;
     }
     if (args.is_active !== undefined) {
@@ -691,6 +863,10 @@ async function executeUpdateScheduledEvent(
           id: updated.id,
           name: updated.name,
           cron: updated.cronExpression,
+          schedule: updated.cronExpression ? describeCron(updated.cronExpression) : null,
+          nextRuns: updated.cronExpression && updated.isActive
+            ? getNextFireTimes(updated.cronExpression, updated.timezone, 3).map(d => d.toISOString())
+            : [],
           active: updated.isActive,
         },
       });
@@ -706,6 +882,102 @@ async function executeUpdateScheduledEvent(
   }
 }
 
+// ============ REMINDER TOOL IMPLEMENTATIONS ============
+
+async function executeCreateReminder(
+  args: { message: string; when: string; timezone?: string },
+  threadId: string,
+  capabilities: string[],
+  userId?: string
+): Promise<string> {
+  if (!capabilities.includes(AVAILABLE_CAPABILITIES.SCHEDULED_MESSAGES)) {
+    return JSON.stringify({
+      error: 'This agent does not have permission to create reminders',
+    });
+  }
+  if (!userId) {
+    return JSON.stringify({ error: 'Reminders can only be set for a Discord user' });
+  }
+
+  try {
+    const parts = threadId.split(':');
+    const timeZone = args.timezone || await getGuildTimezone(parts[0] === 'discord' ? parts[1] : null);
+    const runAt = parseReminderTime(args.when || '', new Date(), timeZone);
+
+    const result = await createReminder(userId, args.message || '', runAt, timeZone);
+    if ('error' in result) {
+      return JSON.stringify({ error: result.error });
+    }
+
+    console.log('[Tools] Created reminder:', { userId, runAt: result.reminder.runAt.toISOString() });
+
+    return JSON.stringify({
+      success: true,
+      message: `Reminder set. It will be sent to the user by DM at ${result.reminder.runAt.toISOString()}.`,
+      reminder: {
+        id: result.reminder.id,
+        message: result.reminder.message,
+        runAt: result.reminder.runAt.toISOString(),
+        timezone: timeZone,
+      },
+    });
+  } catch (error) {
+    return JSON.stringify({
+      error: `Failed to create reminder: ${(error as Error).message}`,
+    });
+  }
+}
+
+async function executeListMyReminders(userId?: string): Promise<string> {
+  if (!userId) {
+    return JSON.stringify({ error: 'Reminders can only be listed for a Discord user' });
+  }
+
+  try {
+    const reminders = await getUserReminders(userId);
+    return JSON.stringify({
+      message: `${reminders.length} pending reminder(s)`,
+      reminders: reminders.map((r, i) => ({
+        number: i + 1,
+        id: r.id,
+        message: r.message,
+        runAt: r.runAt.toISOString(),
+        timezone: r.timezone,
+      })),
+    });
+  } catch (error) {
+    return JSON.stringify({
+      error: `Failed to list reminders: ${(error as Error).message}`,
+    });
+  }
+}
+
+async function executeCancelReminder(
+  args: { reminder: string },
+  userId?: string
+): Promise<string> {
+  if (!userId) {
+    return JSON.stringify({ error: 'Reminders can only be cancelled by a Discord user' });
+  }
+
+  try {
+    const cancelled = await cancelReminder(userId, String(args.reminder ?? ''));
+    if (!cancelled) {
+      return JSON.stringify({
+        error: `No reminder "${args.reminder}" found for this user. Use list_my_reminders to see their numbers.`,
+      });
+    }
+    return JSON.stringify({
+      success: true,
+      message: `Cancelled the reminder "${cancelled.message}"`,
+    });
+  } catch (error) {
+    return JSON.stringify({
+      error: `Failed to cancel reminder: ${(error as Error).message}`,
+    });
+  }
+}
+
 // ============ KNOWLEDGE TOOL IMPLEMENTATIONS ============
 
 async function executeRememberFact(
@@ -771,66 +1043,3 @@ async function executeRecallFacts(
     });
   }
 }
-
-// ============ CRON EXPRESSION HELPERS ============
-
-/**
- * Common cron patterns for reference
- */
-export const CRON_PATTERNS = {
-  // Weekly
-  'friday_5pm': '0 17 * * 5',
-  'monday_9am': '0 9 * * 1',
-  'sunday_noon': '0 12 * * 0',
-
-  // Daily
-  'daily_9am': '0 9 * * *',
-  'daily_noon': '0 12 * * *',
-  'daily_6pm': '0 18 * * *',
-
-  // Weekdays
-  'weekdays_9am': '0 9 * * 1-5',
-  'weekdays_5pm': '0 17 * * 1-5',
-
-  // Monthly
-  'first_of_month': '0 9 1 * *',
-  'last_friday': '0 17 * * 5#L',
-} as const;
-
-/**
- * Describe a cron expression in human terms
- */
-export function describeCron(cron: string): string {
-  const parts = cron.split(' ');
-  if (parts.length !== 5) return cron;
-
-  const [minute, hour, day, month, weekday] = parts;
-
-  const days = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-
-  let desc = '';
-
-  // Time
-  if (hour !== '*' && minute !== '*') {
-    desc += `at ${hour.padStart(2, '0')}:${minute.padStart(2, '0')}`;
-  }
-
-  // Day of week
-  if (weekday !== '*') {
-    if (weekday.includes('-')) {
-      const [start, end] = weekday.split('-').map(Number);
-      desc += ` ${days[start]} to ${days[end]}`;
-    } else if (weekday.includes(',')) {
-      const dayNames = weekday.split(',').map(d => days[Number(d)]);
-      desc += ` on ${dayNames.join(', ')}`;
-    } else {
-      desc += ` every ${days[Number(weekday)]}`;
-    }
-  } else if (day !== '*') {
-    desc += ` on day ${day} of the month`;
-  } else {
-    desc += ' every day';
-  }
-
-  return desc.trim();
-}
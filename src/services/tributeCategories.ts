@@ -0,0 +1,294 @@
+/**
+ * Tribute Categories Service
+ *
+ * Data-driven tribute categories. Global categories (guild_id NULL) apply to
+ * every guild; a guild can add its own categories (e.g. "Rum neat") or
+ * override/hide a global one by defining a category with the same key.
+ *
+ * Category descriptions feed the image analysis prompt, so the AI knows
+ * which categories exist and how to tell them apart.
+ */
+
+import { sql } from '../db';
+
+// ============ TYPES ============
+
+export interface TributeCategory {
+  id: number | null;  // null for built-in defaults that aren't stored
+  guildId: string | null;
+  key: string;
+  label: string;
+  description: string;
+  defaultPoints: number;
+  sortOrder: number;
+  isActive: boolean;
+}
+
+export interface CreateCategoryInput {
+  guildId?: string | null;
+  key?: string;
+  label: string;
+  description?: string;
+  defaultPoints?: number;
+  sortOrder?: number;
+}
+
+// ============ DEFAULTS ============
+
+/** Key every unknown or unparseable category falls back to */
+export const FALLBACK_CATEGORY_KEY = 'OTHER';
+
+export const DEFAULT_CATEGORIES: TributeCategory[] = [
+  {
+    id: null,
+    guildId: null,
+    key: 'TIKI',
+    label: 'Tiki',
+    description: 'Tiki drinks (Mai Tai, Zombie, Painkiller, Hurricane, Scorpion, Navy Grog, Jungle Bird, etc.), drinks in tiki mugs, tropical cocktails with rum and exotic garnishes',
+    defaultPoints: 10,
+    sortOrder: 10,
+    isActive: true,
+  },
+  {
+    id: null,
+    guildId: null,
+    key: 'COCKTAIL',
+    label: 'Cocktail',
+    description: 'Other mixed drinks, cocktails, spirits (margarita, martini, old fashioned, whiskey sour, etc.)',
+    defaultPoints: 5,
+    sortOrder: 20,
+    isActive: true,
+  },
+  {
+    id: null,
+    guildId: null,
+    key: 'BEER_WINE',
+    label: 'Beer/Wine',
+    description: 'Beer, wine, cider, hard seltzer, simple drinks',
+    defaultPoints: 2,
+    sortOrder: 30,
+    isActive: true,
+  },
+  {
+    id: null,
+    guildId: null,
+    key: FALLBACK_CATEGORY_KEY,
+    label: 'Other',
+    description: "Non-alcoholic drinks, food, or anything that's not a beverage",
+    defaultPoints: 1,
+    sortOrder: 1000,
+    isActive: true,
+  },
+];
+
+// ============ DATABASE INITIALIZATION ============
+
+export async function initializeTributeCategoriesTable(): Promise<void> {
+  if (!sql) return;
+
+  await sql`
+    CREATE TABLE IF NOT EXISTS tribute_categories (
+      id SERIAL PRIMARY KEY,
+      guild_id VARCHAR(255),
+      key VARCHAR(50) NOT NULL,
+      label VARCHAR(100) NOT NULL,
+      description TEXT NOT NULL DEFAULT '',
+      default_points INTEGER NOT NULL DEFAULT 1,
+      sort_order INTEGER NOT NULL DEFAULT 100,
+      is_active BOOLEAN DEFAULT TRUE,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+    )
+  `;
+
+  // One category per key per scope (NULL guild = global)
+  await sql`
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_tribute_categories_scope_key
+    ON tribute_categories (COALESCE(guild_id, ''), key)
+  `;
+  await sql`CREATE INDEX IF NOT EXISTS idx_tribute_categories_guild ON tribute_categories(guild_id)`;
+
+  // Seed the built-in global categories
+  for (const cat of DEFAULT_CATEGORIES) {
+    await sql`
+      INSERT INTO tribute_categories (guild_id, key, label, description, default_points, sort_order)
+      SELECT NULL, ${cat.key}, ${cat.label}, ${cat.description}, ${cat.defaultPoints}, ${cat.sortOrder}
+      WHERE NOT EXISTS (
+        SELECT 1 FROM tribute_categories WHERE guild_id IS NULL AND key = ${cat.key}
+      )
+    `;
+  }
+
+  console.log('[TributeCategories] Table initialized');
+}
+
+// ============ PURE HELPERS ============
+
+/**
+ * Turn a label into a category key, e.g. "Non-alcoholic craft" -> "NON_ALCOHOLIC_CRAFT"
+ */
+export function normalizeCategoryKey(input: string): string {
+  return input
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toUpperCase()
+    .replace(/[^A-Z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .slice(0, 50);
+}
+
+/**
+ * Merge global and guild categories into the active list for a guild.
+ * Guild entries replace global entries with the same key (an inactive guild
+ * entry hides the global one). The fallback category is always present.
+ */
+export function mergeCategories(
+  globalCategories: TributeCategory[],
+  guildCategories: TributeCategory[] = []
+): TributeCategory[] {
+  const byKey = new Map<string, TributeCategory>();
+
+  for (const cat of globalCategories) byKey.set(cat.key, cat);
+  for (const cat of guildCategories) byKey.set(cat.key, cat);
+
+  const merged = Array.from(byKey.values()).filter(c => c.isActive);
+
+  if (!merged.some(c => c.key === FALLBACK_CATEGORY_KEY)) {
+    merged.push(DEFAULT_CATEGORIES.find(c => c.key === FALLBACK_CATEGORY_KEY)!);
+  }
+
+  return merged.sort((a, b) => a.sortOrder - b.sortOrder || a.label.localeCompare(b.label));
+}
+
+/**
+ * Resolve an AI- or user-supplied category to a known key (falls back to OTHER)
+ */
+export function resolveCategoryKey(value: unknown, categories: TributeCategory[]): string {
+  if (typeof value !== 'string' || !value.trim()) return FALLBACK_CATEGORY_KEY;
+
+  const key = normalizeCategoryKey(value);
+  const match = categories.find(c => c.key === key || normalizeCategoryKey(c.label) === key);
+  return match ? match.key : FALLBACK_CATEGORY_KEY;
+}
+
+// ============ CRUD ============
+
+/**
+ * Get the active categories for a guild (global + guild-specific).
+ * Falls back to the built-in defaults when the database is unavailable.
+ */
+export async function getCategories(guildId?: string | null): Promise<TributeCategory[]> {
+  if (!sql) return DEFAULT_CATEGORIES;
+
+  try {
+    const scopedGuild = guildId && guildId !== 'dm' ? guildId : null;
+    const rows = await sql`
+      SELECT * FROM tribute_categories
+      WHERE guild_id IS NULL
+      ${scopedGuild ? sql`OR guild_id = ${scopedGuild}` : sql``}
+    `;
+
+    const all = rows.map(rowToCategory);
+    if (all.length === 0) return DEFAULT_CATEGORIES;
+
+    return mergeCategories(
+      all.filter(c => c.guildId === null),
+      all.filter(c => c.guildId !== null)
+    );
+  } catch (error) {
+    console.error('[TributeCategories] Failed to load categories, using defaults:', error);
+    return DEFAULT_CATEGORIES;
+  }
+}
+
+/**
+ * Get every stored category (including inactive ones) for the admin dashboard
+ */
+export async function getAllCategories(guildId?: string): Promise<TributeCategory[]> {
+  if (!sql) return [];
+
+  const rows = await sql`
+    SELECT * FROM tribute_categories
+    ${guildId ? sql`WHERE guild_id IS NULL OR guild_id = ${guildId}` : sql``}
+    ORDER BY guild_id NULLS FIRST, sort_order ASC, label ASC
+  `;
+
+  return rows.map(rowToCategory);
+}
+
+/**
+ * Create a category (global when guildId is null)
+ */
+export async function createCategory(input: CreateCategoryInput): Promise<TributeCategory> {
+  if (!sql) throw new Error('Database not available');
+
+  const key = normalizeCategoryKey(input.key || input.label);
+  if (!key) throw new Error('Category key is required');
+
+  const result = await sql`
+    INSERT INTO tribute_categories (guild_id, key, label, description, default_points, sort_order)
+    VALUES (
+      ${input.guildId ?? null}, ${key}, ${input.label.trim()},
+      ${input.description ?? ''}, ${input.defaultPoints ?? 1}, ${input.sortOrder ?? 100}
+    )
+    RETURNING *
+  `;
+
+  return rowToCategory(result[0]);
+}
+
+/**
+ * Update a category's label, description, points, order or active flag.
+ * The key is immutable because tributes reference it.
+ */
+export async function updateCategory(
+  id: number,
+  updates: Partial<Pick<TributeCategory, 'label' | 'description' | 'defaultPoints' | 'sortOrder' | 'isActive'>>
+): Promise<TributeCategory | null> {
+  if (!sql) return null;
+
+  const result = await sql`
+    UPDATE tribute_categories SET
+      label = COALESCE(${updates.label ?? null}, label),
+      description = COALESCE(${updates.description ?? null}, description),
+      default_points = COALESCE(${updates.defaultPoints ?? null}, default_points),
+      sort_order = COALESCE(${updates.sortOrder ?? null}, sort_order),
+      is_active = COALESCE(${updates.isActive ?? null}, is_active),
+      updated_at = CURRENT_TIMESTAMP
+    WHERE id = ${id}
+    RETURNING *
+  `;
+
+  return result.length > 0 ? rowToCategory(result[0]) : null;
+}
+
+/**
+ * Delete a category. The global fallback category cannot be deleted.
+ * Existing tributes keep their category key.
+ */
+export async function deleteCategory(id: number): Promise<boolean> {
+  if (!sql) return false;
+
+  const result = await sql`
+    DELETE FROM tribute_categories
+    WHERE id = ${id}
+      AND NOT (guild_id IS NULL AND key = ${FALLBACK_CATEGORY_KEY})
+    RETURNING id
+  `;
+  return result.length > 0;
+}
+
+// ============ HELPERS ============
+
+function rowToCategory(row: Record<string, unknown>): TributeCategory {
+  return {
+    id: Number(row.id),
+    guildId: row.guild_id as string | null,
+    key: row.key as string,
+    label: row.label as string,
+    description: (row.description as string) || '',
+    defaultPoints: Number(row.default_points),
+    sortOrder: Number(row.sort_order),
+    isActive: row.is_active !== false,
+  };
+}
@@ -0,0 +1,318 @@
+/**
+ * Tribute Disputes Service
+ *
+ * Lets a user contest how their tribute was classified, either by reacting
+ * with ⚖️ to the bot's reply or with `/tribute dispute`. Disputes wait in a
+ * queue on the admin dashboard; approving one corrects the tribute's
+ * category, drink name and score through applyTributeCorrection, which keeps
+ * a history record. At most one dispute per tribute can be pending.
+ */
+
+import { sql, getTributeById } from '../db';
+import { ScoringRules, calculateTributeScore, getScoringRules } from './scoringRules';
+import { getCategories, resolveCategoryKey } from './tributeCategories';
+import { applyTributeCorrection, type TributeCorrection } from './tributeHistory';
+
+// ============ TYPES ============
+
+export type DisputeSource = 'reaction' | 'command';
+export type DisputeStatus = 'pending' | 'approved' | 'rejected';
+
+export interface TributeDispute {
+  id: number;
+  tributeId: number;
+  guildId: string;
+  userId: string;
+  source: DisputeSource;
+  reason: string | null;
+  proposedCategory: string | null;
+  proposedDrinkName: string | null;
+  status: DisputeStatus;
+  resolvedBy: string | null;
+  resolutionNote: string | null;
+  createdAt: Date;
+  resolvedAt: Date | null;
+}
+
+/** Dispute joined with the tribute it contests (for the admin queue) */
+export interface DisputeWithTribute extends TributeDispute {
+  tribute: {
+    username: string;
+    imageUrl: string | null;
+    category: string;
+    drinkName: string | null;
+    score: number;
+    isFriday: boolean;
+    createdAt: Date;
+  };
+}
+
+export interface CreateDisputeInput {
+  tributeId: number;
+  guildId: string;
+  userId: string;
+  source: DisputeSource;
+  reason?: string | null;
+  proposedCategory?: string | null;
+  proposedDrinkName?: string | null;
+}
+
+export interface DisputeApproval {
+  category?: string;
+  drinkName?: string | null;
+  score?: number;
+  resolvedBy: string;
+  note?: string | null;
+}
+
+// ============ DATABASE INITIALIZATION ============
+
+export async function initializeTributeDisputesTable(): Promise<void> {
+  if (!sql) return;
+
+  await sql`
+    CREATE TABLE IF NOT EXISTS tribute_disputes (
+      id SERIAL PRIMARY KEY,
+      tribute_id INTEGER NOT NULL REFERENCES tributes(id) ON DELETE CASCADE,
+      guild_id VARCHAR(255) NOT NULL,
+      user_id VARCHAR(255) NOT NULL,
+      source VARCHAR(20) NOT NULL DEFAULT 'command',
+      reason TEXT,
+      proposed_category VARCHAR(50),
+      proposed_drink_name VARCHAR(255),
+      status VARCHAR(20) NOT NULL DEFAULT 'pending',
+      resolved_by VARCHAR(255),
+      resolution_note TEXT,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+      resolved_at TIMESTAMP WITH TIME ZONE
+    )
+  `;
+
+  // Only one open dispute per tribute
+  await sql`
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_tribute_disputes_pending
+    ON tribute_disputes(tribute_id) WHERE status = 'pending'
+  `;
+  await sql`CREATE INDEX IF NOT EXISTS idx_tribute_disputes_status ON tribute_disputes(status, created_at DESC)`;
+
+  console.log('[TributeDisputes] Table initialized');
+}
+
+// ============ PURE HELPERS ============
+
+/**
+ * Whether a reaction emoji is the dispute emoji (⚖️, with or without the variation selector)
+ */
+export function isDisputeEmoji(emojiName: string | null | undefined): boolean {
+  return !!emojiName && emojiName.startsWith('⚖');
+}
+
+/**
+ * Work out the correction an approval applies.
+ * Admin overrides win over the user's proposal, which wins over the stored
+ * values. The score is recalculated from the guild's rules unless overridden.
+ */
+export function resolveDisputeCorrection(
+  tribute: { category: string; drinkName?: string | null; isFriday: boolean },
+  proposal: { category?: string | null; drinkName?: string | null },
+  overrides: { category?: string; drinkName?: string | null; score?: number },
+  rules: ScoringRules
+): Required<TributeCorrection> {
+  const category = overrides.category || proposal.category || tribute.category;
+  const drinkName = overrides.drinkName !== undefined
+    ? overrides.drinkName || null
+    : proposal.drinkName || tribute.drinkName || null;
+  const score = overrides.score ?? calculateTributeScore(rules, {
+    category,
+    drinkName,
+    isFriday: tribute.isFriday,
+  });
+
+  return { category, drinkName, score };
+}
+
+// ============ CRUD ============
+
+/**
+ * Open a dispute for a tribute. If one is already pending, that dispute is
+ * returned instead (created = false).
+ */
+export async function createDispute(
+  input: CreateDisputeInput
+): Promise<{ dispute: TributeDispute; created: boolean }> {
+  if (!sql) throw new Error('Database not available');
+
+  // The pending dispute we collided with may be resolved before we read it;
+  // then nothing blocks the insert any more, so try again
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const inserted = await sql`
+      INSERT INTO tribute_disputes (
+        tribute_id, guild_id, user_id, source, reason, proposed_category, proposed_drink_name
+      )
+      VALUES (
+        ${input.tributeId}, ${input.guildId}, ${input.userId}, ${input.source},
+        ${input.reason ?? null}, ${input.proposedCategory ?? null}, ${input.proposedDrinkName ?? null}
+      )
+      ON CONFLICT (tribute_id) WHERE status = 'pending' DO NOTHING
+      RETURNING *
+    `;
+
+    if (inserted.length > 0) {
+      return { dispute: rowToDispute(inserted[0]), created: true };
+    }
+
+    const existing = await sql`
+      SELECT * FROM tribute_disputes
+      WHERE tribute_id = ${input.tributeId} AND status = 'pending'
+    `;
+    if (existing.length > 0) {
+      return { dispute: rowToDispute(existing[0]), created: false };
+    }
+  }
+
+  throw new Error(`Disputes for tribute ${input.tributeId} kept changing; try again`);
+}
+
+/**
+ * List disputes with their tribute, newest first
+ */
+export async function getDisputes(options: {
+  status?: DisputeStatus;
+  guildId?: string;
+  limit?: number;
+} = {}): Promise<DisputeWithTribute[]> {
+  if (!sql) return [];
+
+  const { status, guildId, limit = 100 } = options;
+
+  const rows = await sql`
+    SELECT d.*,
+           t.username AS tribute_username, t.image_url AS tribute_image_url,
+           t.category AS tribute_category, t.drink_name AS tribute_drink_name,
+           t.score AS tribute_score, t.is_friday AS tribute_is_friday,
+           t.created_at AS tribute_created_at
+    FROM tribute_disputes d
+    JOIN tributes t ON t.id = d.tribute_id
+    WHERE TRUE
+    ${status ? sql`AND d.status = ${status}` : sql``}
+    ${guildId ? sql`AND d.guild_id = ${guildId}` : sql``}
+    ORDER BY d.created_at DESC
+    LIMIT ${limit}
+  `;
+
+  return rows.map(row => ({
+    ...rowToDispute(row),
+    tribute: {
+      username: row.tribute_username as string,
+      imageUrl: row.tribute_image_url as string | null,
+      category: row.tribute_category as string,
+      drinkName: row.tribute_drink_name as string | null,
+      score: Number(row.tribute_score),
+      isFriday: Boolean(row.tribute_is_friday),
+      createdAt: new Date(row.tribute_created_at as string),
+    },
+  }));
+}
+
+/**
+ * Approve a pending dispute and correct the tribute.
+ * Returns null when the dispute doesn't exist or is no longer pending.
+ */
+export async function approveDispute(id: number, approval: DisputeApproval): Promise<TributeDispute | null> {
+  if (!sql) throw new Error('Database not available');
+
+  // Claim the dispute first so two admins can't approve it twice
+  const claimed = await sql`
+    UPDATE tribute_disputes SET
+      status = 'approved',
+      resolved_by = ${approval.resolvedBy},
+      resolution_note = ${approval.note ?? null},
+      resolved_at = CURRENT_TIMESTAMP
+    WHERE id = ${id} AND status = 'pending'
+    RETURNING *
+  `;
+  if (claimed.length === 0) return null;
+
+  const dispute = rowToDispute(claimed[0]);
+
+  try {
+    const tribute = await getTributeById(dispute.tributeId);
+    if (!tribute) throw new Error(`Tribute ${dispute.tributeId} not found`);
+
+    const [rules, categories] = await Promise.all([
+      getScoringRules(tribute.guildId),
+      getCategories(tribute.guildId),
+    ]);
+
+    const correction = resolveDisputeCorrection(
+      tribute,
+      { category: dispute.proposedCategory, drinkName: dispute.proposedDrinkName },
+      {
+        category: approval.category ? resolveCategoryKey(approval.category, categories) : undefined,
+        drinkName: approval.drinkName,
+        score: approval.score,
+      },
+      rules
+    );
+
+    await applyTributeCorrection(dispute.tributeId, correction, {
+      changedBy: approval.resolvedBy,
+      reason: approval.note ?? dispute.reason,
+      disputeId: dispute.id,
+    });
+  } catch (error) {
+    // Put the dispute back in the queue so it can be retried
+    await sql`
+      UPDATE tribute_disputes SET
+        status = 'pending', resolved_by = NULL, resolution_note = NULL, resolved_at = NULL
+      WHERE id = ${id}
+    `;
+    throw error;
+  }
+
+  console.log(`[TributeDisputes] Dispute ${id} approved by ${approval.resolvedBy}`);
+  return dispute;
+}
+
+/**
+ * Reject a pending dispute. The tribute is left unchanged.
+ */
+export async function rejectDispute(
+  id: number,
+  resolvedBy: string,
+  note?: string | null
+): Promise<TributeDispute | null> {
+  if (!sql) throw new Error('Database not available');
+
+  const result = await sql`
+    UPDATE tribute_disputes SET
+      status = 'rejected',
+      resolved_by = ${resolvedBy},
+      resolution_note = ${note ?? null},
+      resolved_at = CURRENT_TIMESTAMP
+    WHERE id = ${id} AND status = 'pending'
+    RETURNING *
+  `;
+
+  return result.length > 0 ? rowToDispute(result[0]) : null;
+}
+
+// ============ HELPERS ============
+
+function rowToDispute(row: Record<string, unknown>): TributeDispute {
+  return {
+    id: Number(row.id),
+    tributeId: Number(row.tribute_id),
+    guildId: row.guild_id as string,
+    userId: row.user_id as string,
+    source: row.source as DisputeSource,
+    reason: row.reason as string | null,
+    proposedCategory: row.proposed_category as string | null,
+    proposedDrinkName: row.proposed_drink_name as string | null,
+    status: row.status as DisputeStatus,
+    resolvedBy: row.resolved_by as string | null,
+    resolutionNote: row.resolution_note as string | null,
+    createdAt: new Date(row.created_at as string),
+    resolvedAt: row.resolved_at ? new Date(row.resolved_at as string) : null,
+  };
+}
@@ -0,0 +1,218 @@
+/**
+ * Tribute Gallery Service
+ *
+ * Admin browsing and moderation of recorded tributes: a filtered, paginated
+ * listing, inline corrections (recorded in tribute_history) and deletion of
+ * fraudulent entries.
+ */
+
+import { sql, getTributeById, withTransaction } from '../db';
+import { applyTributeCorrection, type TributeHistoryEntry } from './tributeHistory';
+import { getScoringRules, calculateTributeScore } from './scoringRules';
+import { getGuildTimezone } from './guildSettings';
+
+// ============ TYPES ============
+
+export interface TributeGalleryFilters {
+  guildId?: string;
+  userId?: string;
+  category?: string;
+  from?: string;  // YYYY-MM-DD, inclusive, in the guild's timezone
+  to?: string;    // YYYY-MM-DD, inclusive
+  isFriday?: boolean;
+  page: number;   // 1-based
+  pageSize: number;
+}
+
+export interface GalleryTribute {
+  id: number;
+  userId: string;
+  username: string;
+  guildId: string;
+  channelId: string | null;
+  isDm: boolean;
+  imageUrl: string | null;
+  category: string;
+  drinkName: string | null;
+  description: string | null;
+  aiResponse: string | null;
+  score: number;
+  isFriday: boolean;
+  duplicateOf: number | null;
+  createdAt: Date;
+}
+
+export interface TributeGalleryPage {
+  tributes: GalleryTribute[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+// ============ CONSTANTS ============
+
+export const DEFAULT_GALLERY_PAGE_SIZE = 24;
+export const MAX_GALLERY_PAGE_SIZE = 100;
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// ============ PURE HELPERS ============
+
+/**
+ * Parse gallery filters from query parameters, dropping anything invalid
+ */
+export function parseGalleryFilters(params: URLSearchParams): TributeGalleryFilters {
+  const text = (name: string) => params.get(name)?.trim() || undefined;
+  const date = (name: string) => {
+    const value = text(name);
+    return value && DATE_KEY_PATTERN.test(value) && !Number.isNaN(Date.parse(value)) ? value : undefined;
+  };
+
+  const page = Math.max(1, Math.floor(Number(params.get('page')) || 1));
+  const pageSize = Math.min(
+    MAX_GALLERY_PAGE_SIZE,
+    Math.max(1, Math.floor(Number(params.get('pageSize')) || DEFAULT_GALLERY_PAGE_SIZE))
+  );
+  const friday = params.get('friday');
+
+  return {
+    guildId: text('guildId'),
+    userId: text('userId'),
+    category: text('category')?.toUpperCase(),
+    from: date('from'),
+    to: date('to'),
+    isFriday: friday === 'true' ? true : friday === 'false' ? false : undefined,
+    page,
+    pageSize,
+  };
+}
+
+// ============ QUERIES ============
+
+/**
+ * One page of tributes matching the filters (newest first)
+ */
+export async function searchTributes(filters: TributeGalleryFilters): Promise<TributeGalleryPage> {
+  const { page, pageSize } = filters;
+  if (!sql) return { tributes: [], total: 0, page, pageSize };
+
+  // Date ranges follow the guild's calendar; across guilds the default timezone
+  const timeZone = await getGuildTimezone(filters.guildId);
+
+  const where = sql`
+    WHERE TRUE
+    ${filters.guildId ? sql`AND guild_id = ${filters.guildId}` : sql``}
+    ${filters.userId ? sql`AND user_id = ${filters.userId}` : sql``}
+    ${filters.category ? sql`AND category = ${filters.category}` : sql``}
+    ${filters.from ? sql`AND DATE(created_at AT TIME ZONE ${timeZone}) >= ${filters.from}` : sql``}
+    ${filters.to ? sql`AND DATE(created_at AT TIME ZONE ${timeZone}) <= ${filters.to}` : sql``}
+    ${filters.isFriday !== undefined ? sql`AND is_friday = ${filters.isFriday}` : sql``}
+  `;
+
+  const [rows, countRows] = await Promise.all([
+    sql`
+      SELECT id, user_id, username, guild_id, channel_id, is_dm, image_url,
+             category, drink_name, description, ai_response, score, is_friday,
+             duplicate_of, created_at
+      FROM tributes
+      ${where}
+      ORDER BY created_at DESC, id DESC
+      LIMIT ${pageSize} OFFSET ${(page - 1) * pageSize}
+    `,
+    sql`SELECT COUNT(*) AS count FROM tributes ${where}`,
+  ]);
+
+  return {
+    tributes: rows.map(rowToGalleryTribute),
+    total: Number(countRows[0]?.count ?? 0),
+    page,
+    pageSize,
+  };
+}
+
+/**
+ * Guilds that have tributes, for the gallery filter
+ */
+export async function getTributeGuilds(): Promise<string[]> {
+  if (!sql) return [];
+
+  const rows = await sql`SELECT DISTINCT guild_id FROM tributes ORDER BY guild_id ASC`;
+  return rows.map(r => r.guild_id as string);
+}
+
+// ============ MODERATION ============
+
+/**
+ * Correct a tribute's category, drink name or score from the dashboard.
+ * When the category or drink changes without an explicit score, the score is
+ * recalculated from the guild's scoring rules.
+ */
+export async function correctTribute(
+  id: number,
+  changes: { category?: string; drinkName?: string | null; score?: number },
+  changedBy: string,
+  reason?: string | null
+): Promise<TributeHistoryEntry | null> {
+  const tribute = await getTributeById(id);
+  if (!tribute) return null;
+
+  let score = changes.score;
+  if (score === undefined && (changes.category !== undefined || changes.drinkName !== undefined)) {
+    const rules = await getScoringRules(tribute.guildId);
+    score = calculateTributeScore(rules, {
+      category: changes.category ?? tribute.category,
+      drinkName: changes.drinkName !== undefined ? changes.drinkName : tribute.drinkName,
+      isFriday: tribute.isFriday,
+    });
+  }
+
+  return applyTributeCorrection(
+    id,
+    { category: changes.category, drinkName: changes.drinkName, score },
+    { changedBy, reason: reason ?? 'Edited in tribute gallery' }
+  );
+}
+
+/**
+ * Delete a tribute (e.g. a fraudulent entry). Its history and disputes are
+ * removed with it; tributes flagged as resembling it lose the flag.
+ */
+export async function deleteTribute(id: number, deletedBy: string): Promise<boolean> {
+  if (!sql) throw new Error('Database not available');
+
+  const deleted = await withTransaction(async (tx) => {
+    await tx`UPDATE tributes SET duplicate_of = NULL WHERE duplicate_of = ${id}`;
+    const rows = await tx`
+      DELETE FROM tributes WHERE id = ${id}
+      RETURNING user_id, guild_id, score
+    `;
+    return rows[0] ?? null;
+  });
+
+  if (!deleted) return false;
+
+  console.log(`[TributeGallery] Tribute ${id} (${deleted.user_id} in ${deleted.guild_id}, ${deleted.score}pts) deleted by ${deletedBy}`);
+  return true;
+}
+
+// ============ HELPERS ============
+
+function rowToGalleryTribute(row: Record<string, unknown>): GalleryTribute {
+  return {
+    id: Number(row.id),
+    userId: row.user_id as string,
+    username: row.username as string,
+    guildId: row.guild_id as string,
+    channelId: row.channel_id as string | null,
+    isDm: Boolean(row.is_dm),
+    imageUrl: row.image_url as string | null,
+    category: (row.category as string) || 'OTHER',
+    drinkName: row.drink_name as string | null,
+    description: row.description as string | null,
+    aiResponse: row.ai_response as string | null,
+    score: Number(row.score),
+    isFriday: Boolean(row.is_friday),
+    duplicateOf: row.duplicate_of === null || row.duplicate_of === undefined ? null : Number(row.duplicate_of),
+    createdAt: new Date(row.created_at as string),
+  };
+}
@@ -0,0 +1,156 @@
+/**
+ * Tribute History Service
+ *
+ * Every manual correction of a tribute (category, drink name, score) goes
+ * through applyTributeCorrection, which updates the tributes row and records
+ * the old and new values in tribute_history in the same transaction.
+ */
+
+import { sql, withTransaction } from '../db';
+import { getDrinks, matchDrink } from './drinks';
+
+// ============ TYPES ============
+
+export interface TributeCorrection {
+  category?: string;
+  drinkName?: string | null;
+  score?: number;
+}
+
+export interface TributeCorrectionMeta {
+  changedBy: string;
+  reason?: string | null;
+  disputeId?: number | null;
+}
+
+export interface TributeHistoryEntry {
+  id: number;
+  tributeId: number;
+  changedBy: string;
+  reason: string | null;
+  disputeId: number | null;
+  oldCategory: string;
+  newCategory: string;
+  oldDrinkName: string | null;
+  newDrinkName: string | null;
+  oldScore: number;
+  newScore: number;
+  createdAt: Date;
+}
+
+// ============ DATABASE INITIALIZATION ============
+
+export async function initializeTributeHistoryTable(): Promise<void> {
+  if (!sql) return;
+
+  await sql`
+    CREATE TABLE IF NOT EXISTS tribute_history (
+      id SERIAL PRIMARY KEY,
+      tribute_id INTEGER NOT NULL REFERENCES tributes(id) ON DELETE CASCADE,
+      changed_by VARCHAR(255) NOT NULL,
+      reason TEXT,
+      dispute_id INTEGER,
+      old_category VARCHAR(50),
+      new_category VARCHAR(50),
+      old_drink_name VARCHAR(255),
+      new_drink_name VARCHAR(255),
+      old_score INTEGER,
+      new_score INTEGER,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+    )
+  `;
+
+  await sql`CREATE INDEX IF NOT EXISTS idx_tribute_history_tribute ON tribute_history(tribute_id, created_at DESC)`;
+
+  console.log('[TributeHistory] Table initialized');
+}
+
+// ============ CORRECTIONS ============
+
+/**
+ * Apply a correction to a tribute and record it in the history.
+ * Fields left undefined keep their current value. Returns null when the
+ * tribute doesn't exist.
+ */
+export async function applyTributeCorrection(
+  tributeId: number,
+  changes: TributeCorrection,
+  meta: TributeCorrectionMeta
+): Promise<TributeHistoryEntry | null> {
+  if (!sql) throw new Error('Database not available');
+
+  // A corrected drink name is re-linked to the catalogue (the name is kept as typed)
+  const drinkMatch = changes.drinkName !== undefined ? matchDrink(changes.drinkName, await getDrinks()) : null;
+
+  return withTransaction(async (tx) => {
+    const [current] = await tx`
+      SELECT id, category, drink_name, score FROM tributes
+      WHERE id = ${tributeId}
+      FOR UPDATE
+    `;
+    if (!current) return null;
+
+    const newCategory = changes.category ?? (current.category as string);
+    const newDrinkName = changes.drinkName !== undefined ? changes.drinkName : (current.drink_name as string | null);
+    const newScore = changes.score ?? Number(current.score);
+
+    await tx`
+      UPDATE tributes SET
+        category = ${newCategory},
+        drink_name = ${newDrinkName},
+        ${changes.drinkName !== undefined ? tx`drink_id = ${drinkMatch?.drink.id ?? null}, raw_drink_name = NULL,` : tx``}
+        score = ${newScore}
+      WHERE id = ${tributeId}
+    `;
+
+    const [row] = await tx`
+      INSERT INTO tribute_history (
+        tribute_id, changed_by, reason, dispute_id,
+        old_category, new_category, old_drink_name, new_drink_name, old_score, new_score
+      )
+      VALUES (
+        ${tributeId}, ${meta.changedBy}, ${meta.reason ?? null}, ${meta.disputeId ?? null},
+        ${current.category as string}, ${newCategory},
+        ${current.drink_name as string | null}, ${newDrinkName},
+        ${Number(current.score)}, ${newScore}
+      )
+      RETURNING *
+    `;
+
+    return rowToHistoryEntry(row);
+  });
+}
+
+/**
+ * Get the correction history of a tribute (newest first)
+ */
+export async function getTributeHistory(tributeId: number): Promise<TributeHistoryEntry[]> {
+  if (!sql) return [];
+
+  const result = await sql`
+    SELECT * FROM tribute_history
+    WHERE tribute_id = ${tributeId}
+    ORDER BY created_at DESC
+  `;
+
+  return result.map(rowToHistoryEntry);
+}
+
+// ============ HELPERS ============
+
+function rowToHistoryEntry(row: Record<string, unknown>): TributeHistoryEntry {
+  return {
+    id: Number(row.id),
+    tributeId: Number(row.tribute_id),
+    changedBy: row.changed_by as string,
+    reason: row.reason as string | null,
+    disputeId: row.dispute_id === null ? null : Number(row.dispute_id),
+    oldCategory: row.old_category as string,
+    newCategory: row.new_category as string,
+    oldDrinkName: row.old_drink_name as string | null,
+    newDrinkName: row.new_drink_name as string | null,
+    oldScore: Number(row.old_score),
+    newScore: Number(row.new_score),
+    createdAt: new Date(row.created_at as string),
+  };
+}
@@ -0,0 +1,135 @@
+/**
+ * Tribute Images
+ *
+ * Downloads a tribute image once so screening, AI analysis and storage all
+ * share the same bytes, then persists accepted images to blob storage.
+ * Discord CDN URLs carry expiring signatures, so the stored copy's URL is what
+ * ends up in tributes.image_url; the original is kept in source_image_url.
+ */
+
+import { createHash } from 'crypto';
+import sharp from 'sharp';
+import { getBlobStorage } from './blobStorage';
+
+// ============ TYPES ============
+
+export interface DownloadedImage {
+  sourceUrl: string;
+  bytes: Buffer;
+  contentType: string | null;  // as reported by the server
+}
+
+export interface ImageDetails {
+  sha256: string;
+  width: number | null;
+  height: number | null;
+  mimeType: string;
+}
+
+export interface StoredImage extends ImageDetails {
+  url: string;        // stable URL, or the source URL when storage is disabled or failed
+  sourceUrl: string;
+}
+
+// ============ CONSTANTS ============
+
+const FETCH_TIMEOUT_MS = 10_000;
+
+/** sharp format names -> MIME types */
+const FORMAT_MIME_TYPES: Record<string, string> = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  gif: 'image/gif',
+  avif: 'image/avif',
+  heif: 'image/heif',
+  tiff: 'image/tiff',
+  svg: 'image/svg+xml',
+};
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/avif': 'avif',
+  'image/heif': 'heic',
+  'image/tiff': 'tiff',
+  'image/svg+xml': 'svg',
+};
+
+// ============ PURE HELPERS ============
+
+/**
+ * Storage key for an image. Content-addressed, so offering the same bytes
+ * twice stores a single copy.
+ */
+export function buildImageKey(details: Pick<ImageDetails, 'sha256' | 'mimeType'>): string {
+  const extension = MIME_EXTENSIONS[details.mimeType] ?? 'bin';
+  return `tributes/${details.sha256.slice(0, 2)}/${details.sha256}.${extension}`;
+}
+
+// ============ IMAGE HANDLING ============
+
+/**
+ * Fetch an image. Returns null (and logs) when it can't be downloaded.
+ */
+export async function downloadImage(url: string): Promise<DownloadedImage | null> {
+  try {
+    const response = await fetch(url, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+    if (!response.ok) {
+      console.error('[TributeImages] Failed to fetch image:', response.status, response.statusText);
+      return null;
+    }
+    return {
+      sourceUrl: url,
+      bytes: Buffer.from(await response.arrayBuffer()),
+      contentType: response.headers.get('content-type'),
+    };
+  } catch (error) {
+    console.error('[TributeImages] Failed to fetch image:', (error as Error).message || error);
+    return null;
+  }
+}
+
+/**
+ * Content hash, dimensions and MIME type of an image. The type comes from the
+ * decoded bytes; the server's Content-Type is only a fallback for formats
+ * sharp can't read.
+ */
+export async function describeImage(bytes: Buffer, contentType?: string | null): Promise<ImageDetails> {
+  const sha256 = createHash('sha256').update(bytes).digest('hex');
+  const fallbackMime = contentType?.split(';')[0].trim().toLowerCase() || 'application/octet-stream';
+
+  try {
+    const metadata = await sharp(bytes).metadata();
+    return {
+      sha256,
+      width: metadata.width ?? null,
+      height: metadata.height ?? null,
+      mimeType: (metadata.format && FORMAT_MIME_TYPES[metadata.format]) || fallbackMime,
+    };
+  } catch {
+    return { sha256, width: null, height: null, mimeType: fallbackMime };
+  }
+}
+
+/**
+ * Describe an image and copy it to blob storage. Fails open: if storage is
+ * disabled or the upload fails, the source URL is kept.
+ */
+export async function persistTributeImage(image: DownloadedImage): Promise<StoredImage> {
+  const details = await describeImage(image.bytes, image.contentType);
+  const storage = getBlobStorage();
+
+  if (storage) {
+    try {
+      const url = await storage.put(buildImageKey(details), image.bytes, details.mimeType);
+      return { ...details, url, sourceUrl: image.sourceUrl };
+    } catch (error) {
+      console.error(`[TributeImages] Failed to store image (${storage.name}):`, (error as Error).message || error);
+    }
+  }
+
+  return { ...details, url: image.sourceUrl, sourceUrl: image.sourceUrl };
+}
@@ -0,0 +1,503 @@
+/**
+ * Tribute Transfer Service
+ *
+ * Export and import of the tributes table as CSV or JSON, for moving history
+ * between environments and for offline analysis.
+ *
+ * Imports are idempotent: a tribute is identified by (user, guild, created_at),
+ * so re-importing the same file changes nothing. A record whose identity
+ * already exists with different content is reported as a conflict and left
+ * alone. Records in the legacy BeerPost shape ({ userId, username, timestamp,
+ * imageUrl, guildId }) are accepted and filled in with defaults.
+ *
+ * Imported tributes don't unlock achievements or touch archived season
+ * standings; run a score recalculation afterwards if the rules changed.
+ */
+
+import { sql, withTransaction, type Transaction } from '../db';
+import { getScoringRules, calculateTributeScore, type ScoringRules } from './scoringRules';
+import { getGuildTimezone } from './guildSettings';
+import { getFridayKey, getWeekday } from './timezone';
+
+// ============ TYPES ============
+
+export type TransferFormat = 'csv' | 'json';
+
+export interface TributeExportFilters {
+  guildId?: string;
+  from?: string;  // YYYY-MM-DD, inclusive, in the guild's timezone
+  to?: string;    // YYYY-MM-DD, inclusive
+}
+
+/** Portable tribute row. Links to other rows (duplicate_of, reply_message_id) are left out. */
+export interface TributeExportRow {
+  id: number | null;  // informational; never reused on import
+  userId: string;
+  username: string;
+  guildId: string;
+  channelId: string | null;
+  isDm: boolean;
+  category: string;
+  drinkName: string | null;
+  description: string | null;
+  aiResponse: string | null;
+  score: number;
+  fridayKey: string;
+  isFriday: boolean;
+  imageUrl: string | null;
+  sourceImageUrl: string | null;
+  imageHash: string | null;
+  imageSha256: string | null;
+  imageWidth: number | null;
+  imageHeight: number | null;
+  imageMime: string | null;
+  createdAt: string;  // ISO 8601
+}
+
+export interface ImportConflict {
+  index: number;  // 0-based position in the input
+  userId: string;
+  guildId: string;
+  createdAt: string;
+  existingId: number;
+  differences: string[];
+}
+
+export interface ImportIssue {
+  index: number;
+  error: string;
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  total: number;
+  inserted: number;   // would be inserted, on a dry run
+  skipped: number;    // already present with the same content
+  conflicts: ImportConflict[];
+  invalid: ImportIssue[];
+}
+
+// ============ CONSTANTS ============
+
+/** CSV column order (also the JSON field order) */
+export const TRIBUTE_EXPORT_COLUMNS: (keyof TributeExportRow)[] = [
+  'id', 'userId', 'username', 'guildId', 'channelId', 'isDm',
+  'category', 'drinkName', 'description', 'aiResponse', 'score',
+  'fridayKey', 'isFriday', 'imageUrl', 'sourceImageUrl', 'imageHash',
+  'imageSha256', 'imageWidth', 'imageHeight', 'imageMime', 'createdAt',
+];
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// ============ CSV ============
+
+function escapeCsvValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serialize rows to CSV (RFC 4180, header row first)
+ */
+export function tributesToCsv(rows: TributeExportRow[]): string {
+  const lines = [TRIBUTE_EXPORT_COLUMNS.join(',')];
+  for (const row of rows) {
+    lines.push(TRIBUTE_EXPORT_COLUMNS.map(column => escapeCsvValue(row[column])).join(','));
+  }
+  return lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * Parse CSV into one object per row, keyed by the header row. Handles quoted
+ * fields with commas, escaped quotes and line breaks. Empty cells are omitted.
+ */
+export function parseCsv(text: string): Record<string, string>[] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const input = text.replace(/^\uFEFF/, '');  // byte order mark from spreadsheet exports
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header, ...body] = rows.filter(r => r.some(cell => cell.trim() !== ''));
+  if (!header) return [];
+
+  const columns = header.map(name => name.trim());
+  return body.map(cells => {
+    const record: Record<string, string> = {};
+    columns.forEach((column, i) => {
+      if (column && cells[i] !== undefined && cells[i] !== '') record[column] = cells[i];
+    });
+    return record;
+  });
+}
+
+/**
+ * Parse an import file into raw records. JSON may be an array, an export
+ * ({ tributes: [...] }) or a legacy Friday status ({ posts: [...] }).
+ */
+export function parseTributeImport(content: string, format: TransferFormat): unknown[] {
+  if (format === 'csv') return parseCsv(content);
+
+  const data = JSON.parse(content) as unknown;
+  if (Array.isArray(data)) return data;
+  if (data && typeof data === 'object') {
+    const wrapper = data as { tributes?: unknown; posts?: unknown };
+    if (Array.isArray(wrapper.tributes)) return wrapper.tributes;
+    if (Array.isArray(wrapper.posts)) return wrapper.posts;
+  }
+  throw new Error('Expected a JSON array of tributes, or an object with a "tributes" array');
+}
+
+// ============ NORMALIZATION ============
+
+function readField(raw: Record<string, unknown>, camel: string, snake: string): unknown {
+  return raw[camel] ?? raw[snake];
+}
+
+function toText(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  const text = String(value).trim();
+  return text === '' ? null : text;
+}
+
+function toNumber(value: unknown): number | null {
+  const text = toText(value);
+  if (text === null) return null;
+  const number = Number(text);
+  return Number.isFinite(number) ? number : null;
+}
+
+function toBoolean(value: unknown): boolean | null {
+  if (typeof value === 'boolean') return value;
+  const text = toText(value)?.toLowerCase();
+  if (text === 'true' || text === '1' || text === 't') return true;
+  if (text === 'false' || text === '0' || text === 'f') return false;
+  return null;
+}
+
+/**
+ * Guild id of a raw record, so callers can look up the guild's timezone and
+ * scoring rules before normalizing it
+ */
+export function getRawGuildId(raw: unknown): string | null {
+  if (!raw || typeof raw !== 'object') return null;
+  return toText(readField(raw as Record<string, unknown>, 'guildId', 'guild_id'));
+}
+
+/**
+ * Turn an imported record (export shape, snake_case columns or legacy
+ * BeerPost) into a complete tribute row. Missing Friday fields are derived
+ * from created_at in the guild's timezone; a missing score is calculated with
+ * the guild's scoring rules.
+ */
+export function normalizeImportRecord(
+  raw: unknown,
+  context: { timeZone: string; rules: ScoringRules }
+): { row: TributeExportRow } | { error: string } {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { error: 'Record is not an object' };
+  }
+  const record = raw as Record<string, unknown>;
+
+  const userId = toText(readField(record, 'userId', 'user_id'));
+  const guildId = toText(readField(record, 'guildId', 'guild_id'));
+  // BeerPost used `timestamp`
+  const createdAtText = toText(readField(record, 'createdAt', 'created_at') ?? record.timestamp);
+
+  if (!userId) return { error: 'userId is required' };
+  if (!guildId) return { error: 'guildId is required' };
+  if (!createdAtText) return { error: 'createdAt (or timestamp) is required' };
+
+  const createdAt = new Date(createdAtText);
+  if (Number.isNaN(createdAt.getTime())) return { error: `Invalid createdAt "${createdAtText}"` };
+
+  const fridayKeyText = toText(readField(record, 'fridayKey', 'friday_key'));
+  if (fridayKeyText && !DATE_KEY_PATTERN.test(fridayKeyText)) {
+    return { error: `Invalid fridayKey "${fridayKeyText}"` };
+  }
+
+  const score = toNumber(record.score);
+  if (score !== null && score < 0) return { error: 'score cannot be negative' };
+
+  const category = toText(record.category)?.toUpperCase() ?? 'OTHER';
+  const drinkName = toText(readField(record, 'drinkName', 'drink_name'));
+  const isFriday = toBoolean(readField(record, 'isFriday', 'is_friday'))
+    ?? getWeekday(createdAt, context.timeZone) === 5;
+
+  return {
+    row: {
+      id: toNumber(record.id),
+      userId,
+      username: toText(record.username) ?? userId,
+      guildId,
+      channelId: toText(readField(record, 'channelId', 'channel_id')),
+      isDm: toBoolean(readField(record, 'isDm', 'is_dm')) ?? guildId === 'dm',
+      category,
+      drinkName,
+      description: toText(record.description),
+      aiResponse: toText(readField(record, 'aiResponse', 'ai_response')),
+      score: score !== null
+        ? Math.round(score)
+        : calculateTributeScore(context.rules, { category, drinkName, isFriday }),
+      fridayKey: fridayKeyText ?? getFridayKey(createdAt, context.timeZone),
+      isFriday,
+      imageUrl: toText(readField(record, 'imageUrl', 'image_url')),
+      sourceImageUrl: toText(readField(record, 'sourceImageUrl', 'source_image_url')),
+      imageHash: toText(readField(record, 'imageHash', 'image_hash')),
+      imageSha256: toText(readField(record, 'imageSha256', 'image_sha256')),
+      imageWidth: toNumber(readField(record, 'imageWidth', 'image_width')),
+      imageHeight: toNumber(readField(record, 'imageHeight', 'image_height')),
+      imageMime: toText(readField(record, 'imageMime', 'image_mime')),
+      createdAt: createdAt.toISOString(),
+    },
+  };
+}
+
+/**
+ * Fields that differ between an imported row and the stored tribute with the
+ * same identity, as "field: stored -> imported"
+ */
+export function diffTributeRows(
+  existing: Pick<TributeExportRow, 'category' | 'drinkName' | 'score'>,
+  incoming: Pick<TributeExportRow, 'category' | 'drinkName' | 'score'>
+): string[] {
+  const differences: string[] = [];
+  for (const field of ['category', 'drinkName', 'score'] as const) {
+    if ((existing[field] ?? null) !== (incoming[field] ?? null)) {
+      differences.push(`${field}: ${existing[field] ?? '(none)'} -> ${incoming[field] ?? '(none)'}`);
+    }
+  }
+  return differences;
+}
+
+/**
+ * Human-readable summary of an import, for the CLI and the dashboard
+ */
+export function formatImportReport(report: ImportReport): string {
+  const lines = [
+    `${report.dryRun ? 'Dry run: ' : ''}${report.total} record${report.total !== 1 ? 's' : ''} read`,
+    `  ${report.dryRun ? 'Would insert' : 'Inserted'}: ${report.inserted}`,
+    `  Already present: ${report.skipped}`,
+    `  Conflicts: ${report.conflicts.length}`,
+    `  Invalid: ${report.invalid.length}`,
+  ];
+  for (const conflict of report.conflicts) {
+    lines.push(`  ! #${conflict.index + 1} matches tribute ${conflict.existingId} (${conflict.userId} at ${conflict.createdAt}): ${conflict.differences.join(', ')}`);
+  }
+  for (const issue of report.invalid) {
+    lines.push(`  x #${issue.index + 1}: ${issue.error}`);
+  }
+  return lines.join('\n');
+}
+
+// ============ EXPORT ============
+
+/**
+ * All tributes matching the filters, oldest first
+ */
+export async function exportTributes(filters: TributeExportFilters = {}): Promise<TributeExportRow[]> {
+  if (!sql) return [];
+
+  // Date ranges follow the guild's calendar; across guilds the default timezone
+  const timeZone = await getGuildTimezone(filters.guildId);
+
+  const rows = await sql`
+    SELECT id, user_id, username, guild_id, channel_id, is_dm, category,
+           drink_name, description, ai_response, score, friday_key::text AS friday_key,
+           is_friday, image_url, source_image_url, image_hash, image_sha256,
+           image_width, image_height, image_mime, created_at
+    FROM tributes
+    WHERE TRUE
+    ${filters.guildId ? sql`AND guild_id = ${filters.guildId}` : sql``}
+    ${filters.from ? sql`AND DATE(created_at AT TIME ZONE ${timeZone}) >= ${filters.from}` : sql``}
+    ${filters.to ? sql`AND DATE(created_at AT TIME ZONE ${timeZone}) <= ${filters.to}` : sql``}
+    ORDER BY created_at ASC, id ASC
+  `;
+
+  return rows.map(rowToExportRow);
+}
+
+/**
+ * Serialize an export in the requested format
+ */
+export function serializeTributeExport(
+  rows: TributeExportRow[],
+  format: TransferFormat,
+  filters: TributeExportFilters = {}
+): string {
+  if (format === 'csv') return tributesToCsv(rows);
+  return JSON.stringify({
+    exportedAt: new Date().toISOString(),
+    filters,
+    count: rows.length,
+    tributes: rows,
+  }, null, 2);
+}
+
+// ============ IMPORT ============
+
+/**
+ * Import raw records. On a dry run nothing is written; the report says what
+ * would happen. Otherwise all inserts happen in one transaction.
+ */
+export async function importTributes(
+  records: unknown[],
+  options: { dryRun?: boolean } = {}
+): Promise<ImportReport> {
+  if (!sql) throw new Error('Database not available');
+
+  const dryRun = options.dryRun ?? false;
+  const report: ImportReport = { dryRun, total: records.length, inserted: 0, skipped: 0, conflicts: [], invalid: [] };
+
+  // Normalize first so a bad file is reported before anything is written
+  const contexts = new Map<string, { timeZone: string; rules: ScoringRules }>();
+  const rows: { index: number; row: TributeExportRow }[] = [];
+  for (const [index, raw] of records.entries()) {
+    const guildId = getRawGuildId(raw) ?? 'dm';
+    if (!contexts.has(guildId)) {
+      const [timeZone, rules] = await Promise.all([getGuildTimezone(guildId), getScoringRules(guildId)]);
+      contexts.set(guildId, { timeZone, rules });
+    }
+    const result = normalizeImportRecord(raw, contexts.get(guildId)!);
+    if ('error' in result) {
+      report.invalid.push({ index, error: result.error });
+    } else {
+      rows.push({ index, row: result.row });
+    }
+  }
+
+  const run = async (db: Transaction | NonNullable<typeof sql>) => {
+    const seen = new Set<string>();
+
+    for (const { index, row } of rows) {
+      const identity = `${row.userId}|${row.guildId}|${row.createdAt}`;
+      if (seen.has(identity)) {
+        report.skipped++;
+        continue;
+      }
+      seen.add(identity);
+
+      // created_at is stored with microseconds but exported with milliseconds
+      const createdAt = new Date(row.createdAt);
+      const existing = await db`
+        SELECT id, category, drink_name, score FROM tributes
+        WHERE user_id = ${row.userId} AND guild_id = ${row.guildId}
+          AND created_at >= ${createdAt}
+          AND created_at < ${new Date(createdAt.getTime() + 1)}
+        ORDER BY id ASC
+        LIMIT 1
+      `;
+
+      if (existing.length > 0) {
+        const stored = existing[0];
+        const differences = diffTributeRows(
+          { category: stored.category as string, drinkName: stored.drink_name as string | null, score: Number(stored.score) },
+          row
+        );
+        if (differences.length === 0) {
+          report.skipped++;
+        } else {
+          report.conflicts.push({
+            index,
+            userId: row.userId,
+            guildId: row.guildId,
+            createdAt: row.createdAt,
+            existingId: Number(stored.id),
+            differences,
+          });
+        }
+        continue;
+      }
+
+      if (!dryRun) {
+        await db`
+          INSERT INTO tributes (
+            user_id, username, guild_id, channel_id, is_dm, category, drink_name,
+            description, ai_response, score, friday_key, is_friday, image_url,
+            source_image_url, image_hash, image_sha256, image_width, image_height,
+            image_mime, created_at
+          )
+          VALUES (
+            ${row.userId}, ${row.username}, ${row.guildId}, ${row.channelId}, ${row.isDm},
+            ${row.category}, ${row.drinkName}, ${row.description}, ${row.aiResponse},
+            ${row.score}, ${row.fridayKey}, ${row.isFriday}, ${row.imageUrl},
+            ${row.sourceImageUrl}, ${row.imageHash}, ${row.imageSha256},
+            ${row.imageWidth}, ${row.imageHeight}, ${row.imageMime}, ${createdAt}
+          )
+        `;
+      }
+      report.inserted++;
+    }
+  };
+
+  if (dryRun) {
+    await run(sql);
+  } else {
+    await withTransaction(run);
+    console.log(`[TributeTransfer] Imported ${report.inserted} tributes (${report.skipped} already present, ${report.conflicts.length} conflicts, ${report.invalid.length} invalid)`);
+  }
+
+  return report;
+}
+
+// ============ HELPERS ============
+
+function rowToExportRow(row: Record<string, unknown>): TributeExportRow {
+  const nullableNumber = (value: unknown) => (value === null || value === undefined ? null : Number(value));
+
+  return {
+    id: Number(row.id),
+    userId: row.user_id as string,
+    username: row.username as string,
+    guildId: row.guild_id as string,
+    channelId: row.channel_id as string | null,
+    isDm: Boolean(row.is_dm),
+    category: (row.category as string) || 'OTHER',
+    drinkName: row.drink_name as string | null,
+    description: row.description as string | null,
+    aiResponse: row.ai_response as string | null,
+    score: Number(row.score),
+    fridayKey: row.friday_key as string,
+    isFriday: Boolean(row.is_friday),
+    imageUrl: row.image_url as string | null,
+    sourceImageUrl: row.source_image_url as string | null,
+    imageHash: row.image_hash as string | null,
+    imageSha256: row.image_sha256 as string | null,
+    imageWidth: nullableNumber(row.image_width),
+    imageHeight: nullableNumber(row.image_height),
+    imageMime: row.image_mime as string | null,
+    createdAt: new Date(row.created_at as string).toISOString(),
+  };
+}
@@ -13,6 +13,11 @@ import {
   TIKI_TRIBUTE_PHRASES,
   NO_TRIBUTES_PHRASES,
   TRIBUTES_RECEIVED_STATUS,
+  DISPUTE_RECEIVED_PHRASES,
+  DISPUTE_PENDING_PHRASES,
+  DUPLICATE_TRIBUTE_PHRASES,
+  RECYCLED_TRIBUTE_PHRASES,
+  SIMILAR_TRIBUTE_PHRASES,
 } from './personality';
 
 import {
@@ -22,6 +27,7 @@ import {
   getDailyStats,
   getFridayStats,
   getPrivateStats,
+  getDistinctDrinkCount,
   getAllTimeLeaderboard,
   getDailyLeaderboard,
   getFridayLeaderboard,
@@ -31,6 +37,8 @@ import {
   isFriday,
   getAIContext,
   formatLeaderboardForAI,
+  getTributeById,
+  getLatestUserTribute,
   type TributeRecord,
   type UserStats,
   type DetailedUserStats,
@@ -38,6 +46,49 @@ import {
   type FridayStatus,
 } from './db';
 
+import {
+  getScoringRules,
+  calculateTributeScore,
+  formatCategoryLabel,
+  DEFAULT_SCORING_RULES,
+  type ScoringRules,
+} from './services/scoringRules';
+import {
+  getCategories,
+  resolveCategoryKey,
+  normalizeCategoryKey,
+  FALLBACK_CATEGORY_KEY,
+} from './services/tributeCategories';
+import { createDispute, type DisputeSource } from './services/tributeDisputes';
+import { getGuildTimezone } from './services/guildSettings';
+import { screenTributeImage, type ImageScreening } from './services/imageHash';
+import { downloadImage, persistTributeImage, type DownloadedImage } from './services/tributeImages';
+import {
+  checkAchievements,
+  formatAchievementAnnouncement,
+  type AchievementDefinition,
+} from './services/achievements';
+import { getDrinks, matchDrink } from './services/drinks';
+import {
+  parseJournalRange,
+  getJournalPage,
+  formatJournalPage,
+  buildJournalComponents,
+  type JournalState,
+} from './services/journal';
+import {
+  getTeams,
+  getUserTeam,
+  findTeamByName,
+  findRoleTeam,
+  joinTeam,
+  leaveTeam,
+  syncRoleTeam,
+  getTeamStandings,
+  formatTeamStandings,
+} from './services/teams';
+import type { Component } from './types';
+
 // Re-export types and functions from db
 export {
   getCurrentFridayKey,
@@ -66,30 +117,41 @@ export interface TributePost {
   channelId?: string;
   imageUrl?: string;
   timestamp: string;
+  screening?: ImageScreening;  // duplicate check result for imageUrl
+  image?: DownloadedImage | null;  // bytes of imageUrl, copied to blob storage on record
 }
 
 /**
  * Record a tribute to the database
+ * The score is calculated from the guild's scoring rules. Returns the new id,
+ * the recorded score and any achievements the tribute unlocked.
  */
 export async function recordTributePost(
   post: TributePost,
-  score: number = 1,
-  category: 'TIKI' | 'COCKTAIL' | 'BEER_WINE' | 'OTHER' = 'OTHER',
+  category: string = 'OTHER',
   drinkName?: string,
   description?: string,
-  aiResponse?: string
-): Promise<void> {
-  const fridayKey = getCurrentFridayKey();
+  aiResponse?: string,
+  drinkMatch?: Pick<TributeAnalysis, 'drinkId' | 'rawDrinkName'>
+): Promise<{ id: number; score: number; achievements: AchievementDefinition[] }> {
+  const timeZone = await getGuildTimezone(post.guildId);
+  const fridayKey = getCurrentFridayKey(timeZone);
   const isDm = post.guildId === 'dm';
-  const isSpecialDay = isFriday();
+  const isSpecialDay = isFriday(timeZone);
 
-  await recordTribute({
+  const rules = await getScoringRules(post.guildId);
+  const score = calculateTributeScore(rules, { category, drinkName, isFriday: isSpecialDay });
+
+  // Discord CDN URLs expire; keep our own copy of the image
+  const stored = post.image ? await persistTributeImage(post.image) : null;
+
+  const id = await recordTribute({
     userId: post.userId,
     username: post.username,
     guildId: post.guildId,
     channelId: post.channelId,
     isDm,
-    imageUrl: post.imageUrl,
+    imageUrl: stored?.url ?? post.imageUrl,
     category,
     drinkName,
     description,
@@ -97,7 +159,47 @@ export async function recordTributePost(
     score,
     fridayKey,
     isFriday: isSpecialDay,
+    imageHash: post.screening?.hash ?? undefined,
+    duplicateOf: post.screening?.verdict === 'similar' ? post.screening.match?.tributeId : undefined,
+    sourceImageUrl: stored && stored.url !== stored.sourceUrl ? stored.sourceUrl : undefined,
+    imageSha256: stored?.sha256,
+    imageWidth: stored?.width ?? undefined,
+    imageHeight: stored?.height ?? undefined,
+    imageMime: stored?.mimeType,
+    drinkId: drinkMatch?.drinkId,
+    rawDrinkName: drinkMatch?.rawDrinkName,
   });
+
+  // Achievements are a bonus; never fail the tribute because of them
+  let achievements: AchievementDefinition[] = [];
+  try {
+    achievements = await checkAchievements(post.userId, post.guildId, id, fridayKey);
+  } catch (error) {
+    console.error('Failed to check achievements:', error);
+  }
+
+  return { id, score, achievements };
+}
+
+// ============ DUPLICATE DETECTION ============
+
+/**
+ * In-character refusal for an image that was already offered, or null if it may be recorded
+ */
+export function getDuplicateRejection(screening: ImageScreening, userId: string): string | null {
+  if (screening.verdict !== 'duplicate' || !screening.match) return null;
+
+  if (screening.match.userId === userId) {
+    return getRandomPhrase(DUPLICATE_TRIBUTE_PHRASES);
+  }
+  return getRandomPhrase(RECYCLED_TRIBUTE_PHRASES).replace('OWNER', screening.match.username);
+}
+
+/**
+ * Note appended to the reply when a recorded tribute resembles an earlier one
+ */
+export function getSimilarTributeNote(screening?: ImageScreening): string {
+  return screening?.verdict === 'similar' ? `\n\n${getRandomPhrase(SIMILAR_TRIBUTE_PHRASES)}` : '';
 }
 
 // ============ STATS GETTERS (SIMPLE WRAPPERS) ============
@@ -115,13 +217,17 @@ export async function getFullUserStats(userId: string, guildId?: string): Promis
   daily: TributeStatsResult;
   friday: TributeStatsResult;
   private: TributeStatsResult;
+  distinctDrinks: number;
 }> {
-  // Personal stats are cross-guild (truly "All-Time") — guild scoping is only for leaderboards
-  const [allTime, daily, friday, privateStats] = await Promise.all([
+  // Personal stats are cross-guild (truly "All-Time") — guild scoping is only for leaderboards.
+  // The guild still decides which day "today" is.
+  const timeZone = await getGuildTimezone(guildId);
+  const [allTime, daily, friday, privateStats, distinctDrinks] = await Promise.all([
     getAllTimeStats(userId),
-    getDailyStats(userId),
+    getDailyStats(userId, undefined, timeZone),
     getFridayStats(userId),
     getPrivateStats(userId),
+    getDistinctDrinkCount(userId),
   ]);
 
   return {
@@ -129,6 +235,7 @@ export async function getFullUserStats(userId: string, guildId?: string): Promis
     daily,
     friday,
     private: privateStats,
+    distinctDrinks,
   };
 }
 
@@ -190,25 +297,6 @@ async function maybeGetRandomComment(guildId?: string): Promise<string | null> {
   }
 }
 
-// ============ MILESTONE MESSAGES ============
-
-function getScoreMilestoneMessage(totalScore: number): string {
-  const milestones = [
-    { score: 50, msg: `**50 POINTS!** You have proven your devotion, mortal.` },
-    { score: 100, msg: `**100 POINTS!** The spirits recognize you as a TRUE DEVOTEE.` },
-    { score: 250, msg: `**250 POINTS!** You have ascended to TIKI ELDER status!` },
-    { score: 500, msg: `**500 POINTS!** The ancient ones BOW before your dedication!` },
-    { score: 1000, msg: `**1000 POINTS!** You have achieved TIKI IMMORTALITY! Legends speak of your name!` },
-  ];
-
-  for (const milestone of milestones) {
-    if (totalScore >= milestone.score && totalScore < milestone.score + 10) {
-      return `\n\n${ISEE_EMOJI} ${milestone.msg}`;
-    }
-  }
-  return '';
-}
-
 // ============ COMMAND HANDLERS ============
 
 /**
@@ -220,22 +308,32 @@ export async function handleTributeCommand(
   username: string,
   guildId: string,
   imageUrl?: string,
-  messageContent?: string
+  messageContent?: string,
+  screening?: ImageScreening,
+  image?: DownloadedImage | null
 ): Promise<{ content: string }> {
   switch (subcommand) {
     case 'offer': {
       const isTiki = messageContent ? isTikiRelated(messageContent) : false;
       const category = isTiki ? 'TIKI' : 'OTHER';
-      const score = isTiki ? 10 : 1;
 
-      await recordTributePost(
-        { userId, username, guildId, imageUrl, timestamp: new Date().toISOString() },
-        score,
+      if (imageUrl) {
+        image ??= await downloadImage(imageUrl);
+        screening ??= await screenTributeImage(image, guildId, userId);
+        const rejection = getDuplicateRejection(screening, userId);
+        if (rejection) return { content: rejection };
+      }
+
+      const { achievements } = await recordTributePost(
+        { userId, username, guildId, imageUrl, timestamp: new Date().toISOString(), screening, image },
         category
       );
 
-      const stats = await getFullUserStats(userId, guildId);
-      const isSpecialDay = isFriday();
+      const [stats, timeZone] = await Promise.all([
+        getFullUserStats(userId, guildId),
+        getGuildTimezone(guildId),
+      ]);
+      const isSpecialDay = isFriday(timeZone);
 
       let response: string;
 
@@ -257,23 +355,26 @@ export async function handleTributeCommand(
         response += `\n*Today: ${stats.daily.count} | All-time: ${stats.allTime.count}*`;
       }
 
+      response += getSimilarTributeNote(screening);
+
       const randomComment = await maybeGetRandomComment(guildId);
       if (randomComment) {
         response += `\n\n${randomComment}`;
       }
 
-      response += getScoreMilestoneMessage(stats.allTime.score);
+      response += formatAchievementAnnouncement(achievements);
 
       return { content: response };
     }
 
     case 'status': {
-      const status = await getFridayStatus(guildId);
-      const fridayLabel = isFriday() ? 'this sacred Friday' : `Friday (${status.date})`;
+      const [status, timeZone] = await Promise.all([getFridayStatus(guildId), getGuildTimezone(guildId)]);
+      const isSpecialDay = isFriday(timeZone);
+      const fridayLabel = isSpecialDay ? 'this sacred Friday' : `Friday (${status.date})`;
 
       if (!status.hasTributePost) {
         return {
-          content: `${getRandomPhrase(NO_TRIBUTES_PHRASES)}\n\n**${fridayLabel}**: The offering hall stands EMPTY.${isFriday() ? '\n\nUse `/tribute offer` to make your offering!' : ''}`,
+          content: `${getRandomPhrase(NO_TRIBUTES_PHRASES)}\n\n**${fridayLabel}**: The offering hall stands EMPTY.${isSpecialDay ? '\n\nUse `/tribute offer` to make your offering!' : ''}`,
         };
       }
 
@@ -296,7 +397,7 @@ export async function handleTributeCommand(
     }
 
     case 'demand': {
-      if (!isFriday()) {
+      if (!isFriday(await getGuildTimezone(guildId))) {
         return {
           content: 'The ritual day has not yet arrived. The spirits will make their demands when Friday awakens.',
         };
@@ -316,11 +417,114 @@ export async function handleTributeCommand(
 
     default:
       return {
-        content: `${ISEE_EMOJI} Unknown ritual command. The spirits recognize: \`/tribute offer\`, \`/tribute status\`, or \`/tribute demand\`.`,
+        content: `${ISEE_EMOJI} Unknown ritual command. The spirits recognize: \`/tribute offer\`, \`/tribute status\`, \`/tribute demand\`, or \`/tribute dispute\`.`,
       };
   }
 }
 
+/**
+ * Handle /tribute dispute
+ * Disputes the given tribute, or the user's latest tribute in this guild.
+ */
+export async function handleTributeDispute(
+  userId: string,
+  guildId: string,
+  options: {
+    tributeId?: number;
+    category?: string;
+    drinkName?: string;
+    reason?: string;
+  } = {}
+): Promise<{ content: string }> {
+  const tribute = options.tributeId
+    ? await getTributeById(options.tributeId)
+    : await getLatestUserTribute(userId, guildId);
+
+  if (!tribute) {
+    return {
+      content: `${ISEE_EMOJI} The ancient ledger holds no such offering. There is nothing to dispute, mortal.`,
+    };
+  }
+
+  let proposedCategory: string | undefined;
+  if (options.category) {
+    const categories = await getCategories(tribute.guildId);
+    proposedCategory = resolveCategoryKey(options.category, categories);
+
+    if (proposedCategory === FALLBACK_CATEGORY_KEY && normalizeCategoryKey(options.category) !== FALLBACK_CATEGORY_KEY) {
+      const known = categories.map(c => `\`${c.label}\``).join(', ');
+      return {
+        content: `${ISEE_EMOJI} The spirits know no category called **${options.category}**. Choose from: ${known}.`,
+      };
+    }
+  }
+
+  const content = await fileTributeDispute(tribute, userId, 'command', {
+    category: proposedCategory,
+    drinkName: options.drinkName,
+    reason: options.reason,
+  });
+  return { content };
+}
+
+/**
+ * Open a dispute for a tribute on behalf of its owner.
+ * Shared by /tribute dispute and the ⚖️ reaction; returns the reply text.
+ */
+export async function fileTributeDispute(
+  tribute: TributeRecord,
+  userId: string,
+  source: DisputeSource,
+  proposal: { category?: string; drinkName?: string; reason?: string } = {}
+): Promise<string> {
+  if (tribute.userId !== userId) {
+    return `${ISEE_EMOJI} Only the mortal who made an offering may question its judgment.`;
+  }
+
+  const { dispute, created } = await createDispute({
+    tributeId: tribute.id!,
+    guildId: tribute.guildId,
+    userId,
+    source,
+    reason: proposal.reason,
+    proposedCategory: proposal.category,
+    proposedDrinkName: proposal.drinkName,
+  });
+
+  if (!created) {
+    return getRandomPhrase(DISPUTE_PENDING_PHRASES);
+  }
+
+  const rules = await getScoringRules(tribute.guildId);
+  let response = getRandomPhrase(DISPUTE_RECEIVED_PHRASES);
+  response += `\n\n*Tribute #${tribute.id}: judged ${formatCategoryLabel(tribute.category, rules)}`;
+  response += tribute.drinkName ? ` (${tribute.drinkName})` : '';
+  response += `, ${tribute.score}pts.*`;
+
+  if (dispute.proposedCategory || dispute.proposedDrinkName) {
+    const proposed = [
+      dispute.proposedCategory ? formatCategoryLabel(dispute.proposedCategory, rules) : null,
+      dispute.proposedDrinkName,
+    ].filter(Boolean).join(', ');
+    response += `\n*You claim: ${proposed}.*`;
+  }
+
+  return response;
+}
+
+/**
+ * What image analysis tells us about a tribute
+ */
+export interface TributeAnalysis {
+  description: string;
+  category: string;
+  score: number;
+  drinkName?: string;
+  drinkId?: number;
+  rawDrinkName?: string;
+  response?: string;
+}
+
 /**
  * Handle a tribute via @mention with image attachment
  */
@@ -331,27 +535,29 @@ export async function handleMentionTribute(
   channelId: string,
   imageUrl: string,
   messageContent?: string,
-  imageAnalysis?: {
-    description: string;
-    category: string;
-    score: number;
-    drinkName?: string;
-    response?: string;
-  }
-): Promise<{ content: string }> {
-  const score = imageAnalysis?.score || 1;
-  const category = (imageAnalysis?.category as 'TIKI' | 'COCKTAIL' | 'BEER_WINE' | 'OTHER') || 'OTHER';
-
+  imageAnalysis?: TributeAnalysis,
+  screening?: ImageScreening,
+  image?: DownloadedImage | null
+): Promise<{ content: string; tributeId?: number }> {
+  const category = imageAnalysis?.category || 'OTHER';
+
+  image ??= await downloadImage(imageUrl);
+  screening ??= await screenTributeImage(image, guildId, userId);
+  const rejection = getDuplicateRejection(screening, userId);
+  if (rejection) return { content: rejection };
+
+  let tributeId: number | undefined;
+  let achievements: AchievementDefinition[] = [];
   let recordFailed = false;
   try {
-    await recordTributePost(
-      { userId, username, guildId, channelId, imageUrl, timestamp: new Date().toISOString() },
-      score,
+    ({ id: tributeId, achievements } = await recordTributePost(
+      { userId, username, guildId, channelId, imageUrl, timestamp: new Date().toISOString(), screening, image },
       category,
       imageAnalysis?.drinkName,
       imageAnalysis?.description,
-      imageAnalysis?.response
-    );
+      imageAnalysis?.response,
+      imageAnalysis
+    ));
   } catch (error) {
     console.error('Failed to record tribute to database:', error);
     recordFailed = true;
@@ -365,8 +571,6 @@ export async function handleMentionTribute(
     return { content: response };
   }
 
-  const allTimeStats = await getAllTimeStats(userId, guildId);
-
   let response: string;
   if (imageAnalysis?.response) {
     response = `${ISEE_EMOJI} ${imageAnalysis.response}`;
@@ -374,12 +578,298 @@ export async function handleMentionTribute(
     response = `${ISEE_EMOJI} I SEE your offering, **${username}**... The spirits acknowledge your tribute.`;
   }
 
+  response += getSimilarTributeNote(screening);
+
   const randomComment = await maybeGetRandomComment(guildId);
   if (randomComment) {
     response += `\n\n${randomComment}`;
   }
 
-  response += getScoreMilestoneMessage(allTimeStats.score);
+  response += formatAchievementAnnouncement(achievements);
 
-  return { content: response };
+  return { content: response, tributeId };
+}
+
+// ============ GALLERY TRIBUTES ============
+
+/** Most images from one message that become tributes; the rest are ignored */
+export const MAX_TRIBUTE_IMAGES = 4;
+
+export interface GalleryImage {
+  imageUrl: string;
+  download: DownloadedImage | null;  // null when the download failed
+  screening: ImageScreening;
+  /** The same photo appears earlier in the same message */
+  repeated?: boolean;
+  analysis?: TributeAnalysis | null;
+}
+
+export interface GalleryEntry {
+  position: number;  // 1-based position in the message
+  outcome: 'recorded' | 'duplicate' | 'repeated' | 'failed';
+  tributeId?: number;
+  category?: string;
+  drinkName?: string;
+  score?: number;
+  similar?: boolean;
+  /** Owner of the earlier tribute when the outcome is 'duplicate' */
+  duplicateOwnerId?: string;
+}
+
+/**
+ * Combined reply for a message with several tribute images
+ */
+export function formatGalleryTributeSummary(
+  username: string,
+  entries: GalleryEntry[],
+  userId: string,
+  rules: ScoringRules = DEFAULT_SCORING_RULES,
+  ignoredCount: number = 0
+): string {
+  const recorded = entries.filter(e => e.outcome === 'recorded');
+  const total = recorded.reduce((sum, e) => sum + (e.score ?? 0), 0);
+
+  let content = recorded.length > 0
+    ? `${ISEE_EMOJI} **${username}** presents a FLIGHT of ${entries.length} offerings!\n\n`
+    : `${ISEE_EMOJI} **${username}**, the spirits accept NONE of these offerings!\n\n`;
+
+  content += entries.map(e => {
+    switch (e.outcome) {
+      case 'recorded': {
+        const category = e.category ?? FALLBACK_CATEGORY_KEY;
+        const label = rules.labels?.[category] || category;
+        const similar = e.similar ? ' · *suspiciously familiar*' : '';
+        return `${e.position}. **${e.drinkName || 'Unnamed libation'}** (${label}) - ${e.score ?? 0}pts${e.tributeId ? ` \`#${e.tributeId}\`` : ''}${similar}`;
+      }
+      case 'duplicate':
+        return e.duplicateOwnerId && e.duplicateOwnerId !== userId
+          ? `${e.position}. ~~Refused~~ - <@${e.duplicateOwnerId}> already offered this photo`
+          : `${e.position}. ~~Refused~~ - you already offered this photo`;
+      case 'repeated':
+        return `${e.position}. ~~Refused~~ - the same photo twice in one offering`;
+      case 'failed':
+        return `${e.position}. ⚠️ Witnessed but NOT recorded - the scrolls failed`;
+    }
+  }).join('\n');
+
+  if (recorded.length > 0) {
+    content += `\n\n**Total:** ${total}pts from ${recorded.length} tribute${recorded.length !== 1 ? 's' : ''}`;
+  }
+  if (ignoredCount > 0) {
+    content += `\n*The spirits accept at most ${MAX_TRIBUTE_IMAGES} offerings per message. ${ignoredCount} more ${ignoredCount === 1 ? 'was' : 'were'} ignored.*`;
+  }
+  if (entries.some(e => e.outcome === 'failed')) {
+    content += `\n\n⚠️ **The ancient scrolls failed to record some tributes!** Please offer those again later.`;
+  }
+
+  return content;
+}
+
+/**
+ * Record each image of a multi-image message as its own tribute and build
+ * one combined reply. Works for both guild channels and DMs (guildId 'dm').
+ */
+export async function handleGalleryTribute(
+  userId: string,
+  username: string,
+  guildId: string,
+  channelId: string,
+  images: GalleryImage[],
+  ignoredCount: number = 0
+): Promise<{ content: string; tributeIds: number[] }> {
+  const entries: GalleryEntry[] = [];
+  const achievements: AchievementDefinition[] = [];
+
+  // Sequential so each tribute's achievements see the ones recorded before it
+  for (const [i, image] of images.entries()) {
+    const position = i + 1;
+
+    if (image.repeated) {
+      entries.push({ position, outcome: 'repeated' });
+      continue;
+    }
+    if (image.screening.verdict === 'duplicate' && image.screening.match) {
+      entries.push({ position, outcome: 'duplicate', duplicateOwnerId: image.screening.match.userId });
+      continue;
+    }
+
+    const category = image.analysis?.category || 'OTHER';
+    try {
+      const recorded = await recordTributePost(
+        { userId, username, guildId, channelId, imageUrl: image.imageUrl, timestamp: new Date().toISOString(), screening: image.screening, image: image.download },
+        category,
+        image.analysis?.drinkName,
+        image.analysis?.description,
+        image.analysis?.response,
+        image.analysis ?? undefined
+      );
+      entries.push({
+        position,
+        outcome: 'recorded',
+        tributeId: recorded.id,
+        category,
+        drinkName: image.analysis?.drinkName,
+        score: recorded.score,
+        similar: image.screening.verdict === 'similar',
+      });
+      achievements.push(...recorded.achievements);
+    } catch (error) {
+      console.error('Failed to record gallery tribute to database:', error);
+      entries.push({ position, outcome: 'failed' });
+    }
+  }
+
+  const rules = await getScoringRules(guildId);
+  let content = formatGalleryTributeSummary(username, entries, userId, rules, ignoredCount);
+
+  const tributeIds = entries.flatMap(e => (e.tributeId ? [e.tributeId] : []));
+  if (tributeIds.length > 0 && guildId !== 'dm') {
+    const randomComment = await maybeGetRandomComment(guildId);
+    if (randomComment) {
+      content += `\n\n${randomComment}`;
+    }
+  }
+
+  content += formatAchievementAnnouncement(achievements);
+
+  return { content, tributeIds };
+}
+
+// ============ JOURNAL ============
+
+/**
+ * Handle /journal: validate the options and show the first page.
+ * guildId is null in DMs, where private tributes are included.
+ */
+export async function handleJournalCommand(
+  userId: string,
+  username: string,
+  guildId: string | null,
+  options: { from?: string; to?: string; category?: string; drink?: string } = {}
+): Promise<{ content: string; components?: Component[] }> {
+  const range = parseJournalRange(options.from, options.to);
+  if ('error' in range) {
+    return { content: `${ISEE_EMOJI} ${range.error}` };
+  }
+
+  let category: string | undefined;
+  if (options.category) {
+    const categories = await getCategories(guildId);
+    category = resolveCategoryKey(options.category, categories);
+
+    if (category === FALLBACK_CATEGORY_KEY && normalizeCategoryKey(options.category) !== FALLBACK_CATEGORY_KEY) {
+      const known = categories.map(c => `\`${c.label}\``).join(', ');
+      return {
+        content: `${ISEE_EMOJI} The spirits know no category called **${options.category}**. Choose from: ${known}.`,
+      };
+    }
+  }
+
+  return showJournalPage(
+    { userId, page: 1, ...range, category, drink: options.drink?.trim() || undefined },
+    username,
+    guildId
+  );
+}
+
+/**
+ * Render one page of a user's journal (also used by the page buttons)
+ */
+export async function showJournalPage(
+  state: JournalState,
+  username: string,
+  guildId: string | null
+): Promise<{ content: string; components: Component[] }> {
+  const [timeZone, rules, drinks] = await Promise.all([
+    getGuildTimezone(guildId),
+    getScoringRules(guildId),
+    state.drink ? getDrinks() : Promise.resolve([]),
+  ]);
+
+  // "mai tia" should still find tributes recorded as Mai Tai
+  const drinkId = matchDrink(state.drink, drinks)?.drink.id ?? null;
+  const journal = await getJournalPage(state, { guildId, drinkId }, timeZone);
+
+  return {
+    content: formatJournalPage(username, journal, state, timeZone, rules),
+    components: buildJournalComponents({ ...state, page: journal.page }, journal.pageCount),
+  };
+}
+
+// ============ TEAMS ============
+
+/**
+ * Handle /team join|leave|standings. roleIds are the member's Discord roles;
+ * a team mapped to a role the member holds can't be left or swapped by command.
+ */
+export async function handleTeamCommand(
+  subcommand: string,
+  userId: string,
+  username: string,
+  guildId: string | null,
+  roleIds: string[],
+  options: { name?: string } = {}
+): Promise<{ content: string }> {
+  if (!guildId) {
+    return { content: `${ISEE_EMOJI} Teams are formed within a server. Invoke \`/team\` there, mortal.` };
+  }
+
+  await syncRoleTeam(guildId, userId, username, roleIds);
+  const teams = await getTeams(guildId);
+  const roleTeam = findRoleTeam(teams, roleIds);
+
+  switch (subcommand) {
+    case 'join': {
+      const team = findTeamByName(teams, options.name ?? '');
+      if (!team) {
+        const known = teams.map(t => `\`${t.name}\``).join(', ');
+        return {
+          content: teams.length > 0
+            ? `${ISEE_EMOJI} The spirits know no team called **${options.name}**. Choose from: ${known}.`
+            : `${ISEE_EMOJI} No teams have been formed in this realm yet.`,
+        };
+      }
+      if (roleTeam && roleTeam.id !== team.id) {
+        return { content: `${ISEE_EMOJI} Your role binds you to **${roleTeam.name}**. The spirits do not permit desertion.` };
+      }
+      if (team.roleId && !roleIds.includes(team.roleId)) {
+        return { content: `${ISEE_EMOJI} Only those bearing the <@&${team.roleId}> role may join **${team.name}**.` };
+      }
+
+      const current = await getUserTeam(guildId, userId);
+      if (current?.teamId === team.id) {
+        return { content: `${ISEE_EMOJI} You already fight for **${team.name}**, mortal.` };
+      }
+      await joinTeam(team, userId, username);
+      return {
+        content: `${ISEE_EMOJI} **${username}** has sworn allegiance to **${team.name}**! Your tributes from now on count for your team.`,
+      };
+    }
+
+    case 'leave': {
+      if (roleTeam) {
+        return { content: `${ISEE_EMOJI} Your role binds you to **${roleTeam.name}**. Only losing the role releases you.` };
+      }
+      const left = await leaveTeam(guildId, userId);
+      return {
+        content: left
+          ? `${ISEE_EMOJI} You have left your team. Your past tributes stay with them.`
+          : `${ISEE_EMOJI} You belong to no team, mortal.`,
+      };
+    }
+
+    default: {
+      const [standings, current] = await Promise.all([
+        getTeamStandings(guildId),
+        getUserTeam(guildId, userId),
+      ]);
+      let content = formatTeamStandings(standings);
+      if (standings.length > 0) {
+        content += current
+          ? `\n\n*You fight for **${current.team.name}**.*`
+          : `\n\n*You belong to no team. Use \`/team join\` to pick a side.*`;
+      }
+      return { content };
+    }
+  }
 }
@@ -66,6 +66,7 @@ export interface Message {
   channel_id: string;
   content: string;
   attachments: Attachment[];
+  components?: Component[];
 }
 
 export interface Attachment {
@@ -120,6 +121,15 @@ export interface Embed {
   image?: { url: string };
 }
 
+/**
+ * Who a message may ping. Mentions not listed here are shown but don't notify.
+ */
+export interface AllowedMentions {
+  parse: ('everyone' | 'roles' | 'users')[];
+  roles?: string[];
+  users?: string[];
+}
+
 export interface EmbedField {
   name: string;
   value: string;
@@ -0,0 +1,163 @@
+/**
+ * Unit tests for the pure helpers in src/services/achievements.ts
+ *
+ * achievements.ts imports `sql` from src/db.ts, which only logs (never
+ * throws) when DATABASE_URL is absent, so the import is safe here.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  ACHIEVEMENTS,
+  computeFridayStreaks,
+  evaluateAchievements,
+  formatAchievementAnnouncement,
+  formatAchievementSummary,
+  formatAchievementsForAI,
+  type AchievementTribute,
+} from '../src/services/achievements';
+
+function tribute(overrides: Partial<AchievementTribute> = {}): AchievementTribute {
+  return { category: 'COCKTAIL', drinkName: null, fridayKey: '2026-01-02', isFriday: false, score: 5, ...overrides };
+}
+
+/** Consecutive Friday keys starting at 2026-01-02 */
+function fridays(count: number, startOffsetWeeks = 0): string[] {
+  return Array.from({ length: count }, (_, i) => {
+    const d = new Date(Date.UTC(2026, 0, 2 + (startOffsetWeeks + i) * 7));
+    return d.toISOString().split('T')[0];
+  });
+}
+
+// ─── computeFridayStreaks ───────────────────────────────────────────────────
+
+describe('computeFridayStreaks', () => {
+  it('returns zero for no Fridays', () => {
+    expect(computeFridayStreaks([], '2026-01-02')).toEqual({ current: 0, longest: 0 });
+  });
+
+  it('counts consecutive weeks and ignores duplicate keys', () => {
+    const keys = [...fridays(4), '2026-01-09'];
+    expect(computeFridayStreaks(keys, '2026-01-23')).toEqual({ current: 4, longest: 4 });
+  });
+
+  it('keeps the current streak alive until a Friday is missed', () => {
+    const keys = fridays(3);  // up to 2026-01-16
+    expect(computeFridayStreaks(keys, '2026-01-23').current).toBe(3);
+    expect(computeFridayStreaks(keys, '2026-01-30').current).toBe(0);
+  });
+
+  it('tracks the longest streak separately from the current one', () => {
+    const keys = [...fridays(5), ...fridays(2, 7)];
+    expect(computeFridayStreaks(keys, fridays(1, 8)[0])).toEqual({ current: 2, longest: 5 });
+  });
+
+  it('handles streaks that cross a year boundary', () => {
+    expect(computeFridayStreaks(['2025-12-26', '2026-01-02'], '2026-01-02')).toEqual({ current: 2, longest: 2 });
+  });
+});
+
+// ─── evaluateAchievements ───────────────────────────────────────────────────
+
+describe('evaluateAchievements', () => {
+  it('earns nothing for an empty history', () => {
+    expect(evaluateAchievements([], '2026-01-02')).toEqual([]);
+  });
+
+  it('earns FIRST_TIKI for any tiki tribute', () => {
+    expect(evaluateAchievements([tribute({ category: 'TIKI' })], '2026-01-02')).toContain('FIRST_TIKI');
+  });
+
+  it('earns DISTINCT_DRINKS_10 for ten different drink names (case-insensitive)', () => {
+    const nine = Array.from({ length: 9 }, (_, i) => tribute({ drinkName: `Drink ${i}` }));
+    expect(evaluateAchievements([...nine, tribute({ drinkName: 'drink 0' })], '2026-01-02')).not.toContain('DISTINCT_DRINKS_10');
+    expect(evaluateAchievements([...nine, tribute({ drinkName: 'Mai Tai' })], '2026-01-02')).toContain('DISTINCT_DRINKS_10');
+  });
+
+  it('counts aliases of one catalogue drink once', () => {
+    const nine = Array.from({ length: 9 }, (_, i) => tribute({ drinkName: `Drink ${i}`, drinkId: i + 1 }));
+    const alias = tribute({ drinkName: "Trader Vic's Drink 0", drinkId: 1 });
+    expect(evaluateAchievements([...nine, alias], '2026-01-02')).not.toContain('DISTINCT_DRINKS_10');
+    expect(evaluateAchievements([...nine, tribute({ drinkName: 'Mai Tai', drinkId: 10 })], '2026-01-02')).toContain('DISTINCT_DRINKS_10');
+  });
+
+  it('earns CATEGORIES_3_WEEK only when three categories share a week', () => {
+    const spread = [
+      tribute({ category: 'TIKI', fridayKey: '2026-01-02' }),
+      tribute({ category: 'COCKTAIL', fridayKey: '2026-01-02' }),
+      tribute({ category: 'BEER_WINE', fridayKey: '2026-01-09' }),
+    ];
+    expect(evaluateAchievements(spread, '2026-01-09')).not.toContain('CATEGORIES_3_WEEK');
+
+    const sameWeek = spread.map(t => ({ ...t, fridayKey: '2026-01-02' }));
+    expect(evaluateAchievements(sameWeek, '2026-01-09')).toContain('CATEGORIES_3_WEEK');
+  });
+
+  it('earns streak tiers from tributes made on Fridays only', () => {
+    const onFridays = fridays(5).map(key => tribute({ fridayKey: key, isFriday: true }));
+    const earned = evaluateAchievements(onFridays, '2026-01-30');
+    expect(earned).toContain('FRIDAY_STREAK_3');
+    expect(earned).toContain('FRIDAY_STREAK_5');
+    expect(earned).not.toContain('FRIDAY_STREAK_10');
+
+    const notOnFridays = fridays(5).map(key => tribute({ fridayKey: key, isFriday: false }));
+    expect(evaluateAchievements(notOnFridays, '2026-01-30')).not.toContain('FRIDAY_STREAK_3');
+  });
+
+  it('earns every score milestone passed, not just one inside a window', () => {
+    const earned = evaluateAchievements([tribute({ score: 130 })], '2026-01-02');
+    expect(earned).toContain('SCORE_50');
+    expect(earned).toContain('SCORE_100');
+    expect(earned).not.toContain('SCORE_250');
+  });
+
+  it('only returns keys that have definitions', () => {
+    const keys = new Set(ACHIEVEMENTS.map(a => a.key));
+    const history = [
+      ...fridays(10).map(key => tribute({ category: 'TIKI', fridayKey: key, isFriday: true, score: 100, drinkName: key })),
+      tribute({ category: 'BEER_WINE' }),
+      tribute({ category: 'OTHER' }),
+    ];
+    const earned = evaluateAchievements(history, fridays(1, 9)[0]);
+    expect(earned.length).toBe(ACHIEVEMENTS.length);
+    earned.forEach(key => expect(keys.has(key)).toBe(true));
+  });
+});
+
+// ─── formatting ─────────────────────────────────────────────────────────────
+
+describe('formatAchievementAnnouncement', () => {
+  it('is empty when nothing was unlocked', () => {
+    expect(formatAchievementAnnouncement([])).toBe('');
+  });
+
+  it('lists each unlocked achievement', () => {
+    const tiki = ACHIEVEMENTS.find(a => a.key === 'FIRST_TIKI')!;
+    const result = formatAchievementAnnouncement([tiki]);
+    expect(result).toContain('ACHIEVEMENT UNLOCKED');
+    expect(result).toContain(tiki.name);
+  });
+});
+
+describe('formatAchievementSummary / formatAchievementsForAI', () => {
+  const progress = {
+    unlocked: [{ ...ACHIEVEMENTS[0], guildId: 'g1', tributeId: 1, unlockedAt: new Date() }],
+    streak: { current: 2, longest: 4 },
+  };
+
+  it('shows the streak and unlocked count', () => {
+    const result = formatAchievementSummary(progress);
+    expect(result).toContain('**Friday Streak:** 2 (best 4)');
+    expect(result).toContain(`(1/${ACHIEVEMENTS.length})`);
+    expect(result).toContain(ACHIEVEMENTS[0].name);
+  });
+
+  it('says none yet when nothing is unlocked', () => {
+    expect(formatAchievementSummary({ unlocked: [], streak: { current: 0, longest: 0 } })).toContain('None yet');
+  });
+
+  it('formats a context block for the AI', () => {
+    const result = formatAchievementsForAI(progress);
+    expect(result).toContain('[USER ACHIEVEMENTS]');
+    expect(result).toContain('2 consecutive Fridays');
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Unit tests for the pure helpers in src/services/blackouts.ts
+ *
+ * The module imports reminders.ts and agents.ts, which import db.ts; db.ts is
+ * safe to import without a DATABASE_URL (it logs an error but does not throw).
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getEasterSunday,
+  getPublicHolidays,
+  validateBlackout,
+  blackoutCoversDay,
+  findBlackout,
+  getBlackoutDays,
+  getEventGuildId,
+  type EventBlackout,
+} from '../src/services/blackouts';
+
+const TZ = 'Europe/Stockholm';
+
+function blackout(overrides: Partial<EventBlackout>): EventBlackout {
+  return {
+    id: 1,
+    name: 'Break',
+    guildId: null,
+    kind: 'dates',
+    startsOn: null,
+    endsOn: null,
+    region: null,
+    createdBy: null,
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+// ─── Holidays ─────────────────────────────────────────────────────────────────
+
+describe('getEasterSunday', () => {
+  it('computes known Easter dates', () => {
+    expect(getEasterSunday(2024).toISOString().slice(0, 10)).toBe('2024-03-31');
+    expect(getEasterSunday(2025).toISOString().slice(0, 10)).toBe('2025-04-20');
+    expect(getEasterSunday(2026).toISOString().slice(0, 10)).toBe('2026-04-05');
+    expect(getEasterSunday(2038).toISOString().slice(0, 10)).toBe('2038-04-25');
+  });
+});
+
+describe('getPublicHolidays', () => {
+  it('lists Swedish holidays in date order, moving ones included', () => {
+    const holidays = getPublicHolidays(2026, 'SE');
+    const byName = Object.fromEntries(holidays.map(h => [h.name, h.date]));
+
+    expect(byName['Långfredagen']).toBe('2026-04-03');
+    expect(byName['Kristi himmelsfärdsdag']).toBe('2026-05-14');
+    expect(byName['Pingstdagen']).toBe('2026-05-24');
+    expect(byName['Midsommarafton']).toBe('2026-06-19');
+    expect(byName['Midsommardagen']).toBe('2026-06-20');
+    expect(byName['Alla helgons dag']).toBe('2026-10-31');
+    expect(byName['Julafton']).toBe('2026-12-24');
+
+    const dates = holidays.map(h => h.date);
+    expect(dates).toEqual([...dates].sort());
+  });
+
+  it('knows no other regions', () => {
+    expect(getPublicHolidays(2026, 'XX')).toEqual([]);
+  });
+});
+
+// ─── validateBlackout ─────────────────────────────────────────────────────────
+
+describe('validateBlackout', () => {
+  it('accepts each kind', () => {
+    expect(validateBlackout({ name: 'Summer', kind: 'dates', startsOn: '2026-07-01', endsOn: '2026-07-31' })).toBeNull();
+    expect(validateBlackout({ name: 'Xmas', kind: 'yearly', startsOn: '12-24', endsOn: '01-01' })).toBeNull();
+    expect(validateBlackout({ name: 'Leap', kind: 'yearly', startsOn: '02-29', endsOn: '02-29' })).toBeNull();
+    expect(validateBlackout({ name: 'Red days', kind: 'holidays', region: 'SE' })).toBeNull();
+  });
+
+  it('refuses missing or malformed fields', () => {
+    expect(validateBlackout({ name: ' ', kind: 'dates', startsOn: '2026-07-01', endsOn: '2026-07-31' })).toMatch(/name/);
+    expect(validateBlackout({ name: 'x', kind: 'weekly' as never })).toMatch(/kind/);
+    expect(validateBlackout({ name: 'x', kind: 'holidays', region: 'XX' })).toMatch(/region/);
+    expect(validateBlackout({ name: 'x', kind: 'dates', startsOn: '07-01', endsOn: '2026-07-31' })).toMatch(/startsOn must be YYYY-MM-DD/);
+    expect(validateBlackout({ name: 'x', kind: 'yearly', startsOn: '12-24', endsOn: null })).toMatch(/endsOn must be MM-DD/);
+    expect(validateBlackout({ name: 'x', kind: 'dates', startsOn: '2026-02-30', endsOn: '2026-03-01' })).toMatch(/not a real date/);
+  });
+
+  it('refuses backwards date ranges', () => {
+    expect(validateBlackout({ name: 'x', kind: 'dates', startsOn: '2026-07-31', endsOn: '2026-07-01' })).toMatch(/before/);
+  });
+});
+
+// ─── Matching ─────────────────────────────────────────────────────────────────
+
+describe('blackoutCoversDay', () => {
+  it('covers a date range inclusively', () => {
+    const b = blackout({ startsOn: '2026-07-01', endsOn: '2026-07-31' });
+    expect(blackoutCoversDay(b, '2026-07-01')).toBe(true);
+    expect(blackoutCoversDay(b, '2026-07-31')).toBe(true);
+    expect(blackoutCoversDay(b, '2026-08-01')).toBe(false);
+  });
+
+  it('covers a yearly range every year, wrapping over New Year', () => {
+    const b = blackout({ kind: 'yearly', startsOn: '12-24', endsOn: '01-01' });
+    expect(blackoutCoversDay(b, '2026-12-24')).toBe(true);
+    expect(blackoutCoversDay(b, '2030-01-01')).toBe(true);
+    expect(blackoutCoversDay(b, '2026-01-02')).toBe(false);
+    expect(blackoutCoversDay(b, '2026-12-23')).toBe(false);
+  });
+
+  it('covers public holidays', () => {
+    const b = blackout({ kind: 'holidays', region: 'SE' });
+    expect(blackoutCoversDay(b, '2026-06-19')).toBe(true);
+    expect(blackoutCoversDay(b, '2026-06-18')).toBe(false);
+  });
+});
+
+describe('findBlackout', () => {
+  const global = blackout({ id: 1, name: 'Holidays', kind: 'holidays', region: 'SE' });
+  const guild = blackout({ id: 2, name: 'Summer', guildId: 'g1', startsOn: '2026-07-01', endsOn: '2026-07-31' });
+
+  it('applies global blackouts to every guild and guild ones only to theirs', () => {
+    const midsummer = new Date('2026-06-19T15:00:00Z');
+    const july = new Date('2026-07-10T15:00:00Z');
+    expect(findBlackout([global, guild], 'g2', midsummer, TZ)?.id).toBe(1);
+    expect(findBlackout([global, guild], 'g1', july, TZ)?.id).toBe(2);
+    expect(findBlackout([global, guild], 'g2', july, TZ)).toBeNull();
+    expect(findBlackout([global, guild], null, july, TZ)).toBeNull();
+  });
+
+  it('reads the day in the given timezone', () => {
+    // 23:30 UTC on 2026-06-18 is already midsummer eve in Stockholm
+    const lateEvening = new Date('2026-06-18T23:30:00Z');
+    expect(findBlackout([global], 'g1', lateEvening, TZ)?.id).toBe(1);
+    expect(findBlackout([global], 'g1', lateEvening, 'UTC')).toBeNull();
+  });
+});
+
+describe('getBlackoutDays', () => {
+  it('lists each blacked-out day with its holiday name', () => {
+    const days = getBlackoutDays(
+      [
+        blackout({ id: 1, name: 'Holidays', kind: 'holidays', region: 'SE' }),
+        blackout({ id: 2, name: 'Xmas', kind: 'yearly', startsOn: '12-24', endsOn: '12-26' }),
+      ],
+      '2026-12-23',
+      '2026-12-27'
+    );
+    expect(days.map(d => `${d.date} ${d.name}`)).toEqual([
+      '2026-12-24 Holidays: Julafton',
+      '2026-12-24 Xmas',
+      '2026-12-25 Holidays: Juldagen',
+      '2026-12-25 Xmas',
+      '2026-12-26 Holidays: Annandag jul',
+      '2026-12-26 Xmas',
+    ]);
+  });
+});
+
+describe('getEventGuildId', () => {
+  it('reads the guild from a channel thread ID', () => {
+    expect(getEventGuildId('discord:123:456')).toBe('123');
+    expect(getEventGuildId('discord:dm:456')).toBeNull();
+    expect(getEventGuildId('discord:user:456')).toBeNull();
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Unit tests for the pure helpers in src/services/channelSummary.ts
+ *
+ * channelSummary.ts imports `sql` from src/db.ts, which only logs (never
+ * throws) when DATABASE_URL is absent, so the import is safe here.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  mergeTranscripts,
+  countHumanMessages,
+  formatTranscript,
+  buildChannelSummaryPrompt,
+  type TranscriptLine,
+} from '../src/services/channelSummary';
+
+function line(overrides: Partial<TranscriptLine> = {}): TranscriptLine {
+  return {
+    messageId: 'm1',
+    authorName: 'Ana',
+    isBot: false,
+    content: 'Mai tai time',
+    createdAt: new Date('2026-10-23T16:05:00Z'),
+    ...overrides,
+  };
+}
+
+describe('mergeTranscripts', () => {
+  it('drops duplicates and empty messages and sorts by time', () => {
+    const items = [
+      line({ messageId: 'm2', content: 'second', createdAt: new Date('2026-10-23T16:10:00Z') }),
+      line({ messageId: 'm1', content: 'first' }),
+    ];
+    const recent = [
+      line({ messageId: 'm1', content: 'first' }),
+      line({ messageId: 'm3', content: '   ' }),
+      line({ messageId: 'm4', content: 'third', createdAt: new Date('2026-10-23T16:20:00Z') }),
+    ];
+
+    expect(mergeTranscripts(items, recent).map(l => l.content)).toEqual(['first', 'second', 'third']);
+  });
+
+  it('keeps lines without a message ID', () => {
+    expect(mergeTranscripts([line({ messageId: null }), line({ messageId: null })])).toHaveLength(2);
+  });
+});
+
+describe('countHumanMessages', () => {
+  it('ignores bot messages', () => {
+    expect(countHumanMessages([line(), line({ isBot: true }), line()])).toBe(2);
+  });
+});
+
+describe('formatTranscript', () => {
+  it('renders local times and marks bots', () => {
+    const text = formatTranscript(
+      [line(), line({ authorName: 'Mutumbot', isBot: true, content: 'The spirits\nare pleased' })],
+      'Europe/Stockholm'
+    );
+    expect(text).toBe('[Fri 18:05] Ana: Mai tai time\n[Fri 18:05] Mutumbot (bot): The spirits are pleased');
+  });
+
+  it('keeps the most recent lines within the budget', () => {
+    const lines = [line({ content: 'old news' }), line({ content: 'latest' })];
+    const text = formatTranscript(lines, 'UTC', 30);
+    expect(text).toContain('latest');
+    expect(text).not.toContain('old news');
+  });
+});
+
+describe('buildChannelSummaryPrompt', () => {
+  it('includes the window, count and transcript', () => {
+    const prompt = buildChannelSummaryPrompt('[Fri 18:05] Ana: hi', 7, {
+      windowHours: 12,
+      highlights: false,
+    });
+    expect(prompt).toContain('last 12 hours (7 messages)');
+    expect(prompt).toContain('TRANSCRIPT:\n[Fri 18:05] Ana: hi');
+    expect(prompt).not.toContain('highlights');
+  });
+
+  it('asks for highlights when enabled', () => {
+    const prompt = buildChannelSummaryPrompt('x', 1, { windowHours: 1, highlights: true });
+    expect(prompt).toContain('last hour (1 message)');
+    expect(prompt).toContain('up to 3 highlights');
+  });
+});
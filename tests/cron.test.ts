@@ -0,0 +1,295 @@
+/**
+ * Unit tests for src/services/cron.ts: cron parsing and validation, fire-time
+ * iteration in a timezone, descriptions, and the missed-run catch-up plan
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseCron,
+  validateCron,
+  cronFireTimes,
+  getNextFireTimes,
+  getNextRunAt,
+  getMissedFireTimes,
+  describeCron,
+  planCatchUp,
+  CRON_PATTERNS,
+  MAX_CATCH_UP_RUNS,
+} from '../src/services/cron';
+
+const TZ = 'Europe/Stockholm';
+
+function take(iterable: Iterable<Date>, n: number): string[] {
+  const out: string[] = [];
+  for (const date of iterable) {
+    out.push(date.toISOString());
+    if (out.length === n) break;
+  }
+  return out;
+}
+
+// ─── parseCron ────────────────────────────────────────────────────────────────
+
+describe('parseCron', () => {
+  it('expands wildcards, ranges, lists and steps', () => {
+    const schedule = parseCron('*/15 9-11 1,15 * 1-5')!;
+    expect(schedule.minutes).toEqual([0, 15, 30, 45]);
+    expect(schedule.hours).toEqual([9, 10, 11]);
+    expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+    expect(schedule.months.size).toBe(12);
+    expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('accepts short and full names, and Sunday as 7', () => {
+    const schedule = parseCron('0 0 * jan-March sun,Friday')!;
+    expect([...schedule.months]).toEqual([1, 2, 3]);
+    expect([...schedule.daysOfWeek].sort()).toEqual([0, 5]);
+    expect([...parseCron('0 0 * * 7')!.daysOfWeek]).toEqual([0]);
+  });
+
+  it('steps over values divisible by the step, like node-cron', () => {
+    expect(parseCron('0-30/10 * * * *')!.minutes).toEqual([0, 10, 20, 30]);
+    expect([...parseCron('0 0 */10 * *')!.daysOfMonth]).toEqual([10, 20, 30]);
+  });
+
+  it('ignores a leading seconds field', () => {
+    expect(parseCron('30 0 17 * * 5')?.hours).toEqual([17]);
+  });
+
+  it('rejects malformed expressions', () => {
+    expect(parseCron('')).toBeNull();
+    expect(parseCron('0 17 * *')).toBeNull();
+    expect(parseCron('60 17 * * 5')).toBeNull();
+    expect(parseCron('0 24 * * 5')).toBeNull();
+    expect(parseCron('0 17 0 * *')).toBeNull();
+    expect(parseCron('0 17 * * 8')).toBeNull();
+    expect(parseCron('0 17 * * 5-1')).toBeNull();
+    expect(parseCron('*/0 * * * *')).toBeNull();
+    expect(parseCron('5/20 * * * *')).toBeNull();
+    expect(parseCron('1-5/10 * * * *')).toBeNull();
+    expect(parseCron('0 17 * * 5#L')).toBeNull();
+  });
+});
+
+// ─── validateCron ─────────────────────────────────────────────────────────────
+
+describe('validateCron', () => {
+  it('accepts every common pattern', () => {
+    for (const expression of Object.values(CRON_PATTERNS)) {
+      expect(validateCron(expression)).toBeNull();
+    }
+  });
+
+  it('explains a wrong field count', () => {
+    expect(validateCron('0 17 * *')).toMatch(/expected 5 fields .* got 4/);
+  });
+
+  it('names the field that is wrong', () => {
+    expect(validateCron('0 25 * * *')).toMatch(/"25" is not a valid hour/);
+    expect(validateCron('0 17 * * fry')).toMatch(/"fry" is not a valid weekday/);
+    expect(validateCron('99 0 17 * * 5')).toMatch(/not a valid second/);
+  });
+
+  it('refuses sub-minute schedules but accepts a zero seconds field', () => {
+    expect(validateCron('*/30 * * * * *')).toMatch(/seconds are not supported/);
+    expect(validateCron('30 0 17 * * 5')).toMatch(/seconds are not supported/);
+    expect(validateCron('0 0 17 * * 5')).toBeNull();
+  });
+
+  it('points out unsupported last/nth syntax', () => {
+    expect(validateCron('0 17 * * 5#L')).toMatch(/not supported/);
+    expect(validateCron('0 17 L * *')).toMatch(/not supported/);
+  });
+
+  it('refuses expressions that never fire', () => {
+    expect(validateCron('0 0 31 2 *')).toMatch(/never fires/);
+    expect(validateCron('0 0 29 2 *')).toBeNull();
+  });
+});
+
+// ─── cronFireTimes ────────────────────────────────────────────────────────────
+
+describe('cronFireTimes', () => {
+  it('yields wall-clock times in the timezone', () => {
+    // Friday 2026-10-23 is the last Friday before DST ends on 2026-10-25
+    const times = take(cronFireTimes(parseCron('0 17 * * 5')!, new Date('2026-10-19T00:00:00Z'), TZ), 3);
+    expect(times).toEqual([
+      '2026-10-23T15:00:00.000Z',
+      '2026-10-30T16:00:00.000Z',
+      '2026-11-06T16:00:00.000Z',
+    ]);
+  });
+
+  it('is strictly after the start time', () => {
+    const times = take(cronFireTimes(parseCron('0 17 * * 5')!, new Date('2026-10-23T15:00:00Z'), TZ), 1);
+    expect(times).toEqual(['2026-10-30T16:00:00.000Z']);
+  });
+
+  it('requires both day-of-month and day-of-week to match, like node-cron', () => {
+    // Friday the 13th
+    const times = take(cronFireTimes(parseCron('0 12 13 * 5')!, new Date('2026-01-01T00:00:00Z'), 'UTC'), 2);
+    expect(times).toEqual(['2026-02-13T12:00:00.000Z', '2026-03-13T12:00:00.000Z']);
+  });
+
+  it('never fires at a time skipped by DST', () => {
+    // 02:30 does not exist in Stockholm on 2026-03-29
+    const times = take(cronFireTimes(parseCron('30 2 * * *')!, new Date('2026-03-28T00:00:00Z'), TZ), 2);
+    expect(times).toEqual(['2026-03-28T01:30:00.000Z', '2026-03-30T00:30:00.000Z']);
+  });
+
+  it('stops at the until time', () => {
+    const times = [...cronFireTimes(
+      parseCron('0 * * * *')!,
+      new Date('2026-10-21T10:00:00Z'),
+      'UTC',
+      new Date('2026-10-21T13:00:00Z')
+    )].map(d => d.toISOString());
+    expect(times).toEqual(['2026-10-21T11:00:00.000Z', '2026-10-21T12:00:00.000Z', '2026-10-21T13:00:00.000Z']);
+  });
+
+  it('ends for dates that never come', () => {
+    expect([...cronFireTimes(parseCron('0 0 31 2 *')!, new Date('2026-01-01T00:00:00Z'), 'UTC')]).toEqual([]);
+  });
+});
+
+// ─── getNextFireTimes ─────────────────────────────────────────────────────────
+
+describe('getNextFireTimes', () => {
+  it('lists the next runs in the timezone', () => {
+    const times = getNextFireTimes('0 17 * * 5', TZ, 2, new Date('2026-10-19T00:00:00Z'));
+    expect(times.map(d => d.toISOString())).toEqual(['2026-10-23T15:00:00.000Z', '2026-10-30T16:00:00.000Z']);
+  });
+
+  it('returns nothing for an invalid expression', () => {
+    expect(getNextFireTimes('0 17 * * 5#L', TZ)).toEqual([]);
+  });
+});
+
+describe('getNextRunAt', () => {
+  const now = new Date('2026-10-19T00:00:00Z');
+  const recurring = { cronExpression: '0 17 * * 5', runAt: null, timezone: TZ, isActive: true };
+
+  it('is the next fire time of a recurring event', () => {
+    expect(getNextRunAt(recurring, now)?.toISOString()).toBe('2026-10-23T15:00:00.000Z');
+  });
+
+  it('is the run time of a pending one-off event', () => {
+    const runAt = new Date('2026-11-01T12:00:00Z');
+    expect(getNextRunAt({ ...recurring, cronExpression: null, runAt }, now)).toBe(runAt);
+  });
+
+  it('is null for paused events', () => {
+    expect(getNextRunAt({ ...recurring, isActive: false }, now)).toBeNull();
+  });
+});
+
+// ─── getMissedFireTimes ───────────────────────────────────────────────────────
+
+describe('getMissedFireTimes', () => {
+  it('lists the times passed since the last run', () => {
+    const missed = getMissedFireTimes(
+      '0 17 * * 5',
+      new Date('2026-10-16T15:00:00Z'),
+      new Date('2026-10-26T09:00:00Z'),
+      TZ
+    );
+    expect(missed.map(d => d.toISOString())).toEqual(['2026-10-23T15:00:00.000Z']);
+  });
+
+  it('keeps only the most recent few', () => {
+    const missed = getMissedFireTimes(
+      '0 * * * *',
+      new Date('2026-10-20T00:00:00Z'),
+      new Date('2026-10-21T00:00:00Z'),
+      'UTC',
+      3
+    );
+    expect(missed.map(d => d.toISOString())).toEqual([
+      '2026-10-20T22:00:00.000Z',
+      '2026-10-20T23:00:00.000Z',
+      '2026-10-21T00:00:00.000Z',
+    ]);
+  });
+
+  it('looks back at most a week', () => {
+    const missed = getMissedFireTimes(
+      '0 12 * * *',
+      new Date('2026-01-01T00:00:00Z'),
+      new Date('2026-10-21T13:00:00Z'),
+      'UTC',
+      100
+    );
+    expect(missed).toHaveLength(7);
+    expect(missed[0].toISOString()).toBe('2026-10-15T12:00:00.000Z');
+  });
+
+  it('returns nothing for an invalid expression', () => {
+    expect(getMissedFireTimes('nonsense', new Date(0), new Date(), 'UTC')).toEqual([]);
+  });
+});
+
+// ─── describeCron ─────────────────────────────────────────────────────────────
+
+describe('describeCron', () => {
+  it('describes clock times and weekdays', () => {
+    expect(describeCron('0 17 * * 5')).toBe('at 17:00 every Friday');
+    expect(describeCron('0 9 * * 1-5')).toBe('at 09:00 Monday to Friday');
+    expect(describeCron('0 9 * * mon,wed')).toBe('at 09:00 on Monday and Wednesday');
+    expect(describeCron('0 9,18 * * *')).toBe('at 09:00 and 18:00 every day');
+  });
+
+  it('describes steps', () => {
+    expect(describeCron('*/15 * * * *')).toBe('every 15 minutes');
+    expect(describeCron('0 */2 * * *')).toBe('at :00 every 2 hours');
+    expect(describeCron('*/30 9-17 * * 1-5')).toBe('every 30 minutes from 09:00 to 17:59 Monday to Friday');
+  });
+
+  it('describes days of the month and months', () => {
+    expect(describeCron('0 9 1 * *')).toBe('at 09:00 on day 1 of the month');
+    expect(describeCron('0 0 1 jan-mar *')).toBe('at 00:00 on day 1 of the month in January to March');
+    expect(describeCron('0 12 13 * 5')).toBe('at 12:00 on day 13 of the month if it is Friday');
+  });
+
+  it('lists the values a stepped range picks', () => {
+    expect(describeCron('0 9 1 1-12/3 *')).toBe('at 09:00 on day 1 of the month in March, June, September and December');
+    expect(describeCron('0 9 * jan-mar/2 *')).toBe('at 09:00 every day in February');
+    expect(describeCron('0 9 * * 1-5/2')).toBe('at 09:00 on Tuesday and Thursday');
+    expect(describeCron('0 9 1-15/2 * *')).toBe('at 09:00 on day 2, 4, 6, 8, 10, 12 and 14 of the month');
+  });
+
+  it('returns invalid expressions unchanged', () => {
+    expect(describeCron('0 17 * * 5#L')).toBe('0 17 * * 5#L');
+  });
+
+  it('returns sub-minute expressions unchanged', () => {
+    expect(describeCron('*/30 * * * * *')).toBe('*/30 * * * * *');
+    expect(describeCron('0 0 17 * * 5')).toBe('at 17:00 every Friday');
+  });
+});
+
+// ─── planCatchUp ──────────────────────────────────────────────────────────────
+
+describe('planCatchUp', () => {
+  const missed = [1, 2, 3].map(day => new Date(Date.UTC(2026, 9, day, 17)));
+
+  it('skips everything under skip', () => {
+    expect(planCatchUp(missed, 'skip')).toEqual({ run: [], skip: missed });
+  });
+
+  it('runs only the latest under once', () => {
+    expect(planCatchUp(missed, 'once')).toEqual({ run: [missed[2]], skip: missed.slice(0, 2) });
+  });
+
+  it('runs everything under all, up to the cap', () => {
+    expect(planCatchUp(missed, 'all')).toEqual({ run: missed, skip: [] });
+
+    const many = Array.from({ length: MAX_CATCH_UP_RUNS + 2 }, (_, i) => new Date(Date.UTC(2026, 9, 1, i)));
+    const plan = planCatchUp(many, 'all');
+    expect(plan.run).toHaveLength(MAX_CATCH_UP_RUNS);
+    expect(plan.skip).toEqual(many.slice(0, 2));
+  });
+
+  it('has nothing to do without missed runs', () => {
+    expect(planCatchUp([], 'all')).toEqual({ run: [], skip: [] });
+  });
+});
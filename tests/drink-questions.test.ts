@@ -2,15 +2,23 @@
  * Unit tests for pure exports in src/drink-questions.ts
  *
  * Only tests the module-level constants (TRIBUTE_SCORES) and the
- * synchronous pure function (handleDrinkList). All async functions
- * that require DB or AI API access are excluded here.
+ * synchronous pure functions (handleDrinkList, the image analysis prompt
+ * builder and parser). All async functions that require DB or AI API
+ * access are excluded here.
  *
  * The module imports db-dependent services, but none of them throw
  * at import time when DATABASE_URL is absent — they log and continue.
  */
 
 import { describe, it, expect } from 'vitest';
-import { TRIBUTE_SCORES, handleDrinkList } from '../src/drink-questions';
+import {
+  TRIBUTE_SCORES,
+  handleDrinkList,
+  buildImageAnalysisPrompt,
+  parseImageAnalysisResponse,
+} from '../src/drink-questions';
+import { resolveScoringRules } from '../src/services/scoringRules';
+import { DEFAULT_CATEGORIES, type TributeCategory } from '../src/services/tributeCategories';
 
 describe('TRIBUTE_SCORES', () => {
   it('should define the correct point value for TIKI drinks', () => {
@@ -75,3 +83,79 @@ describe('handleDrinkList', () => {
     expect(first.content).toBe(second.content);
   });
 });
+
+describe('image analysis with custom categories', () => {
+  const syrup: TributeCategory = {
+    id: 5, guildId: 'g1', key: 'HOMEMADE_SYRUP', label: 'Homemade syrup',
+    description: 'Syrups, cordials and shrubs made at home', defaultPoints: 4, sortOrder: 40, isActive: true,
+  };
+  const categories = [...DEFAULT_CATEGORIES, syrup];
+  const rules = resolveScoringRules(null, categories);
+
+  it('lists every active category with its points in the prompt', () => {
+    const prompt = buildImageAnalysisPrompt(undefined, false, false, rules, categories);
+    expect(prompt).toContain('- HOMEMADE_SYRUP (4pts): Syrups, cordials and shrubs made at home');
+    expect(prompt).toContain('- TIKI (10pts):');
+    expect(prompt).toContain('"HOMEMADE_SYRUP"');
+  });
+
+  it('accepts a custom category from the AI response and scores it', () => {
+    const result = parseImageAnalysisResponse(
+      JSON.stringify({ description: 'A jar of orgeat', category: 'HOMEMADE_SYRUP', drinkName: 'Orgeat' }),
+      rules,
+      false,
+      categories
+    );
+    expect(result?.category).toBe('HOMEMADE_SYRUP');
+    expect(result?.score).toBe(4);
+  });
+
+  it('falls back to OTHER for categories that do not exist', () => {
+    const result = parseImageAnalysisResponse(
+      JSON.stringify({ description: 'Something', category: 'SPACE_JUICE' }),
+      rules,
+      false,
+      categories
+    );
+    expect(result?.category).toBe('OTHER');
+    expect(result?.score).toBe(1);
+  });
+});
+
+describe('image analysis drink names', () => {
+  const categories = DEFAULT_CATEGORIES;
+  const rules = resolveScoringRules(null, categories);
+
+  it('normalizes the drink name against the catalogue', () => {
+    const result = parseImageAnalysisResponse(
+      JSON.stringify({ description: 'A tall mug', category: 'TIKI', drinkName: 'mai-tia' }),
+      rules,
+      false,
+      categories
+    );
+    expect(result?.drinkName).toBe('Mai Tai');
+    expect(result?.rawDrinkName).toBe('mai-tia');
+  });
+
+  it("uses a recognised drink's category instead of OTHER", () => {
+    const result = parseImageAnalysisResponse(
+      JSON.stringify({ description: 'A coupe', category: 'OTHER', drinkName: 'Daiquiri' }),
+      rules,
+      false,
+      categories
+    );
+    expect(result?.category).toBe('COCKTAIL');
+    expect(result?.rawDrinkName).toBeUndefined();
+  });
+
+  it('keeps unknown drink names as given', () => {
+    const result = parseImageAnalysisResponse(
+      JSON.stringify({ description: 'A glass', category: 'OTHER', drinkName: 'Mystery Brew' }),
+      rules,
+      false,
+      categories
+    );
+    expect(result?.drinkName).toBe('Mystery Brew');
+    expect(result?.category).toBe('OTHER');
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Unit tests for the pure helpers in src/services/drinks.ts
+ *
+ * drinks.ts imports `sql` from src/db.ts, which only logs (never throws)
+ * when DATABASE_URL is absent, so the import is safe here.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_DRINKS,
+  normalizeDrinkName,
+  editDistance,
+  matchDrink,
+  normalizeAliases,
+} from '../src/services/drinks';
+
+function matched(name: string): string | undefined {
+  return matchDrink(name, DEFAULT_DRINKS)?.drink.canonicalName;
+}
+
+// ─── normalizeDrinkName ───────────────────────────────────────────────────────
+
+describe('normalizeDrinkName', () => {
+  it('ignores case, accents and punctuation', () => {
+    expect(normalizeDrinkName('  Mai-Tai! ')).toBe('mai tai');
+    expect(normalizeDrinkName('Piña Colada')).toBe('pina colada');
+    expect(normalizeDrinkName('Trader Vic’s')).toBe('trader vics');
+  });
+
+  it('spells out "and"', () => {
+    expect(normalizeDrinkName("Dark 'n' Stormy")).toBe('dark and stormy');
+    expect(normalizeDrinkName('Dark & Stormy')).toBe('dark and stormy');
+  });
+});
+
+// ─── editDistance ─────────────────────────────────────────────────────────────
+
+describe('editDistance', () => {
+  it('counts edits', () => {
+    expect(editDistance('zombie', 'zombie')).toBe(0);
+    expect(editDistance('zombi', 'zombie')).toBe(1);
+    expect(editDistance('kitten', 'sitting')).toBe(3);
+    expect(editDistance('', 'abc')).toBe(3);
+  });
+
+  it('counts a swap of adjacent letters as one edit', () => {
+    expect(editDistance('mai tia', 'mai tai')).toBe(1);
+  });
+});
+
+// ─── matchDrink ───────────────────────────────────────────────────────────────
+
+describe('matchDrink', () => {
+  it('matches canonical names and aliases', () => {
+    expect(matchDrink('mai-tai', DEFAULT_DRINKS)).toMatchObject({ kind: 'exact', drink: { canonicalName: 'Mai Tai' } });
+    expect(matchDrink('Maitai', DEFAULT_DRINKS)).toMatchObject({ kind: 'alias', drink: { canonicalName: 'Mai Tai' } });
+    expect(matched('Dark & Stormy')).toBe('Dark and Stormy');
+  });
+
+  it('finds a drink named inside a longer description', () => {
+    expect(matchDrink("Smuggler's Cove Mai Tai", DEFAULT_DRINKS)).toMatchObject({ kind: 'partial', drink: { canonicalName: 'Mai Tai' } });
+    // The longest contained name wins
+    expect(matched('Classic Zombie Punch')).toBe('Zombie');
+    expect(matched('Scorpion Bowl for two')).toBe('Scorpion Bowl');
+  });
+
+  it('tolerates small typos', () => {
+    expect(matchDrink('Mai Tia', DEFAULT_DRINKS)).toMatchObject({ kind: 'fuzzy', drink: { canonicalName: 'Mai Tai' } });
+    expect(matched('Zombi')).toBe('Zombie');
+    expect(matched('Negorni')).toBe('Negroni');
+  });
+
+  it('does not guess', () => {
+    expect(matchDrink('Lager', DEFAULT_DRINKS)).toBeNull();
+    expect(matchDrink('Tai', DEFAULT_DRINKS)).toBeNull();
+    expect(matchDrink('Mojo', DEFAULT_DRINKS)).toBeNull();
+    expect(matchDrink('', DEFAULT_DRINKS)).toBeNull();
+    expect(matchDrink(null, DEFAULT_DRINKS)).toBeNull();
+  });
+});
+
+// ─── normalizeAliases ─────────────────────────────────────────────────────────
+
+describe('normalizeAliases', () => {
+  it('drops blanks, repeats and the canonical name', () => {
+    expect(normalizeAliases([' Maitai ', 'MAITAI', '', 'Mai-Tai', 42, 'Mai Tai Roa Ae'], 'Mai Tai')).toEqual([
+      'Maitai',
+      'Mai Tai Roa Ae',
+    ]);
+    expect(normalizeAliases('Maitai', 'Mai Tai')).toEqual([]);
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Unit tests for the pure helpers in src/services/eventMessages.ts
+ *
+ * The module imports db.ts, which is safe to import without a DATABASE_URL
+ * (it logs an error but does not throw).
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  validateEventPayload,
+  parseMentionRole,
+  buildEventMessage,
+  buildRsvpCustomId,
+  parseRsvpCustomId,
+  formatRsvpLabel,
+  updateRsvpButton,
+} from '../src/services/eventMessages';
+
+const ROLE_ID = '123456789012345678';
+const USER_ID = '234567890123456789';
+const OTHER_USER_ID = '345678901234567890';
+const EVENT_ID = 'c0ffee00-0000-4000-8000-000000000001';
+
+// ─── validateEventPayload ─────────────────────────────────────────────────────
+
+describe('validateEventPayload', () => {
+  it('accepts existing payloads', () => {
+    expect(validateEventPayload('tribute_reminder', {})).toBeNull();
+    expect(validateEventPayload('custom_message', { message: 'Hi', mentionRole: '@everyone' })).toBeNull();
+    expect(validateEventPayload('status_report', { period: 'friday', topN: 10, mentionNonParticipants: true })).toBeNull();
+    expect(validateEventPayload('channel_summary', { windowHours: 12, minMessages: 0 })).toBeNull();
+  });
+
+  it('requires the text each type posts', () => {
+    expect(validateEventPayload('custom_message', {})).toMatch(/message is required/);
+    expect(validateEventPayload('ai_prompt', { prompt: '  ' })).toMatch(/prompt is required/);
+  });
+
+  it('checks type-specific fields', () => {
+    expect(validateEventPayload('status_report', { period: 'month' })).toMatch(/period/);
+    expect(validateEventPayload('status_report', { topN: 0 })).toMatch(/topN/);
+    expect(validateEventPayload('team_standings', { periodDays: 'seven' })).toMatch(/periodDays/);
+  });
+
+  it('refuses unknown types and non-objects', () => {
+    expect(validateEventPayload('fireworks', {})).toMatch(/unknown event type/);
+    expect(validateEventPayload('tribute_reminder', [])).toMatch(/object/);
+  });
+
+  it('accepts rich message options', () => {
+    expect(validateEventPayload('tribute_reminder', {
+      mentionRole: ROLE_ID,
+      mentionUsers: [USER_ID],
+      embed: { title: 'Friday', color: '#d97706', imageUrl: 'https://example.com/a.png' },
+      attachments: ['https://example.com/b.png'],
+      buttons: [{ rsvp: true }, { label: 'Menu', url: 'https://example.com/menu' }],
+    })).toBeNull();
+  });
+
+  it('refuses malformed message options', () => {
+    expect(validateEventPayload('tribute_reminder', { mentionRole: 'Drinkers' })).toMatch(/mentionRole/);
+    expect(validateEventPayload('tribute_reminder', { mentionUsers: ['bob'] })).toMatch(/mentionUsers/);
+    expect(validateEventPayload('tribute_reminder', { embed: { color: 'orange' } })).toMatch(/color/);
+    expect(validateEventPayload('tribute_reminder', { attachments: ['ftp://example.com/a.png'] })).toMatch(/attachments/);
+    expect(validateEventPayload('tribute_reminder', { buttons: [{ label: 'Menu' }] })).toMatch(/url/);
+    expect(validateEventPayload('tribute_reminder', { buttons: [{ url: 'https://example.com' }] })).toMatch(/label/);
+    expect(validateEventPayload('tribute_reminder', { buttons: [{ rsvp: true }, { rsvp: true }] })).toMatch(/one RSVP/);
+    expect(validateEventPayload('tribute_reminder', {
+      buttons: Array.from({ length: 6 }, (_, i) => ({ label: `B${i}`, url: 'https://example.com' })),
+    })).toMatch(/at most 5/);
+  });
+});
+
+// ─── Message building ─────────────────────────────────────────────────────────
+
+describe('parseMentionRole', () => {
+  it('reads everyone, here, role IDs and role mentions', () => {
+    expect(parseMentionRole('@everyone')).toEqual({ everyone: '@everyone' });
+    expect(parseMentionRole('here')).toEqual({ everyone: '@here' });
+    expect(parseMentionRole(ROLE_ID)).toEqual({ roleId: ROLE_ID });
+    expect(parseMentionRole(`<@&${ROLE_ID}>`)).toEqual({ roleId: ROLE_ID });
+    expect(parseMentionRole('Drinkers')).toBeNull();
+  });
+});
+
+describe('buildEventMessage', () => {
+  it('posts plain text that pings no one', () => {
+    expect(buildEventMessage('Tribute!', {}, EVENT_ID)).toEqual({
+      content: 'Tribute!',
+      allowedMentions: { parse: [] },
+    });
+  });
+
+  it('mentions the role and users, and lets only them ping', () => {
+    const message = buildEventMessage('Tribute!', { mentionRole: ROLE_ID, mentionUsers: [USER_ID] }, EVENT_ID);
+    expect(message.content).toBe(`<@&${ROLE_ID}> <@${USER_ID}>\nTribute!`);
+    expect(message.allowedMentions).toEqual({ parse: [], roles: [ROLE_ID], users: [USER_ID] });
+  });
+
+  it('allows @everyone only when asked for', () => {
+    const message = buildEventMessage('Tribute!', { mentionRole: '@here' }, EVENT_ID);
+    expect(message.content).toBe('@here\nTribute!');
+    expect(message.allowedMentions).toEqual({ parse: ['everyone'] });
+  });
+
+  it('lets users named in the text ping', () => {
+    const message = buildEventMessage(`<@${OTHER_USER_ID}>, where is your tribute?`, {}, EVENT_ID, [OTHER_USER_ID]);
+    expect(message.allowedMentions).toEqual({ parse: [], users: [OTHER_USER_ID] });
+  });
+
+  it('puts the text in an embed, keeping mentions in the content', () => {
+    const message = buildEventMessage('Tribute!', {
+      mentionRole: '@everyone',
+      embed: { title: 'Friday', color: '#d97706', footer: 'The spirits', imageUrl: 'https://example.com/a.png' },
+    }, EVENT_ID);
+    expect(message.content).toBe('@everyone');
+    expect(message.embeds).toEqual([{
+      title: 'Friday',
+      description: 'Tribute!',
+      color: 0xd97706,
+      footer: { text: 'The spirits' },
+      image: { url: 'https://example.com/a.png' },
+    }]);
+  });
+
+  it('adds attachments and a row of buttons', () => {
+    const message = buildEventMessage('Tribute!', {
+      attachments: ['https://example.com/b.png'],
+      buttons: [{ rsvp: true }, { label: 'Menu', url: 'https://example.com/menu' }],
+    }, EVENT_ID);
+    expect(message.attachments).toEqual(['https://example.com/b.png']);
+    expect(message.components).toEqual([{
+      type: 1,
+      components: [
+        { type: 2, style: 3, label: "I'm in!", custom_id: `rsvp:${EVENT_ID}` },
+        { type: 2, style: 5, label: 'Menu', url: 'https://example.com/menu' },
+      ],
+    }]);
+  });
+});
+
+// ─── RSVP buttons ─────────────────────────────────────────────────────────────
+
+describe('RSVP custom IDs', () => {
+  it('round-trips the event ID', () => {
+    expect(parseRsvpCustomId(buildRsvpCustomId(EVENT_ID))).toBe(EVENT_ID);
+    expect(parseRsvpCustomId('journal:1:1::::')).toBeNull();
+    expect(parseRsvpCustomId('rsvp:')).toBeNull();
+  });
+});
+
+describe('formatRsvpLabel', () => {
+  it('shows the count, replacing any earlier one', () => {
+    expect(formatRsvpLabel("I'm in!", 3)).toBe("I'm in! (3)");
+    expect(formatRsvpLabel("I'm in! (3)", 4)).toBe("I'm in! (4)");
+    expect(formatRsvpLabel("I'm in! (1)", 0)).toBe("I'm in!");
+  });
+});
+
+describe('updateRsvpButton', () => {
+  it('updates only the clicked button', () => {
+    const customId = buildRsvpCustomId(EVENT_ID);
+    const components = buildEventMessage('Tribute!', {
+      buttons: [{ rsvp: true }, { label: 'Menu', url: 'https://example.com/menu' }],
+    }, EVENT_ID).components!;
+
+    const updated = updateRsvpButton(components, customId, 2);
+    expect(updated[0].components?.map(c => c.label)).toEqual(["I'm in! (2)", 'Menu']);
+    expect(components[0].components?.[0].label).toBe("I'm in!");
+  });
+});
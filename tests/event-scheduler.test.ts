@@ -0,0 +1,153 @@
+/**
+ * Integration tests for src/gateway/eventScheduler.ts run claims: two
+ * scheduler instances in one process stand in for two gateway replicas
+ * sharing a database, and each event fire must run exactly once. Also checks
+ * the change notifications schedulers listen for.
+ *
+ * Needs a throwaway PostgreSQL database in TEST_DATABASE_URL; skipped without
+ * one. db.ts reads DATABASE_URL when first imported, so the modules are
+ * imported only after pointing it at the test database.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import type { ScheduledEvent } from '../src/services/agents';
+import type { EventScheduler } from '../src/gateway/eventScheduler';
+
+const TEST_DATABASE_URL = process.env.TEST_DATABASE_URL;
+
+describe.skipIf(!TEST_DATABASE_URL)('event scheduler replicas (Postgres)', () => {
+  let db: typeof import('../src/db');
+  let agents: typeof import('../src/services/agents');
+  let createEventScheduler: typeof import('../src/gateway/eventScheduler').createEventScheduler;
+
+  let event: ScheduledEvent;
+  let runs: string[];
+  let schedulers: EventScheduler[];
+
+  /** A scheduler that records the fires of the test event instead of posting */
+  function replica(instanceId: string): EventScheduler {
+    const scheduler = createEventScheduler({
+      instanceId,
+      execute: async (e, fire) => {
+        if (e.id === event.id) runs.push(fire.scheduledFor.toISOString());
+        // Hold the run open so the other replica arrives while it is in flight
+        await new Promise(resolve => setTimeout(resolve, 20));
+        return { success: true };
+      },
+    });
+    schedulers.push(scheduler);
+    return scheduler;
+  }
+
+  beforeAll(async () => {
+    process.env.DATABASE_URL = TEST_DATABASE_URL;
+    db = await import('../src/db');
+    agents = await import('../src/services/agents');
+    ({ createEventScheduler } = await import('../src/gateway/eventScheduler'));
+
+    // The same schema the gateway creates on startup
+    await db.initializeDatabase();
+  });
+
+  afterAll(async () => {
+    await db.sql?.end();
+  });
+
+  beforeEach(async () => {
+    runs = [];
+    schedulers = [];
+    event = await agents.createScheduledEvent(
+      'Replica test',
+      'discord:replica-test-guild:replica-test-channel',
+      '0 12 * * *',
+      'custom_message',
+      { payload: { message: 'Replica test' }, timezone: 'UTC', catchUpPolicy: 'all' }
+    );
+  });
+
+  afterEach(async () => {
+    for (const scheduler of schedulers) scheduler.stop();
+    await agents.deleteScheduledEvent(event.id);
+  });
+
+  it('runs a fire once when both replicas trigger it', async () => {
+    const a = replica('replica-a');
+    const b = replica('replica-b');
+    const fire = { trigger: 'schedule' as const, scheduledFor: new Date('2026-10-23T12:00:00Z') };
+
+    const ran = await Promise.all([a.fire(event, fire), b.fire(event, fire)]);
+
+    expect(runs).toEqual(['2026-10-23T12:00:00.000Z']);
+    expect(ran.filter(Boolean)).toHaveLength(1);
+  });
+
+  it('still runs the next fire', async () => {
+    const a = replica('replica-a');
+    const b = replica('replica-b');
+
+    await a.fire(event, { trigger: 'schedule', scheduledFor: new Date('2026-10-23T12:00:00Z') });
+    await b.fire(event, { trigger: 'schedule', scheduledFor: new Date('2026-10-24T12:00:00Z') });
+
+    expect(runs).toEqual(['2026-10-23T12:00:00.000Z', '2026-10-24T12:00:00.000Z']);
+  });
+
+  it('lets another replica take over a fire whose claim lapsed without a run', async () => {
+    const lapsed = new Date('2026-10-23T12:00:00Z');
+    const recorded = new Date('2026-10-24T12:00:00Z');
+    expect(await agents.claimEventRun(event.id, lapsed, 'replica-a')).toBe(true);
+    expect(await agents.claimEventRun(event.id, recorded, 'replica-a')).toBe(true);
+    await agents.recordEventRun(event.id, 'success', undefined, { trigger: 'schedule', scheduledFor: recorded });
+
+    // Still leased: nobody else may run it
+    expect(await agents.claimEventRun(event.id, lapsed, 'replica-b')).toBe(false);
+
+    await db.sql!`
+      UPDATE scheduled_event_claims
+      SET claimed_at = NOW() - make_interval(mins => ${agents.EVENT_RUN_CLAIM_LEASE_MINUTES + 1})
+      WHERE event_id = ${event.id}::uuid
+    `;
+
+    expect(await agents.claimEventRun(event.id, lapsed, 'replica-b')).toBe(true);
+    expect(await agents.claimEventRun(event.id, recorded, 'replica-b')).toBe(false);
+  });
+
+  it('catches up each missed run once when both replicas start', async () => {
+    // Make the event look two weeks old, so a week of daily runs was missed
+    await db.sql!`UPDATE scheduled_events SET updated_at = NOW() - INTERVAL '14 days' WHERE id = ${event.id}::uuid`;
+
+    await Promise.all([replica('replica-a').refresh(), replica('replica-b').refresh()]);
+
+    expect(runs).toHaveLength(7);
+    expect(new Set(runs).size).toBe(runs.length);
+  });
+
+  it('records a missed run as skipped only once', async () => {
+    await agents.updateScheduledEvent(event.id, { catchUpPolicy: 'skip' });
+    await db.sql!`UPDATE scheduled_events SET updated_at = NOW() - INTERVAL '2 days' WHERE id = ${event.id}::uuid`;
+
+    await Promise.all([replica('replica-a').refresh(), replica('replica-b').refresh()]);
+
+    const history = await agents.getEventRuns(event.id);
+    expect(runs).toEqual([]);
+    expect(history.filter(r => r.status === 'skipped')).toHaveLength(2);
+    expect(new Set(history.map(r => r.scheduledFor?.toISOString())).size).toBe(history.length);
+  });
+
+  it('notifies listeners of event changes, but not of recorded runs', async () => {
+    const changes: string[] = [];
+    const unlisten = await agents.listenForScheduledEventChanges(change => {
+      if (change.id === event.id) changes.push(change.op);
+    });
+
+    await agents.updateScheduledEvent(event.id, { payload: { message: 'Edited' } });
+    await agents.recordEventRun(event.id, 'success', undefined, { trigger: 'schedule' });
+    await agents.updateScheduledEvent(event.id, { isActive: false });
+    await agents.deleteScheduledEvent(event.id);
+
+    // Notifications arrive asynchronously on the listening connection
+    await new Promise(resolve => setTimeout(resolve, 200));
+    await unlisten?.();
+
+    expect(changes).toEqual(['UPDATE', 'UPDATE', 'DELETE']);
+  });
+});
@@ -8,7 +8,15 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { formatPersonalStats, formatLeaderboard, type StatsData } from '../src/formatters';
+import {
+  formatPersonalStats,
+  formatLeaderboard,
+  formatStatusReport,
+  leaderboardFromPosts,
+  findNonParticipants,
+  type StatsData,
+  type StatusReportData,
+} from '../src/formatters';
 import type { LeaderboardEntry } from '../src/db';
 
 // ─── helpers ────────────────────────────────────────────────────────────────
@@ -76,10 +84,24 @@ describe('formatPersonalStats', () => {
     expect(result).toContain('5');
   });
 
+  it('should include the distinct drink count when known', () => {
+    expect(formatPersonalStats('TestUser', makeStats({ distinctDrinks: 12 }), '')).toContain('**Drinks Tried:** 12 distinct');
+    expect(formatPersonalStats('TestUser', makeStats(), '')).not.toContain('Drinks Tried');
+  });
+
   it('should return a string', () => {
     const result = formatPersonalStats('TestUser', makeStats(), '');
     expect(typeof result).toBe('string');
   });
+
+  it('should include the Friday streak and achievements when given', () => {
+    const result = formatPersonalStats('TestUser', makeStats(), '', undefined, {
+      unlocked: [],
+      streak: { current: 3, longest: 5 },
+    });
+    expect(result).toContain('Friday Streak:** 3 (best 5)');
+    expect(result).toContain('Achievements');
+  });
 });
 
 // ─── formatLeaderboard ──────────────────────────────────────────────────────
@@ -136,4 +158,112 @@ describe('formatLeaderboard', () => {
     const result = formatLeaderboard([], [], []);
     expect(result).not.toContain('Friday Champions');
   });
+
+  it('should show team standings when teams are provided', () => {
+    const teams = [
+      { rank: 1, teamId: 1, name: 'Team Rum', score: 40, count: 4, members: 3 },
+      { rank: 2, teamId: 2, name: 'Team Gin', score: 10, count: 1, members: 1 },
+    ];
+    const result = formatLeaderboard([], [], [], teams);
+    expect(result).toContain('Team Standings');
+    expect(result).toContain('1. **Team Rum** - 40pts (3 members)');
+    expect(result).toContain('2. **Team Gin** - 10pts (1 member)');
+  });
+
+  it('should not show team section when there are no teams', () => {
+    expect(formatLeaderboard([], [], [])).not.toContain('Team Standings');
+  });
+});
+
+// ─── Status reports ─────────────────────────────────────────────────────────
+
+describe('leaderboardFromPosts', () => {
+  it('sums posts per user and ranks by score', () => {
+    const result = leaderboardFromPosts([
+      { userId: 'a', username: 'A', score: 5 },
+      { userId: 'b', username: 'B', score: 10 },
+      { userId: 'a', username: 'A', score: 10 },
+    ]);
+    expect(result).toEqual([
+      { userId: 'a', username: 'A', count: 2, score: 15 },
+      { userId: 'b', username: 'B', count: 1, score: 10 },
+    ]);
+  });
+});
+
+describe('findNonParticipants', () => {
+  it('returns regulars without an entry in the period', () => {
+    const regulars = [
+      { userId: 'a', score: 50, count: 5 },
+      { userId: 'b', score: 40, count: 4 },
+      { userId: 'c', score: 30, count: 3 },
+    ];
+    const entries = [{ userId: 'b', score: 5, count: 1 }];
+    expect(findNonParticipants(regulars, entries).map(e => e.userId)).toEqual(['a', 'c']);
+  });
+});
+
+describe('formatStatusReport', () => {
+  function report(overrides: Partial<StatusReportData> = {}): StatusReportData {
+    return {
+      period: 'week',
+      fridayKey: '2026-10-16',
+      entries: [
+        { userId: 'w1', score: 20, count: 2 },
+        { userId: 'w2', score: 5, count: 1 },
+      ],
+      allTime: [
+        { userId: 'a1', score: 300, count: 30 },
+        { userId: 'a2', score: 200, count: 20 },
+      ],
+      topN: 5,
+      includeTributeCount: true,
+      includeLeaderboard: true,
+      ...overrides,
+    };
+  }
+
+  it('summarizes the tribute week', () => {
+    const result = formatStatusReport(report());
+    expect(result).toContain('This tribute week (since Friday 2026-10-16)');
+    expect(result).toContain('**3** tributes from **2** devotees - 25pts');
+  });
+
+  it('ranks the period and all time, cut to top N', () => {
+    const result = formatStatusReport(report({ topN: 1 }));
+    expect(result).toContain('<@a1>');
+    expect(result).not.toContain('<@a2>');
+    expect(result).toContain('<@w1>');
+    expect(result).not.toContain('<@w2>');
+  });
+
+  it('heads the period ranking after the period', () => {
+    const week = formatStatusReport(report());
+    expect(week).toContain("This Week's Devoted");
+    expect(week).not.toContain('Friday Champions');
+    expect(formatStatusReport(report({ period: 'friday' }))).toContain('Friday Champions');
+  });
+
+  it('leaves out the sections that are not included', () => {
+    const result = formatStatusReport(report({ includeLeaderboard: false }));
+    expect(result).not.toContain('<@a1>');
+    expect(formatStatusReport(report({ includeTributeCount: false }))).not.toContain('devotees -');
+  });
+
+  it('says so when nobody has posted', () => {
+    const result = formatStatusReport(report({ period: 'friday', entries: [] }));
+    expect(result).toContain('Friday 2026-10-16');
+    expect(result).toContain('No tributes have been offered');
+  });
+
+  it('mentions non-participants', () => {
+    const result = formatStatusReport(report({ nonParticipants: [{ userId: 'lazy', score: 10, count: 1 }] }));
+    expect(result).toContain('still await offerings from <@lazy>');
+  });
+
+  it('titles the all-time report', () => {
+    const result = formatStatusReport(report({ period: 'all_time', fridayKey: undefined }));
+    expect(result).toContain('**STATUS REPORT** - All time');
+    expect(result).not.toContain('Friday Champions');
+  });
 });
@@ -0,0 +1,108 @@
+/**
+ * Unit tests for src/services/imageHash.ts
+ *
+ * imageHash.ts imports `sql` from src/db.ts, which only logs (never
+ * throws) when DATABASE_URL is absent, so the import is safe here.
+ * Hashing runs against the image fixtures in tests/fixtures/images.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import path from 'path';
+import {
+  computeDHash,
+  hammingDistance,
+  classifyDistance,
+  findRepeatedImages,
+  hashImage,
+  DUPLICATE_MAX_DISTANCE,
+  SIMILAR_MAX_DISTANCE,
+} from '../src/services/imageHash';
+
+const FIXTURES = path.join(__dirname, 'fixtures', 'images');
+
+function fixture(name: string): Buffer {
+  return readFileSync(path.join(FIXTURES, name));
+}
+
+// ─── computeDHash ───────────────────────────────────────────────────────────
+
+describe('computeDHash', () => {
+  it('sets every bit when brightness falls left to right', () => {
+    const pixels = Uint8Array.from({ length: 72 }, (_, i) => 255 - (i % 9) * 20);
+    expect(computeDHash(pixels)).toBe('ffffffffffffffff');
+  });
+
+  it('clears every bit when brightness rises left to right', () => {
+    const pixels = Uint8Array.from({ length: 72 }, (_, i) => (i % 9) * 20);
+    expect(computeDHash(pixels)).toBe('0000000000000000');
+  });
+
+  it('rejects input that is not 9x8 pixels', () => {
+    expect(() => computeDHash(new Uint8Array(64))).toThrow();
+  });
+});
+
+// ─── hammingDistance / classifyDistance ─────────────────────────────────────
+
+describe('hammingDistance', () => {
+  it('counts differing bits', () => {
+    expect(hammingDistance('0000000000000000', '0000000000000000')).toBe(0);
+    expect(hammingDistance('0000000000000000', '000000000000000f')).toBe(4);
+    expect(hammingDistance('0000000000000000', 'ffffffffffffffff')).toBe(64);
+  });
+});
+
+describe('classifyDistance', () => {
+  it('refuses near-identical images and flags similar ones', () => {
+    expect(classifyDistance(0)).toBe('duplicate');
+    expect(classifyDistance(DUPLICATE_MAX_DISTANCE)).toBe('duplicate');
+    expect(classifyDistance(DUPLICATE_MAX_DISTANCE + 1)).toBe('similar');
+    expect(classifyDistance(SIMILAR_MAX_DISTANCE)).toBe('similar');
+    expect(classifyDistance(SIMILAR_MAX_DISTANCE + 1)).toBe('unique');
+    expect(classifyDistance(null)).toBe('unique');
+  });
+});
+
+// ─── findRepeatedImages ─────────────────────────────────────────────────────
+
+describe('findRepeatedImages', () => {
+  it('flags later copies of an earlier image in the same message', () => {
+    expect(findRepeatedImages([
+      '0000000000000000',
+      'ffffffffffffffff',
+      '000000000000000f', // 4 bits from the first
+      'ffffffffffffffff',
+    ])).toEqual([2, 3]);
+  });
+
+  it('ignores images that could not be hashed', () => {
+    expect(findRepeatedImages([null, null, '0000000000000000'])).toEqual([]);
+  });
+});
+
+// ─── hashImage (fixtures) ───────────────────────────────────────────────────
+
+describe('hashImage', () => {
+  it('produces a 16-char hex hash', async () => {
+    expect(await hashImage(fixture('tiki-mug.png'))).toMatch(/^[0-9a-f]{16}$/);
+  });
+
+  it('treats resized, recompressed, brightened and cropped copies as duplicates', async () => {
+    const original = await hashImage(fixture('tiki-mug.png'));
+
+    for (const name of ['tiki-mug-small.jpg', 'tiki-mug-bright.jpg', 'tiki-mug-cropped.jpg']) {
+      const copy = await hashImage(fixture(name));
+      expect(classifyDistance(hammingDistance(original, copy)), name).toBe('duplicate');
+    }
+  });
+
+  it('does not match a mirrored image or a different drink', async () => {
+    const original = await hashImage(fixture('tiki-mug.png'));
+
+    for (const name of ['tiki-mug-mirrored.png', 'beer-glass.png']) {
+      const other = await hashImage(fixture(name));
+      expect(classifyDistance(hammingDistance(original, other)), name).toBe('unique');
+    }
+  });
+});
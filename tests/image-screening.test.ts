@@ -0,0 +1,91 @@
+/**
+ * Integration tests for screenTributeImage in src/services/imageHash.ts:
+ * duplicate lookups against recorded tributes, and DM tributes staying
+ * private to the user who sent them.
+ *
+ * Needs a throwaway PostgreSQL database in TEST_DATABASE_URL; skipped without
+ * one. db.ts reads DATABASE_URL when first imported, so the modules are
+ * imported only after pointing it at the test database.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { readFileSync } from 'fs';
+import path from 'path';
+import type { DownloadedImage } from '../src/services/tributeImages';
+
+const TEST_DATABASE_URL = process.env.TEST_DATABASE_URL;
+
+const ALICE = 'screening-test-alice';
+const BOB = 'screening-test-bob';
+const GUILD = 'screening-test-guild';
+
+function fixture(name: string): DownloadedImage {
+  return {
+    sourceUrl: `https://example.com/${name}`,
+    bytes: readFileSync(path.join(__dirname, 'fixtures', 'images', name)),
+    contentType: null,
+  };
+}
+
+describe.skipIf(!TEST_DATABASE_URL)('image screening (Postgres)', () => {
+  let db: typeof import('../src/db');
+  let imageHash: typeof import('../src/services/imageHash');
+
+  /** Record a tribute of the tiki mug fixture */
+  async function recordMug(userId: string, guildId: string): Promise<number> {
+    return db.recordTribute({
+      userId,
+      username: userId === ALICE ? 'Alice' : 'Bob',
+      guildId,
+      isDm: guildId === 'dm',
+      category: 'TIKI',
+      score: 10,
+      fridayKey: '2026-10-23',
+      isFriday: true,
+      imageHash: await imageHash.hashImage(fixture('tiki-mug.png').bytes),
+    });
+  }
+
+  beforeAll(async () => {
+    process.env.DATABASE_URL = TEST_DATABASE_URL;
+    db = await import('../src/db');
+    imageHash = await import('../src/services/imageHash');
+
+    await db.initializeDatabase();
+  });
+
+  afterEach(async () => {
+    await db.sql!`DELETE FROM tributes WHERE user_id IN (${ALICE}, ${BOB})`;
+  });
+
+  afterAll(async () => {
+    await db.sql?.end();
+  });
+
+  it('catches a recycled image from another member of the guild', async () => {
+    const tributeId = await recordMug(ALICE, GUILD);
+
+    const screening = await imageHash.screenTributeImage(fixture('tiki-mug.png'), GUILD, BOB);
+
+    expect(screening.verdict).toBe('duplicate');
+    expect(screening.match?.tributeId).toBe(tributeId);
+  });
+
+  it("never matches another user's DM tribute", async () => {
+    await recordMug(ALICE, 'dm');
+
+    const screening = await imageHash.screenTributeImage(fixture('tiki-mug.png'), 'dm', BOB);
+
+    expect(screening.verdict).toBe('unique');
+    expect(screening.match).toBeNull();
+  });
+
+  it("still matches the user's own earlier DM tribute", async () => {
+    const tributeId = await recordMug(ALICE, 'dm');
+
+    const screening = await imageHash.screenTributeImage(fixture('tiki-mug.png'), 'dm', ALICE);
+
+    expect(screening.verdict).toBe('duplicate');
+    expect(screening.match?.tributeId).toBe(tributeId);
+  });
+});
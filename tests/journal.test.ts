@@ -0,0 +1,144 @@
+/**
+ * Unit tests for the pure helpers in src/services/journal.ts
+ *
+ * journal.ts imports `sql` from src/db.ts, which only logs (never throws)
+ * when DATABASE_URL is absent, so the import is safe here.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseJournalDate,
+  parseJournalRange,
+  buildJournalCustomId,
+  parseJournalCustomId,
+  formatJournalPage,
+  buildJournalComponents,
+  type JournalEntry,
+  type JournalState,
+} from '../src/services/journal';
+
+function entry(overrides: Partial<JournalEntry> = {}): JournalEntry {
+  return {
+    id: 42,
+    guildId: 'g1',
+    isDm: false,
+    category: 'TIKI',
+    drinkName: 'Mai Tai',
+    score: 10,
+    isFriday: true,
+    createdAt: new Date('2026-10-23T18:30:00Z'),
+    ...overrides,
+  };
+}
+
+// ─── Dates ────────────────────────────────────────────────────────────────────
+
+describe('parseJournalDate', () => {
+  it('accepts days', () => {
+    expect(parseJournalDate('2026-09-12', 'from')).toBe('2026-09-12');
+    expect(parseJournalDate(' 2026-09-12 ', 'to')).toBe('2026-09-12');
+  });
+
+  it('expands months to their first or last day', () => {
+    expect(parseJournalDate('2026-09', 'from')).toBe('2026-09-01');
+    expect(parseJournalDate('2026-09', 'to')).toBe('2026-09-30');
+    expect(parseJournalDate('2028-02', 'to')).toBe('2028-02-29');
+  });
+
+  it('rejects impossible dates', () => {
+    expect(parseJournalDate('2026-02-30', 'from')).toBeNull();
+    expect(parseJournalDate('2026-13', 'from')).toBeNull();
+    expect(parseJournalDate('last month', 'from')).toBeNull();
+  });
+});
+
+describe('parseJournalRange', () => {
+  it('returns the parsed bounds', () => {
+    expect(parseJournalRange('2026-09', '2026-09')).toEqual({ from: '2026-09-01', to: '2026-09-30' });
+    expect(parseJournalRange(undefined, '2026-10-01')).toEqual({ to: '2026-10-01' });
+    expect(parseJournalRange()).toEqual({});
+  });
+
+  it('explains bad input', () => {
+    expect(parseJournalRange('yesterday')).toEqual({ error: '"yesterday" is not a date. Use YYYY-MM-DD or YYYY-MM.' });
+    expect(parseJournalRange('2026-10-01', '2026-09-01')).toEqual({ error: 'The range ends before it begins.' });
+  });
+});
+
+// ─── custom_id state ──────────────────────────────────────────────────────────
+
+describe('journal custom_id', () => {
+  const state: JournalState = {
+    userId: '123456789012345678',
+    page: 3,
+    from: '2026-09-01',
+    to: '2026-09-30',
+    category: 'TIKI',
+    drink: "Trader Vic's: Mai Tai",
+  };
+
+  it('round-trips', () => {
+    expect(parseJournalCustomId(buildJournalCustomId(state))).toEqual(state);
+    expect(parseJournalCustomId(buildJournalCustomId({ userId: 'u1', page: 1 }))).toEqual({
+      userId: 'u1',
+      page: 1,
+      from: undefined,
+      to: undefined,
+      category: undefined,
+      drink: undefined,
+    });
+  });
+
+  it('stays within Discord\'s 100 characters', () => {
+    const customId = buildJournalCustomId({ ...state, drink: 'a very long drink name '.repeat(5) });
+    expect(customId.length).toBeLessThanOrEqual(100);
+    expect(parseJournalCustomId(customId)?.drink).toMatch(/^a very long/);
+  });
+
+  it('ignores other custom_ids', () => {
+    expect(parseJournalCustomId('rsvp:1')).toBeNull();
+    expect(parseJournalCustomId('journal:u1:0::::')).toBeNull();
+    expect(parseJournalCustomId('journal:u1:x::::')).toBeNull();
+  });
+});
+
+// ─── Rendering ────────────────────────────────────────────────────────────────
+
+describe('formatJournalPage', () => {
+  it('lists entries in the guild timezone', () => {
+    const content = formatJournalPage(
+      'Ana',
+      { entries: [entry(), entry({ id: 7, drinkName: null, category: 'BEER_WINE', score: 2, isFriday: false, isDm: true, createdAt: new Date('2026-10-20T23:30:00Z') })], total: 12, page: 1, pageCount: 2 },
+      { category: 'TIKI' },
+      'Europe/Stockholm'
+    );
+
+    expect(content).toContain("**Ana's drink journal** — Tiki");
+    expect(content).toContain('12 tributes · page 1 of 2');
+    expect(content).toContain('`#42` 2026-10-23 Fri — **Mai Tai** · Tiki · 10 pts 🗿');
+    // 23:30 UTC is already Wednesday in Stockholm
+    expect(content).toContain('`#7` 2026-10-21 Wed — Beer/Wine · 2 pts (private)');
+  });
+
+  it('says when nothing matches', () => {
+    const content = formatJournalPage('Ana', { entries: [], total: 0, page: 1, pageCount: 0 }, { drink: 'zombie' }, 'UTC');
+    expect(content).toContain('no offerings matching these signs');
+  });
+});
+
+describe('buildJournalComponents', () => {
+  const state: JournalState = { userId: 'u1', page: 1 };
+
+  it('adds no buttons for a single page', () => {
+    expect(buildJournalComponents(state, 1)).toEqual([]);
+  });
+
+  it('disables the buttons at either end', () => {
+    const [first] = buildJournalComponents(state, 3);
+    expect(first.components?.map(b => b.disabled)).toEqual([true, false]);
+    expect(parseJournalCustomId(first.components![1].custom_id!)?.page).toBe(2);
+
+    const [last] = buildJournalComponents({ ...state, page: 3 }, 3);
+    expect(last.components?.map(b => b.disabled)).toEqual([false, true]);
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Unit tests for the pure helpers in src/services/reminders.ts
+ *
+ * The module imports agents.ts, which imports db.ts; db.ts is safe to import
+ * without a DATABASE_URL (it logs an error but does not throw).
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getReminderThreadId,
+  getReminderUserId,
+  parseReminderTime,
+  validateReminder,
+  formatReminderList,
+  findReminderByRef,
+  eventToReminder,
+  MAX_REMINDERS_PER_USER,
+  MAX_REMINDER_LENGTH,
+  type Reminder,
+} from '../src/services/reminders';
+import type { ScheduledEvent } from '../src/services/agents';
+
+const TZ = 'Europe/Stockholm';
+
+// Wednesday 2026-10-21 12:00 in Stockholm (UTC+2 until 2026-10-25)
+const NOW = new Date('2026-10-21T10:00:00Z');
+
+function reminder(id: string, message: string, runAt: string): Reminder {
+  return { id, userId: 'u1', message, runAt: new Date(runAt), timezone: TZ, createdAt: NOW };
+}
+
+// ─── Targets ──────────────────────────────────────────────────────────────────
+
+describe('reminder targets', () => {
+  it('round-trips a user ID through the thread ID', () => {
+    expect(getReminderThreadId('123')).toBe('discord:user:123');
+    expect(getReminderUserId('discord:user:123')).toBe('123');
+  });
+
+  it('ignores channel and DM targets', () => {
+    expect(getReminderUserId('discord:456:789')).toBeNull();
+    expect(getReminderUserId('discord:dm:789')).toBeNull();
+    expect(getReminderUserId('discord:user:')).toBeNull();
+  });
+});
+
+// ─── parseReminderTime ────────────────────────────────────────────────────────
+
+describe('parseReminderTime', () => {
+  it('reads relative times', () => {
+    expect(parseReminderTime('in 2 hours', NOW, TZ)?.toISOString()).toBe('2026-10-21T12:00:00.000Z');
+    expect(parseReminderTime('30m', NOW, TZ)?.toISOString()).toBe('2026-10-21T10:30:00.000Z');
+    expect(parseReminderTime('1h30m', NOW, TZ)?.toISOString()).toBe('2026-10-21T11:30:00.000Z');
+    expect(parseReminderTime('in 1 h 15 min', NOW, TZ)?.toISOString()).toBe('2026-10-21T11:15:00.000Z');
+    expect(parseReminderTime('2 days', NOW, TZ)?.toISOString()).toBe('2026-10-23T10:00:00.000Z');
+  });
+
+  it('rejects zero and unknown units', () => {
+    expect(parseReminderTime('0m', NOW, TZ)).toBeNull();
+    expect(parseReminderTime('5 fortnights', NOW, TZ)).toBeNull();
+  });
+
+  it('reads a time of day in the timezone, rolling to tomorrow once past', () => {
+    expect(parseReminderTime('18:00', NOW, TZ)?.toISOString()).toBe('2026-10-21T16:00:00.000Z');
+    expect(parseReminderTime('6pm', NOW, TZ)?.toISOString()).toBe('2026-10-21T16:00:00.000Z');
+    expect(parseReminderTime('at 6:30 pm', NOW, TZ)?.toISOString()).toBe('2026-10-21T16:30:00.000Z');
+    expect(parseReminderTime('9am', NOW, TZ)?.toISOString()).toBe('2026-10-22T07:00:00.000Z');
+    expect(parseReminderTime('12am', NOW, TZ)?.toISOString()).toBe('2026-10-21T22:00:00.000Z');
+  });
+
+  it('reads today and tomorrow', () => {
+    expect(parseReminderTime('today 17:30', NOW, TZ)?.toISOString()).toBe('2026-10-21T15:30:00.000Z');
+    expect(parseReminderTime('today 8:00', NOW, TZ)).toBeNull();
+    expect(parseReminderTime('tomorrow 9am', NOW, TZ)?.toISOString()).toBe('2026-10-22T07:00:00.000Z');
+    expect(parseReminderTime('tomorrow', NOW, TZ)?.toISOString()).toBe('2026-10-22T07:00:00.000Z');
+  });
+
+  it('reads weekdays, a week out when today has passed', () => {
+    expect(parseReminderTime('friday at 18:00', NOW, TZ)?.toISOString()).toBe('2026-10-23T16:00:00.000Z');
+    expect(parseReminderTime('wednesday 18:00', NOW, TZ)?.toISOString()).toBe('2026-10-21T16:00:00.000Z');
+    expect(parseReminderTime('wednesday 8:00', NOW, TZ)?.toISOString()).toBe('2026-10-28T07:00:00.000Z');
+  });
+
+  it('follows DST when crossing into winter time', () => {
+    // Stockholm is UTC+1 from 2026-10-25
+    expect(parseReminderTime('monday 18:00', NOW, TZ)?.toISOString()).toBe('2026-10-26T17:00:00.000Z');
+  });
+
+  it('reads absolute dates and refuses past ones', () => {
+    expect(parseReminderTime('2026-12-24 15:00', NOW, TZ)?.toISOString()).toBe('2026-12-24T14:00:00.000Z');
+    expect(parseReminderTime('2026-01-01 12:00', NOW, TZ)).toBeNull();
+  });
+
+  it('returns null for nonsense', () => {
+    expect(parseReminderTime('', NOW, TZ)).toBeNull();
+    expect(parseReminderTime('whenever', NOW, TZ)).toBeNull();
+    expect(parseReminderTime('25:00', NOW, TZ)).toBeNull();
+    expect(parseReminderTime('13pm', NOW, TZ)).toBeNull();
+    expect(parseReminderTime('someday 18:00', NOW, TZ)).toBeNull();
+  });
+});
+
+// ─── validateReminder ─────────────────────────────────────────────────────────
+
+describe('validateReminder', () => {
+  const soon = new Date('2026-10-21T12:00:00Z');
+
+  it('accepts a normal reminder', () => {
+    expect(validateReminder('Buy limes', soon, 0, NOW)).toBeNull();
+  });
+
+  it('refuses empty, overlong, unreadable and far-off reminders', () => {
+    expect(validateReminder('  ', soon, 0, NOW)).toMatch(/remind you of/);
+    expect(validateReminder('x'.repeat(MAX_REMINDER_LENGTH + 1), soon, 0, NOW)).toMatch(/at most/);
+    expect(validateReminder('Buy limes', null, 0, NOW)).toMatch(/cannot read/);
+    expect(validateReminder('Buy limes', new Date('2028-01-01T00:00:00Z'), 0, NOW)).toMatch(/days ahead/);
+  });
+
+  it('caps pending reminders per user', () => {
+    expect(validateReminder('Buy limes', soon, MAX_REMINDERS_PER_USER - 1, NOW)).toBeNull();
+    expect(validateReminder('Buy limes', soon, MAX_REMINDERS_PER_USER, NOW)).toMatch(/Cancel one first/);
+  });
+});
+
+// ─── Listing and lookup ───────────────────────────────────────────────────────
+
+describe('formatReminderList', () => {
+  it('numbers reminders with Discord timestamps', () => {
+    const text = formatReminderList([
+      reminder('aaaaaaaa-1111', 'Buy limes', '2026-10-21T16:00:00Z'),
+      reminder('bbbbbbbb-2222', 'Call Bob', '2026-10-22T07:00:00Z'),
+    ]);
+    expect(text).toContain(`**1.** <t:${Date.parse('2026-10-21T16:00:00Z') / 1000}:f>`);
+    expect(text).toContain('Buy limes `aaaaaaaa`');
+    expect(text).toContain('**2.**');
+  });
+
+  it('says so when there are none', () => {
+    expect(formatReminderList([])).toContain('no reminders pending');
+  });
+});
+
+describe('findReminderByRef', () => {
+  const reminders = [
+    reminder('aaaaaaaa-1111', 'Buy limes', '2026-10-21T16:00:00Z'),
+    reminder('abbbbbbb-2222', 'Call Bob', '2026-10-22T07:00:00Z'),
+  ];
+
+  it('finds by list number', () => {
+    expect(findReminderByRef(reminders, '2')?.message).toBe('Call Bob');
+    expect(findReminderByRef(reminders, '#1')?.message).toBe('Buy limes');
+    expect(findReminderByRef(reminders, '3')).toBeNull();
+  });
+
+  it('finds by an unambiguous ID prefix', () => {
+    expect(findReminderByRef(reminders, 'aaaa')?.message).toBe('Buy limes');
+    expect(findReminderByRef(reminders, 'a')).toBeNull();
+    expect(findReminderByRef(reminders, '')).toBeNull();
+  });
+});
+
+describe('eventToReminder', () => {
+  const event = {
+    id: 'e1',
+    name: 'Reminder',
+    description: 'Buy limes',
+    threadId: 'discord:user:42',
+    cronExpression: null,
+    runAt: new Date('2026-10-21T16:00:00Z'),
+    timezone: TZ,
+    isActive: true,
+    createdAt: NOW,
+  } as ScheduledEvent;
+
+  it('maps a pending user-targeted one-off event', () => {
+    expect(eventToReminder(event)).toMatchObject({ id: 'e1', userId: '42', message: 'Buy limes' });
+  });
+
+  it('skips channel events, recurring events and ones already run', () => {
+    expect(eventToReminder({ ...event, threadId: 'discord:1:2' })).toBeNull();
+    expect(eventToReminder({ ...event, runAt: null, cronExpression: '0 9 * * *' })).toBeNull();
+    expect(eventToReminder({ ...event, isActive: false })).toBeNull();
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Unit tests for the pure helpers in src/services/scoreRecalculation.ts
+ *
+ * The module imports `sql` from src/db.ts, which only logs (never throws)
+ * when DATABASE_URL is absent, so the import is safe here.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  computeScoreChanges,
+  buildLeaderboardPreview,
+  loadRulesByGuild,
+  isRunId,
+  type TributeScoreInput,
+} from '../src/services/scoreRecalculation';
+import { normalizeScoringRules } from '../src/services/scoringRules';
+
+let nextId = 1;
+
+function makeTribute(overrides: Partial<TributeScoreInput> = {}): TributeScoreInput {
+  return {
+    id: nextId++,
+    userId: 'u1',
+    username: 'Alice',
+    guildId: 'g1',
+    isDm: false,
+    category: 'TIKI',
+    drinkName: null,
+    isFriday: false,
+    score: 10,
+    ...overrides,
+  };
+}
+
+// ─── computeScoreChanges ────────────────────────────────────────────────────
+
+describe('computeScoreChanges', () => {
+  it('returns nothing when scores already match the rules', () => {
+    const tributes = [makeTribute(), makeTribute({ category: 'COCKTAIL', score: 5 })];
+    expect(computeScoreChanges(tributes, {})).toEqual([]);
+  });
+
+  it('rescores tributes under the guild rules', () => {
+    const t = makeTribute();
+    const rules = { g1: normalizeScoringRules({ categories: { TIKI: 15 } }) };
+    expect(computeScoreChanges([t], rules)).toEqual([
+      { tributeId: t.id, userId: 'u1', guildId: 'g1', oldScore: 10, newScore: 15 },
+    ]);
+  });
+
+  it('uses the defaults for guilds without rules and for DMs', () => {
+    const dm = makeTribute({ guildId: 'dm', isDm: true, score: 3 });
+    const changes = computeScoreChanges([dm], { g1: normalizeScoringRules({ categories: { TIKI: 15 } }) });
+    expect(changes).toHaveLength(1);
+    expect(changes[0].newScore).toBe(10);
+  });
+
+  it('applies Friday multipliers and drink overrides', () => {
+    const friday = makeTribute({ isFriday: true });
+    const maiTai = makeTribute({ drinkName: 'Mai Tai' });
+    const rules = { g1: normalizeScoringRules({ multipliers: { friday: 2 }, drinkOverrides: { 'mai tai': 12 } }) };
+
+    const changes = computeScoreChanges([friday, maiTai], rules);
+    expect(changes.map(c => c.newScore)).toEqual([20, 12]);
+  });
+});
+
+// ─── loadRulesByGuild ───────────────────────────────────────────────────────
+
+describe('loadRulesByGuild', () => {
+  it("loads each guild's rules once, keeping custom categories", async () => {
+    const loaded: string[] = [];
+    const loadRules = async (guildId: string) => {
+      loaded.push(guildId);
+      return guildId === 'g1'
+        ? normalizeScoringRules({ categories: { TIKI: 10, MEAD: 7 } })
+        : normalizeScoringRules({});
+    };
+    const mead = makeTribute({ category: 'MEAD', score: 7 });
+    const tributes = [mead, makeTribute(), makeTribute({ guildId: 'g2' })];
+
+    const rules = await loadRulesByGuild(tributes, loadRules);
+
+    expect(loaded).toEqual(['g1', 'g2']);
+    expect(computeScoreChanges(tributes, rules)).toEqual([]);
+  });
+
+  it('would rescore a custom category as OTHER without its guild rules', () => {
+    const mead = makeTribute({ category: 'MEAD', score: 7 });
+    expect(computeScoreChanges([mead], {})[0].newScore).toBe(1);
+  });
+});
+
+// ─── buildLeaderboardPreview ────────────────────────────────────────────────
+
+describe('buildLeaderboardPreview', () => {
+  it('shows score and rank movement for affected users', () => {
+    const alice = makeTribute({ userId: 'a', username: 'Alice', category: 'COCKTAIL', score: 5 });
+    const bob = makeTribute({ userId: 'b', username: 'Bob', category: 'BEER_WINE', score: 2 });
+    const bob2 = makeTribute({ userId: 'b', username: 'Bob', category: 'BEER_WINE', score: 2 });
+    const tributes = [alice, bob, bob2];
+
+    const rules = { g1: normalizeScoringRules({ categories: { BEER_WINE: 4 } }) };
+    const preview = buildLeaderboardPreview(tributes, computeScoreChanges(tributes, rules));
+
+    expect(preview).toEqual([
+      { guildId: 'g1', userId: 'b', username: 'Bob', oldScore: 4, newScore: 8, oldRank: 2, newRank: 1 },
+      { guildId: 'g1', userId: 'a', username: 'Alice', oldScore: 5, newScore: 5, oldRank: 1, newRank: 2 },
+    ]);
+  });
+
+  it('excludes DM tributes and untouched guilds', () => {
+    const dm = makeTribute({ guildId: 'dm', isDm: true, score: 1 });
+    const other = makeTribute({ guildId: 'g2', score: 10 });
+    const changes = computeScoreChanges([dm, other], {});
+
+    expect(changes).toHaveLength(1);
+    expect(buildLeaderboardPreview([dm, other], changes)).toEqual([]);
+  });
+
+  it('returns an empty preview when nothing changes', () => {
+    expect(buildLeaderboardPreview([makeTribute()], [])).toEqual([]);
+  });
+});
+
+// ─── isRunId ────────────────────────────────────────────────────────────────
+
+describe('isRunId', () => {
+  it('accepts UUIDs only', () => {
+    expect(isRunId('c0ffee00-0000-4000-8000-000000000001')).toBe(true);
+    expect(isRunId('C0FFEE00-0000-4000-8000-000000000001')).toBe(true);
+    expect(isRunId('abc')).toBe(false);
+    expect(isRunId('c0ffee00-0000-4000-8000-000000000001; DROP')).toBe(false);
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Unit tests for the pure helpers in src/services/scoringRules.ts
+ *
+ * scoringRules.ts imports `sql` from src/db.ts, which only logs (never
+ * throws) when DATABASE_URL is absent, so the import is safe here.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_SCORING_RULES,
+  calculateTributeScore,
+  normalizeScoringRules,
+  resolveScoringRules,
+  toStoredScoringRules,
+  formatScoringLegend,
+  formatCategoryLabel,
+  type ScoringRules,
+} from '../src/services/scoringRules';
+import { DEFAULT_CATEGORIES, type TributeCategory } from '../src/services/tributeCategories';
+
+function makeRules(overrides: Partial<ScoringRules> = {}): ScoringRules {
+  return normalizeScoringRules({ ...DEFAULT_SCORING_RULES, ...overrides });
+}
+
+// ─── calculateTributeScore ──────────────────────────────────────────────────
+
+describe('calculateTributeScore', () => {
+  it('uses the category points from the default rules', () => {
+    expect(calculateTributeScore(DEFAULT_SCORING_RULES, { category: 'TIKI' })).toBe(10);
+    expect(calculateTributeScore(DEFAULT_SCORING_RULES, { category: 'COCKTAIL' })).toBe(5);
+    expect(calculateTributeScore(DEFAULT_SCORING_RULES, { category: 'BEER_WINE' })).toBe(2);
+    expect(calculateTributeScore(DEFAULT_SCORING_RULES, { category: 'OTHER' })).toBe(1);
+  });
+
+  it('falls back to OTHER for unknown categories', () => {
+    expect(calculateTributeScore(DEFAULT_SCORING_RULES, { category: 'MYSTERY' })).toBe(1);
+  });
+
+  it('uses custom category points', () => {
+    const rules = makeRules({ categories: { TIKI: 20, COCKTAIL: 5, BEER_WINE: 2, OTHER: 1 } });
+    expect(calculateTributeScore(rules, { category: 'TIKI' })).toBe(20);
+  });
+
+  it('applies the Friday multiplier only on Fridays', () => {
+    const rules = makeRules({ multipliers: { friday: 2 } });
+    expect(calculateTributeScore(rules, { category: 'COCKTAIL', isFriday: true })).toBe(10);
+    expect(calculateTributeScore(rules, { category: 'COCKTAIL', isFriday: false })).toBe(5);
+  });
+
+  it('prefers drink overrides over the category value (case-insensitive)', () => {
+    const rules = makeRules({ drinkOverrides: { 'mai tai': 15 } });
+    expect(calculateTributeScore(rules, { category: 'TIKI', drinkName: '  Mai  Tai ' })).toBe(15);
+    expect(calculateTributeScore(rules, { category: 'TIKI', drinkName: 'Zombie' })).toBe(10);
+  });
+
+  it('applies multipliers to drink overrides and rounds the result', () => {
+    const rules = makeRules({ drinkOverrides: { zombie: 3 }, multipliers: { friday: 1.5 } });
+    expect(calculateTributeScore(rules, { category: 'TIKI', drinkName: 'Zombie', isFriday: true })).toBe(5);
+  });
+});
+
+// ─── normalizeScoringRules ──────────────────────────────────────────────────
+
+describe('normalizeScoringRules', () => {
+  it('returns the defaults for empty or invalid input', () => {
+    const defaults = {
+      categories: DEFAULT_SCORING_RULES.categories,
+      multipliers: DEFAULT_SCORING_RULES.multipliers,
+      drinkOverrides: {},
+    };
+    expect(normalizeScoringRules(null)).toEqual(defaults);
+    expect(normalizeScoringRules('nonsense')).toEqual(defaults);
+  });
+
+  it('keeps default categories that are missing from the input', () => {
+    const rules = normalizeScoringRules({ categories: { TIKI: 12 } });
+    expect(rules.categories).toEqual({ TIKI: 12, COCKTAIL: 5, BEER_WINE: 2, OTHER: 1 });
+  });
+
+  it('ignores non-numeric values and clamps negatives to zero', () => {
+    const rules = normalizeScoringRules({
+      categories: { TIKI: 'lots', COCKTAIL: -4 },
+      multipliers: { friday: 'x' },
+    });
+    expect(rules.categories.TIKI).toBe(10);
+    expect(rules.categories.COCKTAIL).toBe(0);
+    expect(rules.multipliers.friday).toBe(1);
+  });
+
+  it('accepts numeric strings and normalizes drink override keys', () => {
+    const rules = normalizeScoringRules({ drinkOverrides: { ' Navy  Grog ': '8' } });
+    expect(rules.drinkOverrides).toEqual({ 'navy grog': 8 });
+  });
+});
+
+// ─── resolveScoringRules ────────────────────────────────────────────────────
+
+describe('resolveScoringRules', () => {
+  const rumNeat: TributeCategory = {
+    id: 10, guildId: 'g1', key: 'RUM_NEAT', label: 'Rum neat',
+    description: 'Rum served neat', defaultPoints: 7, sortOrder: 15, isActive: true,
+  };
+
+  it('matches DEFAULT_SCORING_RULES for the built-in categories', () => {
+    expect(resolveScoringRules(null, DEFAULT_CATEGORIES)).toEqual(DEFAULT_SCORING_RULES);
+  });
+
+  it('uses category default points when nothing is stored', () => {
+    const rules = resolveScoringRules(null, [...DEFAULT_CATEGORIES, rumNeat]);
+    expect(rules.categories.RUM_NEAT).toBe(7);
+    expect(rules.labels?.RUM_NEAT).toBe('Rum neat');
+  });
+
+  it('lets stored values override category defaults', () => {
+    const rules = resolveScoringRules({ categories: { RUM_NEAT: 9 } }, [...DEFAULT_CATEGORIES, rumNeat]);
+    expect(rules.categories.RUM_NEAT).toBe(9);
+  });
+
+  it('drops stored values for categories that are no longer active', () => {
+    const rules = resolveScoringRules({ categories: { RUM_NEAT: 9 } }, DEFAULT_CATEGORIES);
+    expect(rules.categories).not.toHaveProperty('RUM_NEAT');
+  });
+
+  it('follows a category whose default points change after rules were saved', () => {
+    const saved = toStoredScoringRules({ categories: { RUM_NEAT: 9 }, multipliers: { friday: 2 } });
+    expect(saved.categories).toEqual({ RUM_NEAT: 9 });
+
+    const tiki = DEFAULT_CATEGORIES.find(c => c.key === 'TIKI')!;
+    const categories = [...DEFAULT_CATEGORIES.filter(c => c !== tiki), { ...tiki, defaultPoints: 12 }, rumNeat];
+    const rules = resolveScoringRules(saved, categories);
+    expect(rules.categories.TIKI).toBe(12);
+    expect(rules.categories.RUM_NEAT).toBe(9);
+    expect(rules.multipliers.friday).toBe(2);
+  });
+
+  it('labels custom categories in the legend', () => {
+    const rules = resolveScoringRules(null, [...DEFAULT_CATEGORIES, rumNeat]);
+    expect(formatScoringLegend(rules)).toContain('Rum neat=7pts');
+  });
+});
+
+// ─── formatting ─────────────────────────────────────────────────────────────
+
+describe('formatScoringLegend', () => {
+  it('matches the historical legend for the default rules', () => {
+    expect(formatScoringLegend(DEFAULT_SCORING_RULES)).toBe('Tiki=10pts, Cocktail=5pts, Beer/Wine=2pts, Other=1pt');
+  });
+
+  it('mentions the Friday multiplier when it is not 1', () => {
+    const rules = makeRules({ multipliers: { friday: 2 } });
+    expect(formatScoringLegend(rules)).toContain('(Fridays x2)');
+  });
+});
+
+describe('formatCategoryLabel', () => {
+  it('includes the configured points', () => {
+    expect(formatCategoryLabel('TIKI')).toBe('Tiki (10pts)');
+    expect(formatCategoryLabel('OTHER')).toBe('Other (1pt)');
+  });
+
+  it('falls back to the raw category name', () => {
+    expect(formatCategoryLabel('MYSTERY')).toBe('MYSTERY');
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Unit tests for the pure helpers in src/services/seasons.ts
+ *
+ * seasons.ts imports `sql` from src/db.ts, which only logs (never
+ * throws) when DATABASE_URL is absent, so the import is safe here.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getSeasonStatus,
+  findOverlappingSeason,
+  rankStandings,
+  formatSeasonLeaderboard,
+  formatChampionAnnouncement,
+  type Season,
+} from '../src/services/seasons';
+
+function season(overrides: Partial<Season> = {}): Season {
+  return {
+    id: 1,
+    guildId: 'g1',
+    name: 'Summer of Rum',
+    startsAt: new Date('2026-06-01T00:00:00Z'),
+    endsAt: new Date('2026-09-01T00:00:00Z'),
+    announceThreadId: null,
+    archivedAt: null,
+    championUserId: null,
+    createdAt: new Date('2026-05-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+// ─── getSeasonStatus ──────────────────────────────────────────────────────────
+
+describe('getSeasonStatus', () => {
+  it('walks through upcoming, active and ended', () => {
+    const s = season();
+    expect(getSeasonStatus(s, new Date('2026-05-31T23:59:59Z'))).toBe('upcoming');
+    expect(getSeasonStatus(s, new Date('2026-06-01T00:00:00Z'))).toBe('active');
+    expect(getSeasonStatus(s, new Date('2026-08-31T23:59:59Z'))).toBe('active');
+    expect(getSeasonStatus(s, new Date('2026-09-01T00:00:00Z'))).toBe('ended');
+  });
+
+  it('reports archived regardless of the date', () => {
+    const s = season({ archivedAt: new Date('2026-09-01T00:05:00Z') });
+    expect(getSeasonStatus(s, new Date('2026-07-01T00:00:00Z'))).toBe('archived');
+  });
+});
+
+// ─── findOverlappingSeason ────────────────────────────────────────────────────
+
+describe('findOverlappingSeason', () => {
+  const existing = [season()];
+
+  it('detects overlapping ranges', () => {
+    const match = findOverlappingSeason(existing, new Date('2026-08-15T00:00:00Z'), new Date('2026-10-01T00:00:00Z'));
+    expect(match?.id).toBe(1);
+  });
+
+  it('allows back-to-back seasons (end is exclusive)', () => {
+    expect(findOverlappingSeason(existing, new Date('2026-09-01T00:00:00Z'), new Date('2026-12-01T00:00:00Z'))).toBeNull();
+    expect(findOverlappingSeason(existing, new Date('2026-03-01T00:00:00Z'), new Date('2026-06-01T00:00:00Z'))).toBeNull();
+  });
+
+  it('ignores the season being edited', () => {
+    expect(findOverlappingSeason(existing, new Date('2026-06-15T00:00:00Z'), new Date('2026-09-15T00:00:00Z'), 1)).toBeNull();
+  });
+});
+
+// ─── rankStandings ────────────────────────────────────────────────────────────
+
+describe('rankStandings', () => {
+  it('orders by score and shares ranks on ties', () => {
+    const standings = rankStandings([
+      { userId: 'c', username: 'Cara', count: 2, score: 10 },
+      { userId: 'a', username: 'Ana', count: 5, score: 30 },
+      { userId: 'b', username: 'Bo', count: 4, score: 30 },
+      { userId: 'd', username: 'Dee', count: 1, score: 5 },
+    ]);
+
+    expect(standings.map(s => [s.userId, s.rank])).toEqual([
+      ['a', 1],
+      ['b', 1],
+      ['c', 3],
+      ['d', 4],
+    ]);
+  });
+
+  it('falls back to Unknown for missing usernames', () => {
+    expect(rankStandings([{ userId: 'x', count: 1, score: 5 }])[0].username).toBe('Unknown');
+  });
+});
+
+// ─── formatSeasonLeaderboard ──────────────────────────────────────────────────
+
+describe('formatSeasonLeaderboard', () => {
+  const standings = rankStandings([
+    { userId: 'a', username: 'Ana', count: 5, score: 30 },
+    { userId: 'b', username: 'Bo', count: 4, score: 20 },
+  ]);
+
+  it('shows time remaining for an active season', () => {
+    const text = formatSeasonLeaderboard(season(), standings, new Date('2026-08-29T00:00:00Z'));
+    expect(text).toContain('SUMMER OF RUM');
+    expect(text).toContain('2026-06-01 - 2026-08-31');
+    expect(text).toContain('3 days remain');
+    expect(text).toContain('<@a> - 30pts (5 tributes)');
+  });
+
+  it('labels archived seasons as final standings', () => {
+    const text = formatSeasonLeaderboard(season({ archivedAt: new Date() }), standings);
+    expect(text).toContain('final standings');
+  });
+
+  it('handles a season without tributes', () => {
+    const text = formatSeasonLeaderboard(season(), [], new Date('2026-07-01T00:00:00Z'));
+    expect(text).toContain('No tributes yet this season');
+  });
+});
+
+// ─── formatChampionAnnouncement ───────────────────────────────────────────────
+
+describe('formatChampionAnnouncement', () => {
+  it('crowns the champion and honors runners-up', () => {
+    const text = formatChampionAnnouncement(season(), rankStandings([
+      { userId: 'a', username: 'Ana', count: 5, score: 30 },
+      { userId: 'b', username: 'Bo', count: 4, score: 20 },
+      { userId: 'c', username: 'Cara', count: 2, score: 10 },
+      { userId: 'd', username: 'Dee', count: 1, score: 5 },
+    ]));
+
+    expect(text).toContain('The spirits crown <@a> as CHAMPION with **30pts**');
+    expect(text).toContain('<@b> - 20pts');
+    expect(text).toContain('<@c> - 10pts');
+    expect(text).not.toContain('<@d>');
+  });
+
+  it('crowns tied champions together', () => {
+    const text = formatChampionAnnouncement(season(), rankStandings([
+      { userId: 'a', username: 'Ana', count: 5, score: 30 },
+      { userId: 'b', username: 'Bo', count: 4, score: 30 },
+    ]));
+    expect(text).toContain('<@a> and <@b> as CHAMPIONS');
+    expect(text).not.toContain('Also honored');
+  });
+
+  it('mourns a season without tributes', () => {
+    expect(formatChampionAnnouncement(season(), [])).toContain('not a single tribute');
+  });
+});
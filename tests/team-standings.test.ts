@@ -0,0 +1,92 @@
+/**
+ * Integration tests for team standings in src/services/teams.ts: each tribute
+ * counts for the team its author was on when they made it, including after
+ * they leave or switch teams.
+ *
+ * Needs a throwaway PostgreSQL database in TEST_DATABASE_URL; skipped without
+ * one. db.ts reads DATABASE_URL when first imported, so the modules are
+ * imported only after pointing it at the test database.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import type { Team } from '../src/services/teams';
+
+const TEST_DATABASE_URL = process.env.TEST_DATABASE_URL;
+
+const GUILD = 'standings-test-guild';
+const ALICE = 'standings-test-alice';
+
+describe.skipIf(!TEST_DATABASE_URL)('team standings (Postgres)', () => {
+  let db: typeof import('../src/db');
+  let teams: typeof import('../src/services/teams');
+
+  let rum: Team;
+  let gin: Team;
+
+  function offer(score: number): Promise<number> {
+    return db.recordTribute({
+      userId: ALICE,
+      username: 'Alice',
+      guildId: GUILD,
+      isDm: false,
+      category: 'TIKI',
+      score,
+      fridayKey: '2026-10-23',
+      isFriday: true,
+    });
+  }
+
+  async function scores(): Promise<Record<string, { score: number; members: number }>> {
+    const standings = await teams.getTeamStandings(GUILD);
+    return Object.fromEntries(standings.map(s => [s.name, { score: s.score, members: s.members }]));
+  }
+
+  beforeAll(async () => {
+    process.env.DATABASE_URL = TEST_DATABASE_URL;
+    db = await import('../src/db');
+    teams = await import('../src/services/teams');
+
+    await db.initializeDatabase();
+  });
+
+  beforeEach(async () => {
+    rum = await teams.createTeam({ guildId: GUILD, name: 'Team Rum' });
+    gin = await teams.createTeam({ guildId: GUILD, name: 'Team Gin' });
+  });
+
+  afterEach(async () => {
+    await db.sql!`DELETE FROM teams WHERE guild_id = ${GUILD}`;
+    await db.sql!`DELETE FROM tributes WHERE guild_id = ${GUILD}`;
+  });
+
+  afterAll(async () => {
+    await db.sql?.end();
+  });
+
+  it('keeps points with the team after the member leaves mid-period', async () => {
+    await teams.joinTeam(rum, ALICE, 'Alice');
+    await offer(10);
+    await teams.leaveTeam(GUILD, ALICE);
+    await offer(5);
+
+    expect(await scores()).toEqual({
+      'Team Rum': { score: 10, members: 0 },
+      'Team Gin': { score: 0, members: 0 },
+    });
+  });
+
+  it('credits each tribute to the team the member was on at the time', async () => {
+    await teams.joinTeam(rum, ALICE, 'Alice');
+    await offer(10);
+    await teams.joinTeam(gin, ALICE, 'Alice');
+    await offer(5);
+    // Rejoining the current team changes nothing
+    await teams.joinTeam(gin, ALICE, 'Alice');
+    await offer(2);
+
+    expect(await scores()).toEqual({
+      'Team Rum': { score: 10, members: 0 },
+      'Team Gin': { score: 7, members: 1 },
+    });
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Unit tests for the pure helpers in src/services/teams.ts
+ *
+ * teams.ts imports `sql` from src/db.ts, which only logs (never throws) when
+ * DATABASE_URL is absent, so the import is safe here.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  findTeamByName,
+  findRoleTeam,
+  rankTeams,
+  formatTeamStandings,
+  type Team,
+} from '../src/services/teams';
+
+function team(id: number, name: string, roleId: string | null = null): Team {
+  return { id, guildId: 'g1', name, roleId, createdAt: new Date('2026-10-01T00:00:00Z') };
+}
+
+const teams = [team(2, 'Team Gin', 'role-gin'), team(1, 'Team Rum', 'role-rum'), team(3, 'Team Tea')];
+
+describe('findTeamByName', () => {
+  it('ignores case and surrounding whitespace', () => {
+    expect(findTeamByName(teams, '  team rum ')?.id).toBe(1);
+  });
+
+  it('returns null for unknown or blank names', () => {
+    expect(findTeamByName(teams, 'Team Vodka')).toBeNull();
+    expect(findTeamByName(teams, '   ')).toBeNull();
+  });
+});
+
+describe('findRoleTeam', () => {
+  it('finds the team whose role is held', () => {
+    expect(findRoleTeam(teams, ['other', 'role-gin'])?.id).toBe(2);
+  });
+
+  it('prefers the oldest team when several roles are held', () => {
+    expect(findRoleTeam(teams, ['role-gin', 'role-rum'])?.id).toBe(1);
+  });
+
+  it('returns null when no team role is held', () => {
+    expect(findRoleTeam(teams, ['other'])).toBeNull();
+    expect(findRoleTeam(teams, [])).toBeNull();
+  });
+});
+
+describe('rankTeams', () => {
+  it('sorts by score and lets ties share a rank', () => {
+    const ranked = rankTeams([
+      { teamId: 1, name: 'Team Rum', score: 20, count: 2, members: 2 },
+      { teamId: 2, name: 'Team Gin', score: 40, count: 4, members: 3 },
+      { teamId: 3, name: 'Team Tea', score: 20, count: 4, members: 1 },
+      { teamId: 4, name: 'Team Ale', score: 0, count: 0, members: 0 },
+    ]);
+
+    expect(ranked.map(t => [t.name, t.rank])).toEqual([
+      ['Team Gin', 1],
+      ['Team Rum', 2],
+      ['Team Tea', 2],
+      ['Team Ale', 4],
+    ]);
+  });
+});
+
+describe('formatTeamStandings', () => {
+  it('lists each team with medals, tributes and members', () => {
+    const text = formatTeamStandings([
+      { rank: 1, teamId: 2, name: 'Team Gin', score: 40, count: 4, members: 3 },
+      { rank: 2, teamId: 1, name: 'Team Rum', score: 20, count: 2, members: 1 },
+      { rank: 4, teamId: 4, name: 'Team Ale', score: 0, count: 0, members: 0 },
+    ], 'The last 7 days');
+
+    expect(text).toContain('*The last 7 days*');
+    expect(text).toContain('\u{1F947} **Team Gin** - 40pts (4 tributes, 3 members)');
+    expect(text).toContain('\u{1F948} **Team Rum** - 20pts (2 tributes, 1 member)');
+    expect(text).toContain('4. **Team Ale** - 0pts');
+  });
+
+  it('says so when there are no teams', () => {
+    expect(formatTeamStandings([])).toContain('No teams have been formed');
+  });
+});
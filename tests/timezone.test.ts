@@ -0,0 +1,154 @@
+/**
+ * Unit tests for src/services/timezone.ts and the timezone-aware date
+ * helpers in src/db.ts (getCurrentFridayKey, isFriday, getTodayKey)
+ *
+ * src/db.ts only logs (never throws) when DATABASE_URL is absent, so the
+ * import is safe here. The db helpers read the clock, so they run under
+ * vitest's fake timers.
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+  DEFAULT_TIMEZONE,
+  isValidTimeZone,
+  getZonedParts,
+  getDateKey,
+  getWeekday,
+  getFridayKey,
+  zonedTimeToDate,
+  parseZonedDateTime,
+} from '../src/services/timezone';
+import { getCurrentFridayKey, isFriday, getTodayKey } from '../src/db';
+
+// 2026-10-23 is a Friday; Stockholm is UTC+2 until DST ends on 2026-10-25
+
+// ─── Pure helpers ─────────────────────────────────────────────────────────────
+
+describe('isValidTimeZone', () => {
+  it('accepts IANA zones and rejects junk', () => {
+    expect(isValidTimeZone('Europe/Stockholm')).toBe(true);
+    expect(isValidTimeZone('America/New_York')).toBe(true);
+    expect(isValidTimeZone('UTC')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+    expect(isValidTimeZone('')).toBe(false);
+  });
+});
+
+describe('getZonedParts', () => {
+  it('reports local midnight as hour 0', () => {
+    const parts = getZonedParts(new Date('2026-10-23T22:00:00Z'), 'Europe/Stockholm');
+    expect(parts).toEqual({ year: 2026, month: 10, day: 24, hour: 0, minute: 0, weekday: 6 });
+  });
+});
+
+describe('getDateKey / getWeekday', () => {
+  const lateFridayUtc = new Date('2026-10-23T22:30:00Z');
+
+  it('puts 00:30 Saturday Stockholm on Saturday', () => {
+    expect(getDateKey(lateFridayUtc, 'Europe/Stockholm')).toBe('2026-10-24');
+    expect(getWeekday(lateFridayUtc, 'Europe/Stockholm')).toBe(6);
+  });
+
+  it('keeps the same instant on Friday in UTC', () => {
+    expect(getDateKey(lateFridayUtc, 'UTC')).toBe('2026-10-23');
+    expect(getWeekday(lateFridayUtc, 'UTC')).toBe(5);
+  });
+});
+
+describe('getFridayKey', () => {
+  it('returns the same day on a Friday', () => {
+    expect(getFridayKey(new Date('2026-10-23T12:00:00Z'), 'Europe/Stockholm')).toBe('2026-10-23');
+  });
+
+  it('returns the previous Friday for the rest of the week', () => {
+    expect(getFridayKey(new Date('2026-10-24T12:00:00Z'), 'Europe/Stockholm')).toBe('2026-10-23');
+    expect(getFridayKey(new Date('2026-10-29T12:00:00Z'), 'Europe/Stockholm')).toBe('2026-10-23');
+  });
+
+  it('starts the new Friday at local midnight', () => {
+    // Thursday 23:30 UTC is already Friday 01:30 in Stockholm
+    const instant = new Date('2026-10-22T23:30:00Z');
+    expect(getFridayKey(instant, 'Europe/Stockholm')).toBe('2026-10-23');
+    expect(getFridayKey(instant, 'UTC')).toBe('2026-10-16');
+  });
+
+  it('is unaffected by the DST change', () => {
+    expect(getFridayKey(new Date('2026-10-25T12:00:00Z'), 'Europe/Stockholm')).toBe('2026-10-23');
+    expect(getFridayKey(new Date('2026-10-26T00:30:00Z'), 'Europe/Stockholm')).toBe('2026-10-23');
+  });
+
+  it('crosses month and year boundaries', () => {
+    expect(getFridayKey(new Date('2027-01-01T12:00:00Z'), 'UTC')).toBe('2027-01-01');
+    expect(getFridayKey(new Date('2026-12-31T12:00:00Z'), 'UTC')).toBe('2026-12-25');
+  });
+});
+
+describe('zonedTimeToDate', () => {
+  it('applies the zone offset, including DST', () => {
+    // Stockholm is UTC+1 in March and UTC+2 in October
+    expect(zonedTimeToDate(2026, 3, 14, 18, 0, 'Europe/Stockholm').toISOString()).toBe('2026-03-14T17:00:00.000Z');
+    expect(zonedTimeToDate(2026, 10, 23, 18, 0, 'Europe/Stockholm').toISOString()).toBe('2026-10-23T16:00:00.000Z');
+    expect(zonedTimeToDate(2026, 10, 23, 18, 0, 'America/New_York').toISOString()).toBe('2026-10-23T22:00:00.000Z');
+  });
+
+  it('moves a time skipped by the spring jump forward', () => {
+    // 02:30 does not exist in Stockholm on 2026-03-29
+    expect(zonedTimeToDate(2026, 3, 29, 2, 30, 'Europe/Stockholm').toISOString()).toBe('2026-03-29T01:30:00.000Z');
+  });
+});
+
+describe('parseZonedDateTime', () => {
+  it('reads local times in the timezone', () => {
+    expect(parseZonedDateTime('2026-03-14 18:00', 'Europe/Stockholm')?.toISOString()).toBe('2026-03-14T17:00:00.000Z');
+    expect(parseZonedDateTime('2026-03-14T18:00:00', 'UTC')?.toISOString()).toBe('2026-03-14T18:00:00.000Z');
+  });
+
+  it('keeps explicit offsets', () => {
+    expect(parseZonedDateTime('2026-03-14T18:00:00Z', 'Europe/Stockholm')?.toISOString()).toBe('2026-03-14T18:00:00.000Z');
+    expect(parseZonedDateTime('2026-03-14T18:00:00+05:00', 'UTC')?.toISOString()).toBe('2026-03-14T13:00:00.000Z');
+  });
+
+  it('rejects malformed or impossible dates', () => {
+    expect(parseZonedDateTime('tomorrow', 'UTC')).toBeNull();
+    expect(parseZonedDateTime('2026-02-30 18:00', 'UTC')).toBeNull();
+    expect(parseZonedDateTime('2026-03-14 24:00', 'UTC')).toBeNull();
+  });
+});
+
+// ─── db helpers (fake clock) ──────────────────────────────────────────────────
+
+describe('db date helpers', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('uses the default timezone when none is given', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-10-23T22:30:00Z'));
+
+    expect(DEFAULT_TIMEZONE).toBe('Europe/Stockholm');
+    expect(isFriday()).toBe(false);
+    expect(getTodayKey()).toBe('2026-10-24');
+    expect(getCurrentFridayKey()).toBe('2026-10-23');
+  });
+
+  it('buckets a Saturday-morning Stockholm tribute into Saturday, not Friday', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-10-23T22:30:00Z'));
+
+    expect(isFriday('Europe/Stockholm')).toBe(false);
+    expect(isFriday('UTC')).toBe(true);
+  });
+
+  it('follows the guild timezone for the Friday key', () => {
+    vi.useFakeTimers();
+    // Friday 02:00 UTC is still Thursday evening in New York
+    vi.setSystemTime(new Date('2026-10-23T02:00:00Z'));
+
+    expect(getCurrentFridayKey('America/New_York')).toBe('2026-10-16');
+    expect(isFriday('America/New_York')).toBe(false);
+    expect(getCurrentFridayKey('Europe/Stockholm')).toBe('2026-10-23');
+    expect(isFriday('Europe/Stockholm')).toBe(true);
+    expect(getTodayKey('America/New_York')).toBe('2026-10-22');
+  });
+});
@@ -26,6 +26,16 @@ describe('getToolsForCapabilities', () => {
     expect(names).toContain('delete_scheduled_event');
   });
 
+  it('should add reminder tools alongside scheduling tools', () => {
+    const names = getToolsForCapabilities(['scheduled_messages'], { isDM: true }).map(t => t.function.name);
+    expect(names).toContain('create_reminder');
+    expect(names).toContain('list_my_reminders');
+    expect(names).toContain('cancel_reminder');
+
+    const without = getToolsForCapabilities(['knowledge']).map(t => t.function.name);
+    expect(without).not.toContain('create_reminder');
+  });
+
   it('should add knowledge tools when knowledge is enabled', () => {
     const tools = getToolsForCapabilities(['knowledge']);
     const names = tools.map(t => t.function.name);
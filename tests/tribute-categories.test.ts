@@ -0,0 +1,88 @@
+/**
+ * Unit tests for the pure helpers in src/services/tributeCategories.ts
+ *
+ * The module imports `sql` from src/db.ts, which only logs (never throws)
+ * when DATABASE_URL is absent, so the import is safe here.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_CATEGORIES,
+  normalizeCategoryKey,
+  mergeCategories,
+  resolveCategoryKey,
+  type TributeCategory,
+} from '../src/services/tributeCategories';
+
+function makeCategory(overrides: Partial<TributeCategory> = {}): TributeCategory {
+  return {
+    id: 1,
+    guildId: 'g1',
+    key: 'RUM_NEAT',
+    label: 'Rum neat',
+    description: '',
+    defaultPoints: 3,
+    sortOrder: 50,
+    isActive: true,
+    ...overrides,
+  };
+}
+
+// ─── normalizeCategoryKey ───────────────────────────────────────────────────
+
+describe('normalizeCategoryKey', () => {
+  it('upper-snake-cases labels', () => {
+    expect(normalizeCategoryKey('Non-alcoholic craft')).toBe('NON_ALCOHOLIC_CRAFT');
+    expect(normalizeCategoryKey('  Rum neat ')).toBe('RUM_NEAT');
+  });
+
+  it('strips accents and punctuation', () => {
+    expect(normalizeCategoryKey('Café crème!')).toBe('CAFE_CREME');
+    expect(normalizeCategoryKey('Beer/Wine')).toBe('BEER_WINE');
+  });
+});
+
+// ─── mergeCategories ────────────────────────────────────────────────────────
+
+describe('mergeCategories', () => {
+  it('adds guild categories to the global list in sort order', () => {
+    const merged = mergeCategories(DEFAULT_CATEGORIES, [makeCategory()]);
+    expect(merged.map(c => c.key)).toEqual(['TIKI', 'COCKTAIL', 'BEER_WINE', 'RUM_NEAT', 'OTHER']);
+  });
+
+  it('lets a guild override a global category with the same key', () => {
+    const merged = mergeCategories(DEFAULT_CATEGORIES, [
+      makeCategory({ key: 'TIKI', label: 'Tiki (house rules)', sortOrder: 10 }),
+    ]);
+    expect(merged.find(c => c.key === 'TIKI')?.label).toBe('Tiki (house rules)');
+  });
+
+  it('hides categories disabled at guild level', () => {
+    const merged = mergeCategories(DEFAULT_CATEGORIES, [
+      makeCategory({ key: 'BEER_WINE', isActive: false }),
+    ]);
+    expect(merged.map(c => c.key)).not.toContain('BEER_WINE');
+  });
+
+  it('always keeps the OTHER fallback', () => {
+    const merged = mergeCategories([], [makeCategory()]);
+    expect(merged.map(c => c.key)).toEqual(['RUM_NEAT', 'OTHER']);
+  });
+});
+
+// ─── resolveCategoryKey ─────────────────────────────────────────────────────
+
+describe('resolveCategoryKey', () => {
+  const categories = mergeCategories(DEFAULT_CATEGORIES, [makeCategory()]);
+
+  it('matches keys and labels loosely', () => {
+    expect(resolveCategoryKey('TIKI', categories)).toBe('TIKI');
+    expect(resolveCategoryKey('rum neat', categories)).toBe('RUM_NEAT');
+  });
+
+  it('falls back to OTHER for unknown or missing values', () => {
+    expect(resolveCategoryKey('SPACE_JUICE', categories)).toBe('OTHER');
+    expect(resolveCategoryKey(null, categories)).toBe('OTHER');
+    expect(resolveCategoryKey('', categories)).toBe('OTHER');
+  });
+});
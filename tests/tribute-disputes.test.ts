@@ -0,0 +1,68 @@
+/**
+ * Unit tests for the pure helpers in src/services/tributeDisputes.ts
+ *
+ * tributeDisputes.ts imports `sql` from src/db.ts, which only logs (never
+ * throws) when DATABASE_URL is absent, so the import is safe here.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { isDisputeEmoji, resolveDisputeCorrection } from '../src/services/tributeDisputes';
+import { DEFAULT_SCORING_RULES, normalizeScoringRules } from '../src/services/scoringRules';
+
+// ─── isDisputeEmoji ─────────────────────────────────────────────────────────
+
+describe('isDisputeEmoji', () => {
+  it('accepts the scales emoji with and without the variation selector', () => {
+    expect(isDisputeEmoji('⚖️')).toBe(true);
+    expect(isDisputeEmoji('⚖')).toBe(true);
+  });
+
+  it('rejects other emoji and missing names', () => {
+    expect(isDisputeEmoji('👍')).toBe(false);
+    expect(isDisputeEmoji(null)).toBe(false);
+    expect(isDisputeEmoji(undefined)).toBe(false);
+  });
+});
+
+// ─── resolveDisputeCorrection ───────────────────────────────────────────────
+
+describe('resolveDisputeCorrection', () => {
+  const zombieAsCocktail = { category: 'COCKTAIL', drinkName: 'Zombie', isFriday: false };
+
+  it('applies the user proposal and rescores from the rules', () => {
+    const correction = resolveDisputeCorrection(zombieAsCocktail, { category: 'TIKI' }, {}, DEFAULT_SCORING_RULES);
+    expect(correction).toEqual({ category: 'TIKI', drinkName: 'Zombie', score: 10 });
+  });
+
+  it('lets admin overrides win over the proposal', () => {
+    const correction = resolveDisputeCorrection(
+      zombieAsCocktail,
+      { category: 'TIKI', drinkName: 'Zombie' },
+      { category: 'BEER_WINE', drinkName: 'Pilsner' },
+      DEFAULT_SCORING_RULES
+    );
+    expect(correction).toEqual({ category: 'BEER_WINE', drinkName: 'Pilsner', score: 2 });
+  });
+
+  it('uses an explicit score override as-is', () => {
+    const correction = resolveDisputeCorrection(zombieAsCocktail, { category: 'TIKI' }, { score: 7 }, DEFAULT_SCORING_RULES);
+    expect(correction.score).toBe(7);
+  });
+
+  it('keeps the Friday multiplier and drink overrides of the original tribute', () => {
+    const rules = normalizeScoringRules({ multipliers: { friday: 2 }, drinkOverrides: { 'mai tai': 12 } });
+    const correction = resolveDisputeCorrection(
+      { category: 'COCKTAIL', drinkName: null, isFriday: true },
+      { category: 'TIKI', drinkName: 'Mai Tai' },
+      {},
+      rules
+    );
+    expect(correction.score).toBe(24);
+  });
+
+  it('clears the drink name when the admin blanks it', () => {
+    const correction = resolveDisputeCorrection(zombieAsCocktail, {}, { drinkName: '' }, DEFAULT_SCORING_RULES);
+    expect(correction.drinkName).toBeNull();
+    expect(correction.category).toBe('COCKTAIL');
+  });
+});
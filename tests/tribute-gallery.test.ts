@@ -0,0 +1,72 @@
+/**
+ * Unit tests for parseGalleryFilters in src/services/tributeGallery.ts
+ *
+ * tributeGallery.ts imports `sql` from src/db.ts, which only logs (never
+ * throws) when DATABASE_URL is absent, so the import is safe here.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseGalleryFilters,
+  DEFAULT_GALLERY_PAGE_SIZE,
+  MAX_GALLERY_PAGE_SIZE,
+} from '../src/services/tributeGallery';
+
+const parse = (query: string) => parseGalleryFilters(new URLSearchParams(query));
+
+// ─── parseGalleryFilters ──────────────────────────────────────────────────────
+
+describe('parseGalleryFilters', () => {
+  it('defaults to the first page with no filters', () => {
+    expect(parse('')).toEqual({
+      guildId: undefined,
+      userId: undefined,
+      category: undefined,
+      from: undefined,
+      to: undefined,
+      isFriday: undefined,
+      page: 1,
+      pageSize: DEFAULT_GALLERY_PAGE_SIZE,
+    });
+  });
+
+  it('reads every filter', () => {
+    expect(parse('guildId=g1&userId=u1&category=tiki&from=2026-10-01&to=2026-10-31&friday=true&page=3&pageSize=12'))
+      .toEqual({
+        guildId: 'g1',
+        userId: 'u1',
+        category: 'TIKI',
+        from: '2026-10-01',
+        to: '2026-10-31',
+        isFriday: true,
+        page: 3,
+        pageSize: 12,
+      });
+  });
+
+  it('treats blank values as unset', () => {
+    const filters = parse('guildId=&userId=%20%20&category=');
+    expect(filters.guildId).toBeUndefined();
+    expect(filters.userId).toBeUndefined();
+    expect(filters.category).toBeUndefined();
+  });
+
+  it('drops malformed dates', () => {
+    const filters = parse('from=10/01/2026&to=2026-13-45');
+    expect(filters.from).toBeUndefined();
+    expect(filters.to).toBeUndefined();
+  });
+
+  it('only accepts true or false for the Friday flag', () => {
+    expect(parse('friday=false').isFriday).toBe(false);
+    expect(parse('friday=yes').isFriday).toBeUndefined();
+  });
+
+  it('clamps page and page size', () => {
+    expect(parse('page=0').page).toBe(1);
+    expect(parse('page=-4').page).toBe(1);
+    expect(parse('page=abc').page).toBe(1);
+    expect(parse('pageSize=5000').pageSize).toBe(MAX_GALLERY_PAGE_SIZE);
+    expect(parse('pageSize=-1').pageSize).toBe(1);
+  });
+});
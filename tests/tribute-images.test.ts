@@ -0,0 +1,122 @@
+/**
+ * Unit tests for src/services/tributeImages.ts and src/services/blobStorage.ts
+ *
+ * Neither module touches the database. Image details are read from the
+ * fixtures in tests/fixtures/images; the local backend writes to a temp dir.
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { readFileSync, existsSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { createHash } from 'crypto';
+import { describeImage, buildImageKey } from '../src/services/tributeImages';
+import { createLocalStorage, signS3Put, type S3StorageConfig } from '../src/services/blobStorage';
+
+const FIXTURES = path.join(__dirname, 'fixtures', 'images');
+
+function fixture(name: string): Buffer {
+  return readFileSync(path.join(FIXTURES, name));
+}
+
+// ─── describeImage ────────────────────────────────────────────────────────────
+
+describe('describeImage', () => {
+  it('reads dimensions and type from PNG bytes', async () => {
+    const bytes = fixture('tiki-mug.png');
+    const details = await describeImage(bytes);
+
+    expect(details).toEqual({
+      sha256: createHash('sha256').update(bytes).digest('hex'),
+      width: 320,
+      height: 240,
+      mimeType: 'image/png',
+    });
+  });
+
+  it('trusts the bytes over a wrong Content-Type', async () => {
+    const details = await describeImage(fixture('tiki-mug-small.jpg'), 'image/png');
+    expect(details.mimeType).toBe('image/jpeg');
+    expect([details.width, details.height]).toEqual([160, 120]);
+  });
+
+  it('falls back to the Content-Type for undecodable bytes', async () => {
+    const details = await describeImage(Buffer.from('not an image'), 'image/heic; charset=binary');
+    expect(details.width).toBeNull();
+    expect(details.height).toBeNull();
+    expect(details.mimeType).toBe('image/heic');
+  });
+});
+
+// ─── buildImageKey ────────────────────────────────────────────────────────────
+
+describe('buildImageKey', () => {
+  it('addresses images by content hash', () => {
+    const sha256 = 'ab'.padEnd(64, '0');
+    expect(buildImageKey({ sha256, mimeType: 'image/jpeg' })).toBe(`tributes/ab/${sha256}.jpg`);
+    expect(buildImageKey({ sha256, mimeType: 'application/octet-stream' })).toBe(`tributes/ab/${sha256}.bin`);
+  });
+});
+
+// ─── local storage ────────────────────────────────────────────────────────────
+
+describe('createLocalStorage', () => {
+  let dir: string | null = null;
+
+  afterEach(() => {
+    if (dir) rmSync(dir, { recursive: true, force: true });
+    dir = null;
+  });
+
+  it('writes the file and returns its public URL', async () => {
+    dir = mkdtempSync(path.join(tmpdir(), 'mutumbot-blobs-'));
+    const storage = createLocalStorage(dir, 'https://img.example.com/');
+
+    const url = await storage.put('tributes/ab/abc.png', Buffer.from('png'), 'image/png');
+
+    expect(url).toBe('https://img.example.com/tributes/ab/abc.png');
+    expect(readFileSync(path.join(dir, 'tributes', 'ab', 'abc.png'), 'utf8')).toBe('png');
+  });
+
+  it('refuses keys that escape the directory', async () => {
+    dir = mkdtempSync(path.join(tmpdir(), 'mutumbot-blobs-'));
+    const storage = createLocalStorage(dir, 'https://img.example.com');
+
+    await expect(storage.put('../escape.png', Buffer.from('x'), 'image/png')).rejects.toThrow('Invalid storage key');
+    expect(existsSync(path.join(dir, '..', 'escape.png'))).toBe(false);
+  });
+});
+
+// ─── signS3Put ────────────────────────────────────────────────────────────────
+
+describe('signS3Put', () => {
+  const config: S3StorageConfig = {
+    endpoint: 'https://s3.eu-north-1.amazonaws.com',
+    region: 'eu-north-1',
+    bucket: 'mutumbot',
+    accessKeyId: 'AKIDEXAMPLE',
+    secretAccessKey: 'wJalrXUtnFEMI/K7MDENG+bPxRfiCYEXAMPLEKEY',
+  };
+  const now = new Date('2026-10-23T18:30:00Z');
+  const data = Buffer.from('tribute');
+
+  it('signs a path-style PUT', () => {
+    const { url, headers } = signS3Put(config, 'tributes/ab/abc.jpg', data, 'image/jpeg', now);
+
+    expect(url).toBe('https://s3.eu-north-1.amazonaws.com/mutumbot/tributes/ab/abc.jpg');
+    expect(headers['x-amz-date']).toBe('20261023T183000Z');
+    expect(headers['x-amz-content-sha256']).toBe(createHash('sha256').update(data).digest('hex'));
+    expect(headers['content-type']).toBe('image/jpeg');
+    expect(headers.authorization).toMatch(
+      /^AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE\/20261023\/eu-north-1\/s3\/aws4_request, SignedHeaders=content-type;host;x-amz-content-sha256;x-amz-date, Signature=[0-9a-f]{64}$/
+    );
+  });
+
+  it('is deterministic and depends on the secret', () => {
+    const sign = (secretAccessKey: string) =>
+      signS3Put({ ...config, secretAccessKey }, 'k.jpg', data, 'image/jpeg', now).headers.authorization;
+
+    expect(sign('secret-a')).toBe(sign('secret-a'));
+    expect(sign('secret-a')).not.toBe(sign('secret-b'));
+  });
+});
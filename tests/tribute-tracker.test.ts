@@ -0,0 +1,66 @@
+/**
+ * Unit tests for the pure helpers in src/tribute-tracker.ts
+ *
+ * tribute-tracker.ts imports `sql` from src/db.ts, which only logs (never
+ * throws) when DATABASE_URL is absent, so the import is safe here.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  formatGalleryTributeSummary,
+  MAX_TRIBUTE_IMAGES,
+  type GalleryEntry,
+} from '../src/tribute-tracker';
+
+// ─── formatGalleryTributeSummary ──────────────────────────────────────────────
+
+describe('formatGalleryTributeSummary', () => {
+  const recorded: GalleryEntry[] = [
+    { position: 1, outcome: 'recorded', tributeId: 11, category: 'TIKI', drinkName: 'Mai Tai', score: 6 },
+    { position: 2, outcome: 'recorded', tributeId: 12, category: 'BEER_WINE', score: 2, similar: true },
+  ];
+
+  it('lists every drink with its points and the total', () => {
+    const text = formatGalleryTributeSummary('Ana', recorded, 'u1');
+
+    expect(text).toContain('**Ana** presents a FLIGHT of 2 offerings!');
+    expect(text).toContain('1. **Mai Tai** (Tiki) - 6pts `#11`');
+    expect(text).toContain('2. **Unnamed libation** (Beer/Wine) - 2pts `#12` · *suspiciously familiar*');
+    expect(text).toContain('**Total:** 8pts from 2 tributes');
+  });
+
+  it('explains refused images', () => {
+    const text = formatGalleryTributeSummary('Ana', [
+      recorded[0],
+      { position: 2, outcome: 'duplicate', duplicateOwnerId: 'u2' },
+      { position: 3, outcome: 'duplicate', duplicateOwnerId: 'u1' },
+      { position: 4, outcome: 'repeated' },
+    ], 'u1');
+
+    expect(text).toContain('2. ~~Refused~~ - <@u2> already offered this photo');
+    expect(text).toContain('3. ~~Refused~~ - you already offered this photo');
+    expect(text).toContain('4. ~~Refused~~ - the same photo twice in one offering');
+    expect(text).toContain('**Total:** 6pts from 1 tribute');
+  });
+
+  it('says so when nothing was accepted', () => {
+    const text = formatGalleryTributeSummary('Ana', [
+      { position: 1, outcome: 'repeated' },
+      { position: 2, outcome: 'duplicate', duplicateOwnerId: 'u2' },
+    ], 'u1');
+
+    expect(text).toContain('the spirits accept NONE of these offerings');
+    expect(text).not.toContain('**Total:**');
+  });
+
+  it('mentions ignored images past the cap', () => {
+    const text = formatGalleryTributeSummary('Ana', recorded, 'u1', undefined, 2);
+    expect(text).toContain(`at most ${MAX_TRIBUTE_IMAGES} offerings per message. 2 more were ignored.`);
+  });
+
+  it('warns when some tributes failed to record', () => {
+    const text = formatGalleryTributeSummary('Ana', [recorded[0], { position: 2, outcome: 'failed' }], 'u1');
+    expect(text).toContain('2. ⚠️ Witnessed but NOT recorded');
+    expect(text).toContain('failed to record some tributes');
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Unit tests for the pure helpers in src/services/tributeTransfer.ts
+ *
+ * tributeTransfer.ts imports `sql` from src/db.ts, which only logs (never
+ * throws) when DATABASE_URL is absent, so the import is safe here.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  tributesToCsv,
+  parseCsv,
+  parseTributeImport,
+  normalizeImportRecord,
+  diffTributeRows,
+  formatImportReport,
+  getRawGuildId,
+  type TributeExportRow,
+} from '../src/services/tributeTransfer';
+import { DEFAULT_SCORING_RULES } from '../src/services/scoringRules';
+
+const context = { timeZone: 'Europe/Stockholm', rules: DEFAULT_SCORING_RULES };
+
+function row(overrides: Partial<TributeExportRow> = {}): TributeExportRow {
+  return {
+    id: 7,
+    userId: 'u1',
+    username: 'Ana',
+    guildId: 'g1',
+    channelId: 'c1',
+    isDm: false,
+    category: 'TIKI',
+    drinkName: 'Mai Tai',
+    description: 'A mug, "flaming", with a\nparasol',
+    aiResponse: null,
+    score: 10,
+    fridayKey: '2026-10-23',
+    isFriday: true,
+    imageUrl: 'https://img.example.com/a.jpg',
+    sourceImageUrl: null,
+    imageHash: 'ffffffffffffffff',
+    imageSha256: null,
+    imageWidth: 320,
+    imageHeight: 240,
+    imageMime: 'image/jpeg',
+    createdAt: '2026-10-23T18:30:00.000Z',
+    ...overrides,
+  };
+}
+
+function normalized(raw: unknown): TributeExportRow {
+  const result = normalizeImportRecord(raw, context);
+  if ('error' in result) throw new Error(result.error);
+  return result.row;
+}
+
+// ─── CSV ──────────────────────────────────────────────────────────────────────
+
+describe('parseCsv', () => {
+  it('handles quoted commas, escaped quotes and line breaks', () => {
+    const csv = 'a,b,c\r\n1,"x, y","say ""hi""\nagain"\n2,,z\n';
+    expect(parseCsv(csv)).toEqual([
+      { a: '1', b: 'x, y', c: 'say "hi"\nagain' },
+      { a: '2', c: 'z' },
+    ]);
+  });
+
+  it('ignores a byte order mark and blank lines', () => {
+    expect(parseCsv('\uFEFFa,b\n\n1,2\n\n')).toEqual([{ a: '1', b: '2' }]);
+  });
+
+  it('returns nothing for an empty file', () => {
+    expect(parseCsv('')).toEqual([]);
+  });
+});
+
+describe('tributesToCsv', () => {
+  it('round-trips through import normalization', () => {
+    const original = row();
+    const [parsed] = parseCsv(tributesToCsv([original]));
+    expect(normalized(parsed)).toEqual(original);
+  });
+});
+
+// ─── parseTributeImport ───────────────────────────────────────────────────────
+
+describe('parseTributeImport', () => {
+  it('accepts arrays, exports and legacy Friday statuses', () => {
+    expect(parseTributeImport('[{"userId":"u1"}]', 'json')).toEqual([{ userId: 'u1' }]);
+    expect(parseTributeImport('{"count":1,"tributes":[{"userId":"u1"}]}', 'json')).toEqual([{ userId: 'u1' }]);
+    expect(parseTributeImport('{"date":"2026-10-23","posts":[{"userId":"u1"}]}', 'json')).toEqual([{ userId: 'u1' }]);
+  });
+
+  it('rejects other JSON', () => {
+    expect(() => parseTributeImport('{"foo":1}', 'json')).toThrow('Expected a JSON array');
+    expect(() => parseTributeImport('not json', 'json')).toThrow();
+  });
+});
+
+// ─── normalizeImportRecord ────────────────────────────────────────────────────
+
+describe('normalizeImportRecord', () => {
+  it('fills in a legacy BeerPost', () => {
+    // Friday 23:30 in Stockholm
+    const result = normalized({
+      userId: 'u1',
+      username: 'Ana',
+      timestamp: '2026-10-23T21:30:00Z',
+      imageUrl: 'https://cdn.discordapp.com/x.jpg',
+      guildId: 'g1',
+    });
+
+    expect(result).toMatchObject({
+      userId: 'u1',
+      username: 'Ana',
+      guildId: 'g1',
+      isDm: false,
+      category: 'OTHER',
+      score: DEFAULT_SCORING_RULES.categories.OTHER,
+      fridayKey: '2026-10-23',
+      isFriday: true,
+      imageUrl: 'https://cdn.discordapp.com/x.jpg',
+      createdAt: '2026-10-23T21:30:00.000Z',
+    });
+  });
+
+  it('derives the Friday fields in the guild timezone', () => {
+    // Friday 22:30 UTC is already Saturday in Stockholm
+    const result = normalized({ userId: 'u1', guildId: 'g1', timestamp: '2026-10-23T22:30:00Z' });
+    expect(result.isFriday).toBe(false);
+    expect(result.fridayKey).toBe('2026-10-23');
+    expect(result.username).toBe('u1');
+  });
+
+  it('reads snake_case columns and computes a missing score', () => {
+    const result = normalized({
+      user_id: 'u2',
+      guild_id: 'dm',
+      created_at: '2026-10-20T12:00:00Z',
+      category: 'tiki',
+      drink_name: 'Zombie',
+      is_friday: 'f',
+    });
+    expect(result).toMatchObject({ userId: 'u2', guildId: 'dm', isDm: true, category: 'TIKI', drinkName: 'Zombie', score: 10 });
+  });
+
+  it('reports what is missing or malformed', () => {
+    expect(normalizeImportRecord({ guildId: 'g1', timestamp: '2026-10-23' }, context)).toEqual({ error: 'userId is required' });
+    expect(normalizeImportRecord({ userId: 'u1', timestamp: '2026-10-23' }, context)).toEqual({ error: 'guildId is required' });
+    expect(normalizeImportRecord({ userId: 'u1', guildId: 'g1' }, context)).toEqual({ error: 'createdAt (or timestamp) is required' });
+    expect(normalizeImportRecord({ userId: 'u1', guildId: 'g1', createdAt: 'soon' }, context)).toEqual({ error: 'Invalid createdAt "soon"' });
+    expect(normalizeImportRecord({ userId: 'u1', guildId: 'g1', createdAt: '2026-10-23', score: -1 }, context)).toEqual({ error: 'score cannot be negative' });
+    expect(normalizeImportRecord('nope', context)).toEqual({ error: 'Record is not an object' });
+  });
+});
+
+describe('getRawGuildId', () => {
+  it('reads either spelling', () => {
+    expect(getRawGuildId({ guildId: 'g1' })).toBe('g1');
+    expect(getRawGuildId({ guild_id: 'g2' })).toBe('g2');
+    expect(getRawGuildId(null)).toBeNull();
+  });
+});
+
+// ─── Conflicts and reports ────────────────────────────────────────────────────
+
+describe('diffTributeRows', () => {
+  it('lists changed fields', () => {
+    expect(diffTributeRows(row(), row())).toEqual([]);
+    expect(diffTributeRows(row(), row({ score: 5, drinkName: null }))).toEqual([
+      'drinkName: Mai Tai -> (none)',
+      'score: 10 -> 5',
+    ]);
+  });
+});
+
+describe('formatImportReport', () => {
+  it('summarizes a dry run with problems', () => {
+    const text = formatImportReport({
+      dryRun: true,
+      total: 4,
+      inserted: 1,
+      skipped: 1,
+      conflicts: [{ index: 2, userId: 'u1', guildId: 'g1', createdAt: '2026-10-23T18:30:00.000Z', existingId: 42, differences: ['score: 10 -> 5'] }],
+      invalid: [{ index: 3, error: 'userId is required' }],
+    });
+
+    expect(text).toContain('Dry run: 4 records read');
+    expect(text).toContain('Would insert: 1');
+    expect(text).toContain('! #3 matches tribute 42 (u1 at 2026-10-23T18:30:00.000Z): score: 10 -> 5');
+    expect(text).toContain('x #4: userId is required');
+  });
+});